@@ -0,0 +1,196 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { ResponsiveContainer, BarChart, Bar, AreaChart, Area, XAxis, YAxis, Tooltip, ReferenceArea, CartesianGrid } from 'recharts';
+import type { MouseHandlerDataParam } from 'recharts';
+import { BarChart3, X } from 'lucide-react';
+import { ActivityGranularity, ActivityRange, Commit } from '../types';
+import { bucketCommits, chartedAuthors, commitHeatmap, defaultGranularity, formatRange, OTHER_AUTHORS } from '../services/commitActivity';
+
+interface ActivityPanelProps {
+  commits: Commit[];
+  range: ActivityRange | null;
+  onRangeChange: (range: ActivityRange | null) => void;
+}
+
+const AUTHOR_COLORS = ['#3b82f6', '#22c55e', '#f59e0b', '#a855f7', '#ec4899', '#14b8a6'];
+const OTHERS_COLOR = '#6b7280';
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+const axisTick = { fill: '#8b8b94', fontSize: 10 };
+const tooltipStyle = {
+  backgroundColor: 'hsl(var(--surface-1))',
+  border: '1px solid hsl(var(--surface-2))',
+  borderRadius: 6,
+  fontSize: 12,
+};
+
+const ChartCard: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <div className="bg-[hsl(var(--bg))] border border-[hsl(var(--surface-2))] rounded-lg p-3 flex flex-col h-[240px] select-none">
+    <div className="text-[10px] uppercase tracking-wider text-[hsl(var(--text-dim))] mb-2">{title}</div>
+    <div className="flex-1 min-h-0">{children}</div>
+  </div>
+);
+
+export const ActivityPanel: React.FC<ActivityPanelProps> = ({ commits, range, onRangeChange }) => {
+  const [granularity, setGranularity] = useState<ActivityGranularity>(() => defaultGranularity(commits));
+  // Bucket indices of an in-progress drag across any of the charts
+  const [drag, setDrag] = useState<{ from: number; to: number } | null>(null);
+
+  useEffect(() => {
+    setGranularity(defaultGranularity(commits));
+  }, [commits]);
+
+  const buckets = useMemo(() => bucketCommits(commits, granularity), [commits, granularity]);
+  const authors = useMemo(() => chartedAuthors(commits), [commits]);
+  const heatmap = useMemo(() => commitHeatmap(commits), [commits]);
+  const heatmapMax = Math.max(1, ...heatmap.flat());
+
+  // Recharts keys the x axis by bucket start so weeks in different years never collide
+  const data = useMemo(() => buckets.map(b => ({
+    ...b,
+    key: String(b.start),
+    deletions: b.deletions === null ? null : -b.deletions,
+  })), [buckets]);
+  // Some backends only fetch line stats for part of the history
+  const withStats = useMemo(() => commits.filter(c => c.stats).length, [commits]);
+  const labelFor = (key: string) => buckets.find(b => String(b.start) === key)?.label || key;
+
+  const selected = drag
+    ? [Math.min(drag.from, drag.to), Math.max(drag.from, drag.to)]
+    : range
+      ? [buckets.findIndex(b => b.end > range.start), buckets.map(b => b.start < range.end).lastIndexOf(true)]
+      : null;
+  const highlight = selected && selected[0] >= 0 && selected[1] >= selected[0]
+    ? <ReferenceArea x1={data[selected[0]].key} x2={data[selected[1]].key} fill="#3b82f6" fillOpacity={0.15} strokeOpacity={0} />
+    : null;
+
+  const indexOf = (state: MouseHandlerDataParam) => {
+    const index = Number(state?.activeTooltipIndex);
+    return Number.isInteger(index) && index >= 0 && index < buckets.length ? index : null;
+  };
+  const chartEvents = {
+    onMouseDown: (state: MouseHandlerDataParam) => {
+      const index = indexOf(state);
+      if (index !== null) setDrag({ from: index, to: index });
+    },
+    onMouseMove: (state: MouseHandlerDataParam) => {
+      const index = indexOf(state);
+      if (drag && index !== null && index !== drag.to) setDrag({ ...drag, to: index });
+    },
+    onMouseUp: () => {
+      if (!drag) return;
+      const [from, to] = [Math.min(drag.from, drag.to), Math.max(drag.from, drag.to)];
+      setDrag(null);
+      onRangeChange({ start: buckets[from].start, end: buckets[to].end });
+    },
+    onMouseLeave: () => setDrag(null),
+  };
+
+  const xAxis = <XAxis dataKey="key" tickFormatter={labelFor} tick={axisTick} minTickGap={16} />;
+  const tooltip = <Tooltip labelFormatter={label => labelFor(String(label))} contentStyle={tooltipStyle} cursor={{ fill: 'rgba(128,128,128,0.1)' }} />;
+
+  return (
+    <div className="bg-[hsl(var(--surface-1))] border border-[hsl(var(--surface-2))] rounded-xl p-6 shadow-sm flex flex-col">
+      <div className="flex flex-col md:flex-row justify-between md:items-center gap-4 mb-4 pb-4 border-b border-[hsl(var(--surface-2))]">
+        <h3 className="font-bold text-lg flex items-center gap-2"><BarChart3 size={20} className="text-[hsl(var(--primary))]"/> Activity</h3>
+        <div className="flex flex-wrap items-center gap-3 text-xs">
+          {range ? (
+            <span className="flex items-center gap-1 px-2 py-0.5 rounded border bg-blue-900/30 text-blue-300 border-blue-900/50">
+              Commits filtered to {formatRange(range)}
+              <button onClick={() => onRangeChange(null)} className="hover:text-[hsl(var(--text-main))]" title="Clear filter"><X size={12} /></button>
+            </span>
+          ) : (
+            <span className="text-[hsl(var(--text-dim))]">Click or drag across a chart to filter commits</span>
+          )}
+          <div className="flex bg-[hsl(var(--bg))] border border-[hsl(var(--surface-2))] rounded p-0.5">
+            {(['day', 'week'] as ActivityGranularity[]).map(g => (
+              <button key={g} onClick={() => setGranularity(g)} className={`px-2 py-0.5 rounded capitalize ${granularity === g ? 'bg-[hsl(var(--surface-2))] text-[hsl(var(--text-main))]' : 'text-[hsl(var(--text-dim))]'}`}>{g}</button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {!buckets.length ? (
+        <div className="text-sm text-[hsl(var(--text-dim))]">No dated commits to chart.</div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+          <ChartCard title={`Commits per ${granularity}`}>
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={data} {...chartEvents}>
+                <CartesianGrid strokeDasharray="3 3" stroke="rgba(128,128,128,0.15)" vertical={false} />
+                {xAxis}
+                <YAxis allowDecimals={false} tick={axisTick} width={28} />
+                {tooltip}
+                <Bar dataKey="commits" name="Commits" fill="#3b82f6" isAnimationActive={false} />
+                {highlight}
+              </BarChart>
+            </ResponsiveContainer>
+          </ChartCard>
+
+          <ChartCard title={withStats < commits.length ? `Lines added / deleted (${withStats} of ${commits.length} commits have line stats)` : 'Lines added / deleted'}>
+            <ResponsiveContainer width="100%" height="100%">
+              <AreaChart data={data} {...chartEvents}>
+                <CartesianGrid strokeDasharray="3 3" stroke="rgba(128,128,128,0.15)" vertical={false} />
+                {xAxis}
+                <YAxis tick={axisTick} width={44} tickFormatter={v => Math.abs(v).toLocaleString()} />
+                <Tooltip labelFormatter={label => labelFor(String(label))} formatter={(v: number) => Math.abs(v).toLocaleString()} contentStyle={tooltipStyle} />
+                <Area type="stepAfter" dataKey="additions" name="Additions" stroke="#22c55e" fill="#22c55e" fillOpacity={0.3} isAnimationActive={false} />
+                <Area type="stepAfter" dataKey="deletions" name="Deletions" stroke="#ef4444" fill="#ef4444" fillOpacity={0.3} isAnimationActive={false} />
+                {highlight}
+              </AreaChart>
+            </ResponsiveContainer>
+          </ChartCard>
+
+          <ChartCard title="Commits by contributor">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={data} {...chartEvents}>
+                <CartesianGrid strokeDasharray="3 3" stroke="rgba(128,128,128,0.15)" vertical={false} />
+                {xAxis}
+                <YAxis allowDecimals={false} tick={axisTick} width={28} />
+                {tooltip}
+                {authors.map((author, i) => (
+                  <Bar key={author} dataKey={(d: typeof data[number]) => d.byAuthor[author] || 0} name={author} stackId="authors" fill={author === OTHER_AUTHORS ? OTHERS_COLOR : AUTHOR_COLORS[i % AUTHOR_COLORS.length]} isAnimationActive={false} />
+                ))}
+                {highlight}
+              </BarChart>
+            </ResponsiveContainer>
+          </ChartCard>
+
+          <ChartCard title="Weekday × hour (local time)">
+            <div className="h-full flex flex-col justify-between">
+              <div className="grid gap-[2px]" style={{ gridTemplateColumns: '28px repeat(24, minmax(0, 1fr))' }}>
+                {heatmap.map((row, day) => (
+                  <React.Fragment key={WEEKDAYS[day]}>
+                    <div className="text-[10px] text-[hsl(var(--text-dim))] leading-[18px]">{WEEKDAYS[day]}</div>
+                    {row.map((count, hour) => (
+                      <div
+                        key={hour}
+                        title={`${WEEKDAYS[day]} ${String(hour).padStart(2, '0')}:00 — ${count} commit${count === 1 ? '' : 's'}`}
+                        className="h-[18px] rounded-sm bg-[hsl(var(--surface-2))]"
+                        style={count ? { backgroundColor: `rgba(59, 130, 246, ${0.15 + 0.85 * (count / heatmapMax)})` } : undefined}
+                      />
+                    ))}
+                  </React.Fragment>
+                ))}
+              </div>
+              <div className="grid text-[10px] text-[hsl(var(--text-dim))] font-mono" style={{ gridTemplateColumns: '28px repeat(4, minmax(0, 1fr))' }}>
+                <span />
+                {[0, 6, 12, 18].map(h => <span key={h}>{String(h).padStart(2, '0')}:00</span>)}
+              </div>
+            </div>
+          </ChartCard>
+        </div>
+      )}
+
+      {authors.length > 1 && buckets.length > 0 && (
+        <div className="flex flex-wrap gap-3 mt-3 text-xs text-[hsl(var(--text-dim))]">
+          {authors.map((author, i) => (
+            <span key={author} className="flex items-center gap-1.5">
+              <span className="w-2 h-2 rounded-sm" style={{ backgroundColor: author === OTHER_AUTHORS ? OTHERS_COLOR : AUTHOR_COLORS[i % AUTHOR_COLORS.length] }} />
+              {author}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
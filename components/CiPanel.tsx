@@ -0,0 +1,116 @@
+import React from 'react';
+import { Workflow, CheckCircle2, AlertTriangle, XCircle } from 'lucide-react';
+import { CiReport, CiRun } from '../types';
+import { formatMinutes } from '../services/ciAnalysis';
+
+interface CiPanelProps {
+  report: CiReport;
+}
+
+const SYSTEM_LABELS: Record<NonNullable<CiReport['system']>, string> = {
+  'github-actions': 'GitHub Actions',
+  'gitlab-ci': 'GitLab CI',
+};
+
+const passRateClass = (rate: number | null) =>
+  rate === null ? 'bg-[hsl(var(--surface-2))]' : rate >= 0.9 ? 'bg-green-500' : rate >= 0.7 ? 'bg-yellow-500' : 'bg-red-500';
+
+const ConclusionIcon: React.FC<{ conclusion: CiRun['conclusion'] | undefined }> = ({ conclusion }) => {
+  if (conclusion === 'success') return <CheckCircle2 size={14} className="text-green-500 shrink-0" />;
+  if (conclusion === 'failure') return <XCircle size={14} className="text-red-500 shrink-0" />;
+  return <span className="w-3.5 h-3.5 rounded-full border border-[hsl(var(--text-dim))] shrink-0" />;
+};
+
+export const CiPanel: React.FC<CiPanelProps> = ({ report }) => {
+  const checked = report.pullRequestChecks.filter(c => c.checks > 0).length;
+  const mergedFailing = report.pullRequestChecks.filter(c => c.merged && c.failing > 0).length;
+
+  return (
+    <div className="bg-[hsl(var(--surface-1))] border border-[hsl(var(--surface-2))] rounded-xl p-6 shadow-sm flex flex-col">
+      <div className="flex justify-between items-center mb-4 pb-4 border-b border-[hsl(var(--surface-2))]">
+        <h3 className="font-bold text-lg flex items-center gap-2"><Workflow size={20} className="text-[hsl(var(--primary))]"/> Continuous Integration</h3>
+        {report.system && <span className="text-xs font-mono text-[hsl(var(--text-dim))]">{SYSTEM_LABELS[report.system]}</span>}
+      </div>
+
+      {!report.workflows.length ? (
+        <div className="flex items-center gap-2 text-sm text-[hsl(var(--text-dim))]">
+          <AlertTriangle size={16} className="text-yellow-500" />
+          No CI configuration found in the tree, and no recent runs were reported.
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {[
+              { label: 'Pass rate', value: report.passRate === null ? 'n/a' : `${Math.round(report.passRate * 100)}%` },
+              { label: 'Mean duration', value: formatMinutes(report.meanDurationMinutes) },
+              { label: 'Runs analyzed', value: report.runsAvailable ? String(report.runsAnalyzed) : 'unavailable' },
+              { label: 'PRs with checks', value: report.pullRequestChecks.length ? `${checked}/${report.pullRequestChecks.length}` : 'n/a' },
+            ].map(stat => (
+              <div key={stat.label} className="bg-[hsl(var(--bg))] border border-[hsl(var(--surface-2))] rounded p-3">
+                <div className="font-mono text-lg text-[hsl(var(--text-main))]">{stat.value}</div>
+                <div className="text-[10px] uppercase tracking-wider text-[hsl(var(--text-dim))]">{stat.label}</div>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap gap-2 text-xs">
+            {report.requiredChecks === null ? (
+              <span className="px-2 py-0.5 rounded border border-[hsl(var(--surface-2))] text-[hsl(var(--text-dim))]">Branch protection not visible</span>
+            ) : report.requiredChecks.length ? (
+              <span className="px-2 py-0.5 rounded border bg-green-900/30 text-green-300 border-green-900/50">Required checks: {report.requiredChecks.join(', ')}</span>
+            ) : (
+              <span className="px-2 py-0.5 rounded border bg-yellow-900/30 text-yellow-300 border-yellow-900/50">Merges are not gated on checks</span>
+            )}
+            {mergedFailing > 0 && (
+              <span className="px-2 py-0.5 rounded border bg-red-900/30 text-red-300 border-red-900/50">{mergedFailing} merged PR{mergedFailing > 1 ? 's' : ''} with failing checks</span>
+            )}
+          </div>
+
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs uppercase tracking-wider text-[hsl(var(--text-dim))] border-b border-[hsl(var(--surface-2))]">
+                <th className="py-2 font-bold">Workflow</th>
+                <th className="py-2 font-bold">Triggers</th>
+                <th className="py-2 font-bold text-right">Jobs</th>
+                <th className="py-2 font-bold text-right">Runs</th>
+                <th className="py-2 font-bold pl-6">Pass rate</th>
+                <th className="py-2 font-bold text-right">Duration</th>
+              </tr>
+            </thead>
+            <tbody>
+              {report.workflows.map(w => (
+                <tr key={w.path} className="border-b border-[hsl(var(--surface-2))]/50 hover:bg-[hsl(var(--surface-2))]/40">
+                  <td className="py-1.5">
+                    <div className="flex items-center gap-2">
+                      <ConclusionIcon conclusion={w.lastConclusion} />
+                      <div className="min-w-0">
+                        <div className="truncate">{w.name}</div>
+                        <div className="font-mono text-[10px] text-[hsl(var(--text-dim))] truncate">{w.path}</div>
+                      </div>
+                    </div>
+                  </td>
+                  <td className="py-1.5">
+                    <div className="flex flex-wrap gap-1">
+                      {w.triggers.map(t => <span key={t} className="text-[10px] px-1.5 rounded bg-[hsl(var(--surface-2))]">{t}</span>)}
+                    </div>
+                  </td>
+                  <td className="py-1.5 text-right font-mono text-xs">{w.jobs.length || '—'}</td>
+                  <td className="py-1.5 text-right font-mono text-xs">{w.runs}</td>
+                  <td className="py-1.5 pl-6 font-mono text-xs">
+                    <div className="flex items-center gap-2">
+                      <div className="w-16 h-1 bg-[hsl(var(--surface-2))] rounded-full overflow-hidden">
+                        <div className={`h-full ${passRateClass(w.passRate)}`} style={{ width: `${(w.passRate ?? 0) * 100}%` }} />
+                      </div>
+                      {w.passRate === null ? 'n/a' : `${Math.round(w.passRate * 100)}%`}
+                    </div>
+                  </td>
+                  <td className="py-1.5 text-right font-mono text-xs text-[hsl(var(--text-dim))]">{formatMinutes(w.meanDurationMinutes)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
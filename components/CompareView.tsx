@@ -0,0 +1,277 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import ReactMarkdown from 'react-markdown';
+import { Columns, Plus, X, Zap, ArrowLeft, AlertCircle, Trophy, Square } from 'lucide-react';
+import { Button } from './Button';
+import { ComparisonEntry, ComparisonResult, LLMTarget, ReviewProgress, TokenUsage } from '../types';
+import { buildComparisonRows, languageShares, teamView } from '../services/repositoryComparison';
+import { bucketCommits } from '../services/commitActivity';
+import { generateComparisonStream } from '../services/reviewService';
+import { isAbortError } from '../services/loadScope';
+import { ModelPicker } from './ModelPicker';
+
+interface CompareViewProps {
+  entries: ComparisonEntry[];
+  onAdd: (url: string, signal: AbortSignal) => Promise<void>;
+  onRemove: (fullName: string) => void;
+  onExit: () => void;
+  llmTarget: LLMTarget;
+  llmTargets: LLMTarget[];
+  onLLMTargetChange: (target: LLMTarget) => void;
+}
+
+const LANGUAGE_COLORS = ['#3b82f6', '#22c55e', '#f59e0b', '#a855f7', '#ec4899', '#6b7280'];
+const SPARKLINE_WEEKS = 26;
+
+const highlightClass = (highlight: 'best' | 'worst' | null) =>
+  highlight === 'best' ? 'bg-green-900/30 text-green-300 border-green-900/50'
+    : highlight === 'worst' ? 'bg-red-900/30 text-red-300 border-red-900/50'
+    : 'border-transparent';
+
+export const CompareView: React.FC<CompareViewProps> = ({ entries, onAdd, onRemove, onExit, llmTarget, llmTargets, onLLMTargetChange }) => {
+  const [url, setUrl] = useState('');
+  const [isAdding, setIsAdding] = useState(false);
+  const [addError, setAddError] = useState<string | null>(null);
+  const [markdown, setMarkdown] = useState('');
+  const [result, setResult] = useState<ComparisonResult | null>(null);
+  const [resultError, setResultError] = useState<string | null>(null);
+  const [isComparing, setIsComparing] = useState(false);
+  const [usage, setUsage] = useState<TokenUsage | null>(null);
+  const [progress, setProgress] = useState<ReviewProgress | null>(null);
+  // Leaving compare mode mid-run must not keep writing into an unmounted view
+  const addController = useRef<AbortController | null>(null);
+  const compareController = useRef<AbortController | null>(null);
+
+  useEffect(() => () => {
+    addController.current?.abort();
+    compareController.current?.abort();
+  }, []);
+
+  const names = entries.map(e => e.details.info.full_name);
+
+  // A write-up only describes the set of repositories it was generated for
+  useEffect(() => {
+    compareController.current?.abort();
+    setIsComparing(false);
+    setMarkdown('');
+    setResult(null);
+    setResultError(null);
+    setUsage(null);
+  }, [names.join()]);
+
+  // Comparative scores replace the earlier single-review scores so every column is judged alike
+  const scored = useMemo(
+    () => entries.map(e => ({ ...e, scores: result?.scores[e.details.info.full_name] || e.scores })),
+    [entries, result]
+  );
+  const rows = useMemo(() => buildComparisonRows(scored), [scored]);
+  const sections = [...new Set(rows.map(r => r.section))];
+
+  const columns = useMemo(() => entries.map(e => {
+    const weeks = bucketCommits(teamView(e.details).commits, 'week').slice(-SPARKLINE_WEEKS);
+    return {
+      languages: languageShares(e.details.languages),
+      weeks,
+      weeksMax: Math.max(1, ...weeks.map(w => w.commits)),
+    };
+  }), [entries]);
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!url.trim()) return;
+    addController.current?.abort();
+    const controller = new AbortController();
+    addController.current = controller;
+    setIsAdding(true);
+    setAddError(null);
+    try {
+      await onAdd(url.trim(), controller.signal);
+      setUrl('');
+    } catch (err) {
+      if (!isAbortError(err)) setAddError(err instanceof Error ? err.message : 'Failed to fetch repository data');
+    } finally {
+      if (!controller.signal.aborted) setIsAdding(false);
+    }
+  };
+
+  const handleCompare = async () => {
+    compareController.current?.abort();
+    const controller = new AbortController();
+    compareController.current = controller;
+    const { signal } = controller;
+    setMarkdown('');
+    setResult(null);
+    setResultError(null);
+    setUsage(null);
+    setProgress(null);
+    setIsComparing(true);
+    try {
+      for await (const chunk of generateComparisonStream(entries, llmTarget, signal)) {
+        if (signal.aborted) break;
+        if (chunk.type === 'text') {
+          setMarkdown(prev => prev + chunk.content);
+        } else if (chunk.type === 'comparison') {
+          setResult(chunk.data);
+        } else if (chunk.type === 'analysis-error') {
+          setResultError(chunk.message);
+        } else if (chunk.type === 'usage') {
+          setUsage(chunk.data);
+        } else if (chunk.type === 'progress') {
+          setProgress(chunk.data);
+        }
+      }
+    } catch (e) {
+      if (!signal.aborted) setMarkdown(prev => prev + '\n\n**Error encountered during generation.**');
+    } finally {
+      if (!signal.aborted) setIsComparing(false);
+    }
+  };
+
+  const handleCancelCompare = () => {
+    compareController.current?.abort();
+    setIsComparing(false);
+  };
+
+  const gridStyle = { gridTemplateColumns: `180px repeat(${Math.max(entries.length, 1)}, minmax(200px, 1fr))` };
+
+  return (
+    <div className="space-y-8 animate-in fade-in duration-500">
+      <div className="bg-[hsl(var(--surface-1))] border border-[hsl(var(--surface-2))] rounded-xl p-6 shadow-sm flex flex-col">
+        <div className="flex flex-col md:flex-row justify-between md:items-center gap-4 mb-4 pb-4 border-b border-[hsl(var(--surface-2))]">
+          <h3 className="font-bold text-lg flex items-center gap-2"><Columns size={20} className="text-[hsl(var(--primary))]"/> Compare Repositories</h3>
+          <div className="flex flex-wrap items-center gap-2">
+            <form onSubmit={handleAdd} className="flex gap-2">
+              <input
+                type="text"
+                placeholder="https://github.com/owner/repo"
+                value={url}
+                onChange={e => setUrl(e.target.value)}
+                className="w-72 bg-[hsl(var(--bg))] border border-[hsl(var(--surface-2))] rounded px-3 py-1.5 text-sm focus:border-[hsl(var(--primary))] outline-none"
+              />
+              <Button type="submit" variant="secondary" isLoading={isAdding} className="text-sm py-1.5 px-3"><Plus size={14} className="mr-1"/> Add</Button>
+            </form>
+            <div className="w-56">
+              <ModelPicker targets={llmTargets} value={llmTarget} onChange={onLLMTargetChange} disabled={isComparing} />
+            </div>
+            {isComparing ? (
+              <Button variant="secondary" onClick={handleCancelCompare} className="text-sm py-1.5 px-3">
+                <Square size={14} className="mr-1"/> Cancel review
+              </Button>
+            ) : (
+              <Button onClick={handleCompare} disabled={entries.length < 2} className="text-sm py-1.5 px-3">
+                <Zap size={14} className="mr-1"/> Run comparative review
+              </Button>
+            )}
+            <Button variant="secondary" onClick={onExit} className="text-sm py-1.5 px-3"><ArrowLeft size={14} className="mr-1"/> Back</Button>
+          </div>
+        </div>
+
+        {addError && (
+          <div className="flex items-center gap-2 text-red-400 bg-red-900/10 p-3 mb-4 rounded-lg border border-red-900/30 text-sm">
+            <AlertCircle size={16} /><span>{addError}</span>
+          </div>
+        )}
+
+        {entries.length < 2 && (
+          <div className="text-sm text-[hsl(var(--text-dim))] mb-4">
+            Add {entries.length ? 'at least one more repository' : 'two or more repositories'} to compare them side by side. Each one is ingested with the current History and API settings.
+          </div>
+        )}
+
+        {entries.length > 0 && (
+          <div className="overflow-x-auto custom-scrollbar">
+            <div className="grid gap-x-3 text-sm min-w-fit" style={gridStyle}>
+              <div />
+              {entries.map(e => (
+                <div key={e.details.info.full_name} className="flex items-start justify-between gap-2 pb-3 min-w-0">
+                  <div className="flex items-center gap-2 min-w-0">
+                    {e.details.info.owner.avatar_url && <img src={e.details.info.owner.avatar_url} className="w-8 h-8 rounded-lg border border-[hsl(var(--surface-2))] shrink-0" />}
+                    <div className="min-w-0">
+                      <div className="font-bold text-[hsl(var(--text-main))] truncate flex items-center gap-1" title={e.details.info.full_name}>
+                        {result?.ranking[0] === e.details.info.full_name && <Trophy size={12} className="text-yellow-300 shrink-0" />}
+                        {e.details.info.full_name}
+                      </div>
+                      <div className="text-[10px] font-mono text-[hsl(var(--text-dim))] truncate">{e.details.ref.label}</div>
+                    </div>
+                  </div>
+                  <button onClick={() => onRemove(e.details.info.full_name)} title="Remove from comparison" className="p-1 rounded text-[hsl(var(--text-dim))] hover:text-[hsl(var(--text-main))] hover:bg-[hsl(var(--surface-2))] shrink-0"><X size={14} /></button>
+                </div>
+              ))}
+
+              <div className="text-[10px] uppercase tracking-wider text-[hsl(var(--text-dim))] py-2 border-t border-[hsl(var(--surface-2))]">Language mix</div>
+              {columns.map((column, i) => (
+                <div key={names[i]} className="py-2 border-t border-[hsl(var(--surface-2))]">
+                  <div className="flex h-2 rounded-full overflow-hidden bg-[hsl(var(--surface-2))]">
+                    {column.languages.slice(0, LANGUAGE_COLORS.length).map((l, j) => (
+                      <div key={l.name} title={`${l.name} ${Math.round(l.share * 100)}%`} style={{ width: `${l.share * 100}%`, backgroundColor: LANGUAGE_COLORS[j] }} />
+                    ))}
+                  </div>
+                  <div className="flex flex-wrap gap-x-2 mt-1 text-[10px] text-[hsl(var(--text-dim))]">
+                    {column.languages.slice(0, 3).map(l => <span key={l.name}>{l.name} {Math.round(l.share * 100)}%</span>)}
+                  </div>
+                </div>
+              ))}
+
+              <div className="text-[10px] uppercase tracking-wider text-[hsl(var(--text-dim))] py-2 border-t border-[hsl(var(--surface-2))]">Weekly commits</div>
+              {columns.map((column, i) => (
+                <div key={names[i]} className="py-2 border-t border-[hsl(var(--surface-2))]">
+                  {column.weeks.length ? (
+                    <div className="flex items-end gap-[2px] h-8">
+                      {column.weeks.map(w => (
+                        <div key={w.start} title={`${w.label}: ${w.commits} commits`} className="flex-1 bg-[hsl(var(--primary))] rounded-sm min-h-[1px]" style={{ height: `${(w.commits / column.weeksMax) * 100}%`, opacity: w.commits ? 1 : 0.2 }} />
+                      ))}
+                    </div>
+                  ) : (
+                    <span className="text-xs text-[hsl(var(--text-dim))]">No dated commits</span>
+                  )}
+                </div>
+              ))}
+
+              {sections.map(section => (
+                <React.Fragment key={section}>
+                  <div className="text-xs font-bold uppercase tracking-wider text-[hsl(var(--primary))] pt-4 pb-1 border-b border-[hsl(var(--surface-2))]" style={{ gridColumn: '1 / -1' }}>
+                    {section}{section === 'AI scores' && result ? ' (comparative review)' : ''}
+                  </div>
+                  {rows.filter(r => r.section === section).map(row => (
+                    <React.Fragment key={row.label}>
+                      <div className={`py-1.5 text-xs border-b border-[hsl(var(--surface-2))]/50 ${new Set(row.display).size > 1 ? 'text-[hsl(var(--text-main))]' : 'text-[hsl(var(--text-dim))]'}`} title={new Set(row.display).size > 1 ? 'Values differ' : 'Same for every repository'}>{row.label}</div>
+                      {row.display.map((value, i) => (
+                        <div key={names[i]} className="py-1 border-b border-[hsl(var(--surface-2))]/50">
+                          <span className={`font-mono text-xs px-1.5 rounded border ${highlightClass(row.highlight[i])}`}>{value}</span>
+                        </div>
+                      ))}
+                    </React.Fragment>
+                  ))}
+                </React.Fragment>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {(markdown || isComparing) && (
+        <div className="bg-[hsl(var(--surface-1))] border border-[hsl(var(--surface-2))] rounded-xl p-6 shadow-sm flex flex-col">
+          <div className="flex justify-between items-center mb-4 pb-4 border-b border-[hsl(var(--surface-2))]">
+            <h3 className="font-bold text-lg flex items-center gap-2"><Zap size={20} className="text-[hsl(var(--primary))]"/> Comparative Review</h3>
+            <div className="flex items-center gap-3 text-xs text-[hsl(var(--text-dim))]">
+              {result?.ranking.length ? <span>Ranking: {result.ranking.join(' › ')}</span> : null}
+              {usage && <span className="font-mono">{usage.total.toLocaleString()} tokens</span>}
+              {isComparing && !usage && progress && (
+                <span className="font-mono">
+                  {progress.phase === 'waiting' ? `Waiting for the model${progress.attempt > 1 ? ` (key ${progress.attempt})` : ''}` : `~${progress.outputTokens.toLocaleString()} tokens written`} · ~{progress.promptTokens.toLocaleString()} sent
+                </span>
+              )}
+            </div>
+          </div>
+          {resultError && (
+            <div className="flex items-center gap-2 text-red-400 bg-red-900/10 p-3 mb-4 rounded-lg border border-red-900/30 text-sm">
+              <AlertCircle size={16} /><span>{resultError} Scores are left as they were.</span>
+            </div>
+          )}
+          <div className="prose prose-sm prose-invert max-w-none">
+            {markdown ? <ReactMarkdown>{markdown}</ReactMarkdown> : <div className="text-[hsl(var(--text-dim))] text-sm">{isComparing ? 'Generating…' : 'No write-up was generated.'}</div>}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
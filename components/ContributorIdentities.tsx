@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { Bot, GitMerge, Split, EyeOff, Eye, User } from 'lucide-react';
+import { Button } from './Button';
+import { ContributorIdentity } from '../types';
+
+interface ContributorIdentitiesProps {
+  identities: ContributorIdentity[];
+  onMerge: (ids: string[]) => void;
+  onSplit: (identity: ContributorIdentity) => void;
+  onToggleExcluded: (identity: ContributorIdentity) => void;
+}
+
+export const ContributorIdentities: React.FC<ContributorIdentitiesProps> = ({ identities, onMerge, onSplit, onToggleExcluded }) => {
+  const [selected, setSelected] = useState<string[]>([]);
+
+  const counted = identities.filter(i => !i.excluded);
+  const total = counted.reduce((acc, i) => acc + (i.contributions || i.commits), 0) || 1;
+  const aliasCount = identities.reduce((acc, i) => acc + new Set([...i.logins, ...i.names, ...i.emails]).size, 0);
+
+  const toggleSelected = (id: string) =>
+    setSelected(prev => prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id]);
+
+  const handleMerge = () => {
+    // Merge into the selected identity with the most activity
+    const ordered = identities.filter(i => selected.includes(i.id)).map(i => i.id);
+    onMerge(ordered);
+    setSelected([]);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap justify-between items-center gap-3 text-xs text-[hsl(var(--text-dim))]">
+        <span>
+          {identities.length} identities from {aliasCount} aliases · {identities.filter(i => i.isBot).length} bots · {identities.filter(i => i.excluded).length} excluded from scores and charts
+        </span>
+        <Button variant="secondary" className="px-3 py-1 text-xs" disabled={selected.length < 2} onClick={handleMerge}>
+          <GitMerge size={12} /> Merge selected{selected.length ? ` (${selected.length})` : ''}
+        </Button>
+      </div>
+
+      <div className="space-y-3">
+        {identities.map(identity => {
+          const count = identity.contributions || identity.commits;
+          const percent = identity.excluded ? 0 : (count / total) * 100;
+          const aliases = [...new Set([...identity.logins.map(l => `@${l}`), ...identity.names, ...identity.emails])];
+          return (
+            <div key={identity.id} className={`flex items-center justify-between gap-3 p-3 rounded-lg bg-[hsl(var(--bg))] border transition-colors ${selected.includes(identity.id) ? 'border-[hsl(var(--primary))]' : 'border-[hsl(var(--surface-2))]'} ${identity.excluded ? 'opacity-50' : ''}`}>
+              <div className="flex items-center gap-3 min-w-0">
+                <input type="checkbox" checked={selected.includes(identity.id)} onChange={() => toggleSelected(identity.id)} className="accent-[hsl(var(--primary))] shrink-0" />
+                {identity.avatar_url ? (
+                  <img src={identity.avatar_url} className="w-10 h-10 rounded-full border border-[hsl(var(--surface-2))] shrink-0" />
+                ) : (
+                  <div className="w-10 h-10 rounded-full bg-[hsl(var(--surface-2))] flex items-center justify-center text-[hsl(var(--text-dim))] shrink-0">
+                    {identity.isBot ? <Bot size={18} /> : <User size={18} />}
+                  </div>
+                )}
+                <div className="min-w-0">
+                  <div className="font-bold text-[hsl(var(--text-main))] flex items-center gap-2">
+                    {identity.html_url ? <a href={identity.html_url} target="_blank" rel="noreferrer" className="hover:text-[hsl(var(--primary))] truncate">{identity.name}</a> : <span className="truncate">{identity.name}</span>}
+                    {identity.isBot && <span className="text-[10px] font-normal px-1.5 rounded border bg-yellow-900/30 text-yellow-300 border-yellow-900/50">bot</span>}
+                    {identity.manuallyMerged && <span className="text-[10px] font-normal px-1.5 rounded border border-[hsl(var(--surface-2))] text-[hsl(var(--text-dim))]">merged</span>}
+                  </div>
+                  <div className="text-xs text-[hsl(var(--text-dim))]">
+                    {identity.contributions ? `${identity.contributions} commits · ` : ''}{identity.commits} ingested
+                  </div>
+                  {aliases.length > 1 && (
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      {aliases.slice(0, 6).map(alias => (
+                        <span key={alias} className="text-[10px] font-mono px-1.5 rounded bg-[hsl(var(--surface-2))] text-[hsl(var(--text-dim))] truncate max-w-[200px]">{alias}</span>
+                      ))}
+                      {aliases.length > 6 && <span className="text-[10px] text-[hsl(var(--text-dim))]">+{aliases.length - 6}</span>}
+                    </div>
+                  )}
+                </div>
+              </div>
+              <div className="flex items-center gap-3 shrink-0">
+                <div className="flex flex-col items-end">
+                  <span className="font-mono text-[hsl(var(--primary))] font-bold">{identity.excluded ? '—' : `${percent.toFixed(1)}%`}</span>
+                  <div className="w-24 h-1.5 bg-[hsl(var(--surface-2))] rounded-full mt-1 overflow-hidden">
+                    <div className="h-full bg-[hsl(var(--primary))]" style={{ width: `${percent}%` }}></div>
+                  </div>
+                </div>
+                {identity.manuallyMerged && (
+                  <button onClick={() => onSplit(identity)} title="Undo manual merges" className="p-1.5 rounded text-[hsl(var(--text-dim))] hover:text-[hsl(var(--text-main))] hover:bg-[hsl(var(--surface-2))]">
+                    <Split size={14} />
+                  </button>
+                )}
+                <button onClick={() => onToggleExcluded(identity)} title={identity.excluded ? 'Count this account' : 'Exclude from scores and charts'} className="p-1.5 rounded text-[hsl(var(--text-dim))] hover:text-[hsl(var(--text-main))] hover:bg-[hsl(var(--surface-2))]">
+                  {identity.excluded ? <Eye size={14} /> : <EyeOff size={14} />}
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
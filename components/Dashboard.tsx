@@ -1,14 +1,42 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import ReactMarkdown from 'react-markdown';
-import { Search, Github, GitBranch, GitCommit, GitPullRequest, Folder, File, ChevronRight, ChevronDown, Moon, Sun, BrainCircuit, Bot, Layout, FileSearch, Settings, Key, AlertCircle, LogOut, Users, Book, X, ExternalLink, Activity, Layers, ShieldCheck, Zap, RefreshCw, Trash2, Plus, Lock } from 'lucide-react';
+import { Search, Github, GitBranch, GitCommit, GitPullRequest, Folder, File, ChevronRight, ChevronDown, Moon, Sun, BrainCircuit, Bot, Layout, FileSearch, Settings, Key, AlertCircle, LogOut, Users, Book, X, ExternalLink, Activity, Layers, ShieldCheck, Zap, RefreshCw, Trash2, Plus, Lock, Database, Tag as TagIcon, Gitlab, Server, Upload, CircleDot, Flame, Columns, Square } from 'lucide-react';
 import { Button } from './Button';
 import { Sidebar } from './Sidebar';
-import { RepoInfo, Commit, FileNode, Branch, Contributor, PullRequest, ViewState, DetailView, AIAnalysisResult, ManagedKey } from '../types';
-import { parseGithubUrl, fetchRepoDetails } from '../services/githubService';
-import { generateReviewStream } from '../services/geminiService';
+import { RefPicker } from './RefPicker';
+import { WindowCompliancePanel } from './WindowCompliancePanel';
+import { SourceSelectionPanel } from './SourceSelectionPanel';
+import { DirectorySummaryTable } from './DirectorySummaryTable';
+import { CiPanel } from './CiPanel';
+import { DependenciesPanel } from './DependenciesPanel';
+import { ActivityPanel } from './ActivityPanel';
+import { HotspotsPanel } from './HotspotsPanel';
+import { ContributorIdentities } from './ContributorIdentities';
+import { CompareView } from './CompareView';
+import { PullRequestReviewView } from './PullRequestReviewView';
+import { ModelPicker } from './ModelPicker';
+import { ReviewPlanner } from './ReviewPlanner';
+import { RepoInfo, Commit, FileNode, Branch, Contributor, PullRequest, Issue, ViewState, DetailView, AIAnalysisResult, ManagedKey, IngestionDepth, IngestionPhase, IngestionProgress, IngestionBackend, Tag, AnalysisRef, ResolvedRef, ReviewWindow, WindowComplianceReport, FileHistoryReport, SourceOverrides, DirectorySummary, CiReport, DependencyReport, ActivityRange, OwnershipReport, OwnerShare, Hotspot, IdentityOverrides, KeyType, LLMProviderKind, LLMTarget, ModuleReview, PromptBudgets, PromptSection, PromptTokenCounts, ReviewBudget, ProviderHost, RepositoryLocation, ComparisonEntry, PullRequestReviewData, ReviewProgress, ReviewRequestData, TokenUsage } from '../types';
+import { parseRepositoryUrl, parsePullRequestUrl, fetchRepoDetails, fetchDirectory, fetchFileContent, fetchPullRequest } from '../services/repositoryService';
+import { ProviderHosts } from '../services/providerHosts';
+import { loadRepositoryArchive } from '../services/archiveService';
+import { isAbortError } from '../services/loadScope';
+import { estimatePlanUsage, generateMultiPassReviewStream, generateReviewStream, planReviewPrompt } from '../services/reviewService';
+import { countTokens, DEFAULT_LLM_TARGET, getLLMProvider, listLLMTargets, llmTargetId } from '../services/llmProviders';
+import { pricingFor } from '../services/modelPricing';
 import { KeyManager } from '../services/keyManager';
-import { APP_NAME } from '../constants';
+import { HttpCache, CacheStats } from '../services/httpCache';
+import { checkWindowCompliance, loadReviewWindow, saveReviewWindow } from '../services/windowCompliance';
+import { rankSourceFiles, MAX_FILE_CONTENT_CHARS } from '../services/sourceSelection';
+import { summarizeDirectories, pendingDirectories, MAX_LISTED_TREE_FILES } from '../services/treeSummary';
+import { analyzeIssueHealth, formatHours } from '../services/issueHealth';
+import { analyzePullRequests, hoursToMerge, linesChanged, reviewVerdicts, LARGE_PR_LINES } from '../services/pullRequestInsights';
+import { isInRange, formatRange } from '../services/commitActivity';
+import { analyzeOwnership, singleOwnerDirectories, MIN_OWNERSHIP_CHANGES } from '../services/codeOwnership';
+import { analyzeHotspots, TOP_HOTSPOTS } from '../services/churnHotspots';
+import { resolveIdentities, applyIdentities, mergeIdentities, splitIdentity, toggleIdentityExcluded, loadIdentityOverrides, saveIdentityOverrides, EMPTY_IDENTITY_OVERRIDES } from '../services/contributorIdentity';
+import { APP_NAME, DEFAULT_FILE_HISTORY_COMMITS, DEFAULT_INGESTION_DEPTH, DEFAULT_PROMPT_BUDGETS, DEFAULT_REVIEW_BUDGET } from '../constants';
 
 // --- Components ---
 
@@ -65,42 +93,160 @@ const Modal: React.FC<{ isOpen: boolean; onClose: () => void; title: string; chi
   );
 };
 
-// File Tree Item
-const FileTreeItem: React.FC<{ name: string; item: any; depth: number }> = ({ name, item, depth }) => {
-  const [isOpen, setIsOpen] = useState(depth < 2); // Auto expand top levels
-  const isFolder = item.children && Object.keys(item.children).length > 0;
+// Merged PRs report state "closed" from the API
+const PullRequestStateBadge: React.FC<{ pr: PullRequest }> = ({ pr }) => {
+  const state = pr.merged_at ? 'merged' : pr.state;
+  const style = state === 'open' ? 'bg-green-900 text-green-200' : state === 'merged' ? 'bg-purple-900 text-purple-200' : 'bg-red-900/60 text-red-200';
+  return <span className={`text-[10px] px-1.5 py-0.5 rounded uppercase font-bold shrink-0 ${style}`}>{state}</span>;
+};
+
+// File Tree
+
+interface DirectoryListing {
+  directories: string[];
+  files: FileNode[];
+  pending?: FileNode; // Set until the provider has listed this directory
+}
+
+// Parent -> children index, so each FileTreeItem only renders its children once expanded
+const buildDirectoryIndex = (files: FileNode[]) => {
+  const index = new Map<string, DirectoryListing>();
+  const listingFor = (path: string): DirectoryListing => {
+    let listing = index.get(path);
+    if (!listing) {
+      listing = { directories: [], files: [] };
+      index.set(path, listing);
+      if (path) listingFor(path.split('/').slice(0, -1).join('/')).directories.push(path);
+    }
+    return listing;
+  };
+
+  files.forEach(file => {
+    if (file.type === 'tree') {
+      listingFor(file.path).pending = file;
+    } else {
+      listingFor(file.path.split('/').slice(0, -1).join('/')).files.push(file);
+    }
+  });
+  return index;
+};
+
+// Ownership shading on the file tree: rows are tinted with their top author's color
+interface OwnershipOverlay {
+  report: OwnershipReport;
+  colors: Map<string, string>;
+}
+
+const INGESTION_PHASE_LABELS: Record<IngestionPhase, string> = {
+  metadata: 'Reading repository metadata',
+  listing: 'Listing history, branches and files',
+  'pull-requests': 'Fetching pull request reviews',
+  issues: 'Fetching issue responses',
+  commits: 'Fetching commit diffs',
+  contents: 'Downloading source files',
+  analysis: 'Reading CI and dependency manifests',
+  parsing: 'Parsing the archive',
+};
+
+const OWNER_COLORS = ['#3b82f6', '#22c55e', '#f59e0b', '#a855f7', '#ec4899', '#14b8a6'];
+const OTHER_OWNER_COLOR = '#6b7280';
+
+const ownerColor = (overlay: OwnershipOverlay, author: string) => overlay.colors.get(author) || OTHER_OWNER_COLOR;
+
+// Top owner's color, more opaque the larger their share
+const ownershipTint = (overlay: OwnershipOverlay | undefined, owners: OwnerShare[] | undefined): React.CSSProperties =>
+  overlay && owners?.length
+    ? { backgroundColor: `${ownerColor(overlay, owners[0].author)}${Math.round(owners[0].share * 0.3 * 255).toString(16).padStart(2, '0')}` }
+    : {};
+
+const describeOwners = (owners: OwnerShare[]) =>
+  owners.slice(0, 5).map(o => `${o.author}: ${Math.round(o.share * 100)}% (${o.changes})`).join('\n');
+
+interface FileTreeProps {
+  index: Map<string, DirectoryListing>;
+  summaries: Map<string, DirectorySummary>;
+  onLoadDirectory: (directory: FileNode) => Promise<void>;
+  ownership?: OwnershipOverlay;
+  hotspots?: Map<string, Hotspot>; // Top-ranked hotspots by path
+}
+
+const FileTreeLeaf: React.FC<{ file: FileNode; depth: number; ownership?: OwnershipOverlay; hotspots?: Map<string, Hotspot> }> = ({ file, depth, ownership, hotspots }) => {
+  const owners = ownership?.report.files.get(file.path);
+  const hotspot = hotspots?.get(file.path);
+  return (
+    <a 
+      href={file.html_url} 
+      target="_blank" 
+      rel="noreferrer"
+      title={owners ? describeOwners(owners) : undefined}
+      className="flex items-center gap-2 py-1.5 px-2 hover:bg-[hsl(var(--surface-2))] text-[hsl(var(--text-dim))] hover:text-[hsl(var(--primary))] transition-colors rounded text-sm font-mono group border-l border-transparent hover:border-[hsl(var(--primary))]"
+      style={{ paddingLeft: `${depth * 1.5}rem`, ...ownershipTint(ownership, owners) }}
+    >
+      <File size={14} className="shrink-0 opacity-50 group-hover:opacity-100" />
+      <span className="truncate">{file.path.split('/').pop()}</span>
+      {hotspot && (
+        <span title={`Churn hotspot #${hotspot.rank}: ${hotspot.changes} changes, risk ${hotspot.score}`} className="ml-auto flex items-center gap-0.5 text-[10px] px-1 rounded border bg-red-900/30 text-red-300 border-red-900/50 shrink-0">
+          <Flame size={10} /> {hotspot.rank}
+        </span>
+      )}
+    </a>
+  );
+};
+
+const FileTreeItem: React.FC<FileTreeProps & { path: string; depth: number }> = ({ path, depth, index, summaries, onLoadDirectory, ownership, hotspots }) => {
+  const listing = index.get(path);
+  const owned = ownership?.report.directories.get(path);
+  const [isOpen, setIsOpen] = useState(depth < 2 && !listing?.pending); // Auto expand top levels that are already listed
+  const [isLoading, setIsLoading] = useState(false);
+  const summary = summaries.get(path);
   const paddingLeft = `${depth * 1.5}rem`;
 
-  if (!isFolder) {
-    return (
-      <a 
-        href={item.data?.html_url} 
-        target="_blank" 
-        rel="noreferrer"
-        className="flex items-center gap-2 py-1.5 px-2 hover:bg-[hsl(var(--surface-2))] text-[hsl(var(--text-dim))] hover:text-[hsl(var(--primary))] transition-colors rounded text-sm font-mono group border-l border-transparent hover:border-[hsl(var(--primary))]"
-        style={{ paddingLeft }}
-      >
-        <File size={14} className="shrink-0 opacity-50 group-hover:opacity-100" />
-        <span className="truncate">{name}</span>
-      </a>
-    );
-  }
+  const handleToggle = async () => {
+    const opening = !isOpen;
+    setIsOpen(opening);
+    if (opening && listing?.pending && !isLoading) {
+      setIsLoading(true);
+      try {
+        await onLoadDirectory(listing.pending);
+      } finally {
+        setIsLoading(false);
+      }
+    }
+  };
 
   return (
     <div>
       <div 
-        onClick={() => setIsOpen(!isOpen)}
+        onClick={handleToggle}
+        title={owned ? describeOwners(owned.owners) : undefined}
         className="flex items-center gap-2 py-1.5 px-2 hover:bg-[hsl(var(--surface-2))] text-[hsl(var(--text-main))] cursor-pointer transition-colors rounded text-sm font-medium select-none"
-        style={{ paddingLeft }}
+        style={{ paddingLeft, ...ownershipTint(ownership, owned?.owners) }}
       >
         {isOpen ? <ChevronDown size={14} className="shrink-0 text-[hsl(var(--primary))]" /> : <ChevronRight size={14} className="shrink-0 text-[hsl(var(--text-dim))]" />}
         <Folder size={14} className={`shrink-0 ${isOpen ? 'text-[hsl(var(--primary))]' : 'text-[hsl(var(--text-dim))]'}`} />
-        <span className="truncate">{name}</span>
+        <span className="truncate">{path.split('/').pop()}</span>
+        {isLoading && <RefreshCw size={12} className="shrink-0 animate-spin text-[hsl(var(--text-dim))]" />}
+        {ownership && owned && (
+          <span className="ml-auto flex items-center gap-2 shrink-0">
+            <span className="flex w-16 h-1.5 rounded-full overflow-hidden bg-[hsl(var(--surface-2))]">
+              {owned.owners.map(o => <span key={o.author} style={{ width: `${o.share * 100}%`, backgroundColor: ownerColor(ownership, o.author) }} />)}
+            </span>
+            <span className={`text-[10px] font-mono px-1 rounded border ${owned.busFactor === 1 && owned.changes >= MIN_OWNERSHIP_CHANGES ? 'bg-red-900/30 text-red-300 border-red-900/50' : 'border-[hsl(var(--surface-2))] text-[hsl(var(--text-dim))]'}`}>BF {owned.busFactor}</span>
+          </span>
+        )}
+        {summary && (
+          <span className={`${ownership && owned ? '' : 'ml-auto '}text-[10px] font-mono text-[hsl(var(--text-dim))]`}>
+            {summary.pending ? `${summary.fileCount}+ files` : `${summary.fileCount} files`}
+          </span>
+        )}
       </div>
-      {isOpen && (
+      {isOpen && listing && (
         <div className="border-l border-[hsl(var(--surface-2))] ml-2">
-          {Object.keys(item.children).sort().map((childName) => (
-            <FileTreeItem key={childName} name={childName} item={item.children[childName]} depth={depth + 1} />
+          {[...listing.directories].sort().map(child => (
+            <FileTreeItem key={child} path={child} depth={depth + 1} index={index} summaries={summaries} onLoadDirectory={onLoadDirectory} ownership={ownership} hotspots={hotspots} />
+          ))}
+          {[...listing.files].sort((a, b) => a.path.localeCompare(b.path)).map(file => (
+            <FileTreeLeaf key={file.path} file={file} depth={depth + 1} ownership={ownership} hotspots={hotspots} />
           ))}
         </div>
       )}
@@ -108,24 +254,6 @@ const FileTreeItem: React.FC<{ name: string; item: any; depth: number }> = ({ na
   );
 };
 
-const buildTree = (files: FileNode[]) => {
-  const tree = { children: {} };
-  files.forEach(file => {
-    const parts = file.path.split('/');
-    let current: any = tree;
-    parts.forEach((part, index) => {
-      if (!current.children[part]) {
-        current.children[part] = { children: {} };
-      }
-      current = current.children[part];
-      if (index === parts.length - 1) {
-        current.data = file;
-      }
-    });
-  });
-  return tree;
-};
-
 // --- Main Dashboard ---
 
 interface DashboardProps {
@@ -142,31 +270,89 @@ export const Dashboard: React.FC<DashboardProps> = ({ onLogout }) => {
   const [repoInfo, setRepoInfo] = useState<RepoInfo | null>(null);
   const [commits, setCommits] = useState<Commit[]>([]);
   const [pullRequests, setPullRequests] = useState<PullRequest[]>([]);
+  const [issues, setIssues] = useState<Issue[]>([]);
+  const [ciReport, setCiReport] = useState<CiReport | null>(null);
+  const [dependencyReport, setDependencyReport] = useState<DependencyReport | null>(null);
+  const [activityRange, setActivityRange] = useState<ActivityRange | null>(null);
   const [files, setFiles] = useState<FileNode[]>([]);
   const [branches, setBranches] = useState<Branch[]>([]);
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [activeRef, setActiveRef] = useState<ResolvedRef | null>(null);
+  const [repoLocation, setRepoLocation] = useState<RepositoryLocation | null>(null);
+  const [reviewWindow, setReviewWindow] = useState<ReviewWindow | null>(null);
+  const [windowCompliance, setWindowCompliance] = useState<WindowComplianceReport | null>(null);
+  // Per-section prompt budgets; code is also the source selection's budget
+  const [promptBudgets, setPromptBudgets] = useState<PromptBudgets>(DEFAULT_PROMPT_BUDGETS);
+  const [sourceOverrides, setSourceOverrides] = useState<SourceOverrides>({ pinned: [], excluded: [] });
+  const [pinningPath, setPinningPath] = useState<string | null>(null);
+  const [showDirectorySummary, setShowDirectorySummary] = useState(false);
+  const [showOwnership, setShowOwnership] = useState(false);
   const [contributors, setContributors] = useState<Contributor[]>([]);
+  const [identityOverrides, setIdentityOverrides] = useState<IdentityOverrides>(EMPTY_IDENTITY_OVERRIDES);
   const [readme, setReadme] = useState<string | null>(null);
   const [languages, setLanguages] = useState<Record<string, number>>({});
+
+  // Compare mode outlives the loaded repository so "Change" can pick the next one to add
+  const [compareEntries, setCompareEntries] = useState<ComparisonEntry[]>([]);
+  const [isCompareMode, setIsCompareMode] = useState(false);
+  // Set while a single pull request pasted into the URL field is being reviewed
+  const [pullRequestReview, setPullRequestReview] = useState<PullRequestReviewData | null>(null);
+
+  // Ingestion Settings
+  const [depthMode, setDepthMode] = useState<IngestionDepth['mode']>(DEFAULT_INGESTION_DEPTH.mode);
+  const [depthCount, setDepthCount] = useState(DEFAULT_INGESTION_DEPTH.mode === 'recent' ? DEFAULT_INGESTION_DEPTH.count : 300);
+  const [depthSince, setDepthSince] = useState('');
+  const [depthUntil, setDepthUntil] = useState('');
+  const [fileHistory, setFileHistory] = useState(DEFAULT_FILE_HISTORY_COMMITS);
+  const [fileHistoryReport, setFileHistoryReport] = useState<FileHistoryReport | null>(null);
+  const [ingestionBackend, setIngestionBackend] = useState<IngestionBackend>('rest');
+  const [restFileHistory, setRestFileHistory] = useState(false);
+  const [ingestionProgress, setIngestionProgress] = useState<IngestionProgress | null>(null);
+  // Starting a load or review aborts the one in flight, so a stale run never writes state
+  const loadController = useRef<AbortController | null>(null);
+  const reviewController = useRef<AbortController | null>(null);
+  // The repository and ref on screen; lazily loaded directories are only merged into the snapshot they were requested for
+  const loadedSnapshot = useRef<{ location: RepositoryLocation; ref: ResolvedRef } | null>(null);
   
   // UI States
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [reviewMarkdown, setReviewMarkdown] = useState('');
   const [isReviewing, setIsReviewing] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
-  const [usageMetadata, setUsageMetadata] = useState<{input: number, output: number, total: number} | null>(null);
+  const [usageMetadata, setUsageMetadata] = useState<TokenUsage | null>(null);
+  const [reviewProgress, setReviewProgress] = useState<ReviewProgress | null>(null);
   const [aiAnalysis, setAiAnalysis] = useState<AIAnalysisResult | null>(null);
+  const [analysisError, setAnalysisError] = useState<string | null>(null);
+  // Multi-pass reviews analyze each directory separately before the final scoring
+  const [multiPass, setMultiPass] = useState(false);
+  const [reviewBudget, setReviewBudget] = useState<ReviewBudget>(DEFAULT_REVIEW_BUDGET);
+  const [moduleReviews, setModuleReviews] = useState<ModuleReview[]>([]);
+  // Exact section sizes from the selected model, and what the last review was expected to use
+  const [tokenCounts, setTokenCounts] = useState<PromptTokenCounts>({});
+  const [isCountingTokens, setIsCountingTokens] = useState(false);
+  const [reviewEstimate, setReviewEstimate] = useState<{ target: LLMTarget; estimate: TokenUsage } | null>(null);
 
   // Settings State
   const [managedKeys, setManagedKeys] = useState<ManagedKey[]>([]);
   const [newKeyName, setNewKeyName] = useState('');
-  const [newKeyType, setNewKeyType] = useState<'github' | 'gemini'>('github');
+  const [newKeyType, setNewKeyType] = useState<KeyType>('github');
   const [newKeyToken, setNewKeyToken] = useState('');
+  const [newKeyHost, setNewKeyHost] = useState('');
+  const [newKeyBaseUrl, setNewKeyBaseUrl] = useState('');
+  const [newKeyModel, setNewKeyModel] = useState('');
+  const [llmTargetSelection, setLlmTargetSelection] = useState('');
+  const [providerHosts, setProviderHosts] = useState<ProviderHost[]>([]);
+  const [newHost, setNewHost] = useState('');
+  const [newHostKind, setNewHostKind] = useState<ProviderHost['kind']>('github-enterprise');
+  const [newHostApiBase, setNewHostApiBase] = useState('');
+  const [cacheStats, setCacheStats] = useState<CacheStats | null>(null);
 
   // Modal States
   const [showBranchesModal, setShowBranchesModal] = useState(false);
   const [showContributorsModal, setShowContributorsModal] = useState(false);
   const [showCommitsModal, setShowCommitsModal] = useState(false);
   const [showPRsModal, setShowPRsModal] = useState(false);
+  const [showIssuesModal, setShowIssuesModal] = useState(false);
   const [showReadmeModal, setShowReadmeModal] = useState(false);
 
   useEffect(() => {
@@ -176,108 +362,518 @@ export const Dashboard: React.FC<DashboardProps> = ({ onLogout }) => {
   // Load Keys on Mount/Settings Open
   useEffect(() => {
     setManagedKeys(KeyManager.getKeys());
+    setProviderHosts([...ProviderHosts.getHosts()]);
+    if (showSettings) {
+      HttpCache.getStats().then(setCacheStats);
+    }
   }, [showSettings]);
 
+  // Models the configured keys can run; the selection falls back to the first one when its key is removed
+  const llmTargets = useMemo(() => listLLMTargets(managedKeys), [managedKeys]);
+  const llmTarget: LLMTarget = llmTargets.find(t => llmTargetId(t) === llmTargetSelection) || llmTargets[0] || DEFAULT_LLM_TARGET;
+  // Counts come from one model's tokenizer and don't carry over to another
+  const handleLLMTargetChange = (target: LLMTarget) => {
+    setLlmTargetSelection(llmTargetId(target));
+    setTokenCounts({});
+  };
+
   const toggleTheme = () => setTheme(prev => prev === 'dark' ? 'light' : 'dark');
 
+  const isRepositoryKeyType = newKeyType === 'github' || newKeyType === 'gitlab';
+  const newKeyProvider = isRepositoryKeyType ? null : getLLMProvider(newKeyType as LLMProviderKind);
+
   const handleAddKey = (e: React.FormEvent) => {
     e.preventDefault();
-    if (newKeyName && newKeyToken) {
-      KeyManager.addKey(newKeyName, newKeyType, newKeyToken);
-      setManagedKeys(KeyManager.getKeys());
-      setNewKeyName('');
-      setNewKeyToken('');
+    // Local OpenAI-compatible servers take no key, but the model has to be named when there is no default
+    if (!newKeyName || (!newKeyToken && (!newKeyProvider || newKeyProvider.requiresKey))) return;
+    if (newKeyProvider && !newKeyModel.trim() && !newKeyProvider.defaultModel) return;
+    KeyManager.addKey(
+      newKeyName,
+      newKeyType,
+      newKeyToken,
+      newKeyProvider
+        ? { baseUrl: newKeyBaseUrl.trim(), model: newKeyModel.trim() }
+        : { host: newKeyHost.trim().toLowerCase() }
+    );
+    setManagedKeys(KeyManager.getKeys());
+    setNewKeyName('');
+    setNewKeyToken('');
+    setNewKeyHost('');
+    setNewKeyBaseUrl('');
+    setNewKeyModel('');
+  };
+
+  const handleAddHost = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (newHost) {
+      ProviderHosts.addHost(newHost, newHostKind, newHostApiBase);
+      setProviderHosts([...ProviderHosts.getHosts()]);
+      setNewHost('');
+      setNewHostApiBase('');
     }
   };
 
+  const handleRemoveHost = (host: string) => {
+    ProviderHosts.removeHost(host);
+    setProviderHosts([...ProviderHosts.getHosts()]);
+  };
+
   const handleDeleteKey = (id: string) => {
     KeyManager.removeKey(id);
     setManagedKeys(KeyManager.getKeys());
   };
 
-  const handleFetch = async (e: React.FormEvent) => {
-    e.preventDefault();
-    const parsed = parseGithubUrl(url);
-    if (!parsed) {
-      setError('Invalid GitHub URL. Must be https://github.com/owner/repo');
-      return;
+  const handleRetryKey = (id: string) => {
+    KeyManager.retryKey(id);
+    setManagedKeys(KeyManager.getKeys());
+  };
+
+  const handleClearCache = async () => {
+    await HttpCache.clear();
+    setCacheStats(await HttpCache.getStats());
+  };
+
+  const formatBytes = (bytes: number) => {
+    if (bytes < 1024) return `${bytes} B`;
+    if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  };
+
+  // Reads the History controls; returns null (and reports why) when they're incomplete
+  const buildIngestionDepth = (): IngestionDepth | null => {
+    if (depthMode === 'range') {
+      if (!depthSince || !depthUntil) {
+        setError('Pick both a start and an end date for the history range.');
+        return null;
+      }
+      // Date inputs are whole days; include the full end day
+      return {
+        mode: 'range',
+        since: new Date(`${depthSince}T00:00:00`).toISOString(),
+        until: new Date(`${depthUntil}T23:59:59`).toISOString()
+      };
+    }
+    if (depthMode === 'recent') {
+      return { mode: 'recent', count: Math.max(1, depthCount) };
     }
+    return { mode: 'all' };
+  };
+
+  const startLoad = () => {
+    loadController.current?.abort();
+    loadController.current = new AbortController();
+    return loadController.current.signal;
+  };
+
+  const handleCancelLoad = () => {
+    loadController.current?.abort();
+    setIngestionProgress(null);
+    setViewState(repoInfo ? ViewState.REPO_LOADED : ViewState.IDLE);
+  };
+
+  const loadRepository = async (location: RepositoryLocation, ref?: AnalysisRef) => {
+    const depth = buildIngestionDepth();
+    if (!depth) return;
+    const signal = startLoad();
+    // A review still streaming belongs to the previous snapshot
+    reviewController.current?.abort();
 
     setViewState(ViewState.LOADING_REPO);
     setError(null);
-    setRepoInfo(null);
     setAiAnalysis(null); 
+    setAnalysisError(null);
     setReviewMarkdown('');
     setUsageMetadata(null);
+    setReviewEstimate(null);
+    setReviewProgress(null);
+    setModuleReviews([]);
+    setIsReviewing(false);
+    setIngestionProgress(null);
+
+    const savedWindow = loadReviewWindow(`${location.owner}/${location.repo}`);
 
     try {
-      const data = await fetchRepoDetails(parsed.owner, parsed.repo);
+      const data = await fetchRepoDetails(location, {
+        depth,
+        fileHistory: Math.max(1, fileHistory),
+        ref,
+        window: savedWindow || undefined,
+        backend: ingestionBackend,
+        restFileHistory,
+        signal,
+        onProgress: progress => !signal.aborted && setIngestionProgress(progress)
+      });
       setRepoInfo(data.info);
+      setRepoLocation(location);
       setCommits(data.commits);
+      setActivityRange(null);
       setPullRequests(data.pullRequests);
+      setIssues(data.issues);
+      setCiReport(data.ci);
+      setDependencyReport(data.dependencies);
       setFiles(data.files);
       setBranches(data.branches);
+      setTags(data.tags);
+      setActiveRef(data.ref);
+      loadedSnapshot.current = { location, ref: data.ref };
       setContributors(data.contributors);
+      setIdentityOverrides(loadIdentityOverrides(`${location.owner}/${location.repo}`));
       setReadme(data.readme);
       setLanguages(data.languages);
+      setReviewWindow(savedWindow);
+      setWindowCompliance(data.windowCompliance || null);
+      setFileHistoryReport(data.fileHistory || null);
+      setSourceOverrides({ pinned: [], excluded: [] });
       setViewState(ViewState.REPO_LOADED);
     } catch (err) {
+      if (signal.aborted || isAbortError(err)) return;
       setError(err instanceof Error ? err.message : 'Failed to fetch repository data');
+      // Switching refs on a loaded repo keeps the previous snapshot on screen
+      setViewState(repoInfo ? ViewState.REPO_LOADED : ViewState.IDLE);
+    }
+  };
+
+  const handleFetch = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // Pull request URLs open the focused PR review instead of a repository audit
+    const pullRequestLocation = parsePullRequestUrl(url);
+    if (pullRequestLocation) {
+      const signal = startLoad();
+      setViewState(ViewState.LOADING_REPO);
+      setError(null);
+      setIngestionProgress(null);
+      try {
+        const data = await fetchPullRequest(pullRequestLocation, signal);
+        if (!signal.aborted) setPullRequestReview(data);
+      } catch (err) {
+        if (!signal.aborted && !isAbortError(err)) setError(err instanceof Error ? err.message : 'Failed to fetch pull request');
+      } finally {
+        if (!signal.aborted) setViewState(ViewState.IDLE);
+      }
+      return;
+    }
+
+    const location = parseRepositoryUrl(url);
+    if (!location) {
+      setError('Unrecognized repository URL. Use a github.com or gitlab.com URL, or register your self-hosted instance in Settings.');
+      return;
+    }
+
+    setRepoInfo(null);
+    setActiveRef(null);
+    loadedSnapshot.current = null;
+    await loadRepository(location);
+  };
+
+  const handleArchiveUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    // Checked before parsing so an incomplete History setting doesn't leave the loader spinning
+    if (!buildIngestionDepth()) return;
+    // Parsing is part of the load: Cancel aborts it, and loadRepository takes over with its own signal
+    const signal = startLoad();
+
+    setRepoInfo(null);
+    setActiveRef(null);
+    loadedSnapshot.current = null;
+    setViewState(ViewState.LOADING_REPO);
+    setError(null);
+    setIngestionProgress(null);
+    try {
+      const location = await loadRepositoryArchive(file, signal, progress => !signal.aborted && setIngestionProgress(progress));
+      if (signal.aborted) return;
+      await loadRepository(location);
+    } catch (err) {
+      if (signal.aborted || isAbortError(err)) return;
+      setError(err instanceof Error ? err.message : 'Failed to read the uploaded archive');
       setViewState(ViewState.IDLE);
     }
   };
 
+  const handleRefChange = (ref: AnalysisRef) => {
+    if (!repoLocation) return;
+    loadRepository(repoLocation, ref);
+  };
+
+  const handleWindowChange = (window: ReviewWindow | null) => {
+    if (!repoInfo) return;
+    saveReviewWindow(repoInfo.full_name, window);
+    setReviewWindow(window);
+    setWindowCompliance(window ? checkWindowCompliance(commits, window) : null);
+  };
+
+  const handleIdentityOverridesChange = (overrides: IdentityOverrides) => {
+    if (!repoInfo) return;
+    saveIdentityOverrides(repoInfo.full_name, overrides);
+    setIdentityOverrides(overrides);
+  };
+
+  // Snapshots are keyed by full name; re-adding a repository replaces its earlier snapshot
+  const addComparisonEntry = (entry: ComparisonEntry) => {
+    const key = entry.details.info.full_name.toLowerCase();
+    setCompareEntries(prev => [...prev.filter(e => e.details.info.full_name.toLowerCase() !== key), entry]);
+  };
+
+  const handleCompareCurrent = () => {
+    if (!repoInfo || !repoLocation || !activeRef || !ciReport || !dependencyReport) return;
+    addComparisonEntry({
+      location: repoLocation,
+      details: {
+        info: repoInfo,
+        commits,
+        pullRequests,
+        issues,
+        files,
+        branches,
+        tags,
+        contributors,
+        readme,
+        languages,
+        ref: activeRef,
+        windowCompliance: windowCompliance || undefined,
+        ci: ciReport,
+        dependencies: dependencyReport
+      },
+      scores: aiAnalysis?.scores
+    });
+    setIsCompareMode(true);
+  };
+
+  // Repositories added from compare mode are ingested with the current History and API settings
+  const handleAddComparison = async (compareUrl: string, signal: AbortSignal) => {
+    const location = parseRepositoryUrl(compareUrl);
+    if (!location) {
+      throw new Error('Unrecognized repository URL. Use a github.com or gitlab.com URL, or register your self-hosted instance in Settings.');
+    }
+    const depth = buildIngestionDepth();
+    if (!depth) {
+      throw new Error('Complete the History settings before adding a repository.');
+    }
+    const details = await fetchRepoDetails(location, { depth, fileHistory: Math.max(1, fileHistory), backend: ingestionBackend, restFileHistory, signal });
+    addComparisonEntry({ location, details });
+  };
+
+  const handleRemoveComparison = (fullName: string) => {
+    setCompareEntries(prev => prev.filter(e => e.details.info.full_name !== fullName));
+  };
+
   const resetRepo = () => {
+    loadController.current?.abort();
+    reviewController.current?.abort();
     setRepoInfo(null);
     setUrl('');
     setAiAnalysis(null);
+    setAnalysisError(null);
     setReviewMarkdown('');
     setUsageMetadata(null);
+    setReviewEstimate(null);
+    setReviewProgress(null);
+    setModuleReviews([]);
+    setIsReviewing(false);
+    setIngestionProgress(null);
     setViewState(ViewState.IDLE);
   }
 
+  const directoryIndex = useMemo(() => buildDirectoryIndex(files), [files]);
+  const directorySummaries = useMemo(() => summarizeDirectories(files), [files]);
+  const unlistedDirectories = pendingDirectories(files).length;
+  const isLargeTree = files.length > MAX_LISTED_TREE_FILES || unlistedDirectories > 0;
+
+  // Swaps an unwalked directory for its listing
+  const handleLoadDirectory = async (directory: FileNode) => {
+    const snapshot = loadedSnapshot.current;
+    if (!snapshot) return;
+    try {
+      const children = await fetchDirectory(snapshot.location, snapshot.ref, directory);
+      if (loadedSnapshot.current !== snapshot) return;
+      setFiles(prev => [...prev.filter(f => !(f.type === 'tree' && f.path === directory.path)), ...children]);
+    } catch (err) {
+      if (loadedSnapshot.current !== snapshot) return;
+      setError(err instanceof Error ? err.message : `Failed to load ${directory.path}`);
+    }
+  };
+
+  // Aliases merged and excluded accounts (bots by default) dropped before any analysis
+  const identityResolution = useMemo(
+    () => resolveIdentities(contributors, commits, identityOverrides),
+    [contributors, commits, identityOverrides]
+  );
+  const team = useMemo(
+    () => applyIdentities(commits, contributors, identityResolution),
+    [commits, contributors, identityResolution]
+  );
+
+  const hotspotReport = useMemo(() => analyzeHotspots(files, team.commits), [files, team.commits]);
+  const topHotspots = useMemo(
+    () => new Map(hotspotReport.hotspots.slice(0, TOP_HOTSPOTS).map(h => [h.path, h])),
+    [hotspotReport]
+  );
+
+  const sourceSelection = useMemo(
+    () => rankSourceFiles(files, team.commits, promptBudgets.code, sourceOverrides, [...topHotspots.values()]),
+    [files, team.commits, promptBudgets.code, sourceOverrides, topHotspots]
+  );
+
+  const issueHealth = useMemo(() => analyzeIssueHealth(issues), [issues]);
+  const prReport = useMemo(() => analyzePullRequests(pullRequests), [pullRequests]);
+  const ownership = useMemo(() => analyzeOwnership(team.commits), [team.commits]);
+  const repoOwnership = ownership.directories.get('');
+  const singleOwned = useMemo(() => singleOwnerDirectories(ownership), [ownership]);
+  const ownershipOverlay = useMemo<OwnershipOverlay | undefined>(() => {
+    if (!showOwnership) return undefined;
+    const ranked = repoOwnership?.owners || [];
+    return { report: ownership, colors: new Map(ranked.slice(0, OWNER_COLORS.length).map((o, i) => [o.author, OWNER_COLORS[i]])) };
+  }, [showOwnership, ownership, repoOwnership]);
+
+  // Commit list narrowed to the range picked on the activity charts
+  const visibleCommits = useMemo(
+    () => activityRange ? team.commits.filter(c => isInRange(c, activityRange)) : team.commits,
+    [team.commits, activityRange]
+  );
+
+  // Pinning and excluding are mutually exclusive; toggling one clears the other
+  const toggleSourceOverride = (kind: keyof SourceOverrides, path: string) => {
+    setSourceOverrides(prev => {
+      const toggle = (list: string[]) => (list.includes(path) ? list.filter(p => p !== path) : [...list, path]);
+      const without = (list: string[]) => list.filter(p => p !== path);
+      return kind === 'pinned'
+        ? { pinned: toggle(prev.pinned), excluded: without(prev.excluded) }
+        : { pinned: without(prev.pinned), excluded: toggle(prev.excluded) };
+    });
+  };
+
+  // Files the load didn't download can still be pinned; their content is fetched first
+  const unfetchedFiles = useMemo(
+    () => files.filter(f => f.type === 'blob' && f.content === undefined).map(f => f.path).sort(),
+    [files]
+  );
+
+  const handlePinFile = async (path: string) => {
+    const snapshot = loadedSnapshot.current;
+    const file = files.find(f => f.type === 'blob' && f.path === path);
+    if (!snapshot || !file) return;
+    if (file.content === undefined) {
+      setPinningPath(path);
+      try {
+        const loaded = await fetchFileContent(snapshot.location, snapshot.ref, file);
+        if (loadedSnapshot.current !== snapshot) return;
+        setFiles(prev => prev.map(f => (f.type === 'blob' && f.path === path ? loaded : f)));
+      } catch (err) {
+        if (loadedSnapshot.current === snapshot) setError(err instanceof Error ? err.message : `Failed to load ${path}`);
+        return;
+      } finally {
+        setPinningPath(null);
+      }
+    }
+    setSourceOverrides(prev => (prev.pinned.includes(path) ? prev : { pinned: [...prev.pinned, path], excluded: prev.excluded.filter(p => p !== path) }));
+  };
+
+  // What a review would send right now, so the planner can size it before it runs.
+  // The main prompt quotes only the selection's files; per-directory passes read every fetched one.
+  const reviewRequestData = useMemo<ReviewRequestData | null>(() => repoInfo && {
+    repo: repoInfo,
+    commits: team.commits,
+    pullRequests: pullRequests,
+    issues: issues,
+    files: files.map(f => (f.content ? { ...f, content: f.content.substring(0, MAX_FILE_CONTENT_CHARS) } : f)),
+    contributors: team.contributors,
+    languages: languages,
+    readme: readme,
+    ref: activeRef || undefined,
+    windowCompliance: windowCompliance || undefined,
+    sourceSelection,
+    ci: ciReport || undefined,
+    dependencies: dependencyReport || undefined,
+    ownership,
+    hotspots: hotspotReport,
+    promptBudgets,
+  }, [repoInfo, team, pullRequests, issues, files, languages, readme, activeRef, windowCompliance, sourceSelection, ciReport, dependencyReport, ownership, hotspotReport, promptBudgets]);
+
+  const reviewPlan = useMemo(() => reviewRequestData && planReviewPrompt(reviewRequestData, multiPass), [reviewRequestData, multiPass]);
+
+  const handlePromptBudgetChange = (section: PromptSection, tokens: number) =>
+    setPromptBudgets(prev => ({ ...prev, [section]: tokens }));
+
+  const handleCountTokens = async () => {
+    if (!reviewPlan) return;
+    setIsCountingTokens(true);
+    try {
+      const counted = await Promise.all(reviewPlan.sections.map(async section => {
+        const tokens = section.text ? await countTokens(llmTarget, section.text) : 0;
+        return [section.section, tokens === null ? null : { text: section.text, tokens }] as const;
+      }));
+      setTokenCounts(Object.fromEntries(counted.filter(([, count]) => count)));
+    } finally {
+      setIsCountingTokens(false);
+    }
+  };
+
   const handleReview = async () => {
-    if (!repoInfo) return;
+    if (!reviewRequestData || !reviewPlan) return;
+    reviewController.current?.abort();
+    const controller = new AbortController();
+    reviewController.current = controller;
+    const { signal } = controller;
     
     setIsSidebarOpen(true);
     setReviewMarkdown('');
     setIsReviewing(true);
     setViewState(ViewState.ANALYZING);
     setUsageMetadata(null);
-
-    const requestData = {
-      repo: repoInfo,
-      commits: commits,
-      pullRequests: pullRequests, 
-      files: files,
-      contributors: contributors,
-      languages: languages,
-      readme: readme
-    };
+    setReviewProgress(null);
+    setAnalysisError(null);
+    setModuleReviews([]);
+    setReviewEstimate({ target: llmTarget, estimate: estimatePlanUsage(reviewPlan, tokenCounts) });
 
     try {
-      const stream = generateReviewStream(requestData);
+      const stream = multiPass
+        ? generateMultiPassReviewStream(reviewRequestData, llmTarget, reviewBudget, signal)
+        : generateReviewStream(reviewRequestData, llmTarget, signal);
+      let analysis: AIAnalysisResult | null = null;
+      let usage: TokenUsage | null = null;
 
       for await (const chunk of stream) {
+        if (signal.aborted) break;
         if (chunk.type === 'text') {
             setReviewMarkdown(prev => prev + chunk.content);
-        } else if (chunk.type === 'usage' && chunk.data) {
+        } else if (chunk.type === 'usage') {
+            usage = chunk.data;
             setUsageMetadata(chunk.data);
+        } else if (chunk.type === 'progress') {
+            setReviewProgress(chunk.data);
+        } else if (chunk.type === 'analysis') {
+            analysis = chunk.data;
+            setAiAnalysis(chunk.data);
+        } else if (chunk.type === 'analysis-error') {
+            setAnalysisError(chunk.message);
+        } else if (chunk.type === 'module') {
+            setModuleReviews(prev => prev.some(m => m.name === chunk.data.name)
+              ? prev.map(m => (m.name === chunk.data.name ? chunk.data : m))
+              : [...prev, chunk.data]);
         }
       }
+      if (analysis && usage && !signal.aborted) {
+        setAiAnalysis({ ...analysis, tokenUsage: usage });
+      }
     } catch (e) {
-      setReviewMarkdown(prev => prev + '\n\n**Error encountered during generation.**');
+      if (!signal.aborted) setReviewMarkdown(prev => prev + '\n\n**Error encountered during generation.**');
     } finally {
-      setIsReviewing(false);
-      setViewState(ViewState.REPO_LOADED);
+      // A cancelled or superseded run leaves the view to whoever aborted it
+      if (reviewController.current === controller && !signal.aborted) {
+        setIsReviewing(false);
+        setReviewProgress(null);
+        setViewState(ViewState.REPO_LOADED);
+      }
     }
   };
 
-  const handleAnalysisComplete = (result: AIAnalysisResult) => {
-    setAiAnalysis(prev => ({
-        ...result,
-        tokenUsage: usageMetadata || undefined
-    }));
+  const handleCancelReview = () => {
+    reviewController.current?.abort();
+    setIsReviewing(false);
+    setReviewProgress(null);
+    setViewState(ViewState.REPO_LOADED);
   };
 
   const getLangColor = (lang: string) => {
@@ -289,8 +885,6 @@ export const Dashboard: React.FC<DashboardProps> = ({ onLogout }) => {
     return map[lang] || '#8b949e';
   };
 
-  const totalCommits = contributors.reduce((acc, curr) => acc + curr.contributions, 0);
-
   return (
     <div className="flex-1 flex flex-col bg-[hsl(var(--bg))] text-[hsl(var(--text-main))] overflow-hidden transition-colors duration-300 relative">
       
@@ -325,20 +919,60 @@ export const Dashboard: React.FC<DashboardProps> = ({ onLogout }) => {
                                   className="w-full bg-[hsl(var(--surface-1))] border border-[hsl(var(--surface-2))] rounded px-3 py-2 text-sm focus:border-[hsl(var(--primary))] outline-none"
                               >
                                   <option value="github">GitHub Token</option>
+                                  <option value="gitlab">GitLab Token</option>
                                   <option value="gemini">Gemini API Key</option>
+                                  <option value="openai-compatible">OpenAI-compatible Endpoint</option>
+                                  <option value="anthropic">Anthropic API Key</option>
                               </select>
                           </div>
                           <div className="space-y-1 md:col-span-2 relative group">
-                              <label className="text-xs text-[hsl(var(--text-dim))]">Token (Encrypted Storage)</label>
+                              <label className="text-xs text-[hsl(var(--text-dim))]">Token (Encrypted Storage){newKeyProvider && !newKeyProvider.requiresKey ? ' (optional for local servers)' : ''}</label>
                               <input 
                                   type="password" 
-                                  placeholder="ghp_... or AIza..." 
+                                  placeholder="ghp_..., glpat-..., AIza..., sk-..." 
                                   value={newKeyToken}
                                   onChange={e => setNewKeyToken(e.target.value)}
                                   className="w-full bg-[hsl(var(--surface-1))] border border-[hsl(var(--surface-2))] rounded px-3 py-2 text-sm focus:border-[hsl(var(--primary))] outline-none"
                               />
                           </div>
-                          <div className="md:col-span-4 flex justify-end mt-2">
+                          {isRepositoryKeyType && (
+                              <div className="space-y-1 md:col-span-2">
+                                  <label className="text-xs text-[hsl(var(--text-dim))]">Host (self-hosted only)</label>
+                                  <input 
+                                      type="text" 
+                                      placeholder={newKeyType === 'github' ? 'github.com' : 'gitlab.com'}
+                                      value={newKeyHost}
+                                      onChange={e => setNewKeyHost(e.target.value)}
+                                      className="w-full bg-[hsl(var(--surface-1))] border border-[hsl(var(--surface-2))] rounded px-3 py-2 text-sm focus:border-[hsl(var(--primary))] outline-none"
+                                  />
+                              </div>
+                          )}
+                          {newKeyProvider && (
+                              <>
+                                  <div className="space-y-1 md:col-span-2">
+                                      <label className="text-xs text-[hsl(var(--text-dim))]">Base URL{newKeyProvider.kind === 'openai-compatible' ? '' : ' (proxies only)'}</label>
+                                      <input 
+                                          type="text" 
+                                          placeholder={newKeyProvider.defaultBaseUrl}
+                                          value={newKeyBaseUrl}
+                                          onChange={e => setNewKeyBaseUrl(e.target.value)}
+                                          className="w-full bg-[hsl(var(--surface-1))] border border-[hsl(var(--surface-2))] rounded px-3 py-2 text-sm focus:border-[hsl(var(--primary))] outline-none"
+                                      />
+                                  </div>
+                                  <div className="space-y-1 md:col-span-1">
+                                      <label className="text-xs text-[hsl(var(--text-dim))]">Model</label>
+                                      <input 
+                                          type="text" 
+                                          placeholder={newKeyProvider.defaultModel || 'model name'}
+                                          required={!newKeyProvider.defaultModel}
+                                          value={newKeyModel}
+                                          onChange={e => setNewKeyModel(e.target.value)}
+                                          className="w-full bg-[hsl(var(--surface-1))] border border-[hsl(var(--surface-2))] rounded px-3 py-2 text-sm focus:border-[hsl(var(--primary))] outline-none"
+                                      />
+                                  </div>
+                              </>
+                          )}
+                          <div className={`${isRepositoryKeyType ? 'md:col-span-2' : 'md:col-span-1'} flex justify-end mt-2`}>
                              <Button type="submit" className="py-1.5 px-4 text-xs h-9">Save Key Securely</Button>
                           </div>
                       </form>
@@ -354,20 +988,39 @@ export const Dashboard: React.FC<DashboardProps> = ({ onLogout }) => {
                       {managedKeys.map(key => (
                           <div key={key.id} className="flex items-center justify-between p-3 bg-[hsl(var(--bg))] border border-[hsl(var(--surface-2))] rounded-lg">
                               <div className="flex items-center gap-3">
-                                  <div className={`p-2 rounded bg-[hsl(var(--surface-2))] ${key.type === 'github' ? 'text-white' : 'text-blue-400'}`}>
-                                      {key.type === 'github' ? <Github size={16}/> : <BrainCircuit size={16}/>}
+                                  <div className={`p-2 rounded bg-[hsl(var(--surface-2))] ${key.type === 'github' ? 'text-white' : key.type === 'gitlab' ? 'text-orange-400' : 'text-blue-400'}`}>
+                                      {key.type === 'github' ? <Github size={16}/> : key.type === 'gitlab' ? <Gitlab size={16}/> : <BrainCircuit size={16}/>}
                                   </div>
                                   <div>
-                                      <div className="font-medium text-sm text-[hsl(var(--text-main))]">{key.name}</div>
+                                      <div className="font-medium text-sm text-[hsl(var(--text-main))] flex items-center gap-2">
+                                          {key.name}
+                                          {key.host && <span className="text-[10px] font-mono text-[hsl(var(--text-dim))] bg-[hsl(var(--surface-2))] px-1.5 py-0.5 rounded">{key.host}</span>}
+                                          {key.model && <span className="text-[10px] font-mono text-[hsl(var(--text-dim))] bg-[hsl(var(--surface-2))] px-1.5 py-0.5 rounded">{key.model}</span>}
+                                          {key.baseUrl && <span className="text-[10px] font-mono text-[hsl(var(--text-dim))] bg-[hsl(var(--surface-2))] px-1.5 py-0.5 rounded">{key.baseUrl}</span>}
+                                      </div>
                                       <div className="text-xs font-mono text-[hsl(var(--text-dim))] flex items-center gap-1">
                                           <Lock size={10} />
-                                          {key.token.substring(0, 4)}••••••••••••••••••••{key.token.slice(-4)}
+                                          {key.token ? `${key.token.substring(0, 4)}••••••••••••••••••••${key.token.slice(-4)}` : 'No key (local endpoint)'}
                                       </div>
                                   </div>
                               </div>
                               <div className="flex items-center gap-2">
-                                  {key.isRateLimitedUntil && key.isRateLimitedUntil > Date.now() && (
-                                      <span className="text-[10px] text-yellow-500 bg-yellow-900/20 px-2 py-0.5 rounded border border-yellow-900/30">Rate Limited</span>
+                                  {key.rateLimit && (
+                                      <span className="text-[10px] font-mono text-[hsl(var(--text-dim))]" title={`Quota resets at ${new Date(key.rateLimit.resetAt).toLocaleTimeString()}`}>
+                                          {key.rateLimit.resetAt > Date.now() ? key.rateLimit.remaining : key.rateLimit.limit}/{key.rateLimit.limit} calls
+                                      </span>
+                                  )}
+                                  {key.invalidReason ? (
+                                      <span className="text-[10px] text-red-400 bg-red-900/20 px-2 py-0.5 rounded border border-red-900/30">{key.invalidReason}</span>
+                                  ) : key.isRateLimitedUntil && key.isRateLimitedUntil > Date.now() ? (
+                                      <span className="text-[10px] text-yellow-500 bg-yellow-900/20 px-2 py-0.5 rounded border border-yellow-900/30">Rate Limited until {new Date(key.isRateLimitedUntil).toLocaleTimeString()}</span>
+                                  ) : key.rateLimit && key.rateLimit.remaining === 0 && key.rateLimit.resetAt > Date.now() && (
+                                      <span className="text-[10px] text-yellow-500 bg-yellow-900/20 px-2 py-0.5 rounded border border-yellow-900/30">Exhausted until {new Date(key.rateLimit.resetAt).toLocaleTimeString()}</span>
+                                  )}
+                                  {(key.invalidReason || (key.isRateLimitedUntil && key.isRateLimitedUntil > Date.now())) && (
+                                      <button onClick={() => handleRetryKey(key.id)} className="p-2 text-[hsl(var(--text-dim))] hover:text-[hsl(var(--primary))] hover:bg-[hsl(var(--surface-2))] rounded transition-colors" title="Retry key">
+                                          <RefreshCw size={16} />
+                                      </button>
                                   )}
                                   <button onClick={() => handleDeleteKey(key.id)} className="p-2 text-red-400 hover:bg-red-900/20 rounded transition-colors" title="Delete Key">
                                       <Trash2 size={16} />
@@ -376,17 +1029,80 @@ export const Dashboard: React.FC<DashboardProps> = ({ onLogout }) => {
                           </div>
                       ))}
                   </div>
+
+                  <h4 className="text-sm font-bold text-[hsl(var(--text-dim))] mt-6 mb-2 uppercase tracking-wider">Self-hosted Instances</h4>
+                  <form onSubmit={handleAddHost} className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end mb-3">
+                      <input 
+                          type="text" 
+                          placeholder="git.example.com" 
+                          value={newHost}
+                          onChange={e => setNewHost(e.target.value)}
+                          className="w-full bg-[hsl(var(--surface-1))] border border-[hsl(var(--surface-2))] rounded px-3 py-2 text-sm focus:border-[hsl(var(--primary))] outline-none"
+                      />
+                      <select 
+                          value={newHostKind}
+                          onChange={e => setNewHostKind(e.target.value as ProviderHost['kind'])}
+                          className="w-full bg-[hsl(var(--surface-1))] border border-[hsl(var(--surface-2))] rounded px-3 py-2 text-sm focus:border-[hsl(var(--primary))] outline-none"
+                      >
+                          <option value="github-enterprise">GitHub Enterprise</option>
+                          <option value="gitlab">GitLab Self-managed</option>
+                      </select>
+                      <input 
+                          type="text" 
+                          placeholder="API base (optional)" 
+                          value={newHostApiBase}
+                          onChange={e => setNewHostApiBase(e.target.value)}
+                          className="w-full bg-[hsl(var(--surface-1))] border border-[hsl(var(--surface-2))] rounded px-3 py-2 text-sm focus:border-[hsl(var(--primary))] outline-none"
+                      />
+                      <Button type="submit" variant="secondary" className="py-1.5 px-4 text-xs h-9">Add Instance</Button>
+                  </form>
+                  <div className="space-y-2">
+                      {providerHosts.map(h => (
+                          <div key={h.host} className="flex items-center justify-between p-3 bg-[hsl(var(--bg))] border border-[hsl(var(--surface-2))] rounded-lg">
+                              <div className="flex items-center gap-3">
+                                  <div className="p-2 rounded bg-[hsl(var(--surface-2))] text-[hsl(var(--text-dim))]">
+                                      {h.kind === 'gitlab' ? <Gitlab size={16}/> : <Server size={16}/>}
+                                  </div>
+                                  <div>
+                                      <div className="font-medium text-sm text-[hsl(var(--text-main))]">{h.host}</div>
+                                      <div className="text-xs font-mono text-[hsl(var(--text-dim))]">{h.apiBase}</div>
+                                  </div>
+                              </div>
+                              <button onClick={() => handleRemoveHost(h.host)} className="p-2 text-red-400 hover:bg-red-900/20 rounded transition-colors" title="Remove Instance">
+                                  <Trash2 size={16} />
+                              </button>
+                          </div>
+                      ))}
+                  </div>
+
+                  <h4 className="text-sm font-bold text-[hsl(var(--text-dim))] mt-6 mb-2 uppercase tracking-wider">Response Cache</h4>
+                  <div className="flex items-center justify-between p-3 bg-[hsl(var(--bg))] border border-[hsl(var(--surface-2))] rounded-lg">
+                      <div className="flex items-center gap-3">
+                          <div className="p-2 rounded bg-[hsl(var(--surface-2))] text-[hsl(var(--text-dim))]">
+                              <Database size={16}/>
+                          </div>
+                          <div>
+                              <div className="font-medium text-sm text-[hsl(var(--text-main))]">
+                                  {cacheStats ? `${cacheStats.entries} responses · ${formatBytes(cacheStats.bytes)}` : 'Calculating...'}
+                              </div>
+                              <div className="text-xs text-[hsl(var(--text-dim))]">Revalidated with ETags; unchanged responses don't use rate limit.</div>
+                          </div>
+                      </div>
+                      <Button variant="danger" onClick={handleClearCache} disabled={!cacheStats || cacheStats.entries === 0} className="py-1.5 px-3 text-xs h-8">
+                          <Trash2 size={14} /> Clear Cache
+                      </Button>
+                  </div>
               </div>
               <div className="mt-6 pt-4 border-t border-[hsl(var(--surface-2))] text-xs text-[hsl(var(--text-dim))] flex items-start gap-2">
                   <ShieldCheck size={14} className="text-green-500 shrink-0 mt-0.5" />
-                  <p>Keys are obfuscated and stored in your browser's Local Storage. They are never sent to our servers, only directly to GitHub/Google APIs. If a key hits a rate limit, the system automatically rotates to the next available key of the same type.</p>
+                  <p>Keys are obfuscated and stored in your browser's Local Storage. They are never sent to our servers, only directly to GitHub/GitLab/Google APIs. If a key hits a rate limit, it is benched until the reset time the API reports and the system rotates to the key with the most remaining quota.</p>
               </div>
            </div>
         </div>
       )}
 
       {/* Popups */}
-      <Modal isOpen={showBranchesModal} onClose={() => setShowBranchesModal(false)} title="All Branches">
+      <Modal isOpen={showBranchesModal} onClose={() => setShowBranchesModal(false)} title="Branches & Tags">
          <div className="grid grid-cols-2 gap-3">
             {branches.map(b => (
                 <a key={b.name} href={b.html_url} target="_blank" rel="noreferrer" className="flex items-center gap-2 p-3 rounded-lg bg-[hsl(var(--bg))] border border-[hsl(var(--surface-2))] hover:border-[hsl(var(--primary))] transition-colors group">
@@ -395,35 +1111,33 @@ export const Dashboard: React.FC<DashboardProps> = ({ onLogout }) => {
                 </a>
             ))}
          </div>
+         {tags.length > 0 && (
+            <>
+              <h4 className="text-sm font-bold text-[hsl(var(--text-dim))] mt-6 mb-3 uppercase tracking-wider">Tags</h4>
+              <div className="grid grid-cols-2 gap-3">
+                {tags.map(t => (
+                    <a key={t.name} href={`${repoInfo?.html_url}/tree/${t.name}`} target="_blank" rel="noreferrer" className="flex items-center gap-2 p-3 rounded-lg bg-[hsl(var(--bg))] border border-[hsl(var(--surface-2))] hover:border-[hsl(var(--primary))] transition-colors group">
+                        <TagIcon size={16} className="text-[hsl(var(--text-dim))] group-hover:text-[hsl(var(--primary))]" />
+                        <span className="text-sm font-mono truncate">{t.name}</span>
+                    </a>
+                ))}
+              </div>
+            </>
+         )}
       </Modal>
 
-      <Modal isOpen={showContributorsModal} onClose={() => setShowContributorsModal(false)} title="All Contributors">
-         <div className="space-y-3">
-            {contributors.map(c => {
-                const percent = ((c.contributions / totalCommits) * 100).toFixed(1);
-                return (
-                <a key={c.id} href={c.html_url} target="_blank" rel="noreferrer" className="flex items-center justify-between p-3 rounded-lg bg-[hsl(var(--bg))] border border-[hsl(var(--surface-2))] hover:border-[hsl(var(--primary))] transition-colors group">
-                    <div className="flex items-center gap-3">
-                        <img src={c.avatar_url} className="w-10 h-10 rounded-full border border-[hsl(var(--surface-2))]" />
-                        <div>
-                            <div className="font-bold text-[hsl(var(--text-main))]">{c.login}</div>
-                            <div className="text-xs text-[hsl(var(--text-dim))]">{c.contributions} commits</div>
-                        </div>
-                    </div>
-                    <div className="flex flex-col items-end">
-                        <span className="font-mono text-[hsl(var(--primary))] font-bold">{percent}%</span>
-                        <div className="w-24 h-1.5 bg-[hsl(var(--surface-2))] rounded-full mt-1 overflow-hidden">
-                            <div className="h-full bg-[hsl(var(--primary))]" style={{ width: `${percent}%`}}></div>
-                        </div>
-                    </div>
-                </a>
-            )})}
-         </div>
+      <Modal isOpen={showContributorsModal} onClose={() => setShowContributorsModal(false)} title="Contributor Identities">
+         <ContributorIdentities
+            identities={identityResolution.identities}
+            onMerge={ids => handleIdentityOverridesChange(mergeIdentities(identityOverrides, ids))}
+            onSplit={identity => handleIdentityOverridesChange(splitIdentity(identityOverrides, identityResolution, identity))}
+            onToggleExcluded={identity => handleIdentityOverridesChange(toggleIdentityExcluded(identityOverrides, identityResolution, identity))}
+         />
       </Modal>
 
-      <Modal isOpen={showCommitsModal} onClose={() => setShowCommitsModal(false)} title="All Commits">
+      <Modal isOpen={showCommitsModal} onClose={() => setShowCommitsModal(false)} title={activityRange ? `Commits (${formatRange(activityRange)})` : "All Commits"}>
         <div className="space-y-4">
-            {commits.map(commit => (
+            {visibleCommits.map(commit => (
                 <div key={commit.sha} className="p-4 bg-[hsl(var(--bg))] border border-[hsl(var(--surface-2))] rounded-lg">
                     <div className="flex justify-between items-start mb-2">
                         <div className="font-medium text-[hsl(var(--text-main))] text-sm">{commit.commit.message}</div>
@@ -453,22 +1167,107 @@ export const Dashboard: React.FC<DashboardProps> = ({ onLogout }) => {
 
       <Modal isOpen={showPRsModal} onClose={() => setShowPRsModal(false)} title="Pull Requests">
           <div className="space-y-4">
-              {pullRequests.map(pr => (
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+                  <div><span className="text-[hsl(var(--text-dim))]">Merged:</span> {prReport.merged} / {prReport.total}</div>
+                  <div><span className="text-[hsl(var(--text-dim))]">Median time to merge:</span> {formatHours(prReport.medianHoursToMerge)}</div>
+                  <div><span className="text-[hsl(var(--text-dim))]">Reviewed before merge:</span> {prReport.reviewedMerged} / {prReport.merged}</div>
+                  <div><span className="text-[hsl(var(--text-dim))]">Median size:</span> {prReport.medianLinesChanged ?? 'n/a'} lines</div>
+              </div>
+              {pullRequests.map(pr => {
+                  const verdicts = Object.entries(reviewVerdicts(pr));
+                  return (
                   <div key={pr.id} className="p-4 bg-[hsl(var(--bg))] border border-[hsl(var(--surface-2))] rounded-lg">
                       <div className="flex justify-between items-start mb-2">
-                          <div className="font-medium text-[hsl(var(--text-main))] text-sm">#{pr.number} {pr.title}</div>
-                          <span className={`text-[10px] px-1.5 py-0.5 rounded uppercase font-bold ${pr.state === 'open' ? 'bg-green-900 text-green-200' : 'bg-purple-900 text-purple-200'}`}>{pr.state}</span>
+                          <a href={pr.html_url} target="_blank" className="font-medium text-[hsl(var(--text-main))] text-sm hover:underline">#{pr.number} {pr.title}</a>
+                          <PullRequestStateBadge pr={pr} />
                       </div>
-                      <div className="flex items-center gap-2 text-xs text-[hsl(var(--text-dim))]">
-                          <img src={pr.user.avatar_url} className="w-4 h-4 rounded-full"/>
+                      <div className="flex flex-wrap items-center gap-2 text-xs text-[hsl(var(--text-dim))]">
+                          {pr.user.avatar_url && <img src={pr.user.avatar_url} className="w-4 h-4 rounded-full"/>}
                           <span>{pr.user.login}</span>
+                          <span>•</span>
+                          <span>opened {new Date(pr.created_at).toLocaleDateString()}</span>
+                          {pr.merged_at && <span>• merged after {formatHours(hoursToMerge(pr))}</span>}
+                          {pr.additions !== undefined && (
+                              <span className="font-mono">
+                                  • <span className="text-green-500">+{pr.additions}</span> <span className="text-red-500">-{pr.deletions}</span> in {pr.changed_files} files
+                                  {(linesChanged(pr) || 0) > LARGE_PR_LINES && <span className="ml-1 text-[10px] px-1.5 rounded border bg-yellow-900/30 text-yellow-300 border-yellow-900/50">large</span>}
+                              </span>
+                          )}
+                          {pr.comment_count !== undefined && <span>• {pr.comment_count} comments</span>}
                       </div>
+                      {(verdicts.length > 0 || !!pr.requested_reviewers?.length || !!pr.linked_issues?.length) && (
+                          <div className="flex flex-wrap items-center gap-1.5 mt-2 text-[10px]">
+                              {verdicts.map(([author, state]) => (
+                                  <span key={author} className={`px-1.5 rounded border ${state === 'APPROVED' ? 'bg-green-900/30 text-green-300 border-green-900/50' : state === 'CHANGES_REQUESTED' ? 'bg-red-900/30 text-red-300 border-red-900/50' : 'bg-[hsl(var(--surface-2))] border-transparent'}`}>
+                                      {author}: {state.toLowerCase().replace('_', ' ')}
+                                  </span>
+                              ))}
+                              {pr.requested_reviewers?.filter(r => !verdicts.some(([author]) => author === r)).map(r => (
+                                  <span key={r} className="px-1.5 rounded border border-dashed border-[hsl(var(--surface-2))] text-[hsl(var(--text-dim))]">{r}: requested</span>
+                              ))}
+                              {pr.linked_issues?.map(n => (
+                                  <span key={n} className="px-1.5 rounded bg-[hsl(var(--surface-2))] text-[hsl(var(--text-dim))]">closes #{n}</span>
+                              ))}
+                          </div>
+                      )}
+                      {!!pr.comments?.length && (
+                          <div className="mt-3 space-y-1.5 border-l-2 border-[hsl(var(--surface-2))] pl-3">
+                              {pr.comments.slice(0, 5).map((c, i) => (
+                                  <div key={i} className="text-xs">
+                                      <span className="font-medium text-[hsl(var(--text-main))]">{c.author}</span>
+                                      {c.path && <span className="font-mono text-[hsl(var(--text-dim))]"> on {c.path}</span>}
+                                      <span className="text-[hsl(var(--text-dim))]">: {c.body.length > 200 ? `${c.body.substring(0, 200)}…` : c.body}</span>
+                                  </div>
+                              ))}
+                          </div>
+                      )}
                        {aiAnalysis?.prSummaries?.[pr.number] && (
                         <div className="mt-3 text-sm text-[hsl(var(--text-main))] bg-[hsl(var(--surface-2))]/30 p-3 rounded border-l-2 border-[hsl(var(--primary))] leading-relaxed">
                              <Bot size={14} className="inline mr-2 text-[hsl(var(--primary))]"/> {aiAnalysis.prSummaries[pr.number]}
                         </div>
                     )}
                   </div>
+                  );
+              })}
+          </div>
+      </Modal>
+
+      <Modal isOpen={showIssuesModal} onClose={() => setShowIssuesModal(false)} title="Issues">
+          <div className="space-y-4">
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+                  <div><span className="text-[hsl(var(--text-dim))]">Open / closed:</span> {issueHealth.open} / {issueHealth.closed}</div>
+                  <div><span className="text-[hsl(var(--text-dim))]">Unassigned open:</span> {issueHealth.unassignedOpen}</div>
+                  <div><span className="text-[hsl(var(--text-dim))]">Unanswered open:</span> {issueHealth.unansweredOpen}</div>
+                  <div><span className="text-[hsl(var(--text-dim))]">Unlabeled:</span> {issueHealth.unlabeled}</div>
+              </div>
+              {issueHealth.labels.length > 0 && (
+                  <div className="flex flex-wrap gap-2">
+                      {issueHealth.labels.slice(0, 12).map(l => (
+                          <span key={l.name} className="text-xs px-2 py-0.5 rounded bg-[hsl(var(--surface-2))]">{l.name} <span className="font-mono text-[hsl(var(--text-dim))]">{l.count}</span></span>
+                      ))}
+                  </div>
+              )}
+              {issues.map(issue => (
+                  <div key={issue.id} className="p-4 bg-[hsl(var(--bg))] border border-[hsl(var(--surface-2))] rounded-lg">
+                      <div className="flex justify-between items-start mb-2">
+                          <a href={issue.html_url} target="_blank" className="font-medium text-[hsl(var(--text-main))] text-sm hover:underline">#{issue.number} {issue.title}</a>
+                          <span className={`text-[10px] px-1.5 py-0.5 rounded uppercase font-bold ${issue.state === 'open' ? 'bg-green-900 text-green-200' : 'bg-purple-900 text-purple-200'}`}>{issue.state}</span>
+                      </div>
+                      <div className="flex flex-wrap items-center gap-2 text-xs text-[hsl(var(--text-dim))]">
+                          {issue.user.avatar_url && <img src={issue.user.avatar_url} className="w-4 h-4 rounded-full"/>}
+                          <span>{issue.user.login}</span>
+                          <span>•</span>
+                          <span>opened {new Date(issue.created_at).toLocaleDateString()}</span>
+                          {issue.assignees.length > 0 && <span>• assigned to {issue.assignees.join(', ')}</span>}
+                          {issue.first_response_at && <span>• first response after {formatHours((Date.parse(issue.first_response_at) - Date.parse(issue.created_at)) / 3600000)}</span>}
+                          {issue.closed_at && <span>• closed after {formatHours((Date.parse(issue.closed_at) - Date.parse(issue.created_at)) / 3600000)}</span>}
+                      </div>
+                      {issue.labels.length > 0 && (
+                          <div className="flex flex-wrap gap-1 mt-2">
+                              {issue.labels.map(label => <span key={label} className="text-[10px] px-1.5 rounded bg-[hsl(var(--surface-2))]">{label}</span>)}
+                          </div>
+                      )}
+                  </div>
               ))}
           </div>
       </Modal>
@@ -505,11 +1304,33 @@ export const Dashboard: React.FC<DashboardProps> = ({ onLogout }) => {
       <main className="flex-1 overflow-y-auto p-6 md:p-8 scroll-smooth">
         <div className="max-w-[1800px] mx-auto w-full space-y-8">
           
+          {isCompareMode && (
+            <CompareView
+              llmTarget={llmTarget}
+              llmTargets={llmTargets}
+              onLLMTargetChange={handleLLMTargetChange}
+              entries={compareEntries}
+              onAdd={handleAddComparison}
+              onRemove={handleRemoveComparison}
+              onExit={() => setIsCompareMode(false)}
+            />
+          )}
+
+          {!isCompareMode && pullRequestReview && (
+            <PullRequestReviewView
+              data={pullRequestReview}
+              onExit={() => setPullRequestReview(null)}
+              llmTarget={llmTarget}
+              llmTargets={llmTargets}
+              onLLMTargetChange={handleLLMTargetChange}
+            />
+          )}
+
           {/* URL Input */}
-          {!repoInfo && (
+          {!isCompareMode && !pullRequestReview && !repoInfo && (
             <section className="space-y-4 pt-10">
               <h1 className="text-3xl font-bold text-[hsl(var(--text-main))]">Repository Intelligence</h1>
-              <p className="text-[hsl(var(--text-dim))] max-w-2xl">Enter a public GitHub repository URL.</p>
+              <p className="text-[hsl(var(--text-dim))] max-w-2xl">Enter a GitHub, GitHub Enterprise or GitLab repository URL, or analyze a local repository offline. Paste a GitHub pull request URL to review just that change.</p>
               
               <form onSubmit={handleFetch} className="flex gap-4 max-w-2xl mt-6">
                 <div className="flex-1 relative group">
@@ -525,6 +1346,120 @@ export const Dashboard: React.FC<DashboardProps> = ({ onLogout }) => {
                 <Button type="submit" isLoading={viewState === ViewState.LOADING_REPO}>Fetch Data</Button>
               </form>
 
+              <div className="flex items-center gap-3 max-w-2xl text-sm text-[hsl(var(--text-dim))]">
+                <span>or</span>
+                <label className={`flex items-center gap-2 px-3 py-1.5 rounded border border-dashed border-[hsl(var(--surface-2))] hover:border-[hsl(var(--primary))] hover:text-[hsl(var(--primary))] transition-colors ${viewState === ViewState.LOADING_REPO ? 'pointer-events-none opacity-50' : 'cursor-pointer'}`}>
+                  <Upload size={14} /> Upload a .zip or git bundle
+                  <input type="file" accept=".zip,.bundle" onChange={handleArchiveUpload} className="hidden" />
+                </label>
+                <span className="text-xs">Parsed locally in your browser; nothing is uploaded anywhere.</span>
+              </div>
+
+              <div className="flex items-center gap-3 max-w-2xl text-sm text-[hsl(var(--text-dim))]">
+                <button onClick={() => setIsCompareMode(true)} className="flex items-center gap-2 px-3 py-1.5 rounded border border-[hsl(var(--surface-2))] hover:border-[hsl(var(--primary))] hover:text-[hsl(var(--primary))] transition-colors">
+                  <Columns size={14} /> Compare repositories{compareEntries.length ? ` (${compareEntries.length})` : ''}
+                </button>
+                <span className="text-xs">Line up two or more repositories side by side.</span>
+              </div>
+
+              <div className="flex flex-wrap items-center gap-3 max-w-2xl text-sm">
+                <label className="text-xs text-[hsl(var(--text-dim))] uppercase font-bold tracking-wider">History</label>
+                <select
+                  value={depthMode}
+                  onChange={e => setDepthMode(e.target.value as IngestionDepth['mode'])}
+                  className="bg-[hsl(var(--surface-1))] border border-[hsl(var(--surface-2))] rounded px-3 py-1.5 text-sm focus:border-[hsl(var(--primary))] outline-none"
+                >
+                  <option value="recent">Last N commits</option>
+                  <option value="range">Date range</option>
+                  <option value="all">Everything</option>
+                </select>
+                {depthMode === 'recent' && (
+                  <input
+                    type="number"
+                    min={1}
+                    value={depthCount}
+                    onChange={e => setDepthCount(Number(e.target.value))}
+                    className="w-28 bg-[hsl(var(--surface-1))] border border-[hsl(var(--surface-2))] rounded px-3 py-1.5 text-sm focus:border-[hsl(var(--primary))] outline-none"
+                  />
+                )}
+                {depthMode === 'range' && (
+                  <>
+                    <input
+                      type="date"
+                      value={depthSince}
+                      onChange={e => setDepthSince(e.target.value)}
+                      className="bg-[hsl(var(--surface-1))] border border-[hsl(var(--surface-2))] rounded px-3 py-1.5 text-sm focus:border-[hsl(var(--primary))] outline-none"
+                    />
+                    <span className="text-[hsl(var(--text-dim))]">to</span>
+                    <input
+                      type="date"
+                      value={depthUntil}
+                      onChange={e => setDepthUntil(e.target.value)}
+                      className="bg-[hsl(var(--surface-1))] border border-[hsl(var(--surface-2))] rounded px-3 py-1.5 text-sm focus:border-[hsl(var(--primary))] outline-none"
+                    />
+                  </>
+                )}
+                {depthMode === 'all' && (
+                  <span className="text-xs text-[hsl(var(--text-dim))]">Large repositories can take many API calls.</span>
+                )}
+                <label className="text-xs text-[hsl(var(--text-dim))] uppercase font-bold tracking-wider ml-auto">File history</label>
+                <input
+                  type="number"
+                  min={1}
+                  value={fileHistory}
+                  onChange={e => setFileHistory(Number(e.target.value))}
+                  title="Newest commits whose changed files are fetched, one request each. Ownership, hotspots and churn are computed over them. Fewer are fetched when the rate limit runs low."
+                  className="w-24 bg-[hsl(var(--surface-1))] border border-[hsl(var(--surface-2))] rounded px-3 py-1.5 text-sm focus:border-[hsl(var(--primary))] outline-none"
+                />
+                <span className="text-xs text-[hsl(var(--text-dim))]">
+                  {ingestionBackend === 'graphql' && !restFileHistory ? 'off on GraphQL' : `up to ${Math.max(1, fileHistory).toLocaleString()} requests`}
+                </span>
+                <label className="text-xs text-[hsl(var(--text-dim))] uppercase font-bold tracking-wider">API</label>
+                <select
+                  value={ingestionBackend}
+                  onChange={e => setIngestionBackend(e.target.value as IngestionBackend)}
+                  title="GraphQL batches requests and needs a GitHub token"
+                  className="bg-[hsl(var(--surface-1))] border border-[hsl(var(--surface-2))] rounded px-3 py-1.5 text-sm focus:border-[hsl(var(--primary))] outline-none"
+                >
+                  <option value="rest">REST</option>
+                  <option value="graphql">GraphQL</option>
+                </select>
+                {ingestionBackend === 'graphql' && (
+                  <label className="flex items-center gap-1.5 text-xs text-[hsl(var(--text-dim))]" title="GraphQL has no per-file commit diffs; each commit's files then cost one REST request">
+                    <input type="checkbox" checked={restFileHistory} onChange={e => setRestFileHistory(e.target.checked)} className="accent-[hsl(var(--primary))]" />
+                    Per-file history over REST
+                  </label>
+                )}
+              </div>
+
+              {viewState === ViewState.LOADING_REPO && (
+                <div className="max-w-2xl space-y-2 bg-[hsl(var(--surface-1))] border border-[hsl(var(--surface-2))] rounded-lg p-3">
+                  <div className="flex items-center justify-between gap-4 text-sm">
+                    <span className="flex items-center gap-2">
+                      <RefreshCw size={14} className="animate-spin text-[hsl(var(--primary))]" />
+                      {ingestionProgress ? INGESTION_PHASE_LABELS[ingestionProgress.phase] : 'Connecting'}
+                      {ingestionProgress?.total ? <span className="font-mono text-xs text-[hsl(var(--text-dim))]">{ingestionProgress.done} / {ingestionProgress.total}</span> : null}
+                    </span>
+                    <Button variant="secondary" onClick={handleCancelLoad} className="text-xs py-1 px-2 h-7"><Square size={12} className="mr-1"/> Cancel</Button>
+                  </div>
+                  {ingestionProgress?.total ? (
+                    <div className="h-1.5 rounded-full overflow-hidden bg-[hsl(var(--surface-2))]">
+                      <div className="h-full bg-[hsl(var(--primary))] transition-all" style={{ width: `${(ingestionProgress.done / ingestionProgress.total) * 100}%` }} />
+                    </div>
+                  ) : null}
+                  {ingestionProgress && (
+                    <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-xs font-mono text-[hsl(var(--text-dim))]">
+                      <span><span className="text-[hsl(var(--primary))]">{ingestionProgress.commits}</span> commits</span>
+                      <span><span className="text-[hsl(var(--primary))]">{ingestionProgress.pullRequests}</span> PRs</span>
+                      <span><span className="text-[hsl(var(--primary))]">{ingestionProgress.issues}</span> issues</span>
+                      <span><span className="text-[hsl(var(--primary))]">{ingestionProgress.branches}</span> branches</span>
+                      <span><span className="text-[hsl(var(--primary))]">{ingestionProgress.contributors}</span> contributors</span>
+                      <span className="ml-auto">{formatBytes(ingestionProgress.bytes)} received</span>
+                    </div>
+                  )}
+                </div>
+              )}
+
               {error && (
                 <div className="flex items-center gap-2 text-red-400 bg-red-900/10 p-4 rounded-lg border border-red-900/30 max-w-2xl">
                   <AlertCircle size={20} /><span>{error}</span>
@@ -533,7 +1468,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ onLogout }) => {
             </section>
           )}
 
-          {repoInfo && (
+          {!isCompareMode && !pullRequestReview && repoInfo && (
             <div className="space-y-8 animate-in fade-in slide-in-from-bottom-8 duration-500">
 
                {/* Extended Header Area (Compact) */}
@@ -553,26 +1488,94 @@ export const Dashboard: React.FC<DashboardProps> = ({ onLogout }) => {
                              </div>
                              <p className="text-[hsl(var(--text-dim))] text-sm max-w-xl truncate">{repoInfo.description}</p>
                              <div className="flex gap-4 mt-2">
-                                <a href={repoInfo.html_url} target="_blank" rel="noreferrer" className="text-xs flex items-center gap-1 text-[hsl(var(--primary))] hover:underline"><Github size={12}/> GitHub</a>
+                                {repoInfo.html_url && (
+                                    <a href={repoInfo.html_url} target="_blank" rel="noreferrer" className="text-xs flex items-center gap-1 text-[hsl(var(--primary))] hover:underline">
+                                        {repoLocation?.provider === 'gitlab' ? <><Gitlab size={12}/> GitLab</> : <><Github size={12}/> GitHub</>}
+                                    </a>
+                                )}
                                 <div className="text-xs flex items-center gap-1 text-[hsl(var(--text-dim))]"><Activity size={12}/> {repoInfo.open_issues_count} issues</div>
+                                <RefPicker
+                                    branches={branches}
+                                    tags={tags}
+                                    activeRef={activeRef}
+                                    isLoading={viewState === ViewState.LOADING_REPO}
+                                    onSelect={handleRefChange}
+                                />
+                                {viewState === ViewState.LOADING_REPO && (
+                                    <div className="text-xs flex items-center gap-2 text-[hsl(var(--text-dim))]">
+                                        {ingestionProgress ? INGESTION_PHASE_LABELS[ingestionProgress.phase] : 'Connecting'}
+                                        {ingestionProgress?.total ? ` ${ingestionProgress.done} / ${ingestionProgress.total}` : ''}
+                                        <button onClick={handleCancelLoad} className="text-[hsl(var(--primary))] hover:underline">Cancel</button>
+                                    </div>
+                                )}
                              </div>
                           </div>
                       </div>
                       
                       <div className="flex flex-col gap-2 justify-center min-w-[180px]">
-                         <Button onClick={handleReview} isLoading={isReviewing} className="shadow-lg w-full text-sm py-2">
-                            <Zap size={14} className="mr-2" />
-                            {aiAnalysis ? 'Re-Analyze Repo' : 'Start AI Review'}
-                          </Button>
+                         {isReviewing ? (
+                            <Button variant="secondary" onClick={handleCancelReview} className="shadow-lg w-full text-sm py-2">
+                              <Square size={14} className="mr-2" /> Cancel Review
+                            </Button>
+                         ) : (
+                            <Button onClick={handleReview} className="shadow-lg w-full text-sm py-2">
+                              <Zap size={14} className="mr-2" />
+                              {aiAnalysis ? 'Re-Analyze Repo' : 'Start AI Review'}
+                            </Button>
+                         )}
+                          <ModelPicker targets={llmTargets} value={llmTarget} onChange={handleLLMTargetChange} disabled={isReviewing || isCountingTokens} />
+                          <label className="flex items-center gap-2 text-xs text-[hsl(var(--text-dim))] cursor-pointer" title="Review each directory in its own pass, then merge the findings into the scores and report">
+                              <input type="checkbox" checked={multiPass} disabled={isReviewing} onChange={e => setMultiPass(e.target.checked)} />
+                              Multi-pass (per directory)
+                          </label>
+                          {multiPass && (
+                              <div className="flex gap-2 text-xs">
+                                  <input
+                                      type="number"
+                                      min={0}
+                                      step={50000}
+                                      placeholder="Max tokens"
+                                      title="Token ceiling for the whole review; empty means no limit"
+                                      value={reviewBudget.maxTokens ?? ''}
+                                      disabled={isReviewing}
+                                      onChange={e => setReviewBudget(prev => ({ ...prev, maxTokens: Number(e.target.value) > 0 ? Number(e.target.value) : null }))}
+                                      className="w-1/2 min-w-0 bg-[hsl(var(--bg))] border border-[hsl(var(--surface-2))] rounded px-2 py-1 font-mono focus:border-[hsl(var(--primary))] outline-none"
+                                  />
+                                  <input
+                                      type="number"
+                                      min={0}
+                                      step={0.1}
+                                      placeholder="Max $"
+                                      title={pricingFor(llmTarget) ? 'Cost ceiling in USD at list prices; empty means no limit' : 'No price is known for this model, so only the token ceiling applies'}
+                                      value={reviewBudget.maxCostUsd ?? ''}
+                                      disabled={isReviewing || !pricingFor(llmTarget)}
+                                      onChange={e => setReviewBudget(prev => ({ ...prev, maxCostUsd: Number(e.target.value) > 0 ? Number(e.target.value) : null }))}
+                                      className="w-1/2 min-w-0 bg-[hsl(var(--bg))] border border-[hsl(var(--surface-2))] rounded px-2 py-1 font-mono focus:border-[hsl(var(--primary))] outline-none disabled:opacity-50"
+                                  />
+                              </div>
+                          )}
                           <div className="flex gap-2">
                              {reviewMarkdown && (
                                 <Button variant="secondary" onClick={() => setIsSidebarOpen(true)} className="flex-1 text-sm py-2 h-9 px-2"><Layout size={14} className="mr-1"/> Report</Button>
                              )}
+                             <Button variant="secondary" onClick={handleCompareCurrent} title="Add this snapshot to the side-by-side comparison" className="flex-1 text-sm py-2 h-9 px-2"><Columns size={14} className="mr-1"/> Compare</Button>
                              <Button variant="secondary" onClick={resetRepo} className="flex-1 text-sm py-2 h-9 px-2"><RefreshCw size={14} className="mr-1"/> Change</Button>
                           </div>
                       </div>
                   </div>
 
+                  {error && (
+                    <div className="flex items-center gap-2 text-red-400 bg-red-900/10 p-3 rounded-lg border border-red-900/30 text-sm">
+                      <AlertCircle size={16} /><span>{error}</span>
+                    </div>
+                  )}
+
+                  {analysisError && (
+                    <div className="flex items-center gap-2 text-red-400 bg-red-900/10 p-3 rounded-lg border border-red-900/30 text-sm">
+                      <AlertCircle size={16} /><span>The AI scores could not be produced: {analysisError}</span>
+                    </div>
+                  )}
+
                   {/* Bottom: Gauges & Token Info (Compact) */}
                   {aiAnalysis && (
                     <div className="flex flex-col md:flex-row justify-between items-center gap-4 animate-in fade-in zoom-in duration-500">
@@ -584,12 +1587,22 @@ export const Dashboard: React.FC<DashboardProps> = ({ onLogout }) => {
                         
                         <div className="bg-[hsl(var(--bg))] p-3 rounded-lg border border-[hsl(var(--surface-2))] min-w-[220px] shadow-inner">
                            <div className="text-[10px] text-[hsl(var(--text-dim))] uppercase font-bold tracking-wider mb-1 border-b border-[hsl(var(--surface-2))] pb-1">Token Usage</div>
-                           <div className="grid grid-cols-2 gap-y-0.5 gap-x-2 text-xs font-mono">
+                           <div className={`grid ${reviewEstimate ? 'grid-cols-3' : 'grid-cols-2'} gap-y-0.5 gap-x-2 text-xs font-mono`}>
+                              {reviewEstimate && (
+                                <>
+                                  <span />
+                                  <span className="text-right text-[10px] text-[hsl(var(--text-dim))]">Est.</span>
+                                  <span className="text-right text-[10px] text-[hsl(var(--text-dim))]">Actual</span>
+                                </>
+                              )}
                               <span className="text-[hsl(var(--text-dim))]">Input:</span> 
+                              {reviewEstimate && <span className="text-right text-[hsl(var(--text-dim))]">{reviewEstimate.estimate.input}</span>}
                               <span className="text-right text-[hsl(var(--primary))]">{usageMetadata?.input || 0}</span>
                               <span className="text-[hsl(var(--text-dim))]">Output:</span>
+                              {reviewEstimate && <span className="text-right text-[hsl(var(--text-dim))]">~{reviewEstimate.estimate.output}</span>}
                               <span className="text-right text-[hsl(var(--primary))]">{usageMetadata?.output || 0}</span>
                               <span className="font-bold text-[hsl(var(--text-main))] pt-1 border-t border-[hsl(var(--surface-2))]">Total:</span>
+                              {reviewEstimate && <span className="text-right pt-1 border-t border-[hsl(var(--surface-2))] text-[hsl(var(--text-dim))]">{reviewEstimate.estimate.total}</span>}
                               <span className="font-bold text-right pt-1 border-t border-[hsl(var(--surface-2))]">{usageMetadata?.total || 0}</span>
                            </div>
                         </div>
@@ -632,12 +1645,12 @@ export const Dashboard: React.FC<DashboardProps> = ({ onLogout }) => {
                          )}
                       </div>
                       <div className="flex-1 flex flex-wrap content-start gap-2 overflow-hidden">
-                         {contributors.slice(0, 8).map(c => (
+                         {team.contributors.slice(0, 8).map(c => (
                             <img key={c.id} src={c.avatar_url} title={c.login} className="w-8 h-8 rounded-full border border-[hsl(var(--surface-2))]" />
                          ))}
-                         {contributors.length > 8 && (
+                         {team.contributors.length > 8 && (
                              <div className="w-8 h-8 rounded-full bg-[hsl(var(--surface-2))] flex items-center justify-center text-[10px] text-[hsl(var(--text-dim))]">
-                                 +{contributors.length - 8}
+                                 +{team.contributors.length - 8}
                              </div>
                          )}
                       </div>
@@ -672,13 +1685,19 @@ export const Dashboard: React.FC<DashboardProps> = ({ onLogout }) => {
                   </div>
                </div>
 
-               {/* Row 2: Commits & PRs Split View */}
-               <div className="grid grid-cols-1 md:grid-cols-2 gap-6 h-[600px]">
+               {/* Activity Charts */}
+               <ActivityPanel commits={team.commits} range={activityRange} onRangeChange={setActivityRange} />
+
+               {/* Row 2: Commits, PRs & Issues Split View */}
+               <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 auto-rows-[600px] gap-6">
                   
                   {/* Commits Section */}
                   <div className="bg-[hsl(var(--surface-1))] border border-[hsl(var(--surface-2))] rounded-xl p-6 shadow-sm flex flex-col h-full overflow-hidden">
                       <div className="flex justify-between items-center mb-4 pb-4 border-b border-[hsl(var(--surface-2))] shrink-0">
-                          <h3 className="font-bold text-lg flex items-center gap-2"><GitCommit size={20} className="text-[hsl(var(--primary))]"/> Commits</h3>
+                          <h3 className="font-bold text-lg flex items-center gap-2">
+                              <GitCommit size={20} className="text-[hsl(var(--primary))]"/> Commits
+                              <span className="text-[10px] font-mono bg-[hsl(var(--surface-2))] px-1.5 py-0.5 rounded font-normal">{activityRange ? `${visibleCommits.length}/${team.commits.length}` : team.commits.length}</span>
+                          </h3>
                           <div className="flex items-center gap-4">
                              {aiAnalysis?.scores.commitQuality !== undefined && (
                                 <SpeedGauge label="Quality" score={aiAnalysis.scores.commitQuality} size="sm" />
@@ -687,7 +1706,13 @@ export const Dashboard: React.FC<DashboardProps> = ({ onLogout }) => {
                           </div>
                       </div>
                       <div className="overflow-y-auto custom-scrollbar flex-1 space-y-4 pr-2">
-                          {commits.slice(0, 15).map(commit => {
+                          {activityRange && (
+                              <div className="flex items-center justify-between text-xs px-3 py-2 rounded border bg-blue-900/30 text-blue-300 border-blue-900/50">
+                                  <span>Showing commits from {formatRange(activityRange)}</span>
+                                  <button onClick={() => setActivityRange(null)} className="hover:text-[hsl(var(--text-main))]" title="Clear filter"><X size={14} /></button>
+                              </div>
+                          )}
+                          {visibleCommits.slice(0, 15).map(commit => {
                               const summary = aiAnalysis?.commitSummaries?.[commit.sha];
                               return (
                                   <div key={commit.sha} className="p-4 bg-[hsl(var(--bg))] border border-[hsl(var(--surface-2))] rounded-lg hover:border-[hsl(var(--primary))] transition-colors group">
@@ -719,7 +1744,10 @@ export const Dashboard: React.FC<DashboardProps> = ({ onLogout }) => {
                   {/* PRs Section */}
                   <div className="bg-[hsl(var(--surface-1))] border border-[hsl(var(--surface-2))] rounded-xl p-6 shadow-sm flex flex-col h-full overflow-hidden">
                       <div className="flex justify-between items-center mb-4 pb-4 border-b border-[hsl(var(--surface-2))] shrink-0">
-                          <h3 className="font-bold text-lg flex items-center gap-2"><GitPullRequest size={20} className="text-[hsl(var(--primary))]"/> Pull Requests</h3>
+                          <h3 className="font-bold text-lg flex items-center gap-2">
+                              <GitPullRequest size={20} className="text-[hsl(var(--primary))]"/> Pull Requests
+                              <span className="text-[10px] font-mono bg-[hsl(var(--surface-2))] px-1.5 py-0.5 rounded font-normal">{pullRequests.length}</span>
+                          </h3>
                           <div className="flex items-center gap-4">
                              {aiAnalysis?.scores.prQuality !== undefined && (
                                 <SpeedGauge label="Quality" score={aiAnalysis.scores.prQuality} size="sm" />
@@ -740,7 +1768,7 @@ export const Dashboard: React.FC<DashboardProps> = ({ onLogout }) => {
                                       <div key={pr.id} className="p-4 bg-[hsl(var(--bg))] border border-[hsl(var(--surface-2))] rounded-lg hover:border-[hsl(var(--primary))] transition-colors">
                                           <div className="flex justify-between items-start mb-2">
                                               <div className="font-medium text-[hsl(var(--text-main))] text-sm">#{pr.number} {pr.title}</div>
-                                              <span className={`text-[10px] px-1.5 py-0.5 rounded uppercase font-bold ${pr.state === 'open' ? 'bg-green-900 text-green-200' : 'bg-purple-900 text-purple-200'}`}>{pr.state}</span>
+                                              <PullRequestStateBadge pr={pr} />
                                           </div>
                                           <div className="flex items-center gap-2 text-xs text-[hsl(var(--text-dim))] mb-2">
                                               <img src={pr.user.avatar_url} className="w-4 h-4 rounded-full"/>
@@ -759,30 +1787,165 @@ export const Dashboard: React.FC<DashboardProps> = ({ onLogout }) => {
                           )}
                       </div>
                   </div>
+
+                  {/* Issues Section */}
+                  <div className="bg-[hsl(var(--surface-1))] border border-[hsl(var(--surface-2))] rounded-xl p-6 shadow-sm flex flex-col h-full overflow-hidden md:col-span-2 xl:col-span-1">
+                      <div className="flex justify-between items-center mb-4 pb-4 border-b border-[hsl(var(--surface-2))] shrink-0">
+                          <h3 className="font-bold text-lg flex items-center gap-2">
+                              <CircleDot size={20} className="text-[hsl(var(--primary))]"/> Issues
+                              <span className="text-[10px] font-mono bg-[hsl(var(--surface-2))] px-1.5 py-0.5 rounded font-normal">{issues.length}</span>
+                          </h3>
+                          <div className="flex items-center gap-4">
+                             {aiAnalysis?.scores.issueHealth !== undefined && (
+                                <SpeedGauge label="Health" score={aiAnalysis.scores.issueHealth} size="sm" />
+                             )}
+                             <Button variant="secondary" className="px-3 py-1 text-xs" onClick={() => setShowIssuesModal(true)}>View All</Button>
+                          </div>
+                      </div>
+                      {issues.length > 0 && (
+                          <div className="grid grid-cols-4 gap-2 mb-4 shrink-0 text-center">
+                              {[
+                                  { label: 'Open', value: `${issueHealth.open}/${issueHealth.total}` },
+                                  { label: '1st Response', value: formatHours(issueHealth.medianFirstResponseHours) },
+                                  { label: 'To Close', value: formatHours(issueHealth.medianTimeToCloseHours) },
+                                  { label: 'Stale', value: String(issueHealth.stale.length) },
+                              ].map(stat => (
+                                  <div key={stat.label} className="bg-[hsl(var(--bg))] border border-[hsl(var(--surface-2))] rounded p-2">
+                                      <div className="font-mono text-sm text-[hsl(var(--text-main))]">{stat.value}</div>
+                                      <div className="text-[10px] uppercase tracking-wider text-[hsl(var(--text-dim))]">{stat.label}</div>
+                                  </div>
+                              ))}
+                          </div>
+                      )}
+                      <div className="overflow-y-auto custom-scrollbar flex-1 space-y-4 pr-2">
+                          {issues.length === 0 ? (
+                              <div className="flex flex-col items-center justify-center h-full text-[hsl(var(--text-dim))]">
+                                  <CircleDot size={32} className="mb-2 opacity-20"/>
+                                  <p>No issues found.</p>
+                              </div>
+                          ) : (
+                              issues.slice(0, 30).map(issue => (
+                                  <a key={issue.id} href={issue.html_url} target="_blank" className="block p-4 bg-[hsl(var(--bg))] border border-[hsl(var(--surface-2))] rounded-lg hover:border-[hsl(var(--primary))] transition-colors">
+                                      <div className="flex justify-between items-start mb-2 gap-2">
+                                          <div className="font-medium text-[hsl(var(--text-main))] text-sm">#{issue.number} {issue.title}</div>
+                                          <span className={`text-[10px] px-1.5 py-0.5 rounded uppercase font-bold shrink-0 ${issue.state === 'open' ? 'bg-green-900 text-green-200' : 'bg-purple-900 text-purple-200'}`}>{issue.state}</span>
+                                      </div>
+                                      <div className="flex flex-wrap items-center gap-2 text-xs text-[hsl(var(--text-dim))]">
+                                          <span>{issue.user.login}</span>
+                                          <span>•</span>
+                                          <span>{new Date(issue.created_at).toLocaleDateString()}</span>
+                                          {issue.labels.slice(0, 3).map(label => (
+                                              <span key={label} className="text-[10px] px-1.5 rounded bg-[hsl(var(--surface-2))]">{label}</span>
+                                          ))}
+                                          {issue.first_response_at === null && issue.state === 'open' && (
+                                              <span className="text-[10px] px-1.5 rounded border bg-yellow-900/30 text-yellow-300 border-yellow-900/50">no response</span>
+                                          )}
+                                      </div>
+                                  </a>
+                              ))
+                          )}
+                      </div>
+                  </div>
                </div>
 
+               {/* Submission Window */}
+               <WindowCompliancePanel window={reviewWindow} report={windowCompliance} onChange={handleWindowChange} />
+
+               {/* CI */}
+               {ciReport && <CiPanel report={ciReport} />}
+
+               {/* Dependencies */}
+               {dependencyReport && <DependenciesPanel report={dependencyReport} />}
+
+               {/* Churn Hotspots */}
+               <HotspotsPanel report={hotspotReport} fileHistory={fileHistoryReport} />
+
+               {/* Review Plan */}
+               {reviewPlan && (
+                 <ReviewPlanner
+                    plan={reviewPlan}
+                    budgets={promptBudgets}
+                    onBudgetChange={handlePromptBudgetChange}
+                    counts={tokenCounts}
+                    target={llmTarget}
+                    targets={llmTargets}
+                    canCount={!!getLLMProvider(llmTarget.provider).countTokens}
+                    isCounting={isCountingTokens}
+                    onCount={handleCountTokens}
+                    lastRun={reviewEstimate && !isReviewing ? { ...reviewEstimate, actual: usageMetadata } : null}
+                    disabled={isReviewing}
+                 />
+               )}
+
+               {/* Source Selection */}
+               <SourceSelectionPanel
+                  selection={sourceSelection}
+                  onBudgetChange={code => handlePromptBudgetChange('code', code)}
+                  onTogglePin={path => toggleSourceOverride('pinned', path)}
+                  onToggleExclude={path => toggleSourceOverride('excluded', path)}
+                  unfetched={unfetchedFiles}
+                  pinning={pinningPath}
+                  onPinFile={handlePinFile}
+               />
+
                {/* Row 3: File Tree (Vertical, Full Width) */}
                <div className="bg-[hsl(var(--surface-1))] border border-[hsl(var(--surface-2))] rounded-xl p-6 shadow-sm flex flex-col min-h-[500px]">
                   <div className="flex justify-between items-center mb-6 pb-4 border-b border-[hsl(var(--surface-2))]">
                       <h3 className="font-bold text-lg flex items-center gap-2"><Folder size={20} className="text-[hsl(var(--primary))]"/> File Structure</h3>
-                      {aiAnalysis?.scores.structureQuality !== undefined && (
-                          <div className="flex items-center gap-4">
+                      <div className="flex items-center gap-4">
+                          <span className="text-xs font-mono text-[hsl(var(--text-dim))]">{(directorySummaries.get('')?.fileCount || 0).toLocaleString()} files</span>
+                          {repoOwnership && (
+                              <button onClick={() => setShowOwnership(!showOwnership)} className={`text-xs px-2 py-1 rounded border flex items-center gap-1.5 transition-colors ${showOwnership ? 'border-[hsl(var(--primary))] text-[hsl(var(--primary))]' : 'border-[hsl(var(--surface-2))] text-[hsl(var(--text-dim))] hover:text-[hsl(var(--text-main))]'}`}>
+                                  <Users size={12} /> Ownership · bus factor {repoOwnership.busFactor}
+                              </button>
+                          )}
+                          {isLargeTree && (
+                              <div className="flex bg-[hsl(var(--bg))] border border-[hsl(var(--surface-2))] rounded p-0.5 text-xs">
+                                  <button onClick={() => setShowDirectorySummary(false)} className={`px-2 py-0.5 rounded ${!showDirectorySummary ? 'bg-[hsl(var(--surface-2))] text-[hsl(var(--text-main))]' : 'text-[hsl(var(--text-dim))]'}`}>Tree</button>
+                                  <button onClick={() => setShowDirectorySummary(true)} className={`px-2 py-0.5 rounded ${showDirectorySummary ? 'bg-[hsl(var(--surface-2))] text-[hsl(var(--text-main))]' : 'text-[hsl(var(--text-dim))]'}`}>Summary</button>
+                              </div>
+                          )}
+                          {aiAnalysis?.scores.structureQuality !== undefined && (
                               <SpeedGauge label="Structure" score={aiAnalysis.scores.structureQuality} size="md" />
-                          </div>
-                      )}
+                          )}
+                      </div>
                   </div>
+                  {ownershipOverlay && repoOwnership && (
+                      <div className="mb-4 flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-[hsl(var(--text-dim))]">
+                          {repoOwnership.owners.slice(0, OWNER_COLORS.length).map(o => (
+                              <span key={o.author} className="flex items-center gap-1.5">
+                                  <span className="w-2 h-2 rounded-sm" style={{ backgroundColor: ownerColor(ownershipOverlay, o.author) }} />
+                                  {o.author} <span className="font-mono">{Math.round(o.share * 100)}%</span>
+                              </span>
+                          ))}
+                          {repoOwnership.owners.length > OWNER_COLORS.length && (
+                              <span className="flex items-center gap-1.5"><span className="w-2 h-2 rounded-sm" style={{ backgroundColor: OTHER_OWNER_COLOR }} /> Others</span>
+                          )}
+                          <span className="ml-auto">
+                              {singleOwned.length} single-owner director{singleOwned.length === 1 ? 'y' : 'ies'} · from {ownership.commitsAnalyzed} of {ownership.commitsTotal} commits with file changes
+                          </span>
+                      </div>
+                  )}
+                  {unlistedDirectories > 0 && (
+                      <div className="mb-4 text-xs text-yellow-300 bg-yellow-900/20 border border-yellow-900/50 rounded px-3 py-2 flex items-center gap-2">
+                          <AlertCircle size={14} className="shrink-0" />
+                          Tree too large to list in one pass: {unlistedDirectories} director{unlistedDirectories === 1 ? 'y is' : 'ies are'} not loaded yet. Expand them to load, or use the summary view.
+                      </div>
+                  )}
                   <div className="flex-1 overflow-auto custom-scrollbar bg-[hsl(var(--bg))] rounded-lg border border-[hsl(var(--surface-2))] p-4">
-                     {files.length > 0 ? (
+                     {files.length === 0 ? (
+                         <div className="text-center text-[hsl(var(--text-dim))] mt-10">No files loaded.</div>
+                     ) : showDirectorySummary && isLargeTree ? (
+                         <DirectorySummaryTable summaries={directorySummaries} />
+                     ) : (
                         <div className="space-y-1">
-                             {(() => {
-                                const tree = buildTree(files);
-                                return Object.keys(tree.children).sort().map(childName => (
-                                    <FileTreeItem key={childName} name={childName} item={(tree.children as any)[childName]} depth={0} />
-                                ));
-                            })()}
+                            {[...(directoryIndex.get('')?.directories || [])].sort().map(path => (
+                                <FileTreeItem key={path} path={path} depth={0} index={directoryIndex} summaries={directorySummaries} onLoadDirectory={handleLoadDirectory} ownership={ownershipOverlay} hotspots={topHotspots} />
+                            ))}
+                            {[...(directoryIndex.get('')?.files || [])].sort((a, b) => a.path.localeCompare(b.path)).map(file => (
+                                <FileTreeLeaf key={file.path} file={file} depth={0} ownership={ownershipOverlay} hotspots={topHotspots} />
+                            ))}
                         </div>
-                     ) : (
-                         <div className="text-center text-[hsl(var(--text-dim))] mt-10">No files loaded.</div>
                      )}
                   </div>
                </div>
@@ -797,7 +1960,10 @@ export const Dashboard: React.FC<DashboardProps> = ({ onLogout }) => {
         onClose={() => setIsSidebarOpen(false)} 
         markdown={reviewMarkdown}
         isGenerating={isReviewing}
-        onAnalysisComplete={handleAnalysisComplete}
+        progress={reviewProgress}
+        analysisError={analysisError}
+        modules={moduleReviews}
+        onCancel={handleCancelReview}
       />
     </div>
   );
@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { Package, AlertTriangle, Lock } from 'lucide-react';
+import { DependencyReport, Dependency } from '../types';
+
+interface DependenciesPanelProps {
+  report: DependencyReport;
+}
+
+const SCOPES: (Dependency['scope'] | 'all')[] = ['all', 'runtime', 'dev', 'optional', 'peer', 'build'];
+
+export const DependenciesPanel: React.FC<DependenciesPanelProps> = ({ report }) => {
+  const [scope, setScope] = useState<Dependency['scope'] | 'all'>('all');
+
+  const pinned = report.direct.filter(d => d.pinned).length;
+  const lockfiles = report.manifests.filter(m => m.kind === 'lockfile');
+  const projectLicenses = [...new Set(report.manifests.map(m => m.license).filter(Boolean))];
+  // Ecosystems that float versions without a lockfile to fix what actually installs
+  const unlocked = [...new Set(report.direct.filter(d => !d.pinned).map(d => d.ecosystem))]
+    .filter(ecosystem => !lockfiles.some(l => l.ecosystem === ecosystem));
+  const visible = report.direct.filter(d => scope === 'all' || d.scope === scope);
+
+  return (
+    <div className="bg-[hsl(var(--surface-1))] border border-[hsl(var(--surface-2))] rounded-xl p-6 shadow-sm flex flex-col">
+      <div className="flex flex-col md:flex-row justify-between md:items-center gap-4 mb-4 pb-4 border-b border-[hsl(var(--surface-2))]">
+        <h3 className="font-bold text-lg flex items-center gap-2"><Package size={20} className="text-[hsl(var(--primary))]"/> Dependencies</h3>
+        <div className="flex flex-wrap gap-1.5">
+          {report.manifests.map(m => (
+            <span key={m.path} className="text-[10px] font-mono px-1.5 py-0.5 rounded bg-[hsl(var(--surface-2))] text-[hsl(var(--text-dim))] flex items-center gap-1">
+              {m.kind === 'lockfile' && <Lock size={10} />}{m.path}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {!report.manifests.length ? (
+        <div className="text-sm text-[hsl(var(--text-dim))]">No dependency manifests found in the tree.</div>
+      ) : (
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {[
+              { label: 'Direct', value: String(report.direct.length) },
+              { label: 'Pinned', value: report.direct.length ? `${Math.round((pinned / report.direct.length) * 100)}%` : 'n/a' },
+              { label: 'Transitive', value: report.transitiveCount === null ? 'no lockfile' : String(report.transitiveCount) },
+              { label: 'Project license', value: projectLicenses.join(', ') || 'none declared' },
+            ].map(stat => (
+              <div key={stat.label} className="bg-[hsl(var(--bg))] border border-[hsl(var(--surface-2))] rounded p-3 min-w-0">
+                <div className="font-mono text-lg text-[hsl(var(--text-main))] truncate">{stat.value}</div>
+                <div className="text-[10px] uppercase tracking-wider text-[hsl(var(--text-dim))]">{stat.label}</div>
+              </div>
+            ))}
+          </div>
+
+          {(report.duplicateFrameworks.length > 0 || report.copyleft.length > 0 || unlocked.length > 0 || report.multipleVersions.length > 0) && (
+            <div className="space-y-1.5 text-xs">
+              {report.duplicateFrameworks.map(group => (
+                <div key={`${group.category}-${group.packages.join()}`} className="flex items-center gap-2 text-yellow-300">
+                  <AlertTriangle size={12} className="shrink-0" /> Competing {group.category.toLowerCase()} libraries: {group.packages.join(', ')}
+                </div>
+              ))}
+              {unlocked.map(ecosystem => (
+                <div key={ecosystem} className="flex items-center gap-2 text-yellow-300">
+                  <AlertTriangle size={12} className="shrink-0" /> {ecosystem} dependencies use version ranges without a lockfile
+                </div>
+              ))}
+              {report.copyleft.length > 0 && (
+                <div className="flex items-center gap-2 text-red-300">
+                  <AlertTriangle size={12} className="shrink-0" /> Copyleft licenses: {report.copyleft.slice(0, 8).map(c => `${c.name} (${c.license})`).join(', ')}{report.copyleft.length > 8 ? ` and ${report.copyleft.length - 8} more` : ''}
+                </div>
+              )}
+              {report.multipleVersions.length > 0 && (
+                <div className="flex items-center gap-2 text-[hsl(var(--text-dim))]">
+                  <AlertTriangle size={12} className="shrink-0" /> {report.multipleVersions.length} packages locked at more than one version (e.g. {report.multipleVersions.slice(0, 3).map(p => `${p.name} ${p.versions.join(' / ')}`).join('; ')})
+                </div>
+              )}
+            </div>
+          )}
+
+          {report.licenses.length > 0 && (
+            <div className="flex flex-wrap gap-1.5">
+              {report.licenses.slice(0, 10).map(l => (
+                <span key={l.license} className="text-[10px] px-1.5 py-0.5 rounded bg-[hsl(var(--surface-2))]">
+                  {l.license} <span className="font-mono text-[hsl(var(--text-dim))]">{l.packages}</span>
+                </span>
+              ))}
+            </div>
+          )}
+
+          <div>
+            <div className="flex bg-[hsl(var(--bg))] border border-[hsl(var(--surface-2))] rounded p-0.5 text-xs w-fit mb-2">
+              {SCOPES.map(s => (
+                <button key={s} onClick={() => setScope(s)} className={`px-2 py-0.5 rounded capitalize ${scope === s ? 'bg-[hsl(var(--surface-2))] text-[hsl(var(--text-main))]' : 'text-[hsl(var(--text-dim))]'}`}>{s}</button>
+              ))}
+            </div>
+            <div className="max-h-[320px] overflow-y-auto custom-scrollbar pr-2">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs uppercase tracking-wider text-[hsl(var(--text-dim))] border-b border-[hsl(var(--surface-2))]">
+                    <th className="py-2 font-bold">Package</th>
+                    <th className="py-2 font-bold">Declared</th>
+                    <th className="py-2 font-bold">Resolved</th>
+                    <th className="py-2 font-bold">Scope</th>
+                    <th className="py-2 font-bold">Manifest</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {visible.map(d => (
+                    <tr key={`${d.manifest}:${d.name}:${d.scope}`} className="border-b border-[hsl(var(--surface-2))]/50 hover:bg-[hsl(var(--surface-2))]/40">
+                      <td className="py-1.5 font-mono text-xs">{d.name}</td>
+                      <td className="py-1.5 font-mono text-xs">
+                        <span className={`px-1.5 rounded border ${d.pinned ? 'bg-green-900/30 text-green-300 border-green-900/50' : 'bg-yellow-900/30 text-yellow-300 border-yellow-900/50'}`}>{d.version}</span>
+                      </td>
+                      <td className="py-1.5 font-mono text-xs text-[hsl(var(--text-dim))]">{d.resolved || '—'}</td>
+                      <td className="py-1.5 text-xs text-[hsl(var(--text-dim))]">{d.scope}</td>
+                      <td className="py-1.5 font-mono text-[10px] text-[hsl(var(--text-dim))] truncate max-w-[200px]">{d.manifest}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
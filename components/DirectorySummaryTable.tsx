@@ -0,0 +1,61 @@
+import React from 'react';
+import { Folder } from 'lucide-react';
+import { DirectorySummary } from '../types';
+import { formatBytes } from '../services/treeSummary';
+
+interface DirectorySummaryTableProps {
+  summaries: Map<string, DirectorySummary>;
+  maxDepth?: number;
+}
+
+// Collapsed, directory-level view of a large repository
+export const DirectorySummaryTable: React.FC<DirectorySummaryTableProps> = ({ summaries, maxDepth = 2 }) => {
+  const rows = [...summaries.values()]
+    .filter(s => s.path && s.path.split('/').length <= maxDepth)
+    .sort((a, b) => a.path.localeCompare(b.path));
+  const root = summaries.get('');
+
+  return (
+    <table className="w-full text-sm">
+      <thead>
+        <tr className="text-left text-xs uppercase tracking-wider text-[hsl(var(--text-dim))] border-b border-[hsl(var(--surface-2))]">
+          <th className="py-2 font-bold">Directory</th>
+          <th className="py-2 font-bold text-right">Files</th>
+          <th className="py-2 font-bold text-right">Size</th>
+          <th className="py-2 font-bold pl-6">Languages</th>
+        </tr>
+      </thead>
+      <tbody>
+        {rows.map(s => {
+          const depth = s.path.split('/').length - 1;
+          const languages = Object.entries(s.languages).sort((a, b) => b[1] - a[1]).slice(0, 3);
+          const total = languages.reduce((acc, [, weight]) => acc + weight, 0) || 1;
+          const share = root?.fileCount ? (s.fileCount / root.fileCount) * 100 : 0;
+          return (
+            <tr key={s.path} className="border-b border-[hsl(var(--surface-2))]/50 hover:bg-[hsl(var(--surface-2))]/40">
+              <td className="py-1.5 font-mono text-xs" style={{ paddingLeft: `${depth * 1.25}rem` }}>
+                <span className="flex items-center gap-2">
+                  <Folder size={12} className="shrink-0 text-[hsl(var(--text-dim))]" />
+                  <span className="truncate">{s.path.split('/').pop()}/</span>
+                  {s.pending && <span className="text-[10px] px-1.5 rounded border bg-yellow-900/30 text-yellow-300 border-yellow-900/50">partial</span>}
+                </span>
+              </td>
+              <td className="py-1.5 text-right font-mono text-xs">
+                <div className="flex items-center justify-end gap-2">
+                  <div className="w-16 h-1 bg-[hsl(var(--surface-2))] rounded-full overflow-hidden">
+                    <div className="h-full bg-[hsl(var(--primary))]" style={{ width: `${share}%` }} />
+                  </div>
+                  {s.fileCount.toLocaleString()}
+                </div>
+              </td>
+              <td className="py-1.5 text-right font-mono text-xs text-[hsl(var(--text-dim))]">{s.bytes ? formatBytes(s.bytes) : '—'}</td>
+              <td className="py-1.5 pl-6 text-xs text-[hsl(var(--text-dim))]">
+                {languages.map(([name, weight]) => `${name} ${Math.round((weight / total) * 100)}%`).join(' · ')}
+              </td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+};
@@ -0,0 +1,75 @@
+import React from 'react';
+import { Flame } from 'lucide-react';
+import { FileHistoryReport, HotspotReport } from '../types';
+import { TOP_HOTSPOTS } from '../services/churnHotspots';
+
+interface HotspotsPanelProps {
+  report: HotspotReport;
+  fileHistory?: FileHistoryReport | null;
+}
+
+const scoreClass = (score: number) => score >= 60 ? 'bg-red-500' : score >= 30 ? 'bg-yellow-500' : 'bg-green-500';
+
+export const HotspotsPanel: React.FC<HotspotsPanelProps> = ({ report, fileHistory }) => (
+  <div className="bg-[hsl(var(--surface-1))] border border-[hsl(var(--surface-2))] rounded-xl p-6 shadow-sm flex flex-col">
+    <div className="flex justify-between items-center mb-4 pb-4 border-b border-[hsl(var(--surface-2))]">
+      <h3 className="font-bold text-lg flex items-center gap-2"><Flame size={20} className="text-[hsl(var(--primary))]"/> Churn Hotspots</h3>
+      <span className="text-xs text-[hsl(var(--text-dim))]">from {report.commitsAnalyzed} of {report.commitsTotal} commits with file changes</span>
+    </div>
+
+    {fileHistory?.requested === 0 && report.commitsTotal > 0 && (
+      <div className="mb-4 text-xs text-yellow-500">
+        Changed files were not fetched for this load. Turn on per-file history next to the API setting to rank hotspots and ownership.
+      </div>
+    )}
+    {fileHistory && fileHistory.fetched < fileHistory.requested && (
+      <div className="mb-4 text-xs text-yellow-500">
+        Changed files were fetched for {fileHistory.fetched} of the {fileHistory.requested} newest commits
+        {fileHistory.attempted < fileHistory.requested && `; ${fileHistory.requested - fileHistory.attempted} were skipped to stay within the API rate limit`}
+        {fileHistory.attempted > fileHistory.fetched && `; ${fileHistory.attempted - fileHistory.fetched} requests failed`}.
+      </div>
+    )}
+
+    {!report.hotspots.length ? (
+      <div className="text-sm text-[hsl(var(--text-dim))]">No file changed more than once in the analyzed commits.</div>
+    ) : (
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs uppercase tracking-wider text-[hsl(var(--text-dim))] border-b border-[hsl(var(--surface-2))]">
+            <th className="py-2 font-bold w-8">#</th>
+            <th className="py-2 font-bold">File</th>
+            <th className="py-2 font-bold">Risk</th>
+            <th className="py-2 font-bold text-right">Changes</th>
+            <th className="py-2 font-bold text-right">Authors</th>
+            <th className="py-2 font-bold text-right">Churned</th>
+            <th className="py-2 font-bold text-right">Lines</th>
+            <th className="py-2 font-bold text-right">Nesting</th>
+          </tr>
+        </thead>
+        <tbody>
+          {report.hotspots.slice(0, TOP_HOTSPOTS).map(h => (
+            <tr key={h.path} className="border-b border-[hsl(var(--surface-2))]/50 hover:bg-[hsl(var(--surface-2))]/40">
+              <td className="py-1.5 font-mono text-xs text-[hsl(var(--text-dim))]">{h.rank}</td>
+              <td className="py-1.5 font-mono text-xs truncate max-w-[320px]" title={h.path}>{h.path}</td>
+              <td className="py-1.5 font-mono text-xs">
+                <div className="flex items-center gap-2">
+                  <div className="w-16 h-1 bg-[hsl(var(--surface-2))] rounded-full overflow-hidden">
+                    <div className={`h-full ${scoreClass(h.score)}`} style={{ width: `${h.score}%` }} />
+                  </div>
+                  {h.score}
+                </div>
+              </td>
+              <td className="py-1.5 text-right font-mono text-xs">{h.changes}</td>
+              <td className="py-1.5 text-right font-mono text-xs">{h.authors}</td>
+              <td className="py-1.5 text-right font-mono text-xs text-[hsl(var(--text-dim))]">{h.linesChanged.toLocaleString()}</td>
+              <td className="py-1.5 text-right font-mono text-xs text-[hsl(var(--text-dim))]" title={h.linesEstimated ? 'Estimated from file size' : undefined}>
+                {h.linesEstimated ? '~' : ''}{h.lines.toLocaleString()}
+              </td>
+              <td className="py-1.5 text-right font-mono text-xs text-[hsl(var(--text-dim))]">{h.nestingDepth ?? '—'}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    )}
+  </div>
+);
@@ -0,0 +1,34 @@
+import React from 'react';
+import { Cpu } from 'lucide-react';
+import { LLMTarget } from '../types';
+import { describeLLMTarget, llmTargetId } from '../services/llmProviders';
+
+interface ModelPickerProps {
+  targets: LLMTarget[];
+  value: LLMTarget;
+  onChange: (target: LLMTarget) => void;
+  disabled?: boolean;
+}
+
+// Picks the model a review runs on from the LLM keys in Settings
+export const ModelPicker: React.FC<ModelPickerProps> = ({ targets, value, onChange, disabled }) => {
+  // The default target is listed even before a key for it exists, so the choice is always visible
+  const options = targets.some(t => llmTargetId(t) === llmTargetId(value)) ? targets : [value, ...targets];
+
+  return (
+    <div className="flex items-center gap-2 text-xs" title="Model used for AI reviews">
+      <Cpu size={12} className="text-[hsl(var(--text-dim))] shrink-0" />
+      <select
+        value={llmTargetId(value)}
+        disabled={disabled}
+        onChange={e => {
+          const target = options.find(t => llmTargetId(t) === e.target.value);
+          if (target) onChange(target);
+        }}
+        className="w-full min-w-0 bg-[hsl(var(--bg))] border border-[hsl(var(--surface-2))] rounded px-2 py-1 text-xs font-mono focus:border-[hsl(var(--primary))] outline-none disabled:opacity-50"
+      >
+        {options.map(t => <option key={llmTargetId(t)} value={llmTargetId(t)}>{describeLLMTarget(t)}</option>)}
+      </select>
+    </div>
+  );
+};
@@ -0,0 +1,64 @@
+import React from 'react';
+import { Check, Loader2, AlertCircle, MinusCircle, Circle, FolderTree } from 'lucide-react';
+import { ModuleFindingSeverity, ModuleReview } from '../types';
+
+interface ModuleFindingsProps {
+  modules: ModuleReview[];
+}
+
+const SEVERITY_CLASSES: Record<ModuleFindingSeverity, string> = {
+  high: 'bg-red-900/30 text-red-300 border-red-900/50',
+  medium: 'bg-yellow-900/30 text-yellow-300 border-yellow-900/50',
+  low: 'bg-blue-900/30 text-blue-300 border-blue-900/50',
+};
+
+const StatusIcon: React.FC<{ status: ModuleReview['status'] }> = ({ status }) => {
+  if (status === 'running') return <Loader2 size={14} className="animate-spin text-[hsl(var(--primary))]" />;
+  if (status === 'done') return <Check size={14} className="text-green-500" />;
+  if (status === 'failed') return <AlertCircle size={14} className="text-red-400" />;
+  if (status === 'skipped') return <MinusCircle size={14} className="text-yellow-500" />;
+  return <Circle size={14} className="text-[hsl(var(--text-dim))]" />;
+};
+
+// Intermediate results of a multi-pass review, one collapsible row per directory
+export const ModuleFindings: React.FC<ModuleFindingsProps> = ({ modules }) => {
+  const finished = modules.filter(m => m.status !== 'pending' && m.status !== 'running').length;
+
+  return (
+    <div className="mb-8 rounded-lg border border-[hsl(var(--surface-2))] bg-[hsl(var(--surface-1))] overflow-hidden">
+      <div className="px-4 py-3 flex items-center gap-2 text-sm font-semibold text-[hsl(var(--text-main))]">
+        <FolderTree size={16} className="text-[hsl(var(--primary))]" />
+        Per-directory passes
+        <span className="ml-auto text-xs font-normal text-[hsl(var(--text-dim))]">{finished} of {modules.length} finished</span>
+      </div>
+      {modules.map(m => (
+        <details key={m.name} className="border-t border-[hsl(var(--surface-2))]">
+          <summary className="px-4 py-2 flex items-center gap-2 text-sm cursor-pointer hover:bg-[hsl(var(--surface-2))]">
+            <StatusIcon status={m.status} />
+            <span className="font-mono text-[hsl(var(--text-main))]">{m.name}</span>
+            <span className="text-xs text-[hsl(var(--text-dim))]">{m.files.length} files · {m.commits} commits</span>
+            <span className="ml-auto flex items-center gap-2 text-xs text-[hsl(var(--text-dim))]">
+              {m.status === 'done' && `${m.findings.length} finding${m.findings.length === 1 ? '' : 's'}`}
+              {m.usage && <span className="font-mono">{m.usage.total.toLocaleString()} tokens</span>}
+            </span>
+          </summary>
+          <div className="px-4 pb-3 space-y-2 text-sm">
+            {m.error && <div className={m.status === 'skipped' ? 'text-yellow-500' : 'text-red-400'}>{m.error}</div>}
+            {m.summary && <p className="text-[hsl(var(--text-main))] opacity-90">{m.summary}</p>}
+            {m.findings.map((f, i) => (
+              <div key={i} className="p-2 rounded bg-[hsl(var(--bg))] border border-[hsl(var(--surface-2))]">
+                <div className="flex flex-wrap items-center gap-2 text-xs mb-1">
+                  <span className={`px-1.5 rounded border uppercase text-[10px] font-bold ${SEVERITY_CLASSES[f.severity]}`}>{f.severity}</span>
+                  <span className="font-medium text-[hsl(var(--text-main))]">{f.title}</span>
+                  {f.path && <span className="font-mono text-[10px] text-[hsl(var(--text-dim))]">{f.path}</span>}
+                </div>
+                {f.detail && <div className="text-xs text-[hsl(var(--text-dim))]">{f.detail}</div>}
+              </div>
+            ))}
+            {m.status === 'pending' && <div className="text-xs text-[hsl(var(--text-dim))]">Waiting for a free key.</div>}
+          </div>
+        </details>
+      ))}
+    </div>
+  );
+};
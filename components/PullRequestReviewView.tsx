@@ -0,0 +1,269 @@
+import React, { useState, useMemo, useEffect, useRef } from 'react';
+import ReactMarkdown from 'react-markdown';
+import { GitPullRequest, ArrowLeft, Zap, ChevronDown, ChevronRight, FileCode, MessageSquareWarning, Square } from 'lucide-react';
+import { Button } from './Button';
+import { FindingSeverity, LLMTarget, PullRequestReviewData, PullRequestReviewResult, ReviewFinding, ReviewProgress, TokenUsage } from '../types';
+import { parsePatch, SEVERITIES } from '../services/pullRequestReview';
+import { generatePullRequestReviewStream } from '../services/reviewService';
+import { ModelPicker } from './ModelPicker';
+
+interface PullRequestReviewViewProps {
+  data: PullRequestReviewData;
+  onExit: () => void;
+  llmTarget: LLMTarget;
+  llmTargets: LLMTarget[];
+  onLLMTargetChange: (target: LLMTarget) => void;
+}
+
+const SEVERITY_CLASSES: Record<FindingSeverity, string> = {
+  critical: 'bg-red-900/30 text-red-300 border-red-900/50',
+  major: 'bg-yellow-900/30 text-yellow-300 border-yellow-900/50',
+  minor: 'bg-blue-900/30 text-blue-300 border-blue-900/50',
+  info: 'bg-[hsl(var(--surface-2))] text-[hsl(var(--text-dim))] border-transparent',
+};
+
+const VERDICT_LABELS = {
+  approve: { label: 'Approve', className: 'bg-green-900/30 text-green-300 border-green-900/50' },
+  comment: { label: 'Comment', className: 'bg-blue-900/30 text-blue-300 border-blue-900/50' },
+  request_changes: { label: 'Request changes', className: 'bg-red-900/30 text-red-300 border-red-900/50' },
+};
+
+const FindingCard: React.FC<{ id: string; finding: ReviewFinding }> = ({ id, finding }) => (
+  <div id={id} className="m-2 p-3 rounded-lg bg-[hsl(var(--surface-1))] border border-[hsl(var(--surface-2))] font-sans">
+    <div className="flex flex-wrap items-center gap-2 mb-1 text-xs">
+      <span className={`px-1.5 rounded border uppercase text-[10px] font-bold ${SEVERITY_CLASSES[finding.severity]}`}>{finding.severity}</span>
+      <span className="px-1.5 rounded bg-[hsl(var(--surface-2))] text-[hsl(var(--text-dim))] text-[10px]">{finding.category}</span>
+      <span className="font-mono text-[10px] text-[hsl(var(--text-dim))]">
+        L{finding.startLine}{finding.endLine !== finding.startLine ? `–${finding.endLine}` : ''}
+      </span>
+      <span className="font-medium text-[hsl(var(--text-main))]">{finding.title}</span>
+    </div>
+    {finding.suggestion && (
+      <div className="prose prose-sm prose-invert max-w-none text-xs">
+        <ReactMarkdown>{finding.suggestion}</ReactMarkdown>
+      </div>
+    )}
+  </div>
+);
+
+export const PullRequestReviewView: React.FC<PullRequestReviewViewProps> = ({ data, onExit, llmTarget, llmTargets, onLLMTargetChange }) => {
+  const [markdown, setMarkdown] = useState('');
+  const [result, setResult] = useState<PullRequestReviewResult | null>(null);
+  const [resultError, setResultError] = useState<string | null>(null);
+  const [isReviewing, setIsReviewing] = useState(false);
+  const [usage, setUsage] = useState<TokenUsage | null>(null);
+  const [progress, setProgress] = useState<ReviewProgress | null>(null);
+  const [severityFilter, setSeverityFilter] = useState<FindingSeverity | 'all'>('all');
+  const [collapsed, setCollapsed] = useState<string[]>([]);
+
+  const { pullRequest: pr } = data;
+  const findings = (result?.findings || []).filter(f => severityFilter === 'all' || f.severity === severityFilter);
+  // Scroll targets in the diff
+  const findingId = (finding: ReviewFinding) => `finding-${result?.findings.indexOf(finding)}`;
+
+  const diffs = useMemo(() => data.files.map(f => ({ file: f, lines: f.patch ? parsePatch(f.patch) : [] })), [data.files]);
+
+  // Going back mid-review must not keep writing into an unmounted view
+  const reviewController = useRef<AbortController | null>(null);
+  useEffect(() => () => reviewController.current?.abort(), []);
+
+  const handleReview = async () => {
+    reviewController.current?.abort();
+    const controller = new AbortController();
+    reviewController.current = controller;
+    const { signal } = controller;
+    setMarkdown('');
+    setResult(null);
+    setResultError(null);
+    setUsage(null);
+    setProgress(null);
+    setIsReviewing(true);
+    try {
+      for await (const chunk of generatePullRequestReviewStream(data, llmTarget, signal)) {
+        if (signal.aborted) break;
+        if (chunk.type === 'text') {
+          setMarkdown(prev => prev + chunk.content);
+        } else if (chunk.type === 'pull-request-review') {
+          setResult(chunk.data);
+        } else if (chunk.type === 'analysis-error') {
+          setResultError(chunk.message);
+        } else if (chunk.type === 'usage') {
+          setUsage(chunk.data);
+        } else if (chunk.type === 'progress') {
+          setProgress(chunk.data);
+        }
+      }
+    } catch (e) {
+      if (!signal.aborted) setMarkdown(prev => prev + '\n\n**Error encountered during generation.**');
+    } finally {
+      if (!signal.aborted) setIsReviewing(false);
+    }
+  };
+
+  const handleCancelReview = () => {
+    reviewController.current?.abort();
+    setIsReviewing(false);
+  };
+
+  const showFinding = (finding: ReviewFinding) => {
+    setCollapsed(prev => prev.filter(p => p !== finding.file));
+    // Wait for the file to expand before scrolling
+    setTimeout(() => document.getElementById(findingId(finding))?.scrollIntoView({ behavior: 'smooth', block: 'center' }), 0);
+  };
+
+  const toggleFile = (filename: string) =>
+    setCollapsed(prev => prev.includes(filename) ? prev.filter(p => p !== filename) : [...prev, filename]);
+
+  return (
+    <div className="space-y-8 animate-in fade-in duration-500">
+      <div className="bg-[hsl(var(--surface-1))] border border-[hsl(var(--surface-2))] rounded-xl p-4 shadow-lg flex flex-col md:flex-row justify-between gap-4">
+        <div className="min-w-0">
+          <div className="flex items-center gap-2 text-xs text-[hsl(var(--text-dim))] mb-1">
+            <GitPullRequest size={14} className="text-[hsl(var(--primary))]" />
+            {data.location.repository.owner}/{data.location.repository.repo}
+            <span className="font-mono">{data.headRef} → {data.baseRef}</span>
+          </div>
+          <a href={pr.html_url} target="_blank" rel="noreferrer" className="text-2xl font-bold text-[hsl(var(--text-main))] hover:underline">#{pr.number} {pr.title}</a>
+          <div className="flex flex-wrap items-center gap-2 mt-2 text-xs text-[hsl(var(--text-dim))]">
+            {pr.user.avatar_url && <img src={pr.user.avatar_url} className="w-4 h-4 rounded-full" />}
+            <span>{pr.user.login}</span>
+            <span>•</span>
+            <span className="font-mono"><span className="text-green-500">+{pr.additions ?? 0}</span> <span className="text-red-500">-{pr.deletions ?? 0}</span> in {data.filesTotal} files</span>
+            {data.filesTotal > data.files.length && <span className="px-1.5 rounded border bg-yellow-900/30 text-yellow-300 border-yellow-900/50">first {data.files.length} files only</span>}
+            <span>•</span>
+            <span>{pr.merged_at ? 'merged' : pr.state}</span>
+          </div>
+        </div>
+        <div className="flex flex-col gap-2 justify-center min-w-[180px]">
+          {isReviewing ? (
+            <Button variant="secondary" onClick={handleCancelReview} className="shadow-lg w-full text-sm py-2">
+              <Square size={14} className="mr-2" /> Cancel Review
+            </Button>
+          ) : (
+            <Button onClick={handleReview} className="shadow-lg w-full text-sm py-2">
+              <Zap size={14} className="mr-2" /> {result ? 'Re-Review PR' : 'Review PR'}
+            </Button>
+          )}
+          <Button variant="secondary" onClick={onExit} className="text-sm py-2 h-9 px-2"><ArrowLeft size={14} className="mr-1"/> Back</Button>
+          <ModelPicker targets={llmTargets} value={llmTarget} onChange={onLLMTargetChange} disabled={isReviewing} />
+        </div>
+      </div>
+
+      {(markdown || result || resultError || isReviewing) && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className="bg-[hsl(var(--surface-1))] border border-[hsl(var(--surface-2))] rounded-xl p-6 shadow-sm flex flex-col">
+            <div className="flex justify-between items-center mb-4 pb-4 border-b border-[hsl(var(--surface-2))]">
+              <h3 className="font-bold text-lg flex items-center gap-2"><Zap size={20} className="text-[hsl(var(--primary))]"/> Review</h3>
+              <div className="flex items-center gap-3 text-xs">
+                {result && <span className={`px-2 py-0.5 rounded border ${VERDICT_LABELS[result.verdict].className}`}>{VERDICT_LABELS[result.verdict].label}</span>}
+                {usage && <span className="font-mono text-[hsl(var(--text-dim))]">{usage.total.toLocaleString()} tokens</span>}
+                {isReviewing && !usage && progress && (
+                  <span className="font-mono text-[hsl(var(--text-dim))]">
+                    {progress.phase === 'waiting' ? `Waiting for the model${progress.attempt > 1 ? ` (key ${progress.attempt})` : ''}` : `~${progress.outputTokens.toLocaleString()} tokens written`} · ~{progress.promptTokens.toLocaleString()} sent
+                  </span>
+                )}
+              </div>
+            </div>
+            {result?.summary && <p className="text-sm text-[hsl(var(--text-main))] mb-4">{result.summary}</p>}
+            <div className="prose prose-sm prose-invert max-w-none">
+              {markdown ? <ReactMarkdown>{markdown}</ReactMarkdown> : <div className="text-[hsl(var(--text-dim))] text-sm">{isReviewing ? 'Generating…' : 'No write-up was generated.'}</div>}
+            </div>
+          </div>
+
+          <div className="bg-[hsl(var(--surface-1))] border border-[hsl(var(--surface-2))] rounded-xl p-6 shadow-sm flex flex-col">
+            <div className="flex justify-between items-center mb-4 pb-4 border-b border-[hsl(var(--surface-2))]">
+              <h3 className="font-bold text-lg flex items-center gap-2"><MessageSquareWarning size={20} className="text-[hsl(var(--primary))]"/> Findings</h3>
+              <div className="flex bg-[hsl(var(--bg))] border border-[hsl(var(--surface-2))] rounded p-0.5 text-xs">
+                {(['all', ...SEVERITIES] as (FindingSeverity | 'all')[]).map(s => (
+                  <button key={s} onClick={() => setSeverityFilter(s)} className={`px-2 py-0.5 rounded capitalize ${severityFilter === s ? 'bg-[hsl(var(--surface-2))] text-[hsl(var(--text-main))]' : 'text-[hsl(var(--text-dim))]'}`}>
+                    {s}{result ? ` ${s === 'all' ? result.findings.length : result.findings.filter(f => f.severity === s).length}` : ''}
+                  </button>
+                ))}
+              </div>
+            </div>
+            {!result ? (
+              <div className="text-sm text-[hsl(var(--text-dim))]">{isReviewing ? 'Waiting for findings…' : resultError ? `No structured findings: ${resultError}` : 'No structured findings were returned.'}</div>
+            ) : !findings.length ? (
+              <div className="text-sm text-[hsl(var(--text-dim))]">No findings{severityFilter === 'all' ? '' : ` of ${severityFilter} severity`}.</div>
+            ) : (
+              <div className="space-y-1 max-h-[420px] overflow-y-auto custom-scrollbar pr-2">
+                {findings.map(f => (
+                  <button key={findingId(f)} onClick={() => showFinding(f)} className="w-full text-left flex items-start gap-2 p-2 rounded hover:bg-[hsl(var(--surface-2))]/40 text-xs">
+                    <span className={`px-1.5 rounded border uppercase text-[10px] font-bold shrink-0 ${SEVERITY_CLASSES[f.severity]}`}>{f.severity}</span>
+                    <span className="min-w-0">
+                      <span className="text-[hsl(var(--text-main))]">{f.title}</span>
+                      <span className="block font-mono text-[10px] text-[hsl(var(--text-dim))] truncate">{f.file}:{f.startLine}{f.endLine !== f.startLine ? `-${f.endLine}` : ''} · {f.category}</span>
+                    </span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-4">
+        {diffs.map(({ file, lines }) => {
+          const fileFindings = findings.filter(f => f.file === file.filename);
+          // Findings on head lines the patch doesn't show are listed above the hunks
+          const shownLines = new Set(lines.map(l => l.newLine).filter(n => n !== null));
+          const outsideDiff = fileFindings.filter(f => !shownLines.has(f.endLine));
+          const isCollapsed = collapsed.includes(file.filename);
+          return (
+            <div key={file.filename} className="bg-[hsl(var(--surface-1))] border border-[hsl(var(--surface-2))] rounded-xl shadow-sm overflow-hidden">
+              <button onClick={() => toggleFile(file.filename)} className="w-full flex items-center justify-between gap-3 px-4 py-2 border-b border-[hsl(var(--surface-2))] text-sm hover:bg-[hsl(var(--surface-2))]/40">
+                <span className="flex items-center gap-2 min-w-0 font-mono text-xs">
+                  {isCollapsed ? <ChevronRight size={14} /> : <ChevronDown size={14} />}
+                  <FileCode size={14} className="text-[hsl(var(--text-dim))] shrink-0" />
+                  <span className="truncate">{file.previous_filename ? `${file.previous_filename} → ` : ''}{file.filename}</span>
+                  <span className="text-[10px] text-[hsl(var(--text-dim))]">{file.status}</span>
+                </span>
+                <span className="flex items-center gap-2 text-xs font-mono shrink-0">
+                  {fileFindings.length > 0 && <span className="px-1.5 rounded border bg-yellow-900/30 text-yellow-300 border-yellow-900/50">{fileFindings.length} finding{fileFindings.length === 1 ? '' : 's'}</span>}
+                  <span className="text-green-500">+{file.additions}</span>
+                  <span className="text-red-500">-{file.deletions}</span>
+                </span>
+              </button>
+              {!isCollapsed && (
+                <div className="overflow-x-auto custom-scrollbar bg-[hsl(var(--bg))] font-mono text-xs">
+                  {outsideDiff.map(f => <FindingCard key={findingId(f)} id={findingId(f)} finding={f} />)}
+                  {!lines.length ? (
+                    <div className="px-4 py-3 text-[hsl(var(--text-dim))] font-sans">No textual diff (binary file or change too large).</div>
+                  ) : (
+                    <table className="w-full border-collapse">
+                      <tbody>
+                        {lines.map((line, i) => {
+                          const flagged = line.newLine !== null && fileFindings.some(f => line.newLine! >= f.startLine && line.newLine! <= f.endLine);
+                          const anchored = line.newLine !== null ? fileFindings.filter(f => f.endLine === line.newLine) : [];
+                          const rowClass = line.kind === 'hunk' ? 'bg-blue-900/20 text-[hsl(var(--text-dim))]'
+                            : line.kind === 'add' ? 'bg-green-900/20'
+                            : line.kind === 'del' ? 'bg-red-900/20'
+                            : '';
+                          return (
+                            <React.Fragment key={i}>
+                              <tr className={`${rowClass} ${flagged ? 'outline outline-1 -outline-offset-1 outline-yellow-500/40' : ''}`}>
+                                <td className="w-12 px-2 text-right text-[hsl(var(--text-dim))] select-none align-top">{line.oldLine ?? ''}</td>
+                                <td className="w-12 px-2 text-right text-[hsl(var(--text-dim))] select-none align-top">{line.newLine ?? ''}</td>
+                                <td className="w-4 select-none text-[hsl(var(--text-dim))] align-top">{line.kind === 'add' ? '+' : line.kind === 'del' ? '-' : ''}</td>
+                                <td className="pr-4 whitespace-pre">{line.text}</td>
+                              </tr>
+                              {anchored.length > 0 && (
+                                <tr>
+                                  <td colSpan={4}>{anchored.map(f => <FindingCard key={findingId(f)} id={findingId(f)} finding={f} />)}</td>
+                                </tr>
+                              )}
+                            </React.Fragment>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
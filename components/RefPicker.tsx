@@ -0,0 +1,76 @@
+import React, { useState, useEffect } from 'react';
+import { GitBranch, Tag as TagIcon, Play } from 'lucide-react';
+import { Button } from './Button';
+import { AnalysisRef, Branch, ResolvedRef, Tag } from '../types';
+
+interface RefPickerProps {
+  branches: Branch[];
+  tags: Tag[];
+  activeRef: ResolvedRef | null;
+  isLoading: boolean;
+  onSelect: (ref: AnalysisRef) => void;
+}
+
+// Option values are "<type>:<name>"; sha/date options carry no name and reveal an input instead
+export const RefPicker: React.FC<RefPickerProps> = ({ branches, tags, activeRef, isLoading, onSelect }) => {
+  const [selection, setSelection] = useState('');
+  const [shaInput, setShaInput] = useState('');
+  const [dateInput, setDateInput] = useState('');
+
+  useEffect(() => {
+    if (!activeRef) return;
+    const branch = branches.find(b => b.name === activeRef.label);
+    const tag = tags.find(t => t.name === activeRef.label);
+    setSelection(branch ? `branch:${branch.name}` : tag ? `tag:${tag.name}` : '');
+  }, [activeRef, branches, tags]);
+
+  const [type, ...rest] = selection.split(':');
+  const name = rest.join(':');
+
+  const buildRef = (): AnalysisRef | null => {
+    if (type === 'branch' || type === 'tag') return name ? { type, value: name } : null;
+    if (type === 'sha') return /^[0-9a-f]{4,40}$/i.test(shaInput.trim()) ? { type: 'sha', value: shaInput.trim() } : null;
+    if (type === 'date') return dateInput ? { type: 'date', value: new Date(dateInput).toISOString() } : null;
+    return null;
+  };
+
+  const handleApply = () => {
+    const ref = buildRef();
+    if (ref) onSelect(ref);
+  };
+
+  const inputClass = "bg-[hsl(var(--bg))] border border-[hsl(var(--surface-2))] rounded px-2 py-1 text-xs font-mono focus:border-[hsl(var(--primary))] outline-none";
+
+  return (
+    <div className="flex items-center gap-2 text-xs">
+      {type === 'tag' ? <TagIcon size={12} className="text-[hsl(var(--text-dim))]" /> : <GitBranch size={12} className="text-[hsl(var(--text-dim))]" />}
+      <select value={selection} onChange={e => setSelection(e.target.value)} className={`${inputClass} max-w-[200px]`}>
+        <option value="" disabled>{activeRef?.label || 'Select ref'}</option>
+        <optgroup label="Branches">
+          {branches.map(b => <option key={b.name} value={`branch:${b.name}`}>{b.name}</option>)}
+        </optgroup>
+        {tags.length > 0 && (
+          <optgroup label="Tags">
+            {tags.map(t => <option key={t.name} value={`tag:${t.name}`}>{t.name}</option>)}
+          </optgroup>
+        )}
+        <optgroup label="Other">
+          <option value="sha:">Commit SHA…</option>
+          <option value="date:">Snapshot at date…</option>
+        </optgroup>
+      </select>
+      {type === 'sha' && (
+        <input type="text" placeholder="a1b2c3d" value={shaInput} onChange={e => setShaInput(e.target.value)} className={`${inputClass} w-28`} />
+      )}
+      {type === 'date' && (
+        <input type="datetime-local" value={dateInput} onChange={e => setDateInput(e.target.value)} className={inputClass} />
+      )}
+      <Button variant="secondary" onClick={handleApply} disabled={!buildRef()} isLoading={isLoading} className="h-7 px-2 text-xs">
+        <Play size={12} /> Analyze
+      </Button>
+      {activeRef && (
+        <span className="font-mono text-[hsl(var(--text-dim))]" title={activeRef.sha}>@ {activeRef.sha.substring(0, 7)}</span>
+      )}
+    </div>
+  );
+};
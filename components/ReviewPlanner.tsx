@@ -0,0 +1,139 @@
+import React from 'react';
+import { Calculator, Loader2 } from 'lucide-react';
+import { LLMTarget, PromptBudgets, PromptSection, PromptSectionPlan, PromptTokenCounts, ReviewPromptPlan, TokenUsage } from '../types';
+import { estimatePlanUsage, sectionTokens } from '../services/reviewService';
+import { describeLLMTarget, llmTargetId } from '../services/llmProviders';
+import { formatCost, pricingFor, usageCost } from '../services/modelPricing';
+
+interface ReviewPlannerProps {
+  plan: ReviewPromptPlan;
+  budgets: PromptBudgets;
+  onBudgetChange: (section: PromptSection, tokens: number) => void;
+  counts: PromptTokenCounts;
+  target: LLMTarget;
+  targets: LLMTarget[];
+  canCount: boolean; // The target's backend has a token counter
+  isCounting: boolean;
+  onCount: () => void;
+  lastRun: { target: LLMTarget; estimate: TokenUsage; actual: TokenUsage | null } | null;
+  disabled?: boolean;
+}
+
+// Slider ranges per section; code matches the source selection panel
+const SECTIONS: Record<PromptSectionPlan['section'], { label: string; min: number; max: number; step: number }> = {
+  readme: { label: 'README', min: 0, max: 10000, step: 250 },
+  tree: { label: 'File tree', min: 500, max: 20000, step: 500 },
+  languages: { label: 'Languages', min: 50, max: 1000, step: 50 },
+  commits: { label: 'Commits', min: 0, max: 10000, step: 250 },
+  pullRequests: { label: 'Pull requests', min: 0, max: 10000, step: 250 },
+  code: { label: 'Code', min: 5000, max: 200000, step: 5000 },
+  contributors: { label: 'Contributors', min: 50, max: 2000, step: 50 },
+  other: { label: 'Instructions & other', min: 0, max: 0, step: 0 },
+};
+
+const costOf = (usage: TokenUsage, target: LLMTarget) => {
+  const pricing = pricingFor(target);
+  if (!pricing) return 'price unknown';
+  if (!pricing.input && !pricing.output) return 'free (local)';
+  return formatCost(usageCost(usage, pricing));
+};
+
+// Token breakdown of the next review with a budget slider per section and its cost on each configured model
+export const ReviewPlanner: React.FC<ReviewPlannerProps> = ({ plan, budgets, onBudgetChange, counts, target, targets, canCount, isCounting, onCount, lastRun, disabled }) => {
+  const sizes = plan.sections.map(section => ({ section, ...sectionTokens(section, counts) }));
+  const perPass = sizes.reduce((acc, s) => acc + s.tokens, 0);
+  const estimate = estimatePlanUsage(plan, counts);
+  const exact = sizes.filter(s => s.exact).length;
+  const models = targets.some(t => llmTargetId(t) === llmTargetId(target)) ? targets : [target, ...targets];
+
+  return (
+    <div className="bg-[hsl(var(--surface-1))] border border-[hsl(var(--surface-2))] rounded-xl p-6 shadow-sm flex flex-col">
+      <div className="flex flex-col md:flex-row justify-between md:items-center gap-4 mb-4 pb-4 border-b border-[hsl(var(--surface-2))]">
+        <h3 className="font-bold text-lg flex items-center gap-2"><Calculator size={20} className="text-[hsl(var(--primary))]"/> Review Plan</h3>
+        <div className="flex items-center gap-3 text-xs text-[hsl(var(--text-dim))]">
+          <span>{exact ? `${exact} of ${sizes.length} sections counted by ${describeLLMTarget(target)}` : 'Estimated at 4 characters per token'}</span>
+          <button
+            onClick={onCount}
+            disabled={disabled || isCounting || !canCount}
+            title={canCount ? 'Ask the selected model for exact token counts' : 'This backend has no token counting endpoint'}
+            className="flex items-center gap-1 px-2 py-1 rounded border border-[hsl(var(--surface-2))] text-[hsl(var(--text-main))] hover:border-[hsl(var(--primary))] disabled:opacity-50 disabled:hover:border-[hsl(var(--surface-2))]"
+          >
+            {isCounting && <Loader2 size={12} className="animate-spin" />} Count tokens
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {sizes.map(({ section, tokens, exact: isExact }) => {
+          const range = SECTIONS[section.section];
+          const share = (tokens / Math.max(perPass, 1)) * 100;
+          return (
+            <div key={section.section} className="grid grid-cols-[8rem_1fr_10rem] items-center gap-3 text-xs">
+              <span className="text-[hsl(var(--text-main))] truncate">
+                {range.label}
+                {section.truncated && <span className="ml-1 text-[10px] text-yellow-500" title="Cut to fit its budget">cut</span>}
+              </span>
+              <div className="flex items-center gap-3">
+                {section.section === 'other' ? (
+                  <span className="flex-1 text-[hsl(var(--text-dim))]">History, issues, CI, dependencies, ownership and output requirements are not budgeted</span>
+                ) : (
+                  <input
+                    type="range"
+                    min={range.min}
+                    max={range.max}
+                    step={range.step}
+                    value={budgets[section.section]}
+                    disabled={disabled}
+                    onChange={e => onBudgetChange(section.section as PromptSection, Number(e.target.value))}
+                    className="flex-1 min-w-0 accent-[hsl(var(--primary))]"
+                  />
+                )}
+                <div className="w-20 h-1.5 bg-[hsl(var(--surface-2))] rounded-full overflow-hidden shrink-0" title={`${Math.round(share)}% of the context`}>
+                  <div className="h-full bg-[hsl(var(--primary))]" style={{ width: `${share}%` }} />
+                </div>
+              </div>
+              <span className="font-mono text-right text-[hsl(var(--text-dim))]">
+                {isExact ? '' : '~'}{tokens.toLocaleString()}
+                {section.section !== 'other' && ` / ${budgets[section.section].toLocaleString()}`}
+              </span>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="mt-4 pt-4 border-t border-[hsl(var(--surface-2))] grid grid-cols-1 md:grid-cols-2 gap-6 text-xs">
+        <div className="space-y-1 font-mono">
+          <div className="flex justify-between"><span className="text-[hsl(var(--text-dim))]">Context per pass</span><span>{perPass.toLocaleString()}</span></div>
+          <div className="flex justify-between"><span className="text-[hsl(var(--text-dim))]">× {plan.passes} passes</span><span>{(perPass * plan.passes).toLocaleString()}</span></div>
+          <div className="flex justify-between"><span className="text-[hsl(var(--text-dim))]">Output requirements{plan.directoryPasses ? ` & ${plan.directoryPasses} directory passes` : ''}</span><span>~{plan.extraInputTokens.toLocaleString()}</span></div>
+          <div className="flex justify-between"><span className="text-[hsl(var(--text-dim))]">Input</span><span>{estimate.input.toLocaleString()}</span></div>
+          <div className="flex justify-between"><span className="text-[hsl(var(--text-dim))]">Expected output</span><span>~{estimate.output.toLocaleString()} out</span></div>
+          <div className="flex justify-between font-bold pt-1 border-t border-[hsl(var(--surface-2))]"><span>Estimated total</span><span>{estimate.total.toLocaleString()}</span></div>
+          {lastRun && (
+            <div className="flex justify-between pt-1 text-[hsl(var(--text-dim))]">
+              <span>Last review</span>
+              <span>
+                est. {lastRun.estimate.total.toLocaleString()} · actual {lastRun.actual ? lastRun.actual.total.toLocaleString() : 'not reported'}
+              </span>
+            </div>
+          )}
+        </div>
+        <div className="space-y-1">
+          <div className="text-[10px] uppercase font-bold tracking-wider text-[hsl(var(--text-dim))] mb-1">Estimated cost</div>
+          {models.map(t => (
+            <div key={llmTargetId(t)} className={`flex justify-between gap-3 ${llmTargetId(t) === llmTargetId(target) ? 'text-[hsl(var(--text-main))] font-medium' : 'text-[hsl(var(--text-dim))]'}`}>
+              <span className="truncate">{describeLLMTarget(t)}</span>
+              <span className="font-mono shrink-0">{costOf(estimate, t)}</span>
+            </div>
+          ))}
+          {lastRun?.actual && (
+            <div className="flex justify-between gap-3 pt-1 border-t border-[hsl(var(--surface-2))] text-[hsl(var(--text-dim))]">
+              <span className="truncate">Last review on {describeLLMTarget(lastRun.target)}</span>
+              <span className="font-mono shrink-0">{costOf(lastRun.estimate, lastRun.target)} est. · {costOf(lastRun.actual, lastRun.target)} actual</span>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
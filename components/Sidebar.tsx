@@ -1,74 +1,36 @@
 
-import React, { useEffect, useState, useRef } from 'react';
+import React, { useState } from 'react';
 import ReactMarkdown from 'react-markdown';
-import { X, Download, Copy, Check, Loader2, FileCode, GitCommit, BrainCircuit } from 'lucide-react';
+import { X, Download, Copy, Check, Loader2, FileCode, Send, BrainCircuit, Square, AlertCircle } from 'lucide-react';
 import { Button } from './Button';
-import { AIAnalysisResult } from '../types';
+import { ModuleReview, ReviewProgress } from '../types';
+import { ModuleFindings } from './ModuleFindings';
 
 interface SidebarProps {
   isOpen: boolean;
   onClose: () => void;
-  markdown: string;
+  markdown: string; // The report only; scores and summaries arrive separately
   isGenerating: boolean;
-  onAnalysisComplete: (result: AIAnalysisResult) => void;
+  progress: ReviewProgress | null;
+  analysisError: string | null;
+  modules: ModuleReview[]; // Per-directory passes of a multi-pass review; empty otherwise
+  onCancel: () => void;
 }
 
-export const Sidebar: React.FC<SidebarProps> = ({ isOpen, onClose, markdown, isGenerating, onAnalysisComplete }) => {
+export const Sidebar: React.FC<SidebarProps> = ({ isOpen, onClose, markdown, isGenerating, progress, analysisError, modules, onCancel }) => {
   const [copied, setCopied] = useState(false);
-  const [cleanMarkdown, setCleanMarkdown] = useState('');
-  const [progressStep, setProgressStep] = useState(0);
-  const [localResult, setLocalResult] = useState<AIAnalysisResult | null>(null);
+  const cleanMarkdown = markdown.trim();
 
+  // Only what the stream has actually reported; the overlay lifts once the report starts
+  const progressStep = !progress ? 0 : progress.stage === 'report' ? 2 : 1;
+  const waitingNote = progress && progress.attempt > 1 ? ` (retrying with key ${progress.attempt})` : '';
+  const tokenNote = progress?.phase === 'streaming' ? ` (~${progress.outputTokens.toLocaleString()} tokens)` : waitingNote;
   const progressMessages = [
-    { text: "Reading source code files...", icon: FileCode },
-    { text: "Checking Google Search for dependencies...", icon: BrainCircuit },
-    { text: "Analyzing architectural patterns...", icon: BrainCircuit },
-    { text: "Reviewing commit history...", icon: GitCommit },
-    { text: "Generating insights & scores...", icon: Loader2 },
-    { text: "Finalizing report...", icon: Check },
+    { text: progress ? `Sent ~${progress.promptTokens.toLocaleString()} tokens of repository context` : 'Preparing the prompt...', icon: Send },
+    { text: progress?.stage === 'repair' ? `Repairing rejected scores${tokenNote}...` : `Scoring & summarizing commits and PRs${progressStep === 1 ? tokenNote : ''}...`, icon: BrainCircuit },
+    { text: `Writing the report${progressStep === 2 ? tokenNote : ''}...`, icon: Loader2 },
   ];
 
-  useEffect(() => {
-    // Regex to find JSON block: ```json { ... } ```
-    const jsonRegex = /```json\s*(\{[\s\S]*?\})\s*```/g;
-    let match;
-    let strippedMarkdown = markdown;
-
-    while ((match = jsonRegex.exec(markdown)) !== null) {
-      try {
-        const parsed = JSON.parse(match[1]);
-        
-        // We only care about the main analysis result here which contains scores
-        if (parsed.scores && parsed.commitSummaries) {
-           if (!localResult) {
-             setLocalResult(parsed);
-             onAnalysisComplete(parsed);
-           }
-        }
-        
-        // Remove this block from display
-        strippedMarkdown = strippedMarkdown.replace(match[0], '');
-      } catch (e) {
-        // incomplete JSON
-      }
-    }
-    
-    setCleanMarkdown(strippedMarkdown.trim());
-
-  }, [markdown, localResult, onAnalysisComplete]);
-
-  // Handle Progress Animation
-  useEffect(() => {
-    if (isGenerating) {
-      setLocalResult(null); // Reset on new run
-      setProgressStep(0);
-      const interval = setInterval(() => {
-        setProgressStep(prev => (prev < progressMessages.length - 1 ? prev + 1 : prev));
-      }, 1500); 
-      return () => clearInterval(interval);
-    }
-  }, [isGenerating]);
-
   const handleCopy = () => {
     navigator.clipboard.writeText(cleanMarkdown);
     setCopied(true);
@@ -100,6 +62,12 @@ export const Sidebar: React.FC<SidebarProps> = ({ isOpen, onClose, markdown, isG
           AI Review Assessment
         </h2>
         <div className="flex items-center gap-2">
+          {isGenerating && (
+            <Button onClick={onCancel} variant="secondary" className="px-3 py-1.5 text-sm h-8">
+              <Square size={14} className="mr-2" />
+              Cancel
+            </Button>
+          )}
           <button 
             onClick={handleCopy}
             className="p-2 text-[hsl(var(--text-dim))] hover:text-[hsl(var(--text-main))] transition-colors rounded-md hover:bg-[hsl(var(--surface-2))]"
@@ -123,8 +91,8 @@ export const Sidebar: React.FC<SidebarProps> = ({ isOpen, onClose, markdown, isG
       {/* Content Area */}
       <div className="flex-1 overflow-y-auto p-8 scroll-smooth relative bg-[hsl(var(--bg))]">
         
-        {/* State: Generating / Progress */}
-        {isGenerating && !localResult && (
+        {/* State: Generating / Progress; a multi-pass review shows its directory passes instead */}
+        {isGenerating && !cleanMarkdown && !modules.length && (
           <div className="absolute inset-0 flex flex-col items-center justify-center bg-[hsl(var(--surface-3))] z-20 space-y-8 p-8 backdrop-blur-sm bg-opacity-90">
             <div className="relative w-24 h-24">
               <div className="absolute inset-0 border-4 border-[hsl(var(--surface-1))] rounded-full"></div>
@@ -159,6 +127,21 @@ export const Sidebar: React.FC<SidebarProps> = ({ isOpen, onClose, markdown, isG
           </div>
         )}
 
+        {modules.length > 0 && <ModuleFindings modules={modules} />}
+
+        {isGenerating && !cleanMarkdown && modules.length > 0 && progress && (
+          <div className="flex items-center gap-3 mb-6 text-sm text-[hsl(var(--text-main))]">
+            <Loader2 size={16} className="animate-spin text-[hsl(var(--primary))]" />
+            {progressMessages[progressStep].text}
+          </div>
+        )}
+
+        {analysisError && (
+          <div className="flex items-center gap-2 text-red-400 bg-red-900/10 p-3 mb-6 rounded-lg border border-red-900/30 text-sm">
+            <AlertCircle size={16} /><span>The scores could not be produced: {analysisError}</span>
+          </div>
+        )}
+
         {/* State: Markdown Report */}
         {cleanMarkdown ? (
           <div className="prose prose-sm max-w-none animate-in fade-in duration-500">
@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { FileCode, Pin, PinOff, EyeOff, Eye, Loader2 } from 'lucide-react';
+import { SourceSelection } from '../types';
+
+interface SourceSelectionPanelProps {
+  selection: SourceSelection;
+  onBudgetChange: (budget: number) => void;
+  onTogglePin: (path: string) => void;
+  onToggleExclude: (path: string) => void;
+  unfetched: string[]; // Listed files whose content the load didn't download
+  pinning: string | null; // Path being downloaded to be pinned
+  onPinFile: (path: string) => void;
+}
+
+export const SourceSelectionPanel: React.FC<SourceSelectionPanelProps> = ({ selection, onBudgetChange, onTogglePin, onToggleExclude, unfetched, pinning, onPinFile }) => {
+  const [pinPath, setPinPath] = useState('');
+  const canPin = unfetched.includes(pinPath.trim());
+  const includedCount = selection.files.filter(f => f.included).length;
+  const usage = Math.min(100, (selection.usedTokens / Math.max(selection.budget, 1)) * 100);
+
+  return (
+    <div className="bg-[hsl(var(--surface-1))] border border-[hsl(var(--surface-2))] rounded-xl p-6 shadow-sm flex flex-col">
+      <div className="flex flex-col md:flex-row justify-between md:items-center gap-4 mb-4 pb-4 border-b border-[hsl(var(--surface-2))]">
+        <h3 className="font-bold text-lg flex items-center gap-2"><FileCode size={20} className="text-[hsl(var(--primary))]"/> Source Sent to Review</h3>
+        <div className="flex items-center gap-3 text-xs">
+          <label className="text-[hsl(var(--text-dim))] uppercase font-bold tracking-wider">Token budget</label>
+          <input
+            type="range"
+            min={5000}
+            max={200000}
+            step={5000}
+            value={selection.budget}
+            onChange={e => onBudgetChange(Number(e.target.value))}
+            className="w-40 accent-[hsl(var(--primary))]"
+          />
+          <span className="font-mono w-16 text-right">{(selection.budget / 1000).toFixed(0)}k</span>
+        </div>
+      </div>
+
+      <div className="mb-4">
+        <div className="flex justify-between text-xs text-[hsl(var(--text-dim))] mb-1">
+          <span>{includedCount} of {selection.files.length} fetched files included</span>
+          <span className="font-mono">~{selection.usedTokens.toLocaleString()} / {selection.budget.toLocaleString()} tokens</span>
+        </div>
+        <div className="h-1.5 w-full bg-[hsl(var(--surface-2))] rounded-full overflow-hidden">
+          <div className={`h-full ${selection.usedTokens > selection.budget ? 'bg-red-500' : 'bg-[hsl(var(--primary))]'}`} style={{ width: `${usage}%` }} />
+        </div>
+      </div>
+
+      <form
+        onSubmit={e => {
+          e.preventDefault();
+          if (!canPin || pinning) return;
+          onPinFile(pinPath.trim());
+          setPinPath('');
+        }}
+        className="flex items-center gap-2 mb-4 text-xs"
+      >
+        <input
+          list="unfetched-source-files"
+          value={pinPath}
+          onChange={e => setPinPath(e.target.value)}
+          placeholder={`Pin one of ${unfetched.length.toLocaleString()} files that weren't downloaded`}
+          className="flex-1 min-w-0 bg-[hsl(var(--bg))] border border-[hsl(var(--surface-2))] rounded px-2 py-1 font-mono focus:outline-none focus:border-[hsl(var(--primary))]"
+        />
+        <datalist id="unfetched-source-files">
+          {unfetched.map(path => <option key={path} value={path} />)}
+        </datalist>
+        <button
+          type="submit"
+          disabled={!canPin || !!pinning}
+          className="flex items-center gap-1 px-2 py-1 rounded border border-[hsl(var(--surface-2))] text-[hsl(var(--text-main))] hover:border-[hsl(var(--primary))] disabled:opacity-50 disabled:hover:border-[hsl(var(--surface-2))]"
+        >
+          {pinning ? <Loader2 size={12} className="animate-spin" /> : <Pin size={12} />} {pinning ? `Fetching ${pinning.split('/').pop()}` : 'Fetch & pin'}
+        </button>
+      </form>
+
+      <div className="max-h-[360px] overflow-y-auto custom-scrollbar space-y-1.5 pr-2">
+        {selection.files.map(f => (
+          <div key={f.path} className={`flex items-center justify-between gap-3 p-2 rounded-lg border ${f.included ? 'bg-[hsl(var(--bg))] border-[hsl(var(--surface-2))]' : 'border-transparent opacity-60'}`}>
+            <div className="min-w-0">
+              <div className="flex items-center gap-2">
+                <span className={`text-xs font-mono truncate ${f.included ? 'text-[hsl(var(--text-main))]' : 'text-[hsl(var(--text-dim))] line-through'}`}>{f.path}</span>
+                {f.pinned && <span className="text-[10px] px-1.5 py-0.5 rounded border bg-purple-900/30 text-purple-300 border-purple-900/50">pinned</span>}
+              </div>
+              <div className="flex flex-wrap gap-1 mt-1">
+                {f.reasons.map(r => (
+                  <span key={r} className="text-[10px] px-1.5 py-0.5 rounded bg-[hsl(var(--surface-2))] text-[hsl(var(--text-dim))]">{r}</span>
+                ))}
+              </div>
+            </div>
+            <div className="flex items-center gap-2 shrink-0">
+              <span className="text-[10px] font-mono text-[hsl(var(--text-dim))] w-14 text-right">{f.tokens.toLocaleString()} tk</span>
+              <span className="text-[10px] font-mono text-[hsl(var(--text-dim))] w-8 text-right" title="Relevance score">{f.score}</span>
+              <button onClick={() => onTogglePin(f.path)} className="p-1 rounded text-[hsl(var(--text-dim))] hover:text-[hsl(var(--primary))] hover:bg-[hsl(var(--surface-2))]" title={f.pinned ? 'Unpin' : 'Pin (always include)'}>
+                {f.pinned ? <PinOff size={14} /> : <Pin size={14} />}
+              </button>
+              <button onClick={() => onToggleExclude(f.path)} className="p-1 rounded text-[hsl(var(--text-dim))] hover:text-red-400 hover:bg-[hsl(var(--surface-2))]" title={f.excluded ? 'Allow again' : 'Exclude from review'}>
+                {f.excluded ? <Eye size={14} /> : <EyeOff size={14} />}
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,106 @@
+import React, { useState, useEffect } from 'react';
+import { Clock, AlertTriangle, CheckCircle2, ExternalLink } from 'lucide-react';
+import { Button } from './Button';
+import { ReviewWindow, WindowComplianceReport, WindowViolationKind } from '../types';
+
+interface WindowCompliancePanelProps {
+  window: ReviewWindow | null;
+  report: WindowComplianceReport | null;
+  onChange: (window: ReviewWindow | null) => void;
+}
+
+const KIND_LABELS: Record<WindowViolationKind, { label: string; className: string }> = {
+  before_start: { label: 'Before start', className: 'bg-blue-900/30 text-blue-300 border-blue-900/50' },
+  after_end: { label: 'After deadline', className: 'bg-red-900/30 text-red-300 border-red-900/50' },
+  date_anomaly: { label: 'Date anomaly', className: 'bg-yellow-900/30 text-yellow-300 border-yellow-900/50' },
+};
+
+// datetime-local inputs want "YYYY-MM-DDTHH:mm" in local time
+const toLocalInput = (iso: string) => {
+  const d = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+};
+
+export const WindowCompliancePanel: React.FC<WindowCompliancePanelProps> = ({ window, report, onChange }) => {
+  const [start, setStart] = useState('');
+  const [end, setEnd] = useState('');
+
+  useEffect(() => {
+    setStart(window ? toLocalInput(window.start) : '');
+    setEnd(window ? toLocalInput(window.end) : '');
+  }, [window]);
+
+  const isValid = start && end && new Date(start) < new Date(end);
+
+  const handleSave = () => {
+    if (!isValid) return;
+    onChange({ start: new Date(start).toISOString(), end: new Date(end).toISOString() });
+  };
+
+  const inputClass = "bg-[hsl(var(--bg))] border border-[hsl(var(--surface-2))] rounded px-2 py-1 text-xs font-mono focus:border-[hsl(var(--primary))] outline-none";
+
+  return (
+    <div className="bg-[hsl(var(--surface-1))] border border-[hsl(var(--surface-2))] rounded-xl p-6 shadow-sm flex flex-col">
+      <div className="flex flex-col md:flex-row justify-between md:items-center gap-4 mb-4 pb-4 border-b border-[hsl(var(--surface-2))]">
+        <h3 className="font-bold text-lg flex items-center gap-2"><Clock size={20} className="text-[hsl(var(--primary))]"/> Window Compliance</h3>
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          <input type="datetime-local" value={start} onChange={e => setStart(e.target.value)} className={inputClass} />
+          <span className="text-[hsl(var(--text-dim))]">to</span>
+          <input type="datetime-local" value={end} onChange={e => setEnd(e.target.value)} className={inputClass} />
+          <Button variant="secondary" onClick={handleSave} disabled={!isValid} className="h-7 px-3 text-xs">Set Window</Button>
+          {window && (
+            <Button variant="secondary" onClick={() => onChange(null)} className="h-7 px-3 text-xs">Clear</Button>
+          )}
+        </div>
+      </div>
+
+      {!report ? (
+        <div className="text-sm text-[hsl(var(--text-dim))]">
+          Set the submission start and deadline to flag pre-built work, late commits and rewritten history.
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <div className="flex flex-wrap gap-4 text-sm">
+            <div className="flex items-center gap-2">
+              {report.violations.length === 0
+                ? <CheckCircle2 size={16} className="text-green-500" />
+                : <AlertTriangle size={16} className="text-yellow-500" />}
+              <span><span className="font-bold">{report.compliantCommits}</span> of {report.checkedCommits} ingested commits inside the window</span>
+            </div>
+            {(Object.keys(KIND_LABELS) as WindowViolationKind[]).map(kind => {
+              const count = report.violations.filter(v => v.kind === kind).length;
+              return count > 0 && (
+                <span key={kind} className={`text-[10px] px-2 py-0.5 rounded border ${KIND_LABELS[kind].className}`}>
+                  {count} {KIND_LABELS[kind].label.toLowerCase()}
+                </span>
+              );
+            })}
+          </div>
+
+          {report.violations.length > 0 && (
+            <div className="max-h-[300px] overflow-y-auto custom-scrollbar space-y-2 pr-2">
+              {report.violations.map(v => (
+                <a key={`${v.sha}-${v.kind}`} href={v.html_url} target="_blank" rel="noreferrer" className="flex items-center justify-between gap-4 p-3 bg-[hsl(var(--bg))] border border-[hsl(var(--surface-2))] rounded-lg hover:border-[hsl(var(--primary))] transition-colors group">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2 text-xs">
+                      <span className={`text-[10px] px-1.5 py-0.5 rounded border ${KIND_LABELS[v.kind].className}`}>{KIND_LABELS[v.kind].label}</span>
+                      <span className="font-mono text-[hsl(var(--text-dim))]">{v.sha.substring(0, 7)}</span>
+                      <span className="text-[hsl(var(--text-dim))]">{v.author}</span>
+                    </div>
+                    <div className="text-sm text-[hsl(var(--text-main))] mt-1">{v.message}</div>
+                    <div className="text-[10px] font-mono text-[hsl(var(--text-dim))] mt-1">
+                      authored {new Date(v.authorDate).toLocaleString()}
+                      {v.committerDate && ` · committed ${new Date(v.committerDate).toLocaleString()}`}
+                    </div>
+                  </div>
+                  <ExternalLink size={14} className="shrink-0 text-[hsl(var(--text-dim))] group-hover:text-[hsl(var(--primary))]" />
+                </a>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,5 +1,32 @@
+import { IngestionDepth, PromptBudgets, ReviewBudget } from "./types";
+
 export const APP_NAME = "IIC reviews";
 
+// Default amount of commit history pulled in when a repository is loaded
+export const DEFAULT_INGESTION_DEPTH: IngestionDepth = { mode: 'recent', count: 300 };
+
+// Newest commits whose per-file changes are fetched (one request each on GitHub REST and GitLab).
+// Ownership, hotspots, churn ranking and the line charts are computed over them. Loads scale it
+// down further when the rate limit is running low.
+export const DEFAULT_FILE_HISTORY_COMMITS = 30;
+
+// Estimated tokens of source code sent with a review; ranked files are added until it is spent
+export const DEFAULT_SOURCE_TOKEN_BUDGET = 40000;
+
+// Tokens per review prompt section until the user rebalances them in the planner
+export const DEFAULT_PROMPT_BUDGETS: PromptBudgets = {
+  readme: 1500,
+  tree: 4000,
+  languages: 200,
+  commits: 2000,
+  pullRequests: 2500,
+  code: DEFAULT_SOURCE_TOKEN_BUDGET,
+  contributors: 300,
+};
+
+// Ceiling for a multi-pass review until the user sets their own
+export const DEFAULT_REVIEW_BUDGET: ReviewBudget = { maxTokens: 400000, maxCostUsd: 1 };
+
 // Authentication Credentials from environment variables
 export const ADMIN_USER = import.meta.env.VITE_ADMIN_USER || "";
 export const ADMIN_PASS = import.meta.env.VITE_ADMIN_PASS || "";
@@ -0,0 +1,80 @@
+import { LLMProvider, TokenUsage } from "../types";
+import { llmFailure, readServerSentEvents, responseFailure } from "./llmHttp";
+
+const API_VERSION = '2023-06-01';
+
+// The Messages API requires an output cap; reports are far below it
+const MAX_OUTPUT_TOKENS = 8192;
+
+// Structured answers are requested as a forced call to this tool; its streamed input is the JSON
+const RESPOND_TOOL = 'respond';
+
+export const anthropicProvider: LLMProvider = {
+  kind: 'anthropic',
+  label: 'Anthropic',
+  defaultBaseUrl: 'https://api.anthropic.com',
+  requiresKey: true,
+
+  stream: async function* (key, { model, prompt, schema, signal }) {
+    const baseUrl = (key.baseUrl || anthropicProvider.defaultBaseUrl).replace(/\/+$/, '');
+    const response = await fetch(`${baseUrl}/v1/messages`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': key.token,
+        'anthropic-version': API_VERSION,
+        // The key is the user's own and never leaves their browser
+        'anthropic-dangerous-direct-browser-access': 'true',
+      },
+      body: JSON.stringify({
+        model,
+        max_tokens: MAX_OUTPUT_TOKENS,
+        messages: [{ role: 'user', content: prompt }],
+        stream: true,
+        ...(schema && {
+          tools: [{ name: RESPOND_TOOL, description: 'Return the answer in the required structure.', input_schema: schema }],
+          tool_choice: { type: 'tool', name: RESPOND_TOOL },
+        }),
+      }),
+      signal,
+    });
+    if (!response.ok) throw await responseFailure(response, 'Anthropic');
+
+    // message_start carries the input count; message_delta carries the running output count
+    const usage: TokenUsage = { input: 0, output: 0, total: 0 };
+    for await (const event of readServerSentEvents(response)) {
+      const payload = JSON.parse(event.data);
+      if (payload.type === 'error') {
+        throw llmFailure(payload.error?.message || 'Anthropic stream failed.', payload.error?.type === 'rate_limit_error' ? 429 : undefined);
+      }
+      if (payload.type === 'message_start') {
+        usage.input = payload.message?.usage?.input_tokens ?? 0;
+        usage.output = payload.message?.usage?.output_tokens ?? 0;
+      } else if (payload.type === 'content_block_delta') {
+        const content = payload.delta?.type === 'text_delta' ? payload.delta.text : payload.delta?.type === 'input_json_delta' ? payload.delta.partial_json : '';
+        if (content) yield { type: 'text', content };
+      } else if (payload.type === 'message_delta' && payload.usage) {
+        usage.output = payload.usage.output_tokens ?? usage.output;
+        yield { type: 'usage', data: { ...usage, total: usage.input + usage.output } };
+      }
+    }
+  },
+
+  countTokens: async (key, model, text, signal) => {
+    const baseUrl = (key.baseUrl || anthropicProvider.defaultBaseUrl).replace(/\/+$/, '');
+    const response = await fetch(`${baseUrl}/v1/messages/count_tokens`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-api-key': key.token,
+        'anthropic-version': API_VERSION,
+        'anthropic-dangerous-direct-browser-access': 'true',
+      },
+      body: JSON.stringify({ model, messages: [{ role: 'user', content: text }] }),
+      signal,
+    });
+    if (!response.ok) throw await responseFailure(response, 'Anthropic');
+    const { input_tokens } = await response.json();
+    return input_tokens ?? 0;
+  },
+};
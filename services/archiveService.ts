@@ -0,0 +1,443 @@
+import { RepoInfo, Commit, FileNode, Branch, Tag, Contributor, RepoDetails, FetchRepoOptions, AnalysisRef, ResolvedRef, RepositoryLocation, RepositoryProvider, IngestionProgress } from '../types';
+import { DEFAULT_INGESTION_DEPTH } from '../constants';
+import { isZip, readZip, ZipEntry } from './zipArchive';
+import { GitObjectStore, GitCommit, hashObject } from './gitObjects';
+import { attachSourceContents } from './sourceSelection';
+import { languageForPath } from './treeSummary';
+import { buildDependencyReport } from './dependencyAnalysis';
+import { buildCiReport, isCiDefinition, parseCiDefinition } from './ciAnalysis';
+import { createLoadScope } from './loadScope';
+
+// Offline ingestion: a .zip upload (with or without its .git directory) or a `git bundle` file is
+// parsed in the browser into the same RepoDetails the hosted providers return. There are no pull
+// requests offline, and links point nowhere, so html_url fields are left empty.
+
+// Every selected commit is diffed (no rate limit applies offline); this many between yields to the UI
+const ENRICH_BATCH_SIZE = 25;
+const MAX_PATCH_CHARS = 2000;
+
+interface SnapshotFile {
+  path: string;
+  read: () => Uint8Array;
+}
+
+interface LoadedArchive {
+  name: string;
+  store: GitObjectStore | null; // null when the upload has no git history
+  refs: Map<string, string>; // Full ref name -> sha
+  head: string | null; // Symbolic ref ("refs/heads/main") or a sha when detached
+  snapshot: SnapshotFile[];
+}
+
+// Parsed uploads stay in memory for the session so ref switches don't need a re-upload
+const archives = new Map<string, LoadedArchive>();
+
+const decoder = new TextDecoder();
+
+const isBundle = (bytes: Uint8Array) => /^# v[23] git bundle\n/.test(decoder.decode(bytes.subarray(0, 20)));
+
+const parseBundle = async (name: string, bytes: Uint8Array, signal?: AbortSignal): Promise<LoadedArchive> => {
+  const refs = new Map<string, string>();
+  let pos = 0;
+  for (;;) {
+    const newline = bytes.indexOf(0x0a, pos);
+    if (newline === -1) throw new Error('Truncated git bundle header');
+    const line = decoder.decode(bytes.subarray(pos, newline));
+    pos = newline + 1;
+    if (line === '') break;
+    if (line.startsWith('#') || line.startsWith('-')) continue; // Signature line, prerequisite commits
+    if (line.startsWith('@')) {
+      if (line.startsWith('@object-format=') && line !== '@object-format=sha1') throw new Error('Only SHA-1 repositories are supported');
+      continue;
+    }
+    const [sha, refName] = line.split(' ');
+    refs.set(refName, sha);
+  }
+
+  const store = new GitObjectStore();
+  await store.addPack(bytes, pos, signal);
+
+  // Bundles list HEAD by sha; point it back at the branch it matches
+  const headSha = refs.get('HEAD');
+  refs.delete('HEAD');
+  const branchRefs = [...refs.keys()].filter(r => r.startsWith('refs/heads/'));
+  const head = branchRefs.find(r => refs.get(r) === headSha) || headSha || branchRefs[0] || null;
+
+  return { name, store, refs, head, snapshot: [] };
+};
+
+// The git directory is wherever HEAD sits next to objects/ (".git/" in a checkout, the root of a bare repo)
+const findGitDir = (entries: ZipEntry[]): string | null => {
+  const paths = new Set(entries.map(e => e.path));
+  const candidates = entries
+    .filter(e => e.path === 'HEAD' || e.path.endsWith('/HEAD'))
+    .map(e => e.path.slice(0, -'HEAD'.length))
+    .filter(prefix => entries.some(e => e.path.startsWith(`${prefix}objects/`)) || paths.has(`${prefix}packed-refs`));
+  return candidates.sort((a, b) => a.length - b.length)[0] ?? null;
+};
+
+// GitHub's "Download ZIP" and most hand-made archives wrap everything in one top-level folder
+const stripCommonFolder = (entries: ZipEntry[]): SnapshotFile[] => {
+  const first = entries[0]?.path.split('/')[0];
+  const wrapped = first && entries.every(e => e.path.startsWith(`${first}/`));
+  return entries.map(e => ({ path: wrapped ? e.path.slice(first.length + 1) : e.path, read: e.read }));
+};
+
+const parseZipArchive = async (name: string, bytes: Uint8Array, signal?: AbortSignal): Promise<LoadedArchive> => {
+  const entries = readZip(bytes);
+  const gitDir = findGitDir(entries);
+
+  if (gitDir === null) {
+    const snapshot = stripCommonFolder(entries.filter(e => !e.path.split('/').includes('__MACOSX')));
+    return { name, store: null, refs: new Map(), head: null, snapshot };
+  }
+
+  const store = new GitObjectStore();
+  const refs = new Map<string, string>();
+  let head: string | null = null;
+
+  for (const entry of entries) {
+    signal?.throwIfAborted();
+    if (!entry.path.startsWith(gitDir)) continue;
+    const path = entry.path.slice(gitDir.length);
+
+    const loose = path.match(/^objects\/([0-9a-f]{2})\/([0-9a-f]{38})$/);
+    if (loose) {
+      store.addLoose(loose[1] + loose[2], entry.read);
+    } else if (/^objects\/pack\/[^/]+\.pack$/.test(path)) {
+      await store.addPack(entry.read(), 0, signal);
+    } else if (path === 'HEAD') {
+      const text = decoder.decode(entry.read()).trim();
+      head = text.startsWith('ref: ') ? text.slice(5) : text;
+    } else if (path === 'packed-refs') {
+      decoder.decode(entry.read()).split('\n')
+        .filter(line => /^[0-9a-f]{40} /.test(line))
+        .forEach(line => {
+          const [sha, refName] = line.split(' ');
+          if (!refs.has(refName)) refs.set(refName, sha);
+        });
+    } else if (path.startsWith('refs/')) {
+      // Loose refs win over packed-refs
+      refs.set(path, decoder.decode(entry.read()).trim());
+    }
+  }
+
+  return { name, store, refs, head, snapshot: [] };
+};
+
+// Parses an uploaded file and registers it; the returned location loads through fetchRepoDetails.
+// Aborting the signal stops the parse at its next checkpoint and registers nothing.
+export const loadRepositoryArchive = async (file: File, signal?: AbortSignal, onProgress?: (progress: IngestionProgress) => void): Promise<RepositoryLocation> => {
+  createLoadScope(fetch, signal, onProgress).phase('parsing');
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  signal?.throwIfAborted();
+  const name = file.name.replace(/\.(zip|bundle|git)$/i, '') || 'upload';
+
+  let archive: LoadedArchive;
+  if (isBundle(bytes)) {
+    archive = await parseBundle(name, bytes, signal);
+  } else if (isZip(bytes)) {
+    archive = await parseZipArchive(name, bytes, signal);
+  } else {
+    throw new Error('Unsupported file. Upload a .zip archive or a file created with "git bundle create".');
+  }
+
+  signal?.throwIfAborted();
+  archives.set(name.toLowerCase(), archive);
+  return { provider: 'archive', host: 'local', owner: 'local', repo: name };
+};
+
+const defaultBranchOf = (archive: LoadedArchive): string => {
+  if (archive.head?.startsWith('refs/heads/')) return archive.head.slice('refs/heads/'.length);
+  const firstBranch = [...archive.refs.keys()].find(r => r.startsWith('refs/heads/'));
+  return firstBranch ? firstBranch.slice('refs/heads/'.length) : 'HEAD';
+};
+
+// Every commit reachable from start, newest first by committer date
+const walkHistory = (store: GitObjectStore, start: string): GitCommit[] => {
+  const seen = new Set<string>();
+  const commits: GitCommit[] = [];
+  const stack = [start];
+  while (stack.length) {
+    const sha = stack.pop()!;
+    if (seen.has(sha)) continue;
+    seen.add(sha);
+    const commit = store.readCommit(sha);
+    if (!commit) continue; // Shallow clones and thin bundles stop at missing parents
+    commits.push(commit);
+    stack.push(...commit.parents);
+  }
+  return commits.sort((a, b) => Date.parse(b.committer.date) - Date.parse(a.committer.date));
+};
+
+const resolveRef = (archive: LoadedArchive, store: GitObjectStore, info: RepoInfo, ref?: AnalysisRef): ResolvedRef => {
+  const tipOf = (refName: string) => {
+    const sha = archive.refs.get(refName);
+    return sha ? store.peel(sha) : undefined;
+  };
+  const headSha = archive.head && !archive.head.startsWith('refs/') ? archive.head : undefined;
+  const defaultTip = tipOf(`refs/heads/${info.default_branch}`) || headSha;
+
+  if (!ref) {
+    if (!defaultTip) throw new Error('The upload has no HEAD commit');
+    return { label: info.default_branch, sha: defaultTip };
+  }
+
+  if (ref.type === 'date') {
+    const commit = defaultTip ? walkHistory(store, defaultTip).find(c => Date.parse(c.committer.date) <= Date.parse(ref.value)) : undefined;
+    if (!commit) throw new Error(`No commits on ${info.default_branch} before ${new Date(ref.value).toLocaleString()}`);
+    return { label: `${info.default_branch} @ ${ref.value.slice(0, 10)}`, sha: commit.sha };
+  }
+
+  const sha = ref.type === 'branch'
+    ? tipOf(`refs/heads/${ref.value}`) || tipOf(`refs/remotes/origin/${ref.value}`)
+    : ref.type === 'tag'
+      ? tipOf(`refs/tags/${ref.value}`)
+      : store.expand(ref.value);
+  if (!sha || !store.readCommit(sha)) throw new Error(`Ref "${ref.value}" not found in ${info.full_name}`);
+  return { label: ref.type === 'sha' ? sha.substring(0, 7) : ref.value, sha };
+};
+
+const isBinary = (data: Uint8Array) => data.subarray(0, 8000).includes(0);
+
+// Flattens a tree into path -> blob sha, skipping submodules
+const flattenTree = (store: GitObjectStore, treeSha: string, prefix = '', out = new Map<string, { sha: string; mode: string }>()) => {
+  store.readTree(treeSha).forEach(entry => {
+    const path = `${prefix}${entry.name}`;
+    if (entry.mode === '40000') flattenTree(store, entry.sha, `${path}/`, out);
+    else if (entry.mode !== '160000') out.set(path, { sha: entry.sha, mode: entry.mode });
+  });
+  return out;
+};
+
+// Line-level changes by multiset difference: cheap, order-insensitive, good enough for stats and a patch snippet
+const diffLines = (before: string, after: string) => {
+  const unmatched = (from: string[], against: string[]) => {
+    const counts = new Map<string, number>();
+    against.forEach(l => counts.set(l, (counts.get(l) || 0) + 1));
+    return from.filter(l => {
+      const n = counts.get(l) || 0;
+      if (n) counts.set(l, n - 1);
+      return !n;
+    });
+  };
+  const beforeLines = before ? before.split('\n') : [];
+  const afterLines = after ? after.split('\n') : [];
+  return { removed: unmatched(beforeLines, afterLines), added: unmatched(afterLines, beforeLines) };
+};
+
+// Per-file changes against the first parent, the offline equivalent of the commit detail API
+const enrichCommit = (store: GitObjectStore, commit: Commit, source: GitCommit): Commit => {
+  const parent = source.parents[0] ? store.readCommit(source.parents[0]) : null;
+  const before = parent ? flattenTree(store, parent.tree) : new Map<string, { sha: string; mode: string }>();
+  const after = flattenTree(store, source.tree);
+  const readText = (sha?: string) => {
+    const data = sha ? store.get(sha)?.data : undefined;
+    return data && !isBinary(data) ? decoder.decode(data) : '';
+  };
+
+  let additions = 0;
+  let deletions = 0;
+  const filesModified: NonNullable<Commit['filesModified']> = [];
+  new Set([...before.keys(), ...after.keys()]).forEach(path => {
+    const oldSha = before.get(path)?.sha;
+    const newSha = after.get(path)?.sha;
+    if (oldSha === newSha) return;
+
+    const { added, removed } = diffLines(readText(oldSha), readText(newSha));
+    additions += added.length;
+    deletions += removed.length;
+    filesModified.push({
+      filename: path,
+      status: !oldSha ? 'added' : !newSha ? 'removed' : 'modified',
+      patch: [...removed.map(l => `-${l}`), ...added.map(l => `+${l}`)].join('\n').substring(0, MAX_PATCH_CHARS),
+    });
+  });
+
+  return { ...commit, stats: { additions, deletions, total: additions + deletions }, filesModified };
+};
+
+const toCommit = (c: GitCommit): Commit => ({
+  sha: c.sha,
+  commit: {
+    message: c.message,
+    author: { name: c.author.name, email: c.author.email, date: c.author.date },
+    committer: { name: c.committer.name, date: c.committer.date },
+  },
+  html_url: '',
+  url: '',
+});
+
+const guessLanguages = (files: { path: string; size: number }[]): Record<string, number> =>
+  files.reduce<Record<string, number>>((acc, f) => {
+    const language = languageForPath(f.path);
+    if (language) acc[language] = (acc[language] || 0) + f.size;
+    return acc;
+  }, {});
+
+const sourceText = (data: Uint8Array | undefined) => (data && !isBinary(data) ? decoder.decode(data) : null);
+
+// Reads contents for the manifests and the files selectSourceFiles picks, plus the root README
+const attachContents = async (files: FileNode[], commits: Commit[], read: (file: FileNode) => Uint8Array | undefined) => {
+  const readmeFile = files.find(f => /^readme(\.[a-z]+)?$/i.test(f.path));
+  const { files: withContents, texts } = await attachSourceContents(files, commits, async batch => {
+    const texts = new Map<string, string>();
+    batch.forEach(f => {
+      const text = sourceText(read(f));
+      if (text !== null) texts.set(f.path, text);
+    });
+    return texts;
+  }, readmeFile ? [readmeFile] : []);
+
+  return { files: withContents, readme: readmeFile ? texts.get(readmeFile.path) ?? null : null };
+};
+
+const readText = (data: Uint8Array | undefined) => (data ? decoder.decode(data) : null);
+
+// CI definitions are in the tree, but there's no run history offline
+const readCiReport = (files: FileNode[], read: (file: FileNode) => Uint8Array | undefined) => {
+  const definitions = files
+    .filter(f => isCiDefinition(f.path))
+    .map(f => {
+      const data = read(f);
+      return data ? parseCiDefinition(f.path, decoder.decode(data)) : null;
+    })
+    .filter((d): d is NonNullable<typeof d> => d !== null);
+  return buildCiReport(definitions, null);
+};
+
+const baseInfo = (archive: LoadedArchive, defaultBranch: string): RepoInfo => ({
+  name: archive.name,
+  full_name: `local/${archive.name}`,
+  description: 'Uploaded archive',
+  html_url: '',
+  stargazers_count: 0,
+  forks_count: 0,
+  open_issues_count: 0,
+  default_branch: defaultBranch,
+  owner: { login: 'local', avatar_url: '' },
+});
+
+// A plain source archive: files only, no history to analyze
+const snapshotDetails = async (archive: LoadedArchive): Promise<RepoDetails> => {
+  const info = baseInfo(archive, 'snapshot');
+  const blobs = archive.snapshot.map(f => ({ ...f, data: f.read() }));
+
+  const nodes: FileNode[] = await Promise.all(blobs.map(async f => ({
+    path: f.path,
+    mode: '100644',
+    type: 'blob' as const,
+    sha: await hashObject('blob', f.data),
+    size: f.data.length,
+    url: '',
+  })));
+  const byPath = new Map(blobs.map(b => [b.path, b.data]));
+  const { files, readme } = await attachContents(nodes, [], f => byPath.get(f.path));
+  const ci = readCiReport(nodes, f => byPath.get(f.path));
+  const dependencies = await buildDependencyReport(nodes, async f => readText(byPath.get(f.path)));
+
+  return {
+    info,
+    commits: [],
+    pullRequests: [],
+    issues: [],
+    files,
+    branches: [],
+    tags: [],
+    contributors: [],
+    readme,
+    languages: guessLanguages(blobs.map(b => ({ path: b.path, size: b.data.length }))),
+    ref: { label: 'uploaded snapshot', sha: '' },
+    ci,
+    dependencies,
+  };
+};
+
+export const archiveProvider: RepositoryProvider = {
+  kinds: ['archive'],
+  fetchRepoDetails: async ({ repo }, options: FetchRepoOptions): Promise<RepoDetails> => {
+    const archive = archives.get(repo.toLowerCase());
+    if (!archive) throw new Error(`"${repo}" is no longer loaded. Upload the archive again.`);
+    // Nothing goes over the network; the scope only carries phase progress and the cancel checkpoints
+    const { depth = DEFAULT_INGESTION_DEPTH, onProgress, signal } = options;
+    const scope = createLoadScope(fetch, signal, onProgress);
+    scope.phase('metadata');
+    if (!archive.store) return snapshotDetails(archive);
+
+    const store = archive.store;
+    const info = baseInfo(archive, defaultBranchOf(archive));
+    const ref = resolveRef(archive, store, info, options.ref);
+
+    const history = walkHistory(store, ref.sha);
+    const selected = depth.mode === 'recent'
+      ? history.slice(0, depth.count)
+      : depth.mode === 'range'
+        ? history.filter(c => Date.parse(c.committer.date) >= Date.parse(depth.since) && Date.parse(c.committer.date) <= Date.parse(depth.until))
+        : history;
+
+    scope.phase('commits', selected.length);
+    const commits: Commit[] = [];
+    for (const c of selected) {
+      if (commits.length % ENRICH_BATCH_SIZE === 0) {
+        await new Promise(resolve => setTimeout(resolve));
+        signal?.throwIfAborted();
+      }
+      commits.push(enrichCommit(store, toCommit(c), c));
+      scope.step();
+    }
+
+    // Like the hosted contributor endpoints, this counts the whole history rather than the ingested slice
+    const authorCounts = new Map<string, number>();
+    history.forEach(c => authorCounts.set(c.author.name, (authorCounts.get(c.author.name) || 0) + 1));
+    const contributors: Contributor[] = [...authorCounts.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .map(([name, count], index) => ({ login: name, id: index, avatar_url: '', html_url: '', contributions: count }));
+
+    const branches: Branch[] = [...archive.refs.entries()]
+      .filter(([refName]) => refName.startsWith('refs/heads/'))
+      .map(([refName, sha]) => ({ name: refName.slice('refs/heads/'.length), commit: { sha, url: '' } }));
+
+    const tags: Tag[] = [...archive.refs.entries()]
+      .filter(([refName]) => refName.startsWith('refs/tags/'))
+      .map(([refName, sha]) => ({ name: refName.slice('refs/tags/'.length), commit: { sha: store.peel(sha), url: '' } }));
+
+    scope.count('commits')(commits.length);
+    scope.count('branches')(branches.length);
+    scope.count('contributors')(contributors.length);
+
+    scope.phase('contents');
+
+    const tree = [...flattenTree(store, store.readCommit(ref.sha)!.tree).entries()].map(([path, { sha, mode }]) => ({
+      path,
+      mode,
+      sha,
+      size: store.get(sha)?.data.length || 0,
+    }));
+    const nodes: FileNode[] = tree.map(f => ({ ...f, type: 'blob' as const, url: '' }));
+    const { files, readme } = await attachContents(nodes, commits, f => store.get(f.sha)?.data);
+    const ci = readCiReport(nodes, f => store.get(f.sha)?.data);
+    scope.phase('analysis');
+    const dependencies = await buildDependencyReport(nodes, async f => readText(store.get(f.sha)?.data));
+
+    return {
+      info,
+      commits,
+      pullRequests: [],
+      issues: [],
+      files,
+      branches,
+      tags,
+      contributors,
+      readme,
+      languages: guessLanguages(tree),
+      ref,
+      ci,
+      dependencies,
+    };
+  },
+  fetchFileContent: async ({ repo }, _ref, file) => {
+    const archive = archives.get(repo.toLowerCase());
+    if (!archive) throw new Error(`"${repo}" is no longer loaded. Upload the archive again.`);
+    return sourceText(archive.store ? archive.store.get(file.sha)?.data : archive.snapshot.find(f => f.path === file.path)?.read());
+  },
+};
@@ -0,0 +1,100 @@
+import { Commit, FileNode, Hotspot, HotspotReport } from '../types';
+import { exclusionReason } from './sourceSelection';
+
+// Files that change often and are hard to change safely. Churn is counted over every commit with
+// filesModified, i.e. the per-file history the provider fetched (the whole ingested history unless
+// the sample was capped); size and nesting come from fetched content, or blob size when the file
+// wasn't downloaded.
+
+// Ranks flagged as hotspots in the tree and boosted in source selection
+export const TOP_HOTSPOTS = 10;
+
+// A single change doesn't make a hotspot
+const MIN_HOTSPOT_CHANGES = 2;
+
+const AVERAGE_LINE_BYTES = 35;
+
+const INDENTED_LANGUAGES = /\.(py|ya?ml|coffee|haml|slim|pug|nim)$/i;
+
+// Deepest block nesting: indentation levels for offside-rule languages, braces for everything else
+// (string literals and line comments stripped first, so "{" in text doesn't count)
+export const nestingDepth = (path: string, content: string): number => {
+  const lines = content.split('\n');
+  if (INDENTED_LANGUAGES.test(path)) {
+    const indents = lines
+      .filter(l => l.trim() && !l.trim().startsWith('#'))
+      .map(l => l.match(/^[ \t]*/)![0].replace(/\t/g, '    ').length);
+    const unit = Math.min(...indents.filter(n => n > 0)) || 4;
+    return indents.length ? Math.max(...indents.map(n => Math.floor(n / unit))) : 0;
+  }
+
+  let depth = 0;
+  let max = 0;
+  lines.forEach(line => {
+    const code = line
+      .replace(/(["'`])(?:\\.|(?!\1).)*\1/g, '""')
+      .replace(/\/\/.*$|#(?![\[!]).*$/, '');
+    for (const ch of code) {
+      if (ch === '{') max = Math.max(max, ++depth);
+      else if (ch === '}') depth = Math.max(0, depth - 1);
+    }
+  });
+  return max;
+};
+
+const patchLines = (patch?: string) =>
+  patch ? patch.split('\n').filter(l => /^[+-]/.test(l) && !/^(\+\+\+|---) /.test(l)).length : 0;
+
+export const analyzeHotspots = (files: FileNode[], commits: Commit[]): HotspotReport => {
+  const blobs = new Map(files.filter(f => f.type === 'blob').map(f => [f.path, f]));
+  const churn = new Map<string, { changes: number; linesChanged: number; authors: Set<string> }>();
+
+  const analyzed = commits.filter(c => c.filesModified?.length);
+  analyzed.forEach(c => c.filesModified!.forEach(m => {
+    const entry = churn.get(m.filename) || { changes: 0, linesChanged: 0, authors: new Set<string>() };
+    entry.changes++;
+    entry.linesChanged += patchLines(m.patch);
+    entry.authors.add(c.commit.author.name);
+    churn.set(m.filename, entry);
+  }));
+
+  const candidates = [...churn.entries()]
+    .filter(([path, entry]) => blobs.has(path) && entry.changes >= MIN_HOTSPOT_CHANGES && !['vendored', 'build output', 'generated'].includes(exclusionReason(path) || ''))
+    .map(([path, entry]) => {
+      const file = blobs.get(path)!;
+      return {
+        path,
+        changes: entry.changes,
+        linesChanged: entry.linesChanged,
+        authors: entry.authors.size,
+        lines: file.content ? file.content.split('\n').length : Math.ceil((file.size || 0) / AVERAGE_LINE_BYTES),
+        linesEstimated: !file.content,
+        nestingDepth: file.content ? nestingDepth(path, file.content) : null,
+      };
+    });
+  if (!candidates.length) return { commitsAnalyzed: analyzed.length, commitsTotal: commits.length, hotspots: [] };
+
+  // Each factor is scaled against the repository's own maximum; unknown nesting falls back to size
+  const maxChanges = Math.max(...candidates.map(c => c.changes));
+  const maxLines = Math.max(...candidates.map(c => c.lines), 1);
+  const maxDepth = Math.max(...candidates.map(c => c.nestingDepth ?? 0), 1);
+  const hotspots: Hotspot[] = candidates
+    .map(c => {
+      const size = Math.log1p(c.lines) / Math.log1p(maxLines);
+      const depth = c.nestingDepth === null ? size : c.nestingDepth / maxDepth;
+      return { ...c, rank: 0, score: Math.round(100 * (c.changes / maxChanges) * (0.6 * size + 0.4 * depth)) };
+    })
+    .sort((a, b) => b.score - a.score || b.changes - a.changes || a.path.localeCompare(b.path));
+  hotspots.forEach((h, i) => { h.rank = i + 1; });
+
+  return { commitsAnalyzed: analyzed.length, commitsTotal: commits.length, hotspots };
+};
+
+export const describeHotspotsForPrompt = (report: HotspotReport): string =>
+  report.hotspots.length
+    ? [
+        `From ${report.commitsAnalyzed} of ${report.commitsTotal} commits with per-file changes (score 0-100 combines change frequency, size and nesting depth):`,
+        ...report.hotspots.slice(0, TOP_HOTSPOTS).map(h =>
+          `${h.rank}. ${h.path} - score ${h.score}, ${h.changes} changes by ${h.authors} author${h.authors === 1 ? '' : 's'}, ${h.linesChanged} lines churned, ${h.linesEstimated ? '~' : ''}${h.lines} lines${h.nestingDepth !== null ? `, nesting depth ${h.nestingDepth}` : ''}`),
+      ].join('\n')
+    : 'No file changed more than once in the analyzed commits.';
@@ -0,0 +1,149 @@
+import { CiReport, CiRun, CiWorkflow } from '../types';
+
+// CI definitions are read with a line-based scan of the YAML rather than a full parser; only the
+// workflow name, its triggers and its job ids are needed.
+
+const GITHUB_WORKFLOW = /^\.github\/workflows\/[^/]+\.ya?ml$/;
+const GITLAB_PIPELINE = /^\.gitlab-ci\.ya?ml$/;
+
+// Top-level .gitlab-ci.yml keys that configure the pipeline instead of declaring a job
+const GITLAB_KEYWORDS = new Set(['stages', 'variables', 'include', 'default', 'workflow', 'image', 'services', 'before_script', 'after_script', 'cache']);
+
+export const isGithubWorkflow = (path: string) => GITHUB_WORKFLOW.test(path);
+export const isGitlabPipeline = (path: string) => GITLAB_PIPELINE.test(path);
+export const isCiDefinition = (path: string) => isGithubWorkflow(path) || isGitlabPipeline(path);
+
+export interface CiDefinition {
+  path: string;
+  name: string;
+  triggers: string[];
+  jobs: string[];
+}
+
+interface YamlEntry {
+  inline: string; // Value on the key's own line
+  block: string[]; // Indented lines below it
+}
+
+const unquote = (value: string) => value.trim().replace(/^(["'])(.*)\1$/, '$2');
+const indentOf = (line: string) => line.length - line.trimStart().length;
+
+const topLevelEntries = (content: string): Map<string, YamlEntry> => {
+  const entries = new Map<string, YamlEntry>();
+  let current: YamlEntry | null = null;
+
+  content.split('\n').forEach(raw => {
+    const line = raw.replace(/\r$/, '').replace(/\s+#.*$/, '');
+    if (!line.trim() || line.trim().startsWith('#')) return;
+    if (indentOf(line) > 0) {
+      current?.block.push(line);
+      return;
+    }
+    const match = line.match(/^(["']?)([^"':]+)\1\s*:(.*)$/);
+    current = match ? { inline: match[3].trim(), block: [] } : null;
+    if (match && current) entries.set(match[2], current);
+  });
+
+  return entries;
+};
+
+// Keys or list items at the shallowest indentation of a block
+const childKeys = (block: string[]): string[] => {
+  if (!block.length) return [];
+  const indent = Math.min(...block.map(indentOf));
+  return block
+    .filter(line => indentOf(line) === indent)
+    .map(line => line.trim())
+    .map(line => (line.startsWith('-') ? unquote(line.slice(1)) : unquote(line.split(':')[0])))
+    .filter(Boolean);
+};
+
+// "push", "[push, pull_request]"
+const inlineList = (value: string) =>
+  (value.startsWith('[') ? value.slice(1, -1).split(',') : [value]).map(unquote).filter(Boolean);
+
+const parseGithubWorkflow = (path: string, content: string): CiDefinition => {
+  const entries = topLevelEntries(content);
+  const on = entries.get('on');
+  const jobs = entries.get('jobs');
+  return {
+    path,
+    name: unquote(entries.get('name')?.inline || '') || path.split('/').pop()!,
+    triggers: !on ? [] : on.inline ? inlineList(on.inline) : childKeys(on.block),
+    jobs: jobs ? childKeys(jobs.block) : [],
+  };
+};
+
+// GitLab runs every pipeline on push unless rules say otherwise; rules only add sources here
+const parseGitlabPipeline = (path: string, content: string): CiDefinition => {
+  const entries = topLevelEntries(content);
+  const triggers = ['push'];
+  if (/merge_request_event/.test(content)) triggers.push('merge_request');
+  if (/CI_PIPELINE_SOURCE\s*==\s*["']schedule/.test(content)) triggers.push('schedule');
+  if (/CI_COMMIT_TAG|only:\s*\n\s*-\s*tags/.test(content)) triggers.push('tag');
+  return {
+    path,
+    name: 'GitLab CI pipeline',
+    triggers,
+    jobs: [...entries.keys()].filter(key => !GITLAB_KEYWORDS.has(key) && !key.startsWith('.')),
+  };
+};
+
+export const parseCiDefinition = (path: string, content: string): CiDefinition =>
+  GITLAB_PIPELINE.test(path) ? parseGitlabPipeline(path, content) : parseGithubWorkflow(path, content);
+
+const summarizeRuns = (runs: CiRun[]) => {
+  const decided = runs.filter(r => r.conclusion === 'success' || r.conclusion === 'failure');
+  const durations = runs.map(r => r.durationMinutes).filter((d): d is number => d !== null);
+  return {
+    passRate: decided.length ? decided.filter(r => r.conclusion === 'success').length / decided.length : null,
+    meanDurationMinutes: durations.length ? durations.reduce((a, b) => a + b, 0) / durations.length : null,
+  };
+};
+
+// runs is null when the provider's run history couldn't be read
+export const buildCiReport = (
+  definitions: CiDefinition[],
+  runs: CiRun[] | null,
+  pullRequestChecks: CiReport['pullRequestChecks'] = [],
+  requiredChecks: string[] | null = null
+): CiReport => {
+  const allRuns = runs || [];
+  const workflows: CiWorkflow[] = definitions.map(d => {
+    const own = allRuns.filter(r => r.workflow === d.path);
+    return { ...d, runs: own.length, ...summarizeRuns(own), lastConclusion: own[0]?.conclusion };
+  });
+
+  // Runs from workflows no longer in the tree (deleted files, dynamic code scanning) still count
+  const known = new Set(definitions.map(d => d.path));
+  const orphans = new Map<string, CiRun[]>();
+  allRuns.filter(r => !known.has(r.workflow)).forEach(r => orphans.set(r.workflow, [...(orphans.get(r.workflow) || []), r]));
+  orphans.forEach((own, path) => workflows.push({
+    path,
+    name: own[0].name,
+    triggers: [...new Set(own.map(r => r.event))],
+    jobs: [],
+    runs: own.length,
+    ...summarizeRuns(own),
+    lastConclusion: own[0].conclusion,
+  }));
+
+  const system = definitions.some(d => GITLAB_PIPELINE.test(d.path)) ? 'gitlab-ci' : workflows.length ? 'github-actions' : null;
+
+  return {
+    system,
+    workflows,
+    runsAvailable: runs !== null,
+    runsAnalyzed: allRuns.length,
+    ...summarizeRuns(allRuns),
+    pullRequestChecks,
+    requiredChecks,
+  };
+};
+
+// "42s", "6.5 min"
+export const formatMinutes = (minutes: number | null) => {
+  if (minutes === null) return 'n/a';
+  if (minutes < 1) return `${Math.round(minutes * 60)}s`;
+  return `${minutes.toFixed(1)} min`;
+};
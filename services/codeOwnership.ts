@@ -0,0 +1,85 @@
+import { Commit, DirectoryOwnership, OwnerShare, OwnershipReport } from '../types';
+
+// Bus factor: the fewest authors who together made more than this share of the changes
+export const BUS_FACTOR_THRESHOLD = 0.5;
+
+// Directories with fewer changes than this are too thin to call a bus-factor risk
+export const MIN_OWNERSHIP_CHANGES = 3;
+
+const toShares = (counts: Map<string, number>): { changes: number; owners: OwnerShare[] } => {
+  const changes = [...counts.values()].reduce((acc, n) => acc + n, 0);
+  const owners = [...counts.entries()]
+    .map(([author, n]) => ({ author, changes: n, share: changes ? n / changes : 0 }))
+    .sort((a, b) => b.changes - a.changes || a.author.localeCompare(b.author));
+  return { changes, owners };
+};
+
+export const busFactor = (owners: OwnerShare[]) => {
+  let covered = 0;
+  for (let i = 0; i < owners.length; i++) {
+    covered += owners[i].share;
+    if (covered > BUS_FACTOR_THRESHOLD) return i + 1;
+  }
+  return owners.length;
+};
+
+// Commits the provider enriched with filesModified (the per-file history setting) contribute; each touched file counts once
+// toward the file and every one of its ancestor directories
+export const analyzeOwnership = (commits: Commit[]): OwnershipReport => {
+  const byDirectory = new Map<string, Map<string, number>>();
+  const byFile = new Map<string, Map<string, number>>();
+  const bump = (index: Map<string, Map<string, number>>, key: string, author: string) => {
+    const counts = index.get(key) || new Map<string, number>();
+    counts.set(author, (counts.get(author) || 0) + 1);
+    index.set(key, counts);
+  };
+
+  const analyzed = commits.filter(c => c.filesModified?.length);
+  analyzed.forEach(c => {
+    const author = c.commit.author.name;
+    c.filesModified!.forEach(({ filename }) => {
+      bump(byFile, filename, author);
+      const parts = filename.split('/');
+      [''].concat(parts.slice(0, -1).map((_, i) => parts.slice(0, i + 1).join('/')))
+        .forEach(dir => bump(byDirectory, dir, author));
+    });
+  });
+
+  const directories = new Map<string, DirectoryOwnership>();
+  byDirectory.forEach((counts, path) => {
+    const { changes, owners } = toShares(counts);
+    directories.set(path, { path, changes, owners, busFactor: busFactor(owners) });
+  });
+
+  const files = new Map<string, OwnerShare[]>();
+  byFile.forEach((counts, path) => files.set(path, toShares(counts).owners));
+
+  return { commitsAnalyzed: analyzed.length, commitsTotal: commits.length, directories, files };
+};
+
+// Directories with enough history that a single author carries most of the work
+export const singleOwnerDirectories = (report: OwnershipReport): DirectoryOwnership[] =>
+  [...report.directories.values()]
+    .filter(d => d.path && d.busFactor === 1 && d.changes >= MIN_OWNERSHIP_CHANGES)
+    .sort((a, b) => b.changes - a.changes);
+
+export const describeOwnershipForPrompt = (report: OwnershipReport): string => {
+  const root = report.directories.get('');
+  if (!root) return 'No per-file commit data available; ownership could not be computed.';
+
+  const describe = (d: DirectoryOwnership) =>
+    `${d.path || '(root)'}: ${d.changes} changes, bus factor ${d.busFactor}, ${d.owners.slice(0, 3).map(o => `${o.author} ${Math.round(o.share * 100)}%`).join(', ')}`;
+  const topLevel = [...report.directories.values()]
+    .filter(d => d.path && !d.path.includes('/'))
+    .sort((a, b) => b.changes - a.changes)
+    .slice(0, 15);
+  const risks = singleOwnerDirectories(report).slice(0, 10);
+
+  return [
+    `Based on ${report.commitsAnalyzed} of ${report.commitsTotal} commits with per-file changes.`,
+    `Repository: ${describe(root)}`,
+    'Top-level directories:',
+    ...topLevel.map(d => `- ${describe(d)}`),
+    `Directories owned by a single author: ${risks.map(d => `${d.path} (${d.owners[0].author})`).join(', ') || 'none'}`,
+  ].join('\n');
+};
@@ -0,0 +1,109 @@
+import { ActivityBucket, ActivityGranularity, ActivityRange, Commit } from '../types';
+
+// Charts group everyone past this many authors into "Others"
+export const MAX_CHARTED_AUTHORS = 6;
+export const OTHER_AUTHORS = 'Others';
+
+// Past this many days the daily series gets too dense to read, so weeks are the default
+const DAILY_SPAN_LIMIT = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Buckets follow the viewer's local calendar, so the heatmap and charts read in local time
+const startOfDay = (ms: number) => {
+  const d = new Date(ms);
+  d.setHours(0, 0, 0, 0);
+  return d.getTime();
+};
+
+// Weeks start on Monday
+const startOfBucket = (ms: number, granularity: ActivityGranularity) => {
+  const day = new Date(startOfDay(ms));
+  if (granularity === 'week') day.setDate(day.getDate() - ((day.getDay() + 6) % 7));
+  return day.getTime();
+};
+
+const nextBucket = (start: number, granularity: ActivityGranularity) => {
+  const d = new Date(start);
+  d.setDate(d.getDate() + (granularity === 'week' ? 7 : 1));
+  return d.getTime();
+};
+
+const commitTime = (c: Commit) => Date.parse(c.commit.author.date);
+
+export const defaultGranularity = (commits: Commit[]): ActivityGranularity => {
+  const times = commits.map(commitTime).filter(t => !Number.isNaN(t));
+  if (!times.length) return 'day';
+  return (Math.max(...times) - Math.min(...times)) / DAY_MS > DAILY_SPAN_LIMIT ? 'week' : 'day';
+};
+
+// Authors ranked by commit count; the long tail is folded into OTHER_AUTHORS
+export const chartedAuthors = (commits: Commit[]): string[] => {
+  const counts = new Map<string, number>();
+  commits.forEach(c => counts.set(c.commit.author.name, (counts.get(c.commit.author.name) || 0) + 1));
+  const ranked = [...counts.entries()].sort((a, b) => b[1] - a[1]).map(([name]) => name);
+  return ranked.length > MAX_CHARTED_AUTHORS ? [...ranked.slice(0, MAX_CHARTED_AUTHORS), OTHER_AUTHORS] : ranked;
+};
+
+// Continuous series from the first to the last commit; quiet days/weeks are kept as zeros.
+// Line counts only come from commits the provider fetched stats for.
+export const bucketCommits = (commits: Commit[], granularity: ActivityGranularity): ActivityBucket[] => {
+  const dated = commits.filter(c => !Number.isNaN(commitTime(c)));
+  if (!dated.length) return [];
+
+  const authors = new Set(chartedAuthors(dated));
+  const times = dated.map(commitTime);
+  const last = startOfBucket(Math.max(...times), granularity);
+
+  const buckets = new Map<number, ActivityBucket>();
+  for (let start = startOfBucket(Math.min(...times), granularity); start <= last; start = nextBucket(start, granularity)) {
+    buckets.set(start, {
+      start,
+      end: nextBucket(start, granularity),
+      label: new Date(start).toLocaleDateString(undefined, { month: 'short', day: 'numeric' }),
+      commits: 0,
+      additions: 0,
+      deletions: 0,
+      byAuthor: {},
+    });
+  }
+
+  const withStats = new Set<number>();
+  dated.forEach(c => {
+    const bucket = buckets.get(startOfBucket(commitTime(c), granularity))!;
+    const author = authors.has(c.commit.author.name) ? c.commit.author.name : OTHER_AUTHORS;
+    bucket.commits++;
+    if (c.stats) {
+      bucket.additions! += c.stats.additions;
+      bucket.deletions! += c.stats.deletions;
+      withStats.add(bucket.start);
+    }
+    bucket.byAuthor[author] = (bucket.byAuthor[author] || 0) + 1;
+  });
+
+  // A bucket with commits but no stats among them has unknown line counts
+  return [...buckets.values()].map(b => (b.commits && !withStats.has(b.start) ? { ...b, additions: null, deletions: null } : b));
+};
+
+// 7 x 24 commit counts, rows Monday..Sunday, columns local hour of day
+export const commitHeatmap = (commits: Commit[]): number[][] => {
+  const grid = Array.from({ length: 7 }, () => new Array<number>(24).fill(0));
+  commits.forEach(c => {
+    const time = commitTime(c);
+    if (Number.isNaN(time)) return;
+    const d = new Date(time);
+    grid[(d.getDay() + 6) % 7][d.getHours()]++;
+  });
+  return grid;
+};
+
+export const isInRange = (c: Commit, range: ActivityRange) => {
+  const time = commitTime(c);
+  return time >= range.start && time < range.end;
+};
+
+export const formatRange = (range: ActivityRange) => {
+  const format = (ms: number) => new Date(ms).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+  const last = range.end - 1;
+  return startOfDay(range.start) === startOfDay(last) ? format(range.start) : `${format(range.start)} – ${format(last)}`;
+};
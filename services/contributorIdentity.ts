@@ -0,0 +1,236 @@
+import { Commit, Contributor, ContributorIdentity, IdentityOverrides } from '../types';
+
+// Folds the aliases one person leaves behind (hosting login, commit names, commit emails) into a
+// single identity, flags automation accounts, and applies the reviewer's manual merges and
+// exclusions. Everything downstream (charts, ownership, scores) consumes the rewritten commits.
+
+const STORAGE_KEY = 'contributor_identities_v1';
+
+export const EMPTY_IDENTITY_OVERRIDES: IdentityOverrides = { merges: [], excluded: [], included: [] };
+
+const BOT_PATTERN = /\[bot\]$|[-_ ]bot$|^(dependabot|renovate|greenkeeper|snyk|imgbot|allcontributors|all-contributors|pre-commit-ci|semantic-release|github-actions?|gitlab-ci|codecov|mergify|deepsource|restyled|pyup|whitesource|mend|depfu|weblate|transifex)([-_ ].*)?$/i;
+const NOREPLY_EMAIL = /^(?:\d+\+)?([^@]+)@users\.noreply\.github\.com$/i;
+
+// Short names ("dev", "me") say too little to merge on
+const MIN_MERGE_NAME_LENGTH = 4;
+
+export const normalizeName = (name: string) =>
+  name.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+const compact = (value: string) => normalizeName(value).replace(/ /g, '');
+
+export const isBotAlias = (value: string) => BOT_PATTERN.test(value.trim());
+
+const loginKey = (login: string) => `login:${login.toLowerCase()}`;
+const nameKey = (name: string) => `name:${normalizeName(name)}`;
+const emailKey = (email: string) => {
+  const noreply = email.match(NOREPLY_EMAIL);
+  return noreply ? loginKey(noreply[1]) : `email:${email.toLowerCase()}`;
+};
+
+const commitKeys = (c: Commit) => [
+  ...(c.author?.login ? [loginKey(c.author.login)] : []),
+  ...(c.commit.author.email ? [emailKey(c.commit.author.email)] : []),
+  nameKey(c.commit.author.name),
+];
+
+class UnionFind {
+  private parent = new Map<string, string>();
+  find(key: string): string {
+    if (!this.parent.has(key)) this.parent.set(key, key);
+    const parent = this.parent.get(key)!;
+    if (parent === key) return key;
+    const root = this.find(parent);
+    this.parent.set(key, root);
+    return root;
+  }
+  union(a: string, b: string) {
+    const [ra, rb] = [this.find(a), this.find(b)];
+    if (ra !== rb) this.parent.set(rb, ra);
+  }
+  keys() {
+    return [...this.parent.keys()];
+  }
+}
+
+// Prefer a login as the identity id, then an email, then a name, so ids survive re-ingestion
+const KEY_PRIORITY = ['login:', 'email:', 'name:'];
+const representative = (keys: string[]) =>
+  [...keys].sort((a, b) =>
+    KEY_PRIORITY.findIndex(p => a.startsWith(p)) - KEY_PRIORITY.findIndex(p => b.startsWith(p)) || a.localeCompare(b))[0];
+
+export interface IdentityResolution {
+  identities: ContributorIdentity[];
+  identityOf: Map<string, ContributorIdentity>; // Alias key -> identity
+}
+
+export const resolveIdentities = (contributors: Contributor[], commits: Commit[], overrides: IdentityOverrides): IdentityResolution => {
+  const aliases = new UnionFind();
+  const loginByKey = new Map<string, string>();
+  const nameByKey = new Map<string, string>();
+  const emailByKey = new Map<string, string>();
+  const botKeys = new Set<string>();
+
+  contributors.forEach(c => {
+    const key = loginKey(c.login);
+    aliases.find(key);
+    loginByKey.set(key, c.login);
+    if (c.type === 'Bot' || isBotAlias(c.login)) botKeys.add(key);
+  });
+
+  // Everything on one commit belongs to the same author
+  commits.forEach(c => {
+    const keys = commitKeys(c);
+    keys.forEach(k => aliases.union(keys[0], k));
+    if (c.author?.login) loginByKey.set(loginKey(c.author.login), c.author.login);
+    if (c.commit.author.email) emailByKey.set(emailKey(c.commit.author.email), c.commit.author.email);
+    nameByKey.set(nameKey(c.commit.author.name), c.commit.author.name);
+    if (c.author?.type === 'Bot' || [c.author?.login, c.commit.author.name, c.commit.author.email?.split('@')[0]].some(v => v && isBotAlias(v))) {
+      keys.forEach(k => botKeys.add(k));
+    }
+  });
+
+  // Heuristics: a name that spells a login ("Jane Doe" / "janedoe"), or an email whose local part
+  // is a login, is the same person; equal normalized names were already merged by key
+  const logins = new Map([...loginByKey.keys()].map(k => [compact(k.slice('login:'.length)), k]));
+  nameByKey.forEach((name, key) => {
+    const login = logins.get(compact(name));
+    if (login && compact(name).length >= MIN_MERGE_NAME_LENGTH) aliases.union(login, key);
+  });
+  emailByKey.forEach((email, key) => {
+    const local = compact(email.split('@')[0]);
+    const login = logins.get(local);
+    if (login && local.length >= MIN_MERGE_NAME_LENGTH) aliases.union(login, key);
+  });
+
+  const manual = new Set<string>();
+  overrides.merges.forEach(([a, b]) => {
+    aliases.union(a, b);
+    manual.add(a);
+    manual.add(b);
+  });
+
+  const groups = new Map<string, string[]>();
+  aliases.keys().forEach(k => {
+    const root = aliases.find(k);
+    groups.set(root, [...(groups.get(root) || []), k]);
+  });
+
+  const contributorByKey = new Map(contributors.map(c => [loginKey(c.login), c]));
+  const commitCounts = new Map<string, number>();
+  const nameCounts = new Map<string, number>();
+  commits.forEach(c => {
+    const root = aliases.find(commitKeys(c)[0]);
+    commitCounts.set(root, (commitCounts.get(root) || 0) + 1);
+    nameCounts.set(c.commit.author.name, (nameCounts.get(c.commit.author.name) || 0) + 1);
+  });
+
+  const excluded = new Set(overrides.excluded);
+  const included = new Set(overrides.included);
+  const identityOf = new Map<string, ContributorIdentity>();
+  const identities = [...groups.entries()].map(([root, keys]) => {
+    const accounts = keys.map(k => contributorByKey.get(k)).filter((c): c is Contributor => !!c);
+    const names = [...new Set(keys.map(k => nameByKey.get(k)).filter((n): n is string => !!n))]
+      .sort((a, b) => (nameCounts.get(b) || 0) - (nameCounts.get(a) || 0));
+    const loginsInGroup = keys.map(k => loginByKey.get(k)).filter((l): l is string => !!l);
+    const isBot = keys.some(k => botKeys.has(k));
+    const identity: ContributorIdentity = {
+      id: representative(keys),
+      name: loginsInGroup[0] || names[0] || representative(keys).split(':').slice(1).join(':'),
+      logins: [...new Set(loginsInGroup)],
+      names,
+      emails: [...new Set(keys.map(k => emailByKey.get(k)).filter((e): e is string => !!e))],
+      avatar_url: accounts.find(a => a.avatar_url)?.avatar_url || '',
+      html_url: accounts[0]?.html_url || '',
+      commits: commitCounts.get(root) || 0,
+      contributions: accounts.reduce((acc, a) => acc + a.contributions, 0),
+      isBot,
+      excluded: keys.some(k => excluded.has(k)) || (isBot && !keys.some(k => included.has(k))),
+      manuallyMerged: keys.some(k => manual.has(k)),
+    };
+    keys.forEach(k => identityOf.set(k, identity));
+    return identity;
+  });
+
+  identities.sort((a, b) => b.contributions - a.contributions || b.commits - a.commits || a.name.localeCompare(b.name));
+  return { identities, identityOf };
+};
+
+// Commits and contributors as seen through identities: aliases renamed to the identity's name,
+// merged logins summed into one contributor, excluded identities dropped
+export const applyIdentities = (commits: Commit[], contributors: Contributor[], resolution: IdentityResolution) => {
+  const identityFor = (c: Commit) => resolution.identityOf.get(commitKeys(c)[0]);
+
+  const teamCommits = commits
+    .filter(c => !identityFor(c)?.excluded)
+    .map(c => {
+      const identity = identityFor(c);
+      return identity && identity.name !== c.commit.author.name
+        ? { ...c, commit: { ...c.commit, author: { ...c.commit.author, name: identity.name } } }
+        : c;
+    });
+
+  const merged = new Map<string, Contributor>();
+  contributors.forEach(c => {
+    const identity = resolution.identityOf.get(loginKey(c.login));
+    if (identity?.excluded) return;
+    const key = identity?.id || loginKey(c.login);
+    const existing = merged.get(key);
+    merged.set(key, existing
+      ? { ...existing, contributions: existing.contributions + c.contributions, avatar_url: existing.avatar_url || c.avatar_url }
+      : { ...c, login: identity?.name || c.login });
+  });
+
+  return {
+    commits: teamCommits,
+    contributors: [...merged.values()].sort((a, b) => b.contributions - a.contributions),
+  };
+};
+
+// Manual merge of several identities into the first one
+export const mergeIdentities = (overrides: IdentityOverrides, ids: string[]): IdentityOverrides => ({
+  ...overrides,
+  merges: [...overrides.merges, ...ids.slice(1).map(id => [ids[0], id] as [string, string])],
+});
+
+const aliasKeys = (resolution: IdentityResolution, identity: ContributorIdentity) =>
+  new Set([...resolution.identityOf.entries()].filter(([, i]) => i === identity).map(([k]) => k));
+
+// Undoes every manual merge touching the identity's aliases
+export const splitIdentity = (overrides: IdentityOverrides, resolution: IdentityResolution, identity: ContributorIdentity): IdentityOverrides => {
+  const keys = aliasKeys(resolution, identity);
+  return { ...overrides, merges: overrides.merges.filter(([a, b]) => !keys.has(a) && !keys.has(b)) };
+};
+
+export const toggleIdentityExcluded = (overrides: IdentityOverrides, resolution: IdentityResolution, identity: ContributorIdentity): IdentityOverrides => {
+  const keys = aliasKeys(resolution, identity);
+  const without = (list: string[]) => list.filter(k => !keys.has(k));
+  if (identity.excluded) {
+    return identity.isBot
+      ? { ...overrides, excluded: without(overrides.excluded), included: [...without(overrides.included), identity.id] }
+      : { ...overrides, excluded: without(overrides.excluded) };
+  }
+  return { ...overrides, excluded: [...without(overrides.excluded), identity.id], included: without(overrides.included) };
+};
+
+// Overrides are remembered per repository (keyed by full_name)
+const loadAll = (): Record<string, IdentityOverrides> => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch (e) {
+    return {};
+  }
+};
+
+export const loadIdentityOverrides = (fullName: string): IdentityOverrides =>
+  loadAll()[fullName.toLowerCase()] || EMPTY_IDENTITY_OVERRIDES;
+
+export const saveIdentityOverrides = (fullName: string, overrides: IdentityOverrides) => {
+  const all = loadAll();
+  if (overrides.merges.length || overrides.excluded.length || overrides.included.length) {
+    all[fullName.toLowerCase()] = overrides;
+  } else {
+    delete all[fullName.toLowerCase()];
+  }
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+};
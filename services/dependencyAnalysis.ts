@@ -0,0 +1,538 @@
+import { Dependency, DependencyEcosystem, DependencyManifest, DependencyReport, FileNode } from '../types';
+import { exclusionReason } from './sourceSelection';
+
+// Dependency manifests and lockfiles parsed locally. Manifests give the direct dependencies and how
+// tightly each is constrained; lockfiles add resolved versions, the transitive count and (npm only)
+// every package's license. Formats are scanned line by line rather than with full TOML/YAML/XML
+// parsers, which is enough for the fields read here.
+
+const MAX_DEPENDENCY_FILES = 25;
+const MAX_DEPENDENCY_FILE_BYTES = 5000000;
+
+interface LockedPackage {
+  name: string;
+  version: string;
+  license?: string;
+}
+
+interface ParsedFile {
+  dependencies?: Dependency[];
+  locked?: LockedPackage[];
+  license?: string;
+}
+
+interface DependencyFormat {
+  pattern: RegExp;
+  ecosystem: DependencyEcosystem;
+  kind: DependencyManifest['kind'];
+  parse: (path: string, content: string) => ParsedFile;
+}
+
+// Libraries that do the same job; having several of one group directly is usually an accident
+const COMPETING_PACKAGES: { category: string; packages: string[] }[] = [
+  { category: 'UI framework', packages: ['react', 'vue', '@angular/core', 'svelte', 'solid-js', 'preact'] },
+  { category: 'HTTP client', packages: ['axios', 'node-fetch', 'got', 'superagent', 'ky', 'request', 'requests', 'httpx'] },
+  { category: 'Date library', packages: ['moment', 'dayjs', 'date-fns', 'luxon', 'pendulum', 'arrow'] },
+  { category: 'State management', packages: ['redux', 'mobx', 'zustand', 'recoil', 'jotai', 'pinia', 'vuex'] },
+  { category: 'Test runner', packages: ['jest', 'vitest', 'mocha', 'jasmine', 'ava', 'pytest', 'nose', 'rspec', 'minitest'] },
+  { category: 'Bundler', packages: ['webpack', 'vite', 'parcel', 'rollup'] },
+  { category: 'CSS-in-JS', packages: ['styled-components', '@emotion/react', '@emotion/styled', 'jss'] },
+  { category: 'Utility belt', packages: ['lodash', 'underscore', 'ramda'] },
+  { category: 'Web framework', packages: ['express', 'koa', 'fastify', '@nestjs/core', 'hapi', 'django', 'flask', 'fastapi', 'sinatra', 'rails'] },
+  { category: 'ORM', packages: ['sequelize', 'typeorm', 'prisma', 'mongoose', 'knex', 'sqlalchemy', 'peewee', 'gorm.io/gorm', 'diesel', 'sqlx'] },
+  { category: 'Async runtime', packages: ['tokio', 'async-std', 'smol'] },
+  { category: 'Logging', packages: ['winston', 'pino', 'bunyan', 'log4js', 'loguru', 'logrus', 'go.uber.org/zap', 'github.com/sirupsen/logrus', 'github.com/rs/zerolog'] },
+];
+
+const COPYLEFT_LICENSE = /\b(A?GPL|LGPL|SSPL|EUPL|OSL)\b/i;
+
+const unquote = (value: string) => value.trim().replace(/^(["'])(.*)\1$/, '$2');
+
+// --- TOML (pyproject.toml, Cargo.toml, Cargo.lock, poetry.lock) ---
+
+interface TomlTable {
+  header: string;
+  values: Map<string, string>; // Raw values; strings keep their quotes
+}
+
+// Removes a trailing comment, ignoring '#' inside strings
+const stripTomlComment = (line: string) => {
+  let quote: string | null = null;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quote) {
+      if (ch === '\\' && quote === '"') i++;
+      else if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === '#') {
+      return line.slice(0, i);
+    }
+  }
+  return line;
+};
+
+// Open brackets/braces outside strings; multi-line arrays continue until this reaches zero
+const nesting = (value: string) => {
+  let depth = 0;
+  let quote: string | null = null;
+  for (const ch of value) {
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") quote = ch;
+    else if (ch === '[' || ch === '{') depth++;
+    else if (ch === ']' || ch === '}') depth--;
+  }
+  return depth;
+};
+
+const parseToml = (content: string): TomlTable[] => {
+  const tables: TomlTable[] = [{ header: '', values: new Map() }];
+  let pending: { key: string; value: string } | null = null;
+
+  content.split('\n').forEach(raw => {
+    const line = stripTomlComment(raw).trim();
+    const table = tables[tables.length - 1];
+    if (pending) {
+      pending.value += ` ${line}`;
+      if (nesting(pending.value) <= 0) {
+        table.values.set(pending.key, pending.value);
+        pending = null;
+      }
+      return;
+    }
+    if (!line) return;
+
+    const header = line.match(/^\[\[?\s*([^\]]+?)\s*\]\]?$/);
+    if (header) {
+      tables.push({ header: header[1].split('.').map(unquote).join('.'), values: new Map() });
+      return;
+    }
+    const pair = line.match(/^("[^"]*"|'[^']*'|[^=]+?)\s*=\s*(.*)$/);
+    if (!pair) return;
+    const key = unquote(pair[1]);
+    if (nesting(pair[2]) > 0) pending = { key, value: pair[2] };
+    else table.values.set(key, pair[2]);
+  });
+
+  return tables;
+};
+
+const tomlStrings = (value: string) =>
+  [...value.matchAll(/"((?:[^"\\]|\\.)*)"|'([^']*)'/g)].map(m => m[1] ?? m[2]);
+
+// A field of an inline table: { version = "1.0", path = "../x" }
+const tomlField = (value: string, field: string): string | undefined => {
+  const match = value.match(new RegExp(`(?:^|[{,\\s])${field.replace(/[-.]/g, '\\$&')}\\s*=\\s*("[^"]*"|'[^']*'|true|false)`));
+  return match ? unquote(match[1]) : undefined;
+};
+
+// --- Version constraints ---
+
+const EXACT_SEMVER = /^=?\s*v?\d+(\.\d+){1,3}([-+][\w.-]+)?$/;
+
+const isPinnedNpm = (version: string) =>
+  EXACT_SEMVER.test(version.trim()) || /^(file|link|workspace):/.test(version) || /#[0-9a-f]{7,40}$/.test(version);
+
+// PEP 440: only == / === without wildcards fixes the version
+const isPinnedPep440 = (spec: string) => /^===?\s*[^,*]+$/.test(spec.trim());
+
+// --- Manifests ---
+
+const parsePackageJson = (path: string, content: string): ParsedFile => {
+  const json = JSON.parse(content);
+  const sections: [string, Dependency['scope']][] = [
+    ['dependencies', 'runtime'], ['devDependencies', 'dev'], ['optionalDependencies', 'optional'], ['peerDependencies', 'peer'],
+  ];
+  const dependencies = sections.flatMap(([section, scope]) =>
+    Object.entries<string>(json[section] || {}).map(([name, version]) => ({
+      name, ecosystem: 'npm' as const, version, pinned: isPinnedNpm(version), scope, manifest: path,
+    }))
+  );
+  const license = typeof json.license === 'string' ? json.license : json.license?.type || json.licenses?.[0]?.type;
+  return { dependencies, license };
+};
+
+// "requests[socks]>=2.31 ; python_version >= '3.8'"
+const parsePep508 = (requirement: string, scope: Dependency['scope'], manifest: string): Dependency | null => {
+  const match = requirement.trim().match(/^([A-Za-z0-9][A-Za-z0-9._-]*)\s*(\[[^\]]*\])?\s*([^;]*)/);
+  if (!match) return null;
+  const spec = match[3].trim().replace(/^\((.*)\)$/, '$1');
+  return {
+    name: match[1].toLowerCase(),
+    ecosystem: 'pypi',
+    version: spec || '*',
+    pinned: !!spec && isPinnedPep440(spec),
+    scope,
+    manifest,
+  };
+};
+
+const parseRequirements = (path: string, content: string): ParsedFile => {
+  const scope = /dev|test|lint|doc/i.test(path.split('/').pop()!) ? 'dev' : 'runtime';
+  const dependencies = content.split('\n')
+    .map(line => line.replace(/(^|\s)#.*$/, '').trim())
+    // Options (-r other.txt, -e ., --index-url) and direct URLs aren't package pins
+    .filter(line => line && !line.startsWith('-') && !/^\w+\+?\w*:\/\//.test(line))
+    .map(line => parsePep508(line, scope, path))
+    .filter((d): d is Dependency => d !== null);
+  return { dependencies };
+};
+
+const POETRY_PINNED = /^(==)?\s*\d+(\.\d+)*([-.]?\w+)?$/; // Poetry reads a bare version as exact
+
+const parsePyproject = (path: string, content: string): ParsedFile => {
+  const dependencies: Dependency[] = [];
+  let license: string | undefined;
+
+  parseToml(content).forEach(({ header, values }) => {
+    if (header === 'project') {
+      tomlStrings(values.get('dependencies') || '').forEach(r => {
+        const dep = parsePep508(r, 'runtime', path);
+        if (dep) dependencies.push(dep);
+      });
+      const rawLicense = values.get('license');
+      if (rawLicense) license = rawLicense.startsWith('{') ? tomlField(rawLicense, 'text') : unquote(rawLicense);
+    }
+    if (header === 'project.optional-dependencies' || header === 'dependency-groups') {
+      values.forEach((list, group) => tomlStrings(list).forEach(r => {
+        const dep = parsePep508(r, /dev|test|lint|doc/i.test(group) ? 'dev' : 'optional', path);
+        if (dep) dependencies.push(dep);
+      }));
+    }
+    if (header === 'tool.poetry' && values.has('license')) license = unquote(values.get('license')!);
+
+    const poetry = header.match(/^tool\.poetry\.(dependencies|dev-dependencies|group\.([\w-]+)\.dependencies)$/);
+    if (poetry) {
+      const scope = poetry[1] === 'dependencies' ? 'runtime' : 'dev';
+      values.forEach((value, name) => {
+        if (name === 'python') return;
+        const version = value.startsWith('{') ? tomlField(value, 'version') || '*' : unquote(value);
+        const local = value.startsWith('{') && (tomlField(value, 'path') || tomlField(value, 'rev') || tomlField(value, 'tag'));
+        const optional = value.startsWith('{') && tomlField(value, 'optional') === 'true';
+        dependencies.push({ name: name.toLowerCase(), ecosystem: 'pypi', version, pinned: !!local || POETRY_PINNED.test(version), scope: optional ? 'optional' : scope, manifest: path });
+      });
+    }
+  });
+
+  return { dependencies, license };
+};
+
+// go.mod records every module in the build graph; "// indirect" marks the transitive ones
+const parseGoMod = (path: string, content: string): ParsedFile => {
+  const dependencies: Dependency[] = [];
+  const locked: LockedPackage[] = [];
+  let inRequire = false;
+
+  content.split('\n').forEach(raw => {
+    const line = raw.trim();
+    if (line.startsWith('require (')) {
+      inRequire = true;
+      return;
+    }
+    if (inRequire && line === ')') {
+      inRequire = false;
+      return;
+    }
+    const match = (inRequire ? line : line.replace(/^require\s+/, '')).match(/^([^\s()]+)\s+(v[^\s]+)(\s*\/\/\s*indirect)?/);
+    if (!match || (!inRequire && !line.startsWith('require'))) return;
+    locked.push({ name: match[1], version: match[2] });
+    if (!match[3]) {
+      // Minimal version selection: the listed version is what builds
+      dependencies.push({ name: match[1], ecosystem: 'go', version: match[2], pinned: true, scope: 'runtime', manifest: path });
+    }
+  });
+
+  return { dependencies, locked };
+};
+
+const parseCargoToml = (path: string, content: string): ParsedFile => {
+  const dependencies: Dependency[] = [];
+  let license: string | undefined;
+  const scopeOf = (section: string): Dependency['scope'] =>
+    section === 'dev-dependencies' ? 'dev' : section === 'build-dependencies' ? 'build' : 'runtime';
+  // Cargo reads "1.2" as ^1.2; only "=1.2.3" or path/git sources fix what gets built
+  const add = (name: string, value: string, scope: Dependency['scope']) => {
+    const table = value.startsWith('{');
+    const version = table ? tomlField(value, 'version') || '*' : unquote(value);
+    const local = table && (tomlField(value, 'path') || tomlField(value, 'rev') || tomlField(value, 'tag'));
+    dependencies.push({ name, ecosystem: 'cargo', version, pinned: !!local || /^=\s*\d/.test(version), scope, manifest: path });
+  };
+
+  parseToml(content).forEach(({ header, values }) => {
+    if (header === 'package' && values.has('license')) license = unquote(values.get('license')!);
+
+    // [dependencies], [target.'cfg(unix)'.dev-dependencies], [workspace.dependencies]
+    const section = header.match(/(?:^|\.)((?:dev-|build-)?dependencies)$/);
+    if (section) {
+      values.forEach((value, name) => add(name, value, scopeOf(section[1])));
+      return;
+    }
+    // [dependencies.serde] with its fields as keys
+    const single = header.match(/(?:^|\.)((?:dev-|build-)?dependencies)\.([^.]+)$/);
+    if (single) {
+      const fields = [...values.entries()].map(([k, v]) => `${k} = ${v}`).join(', ');
+      add(single[2], `{ ${fields} }`, scopeOf(single[1]));
+    }
+  });
+
+  return { dependencies, license };
+};
+
+const xmlTag = (xml: string, tag: string) => xml.match(new RegExp(`<${tag}>\\s*([^<]*?)\\s*</${tag}>`))?.[1];
+
+const parsePom = (path: string, content: string): ParsedFile => {
+  // Plugin dependencies under <build> don't ship with the artifact, and managed entries only set versions
+  const xml = content
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<build>[\s\S]*<\/build>/, '')
+    .replace(/<dependencyManagement>[\s\S]*?<\/dependencyManagement>/g, '');
+  const properties = new Map<string, string>();
+  const propertyBlock = xml.match(/<properties>([\s\S]*?)<\/properties>/)?.[1] || '';
+  [...propertyBlock.matchAll(/<([\w.-]+)>\s*([^<]*?)\s*<\/\1>/g)].forEach(m => properties.set(m[1], m[2]));
+  const resolve = (value: string) => value.replace(/\$\{([^}]+)\}/g, (whole, name) => properties.get(name) ?? whole);
+
+  const dependencies = [...xml.matchAll(/<dependency>([\s\S]*?)<\/dependency>/g)].map(([, block]): Dependency => {
+    const scope = xmlTag(block, 'scope');
+    const rawVersion = xmlTag(block, 'version');
+    const version = rawVersion ? resolve(rawVersion) : 'managed';
+    return {
+      name: `${xmlTag(block, 'groupId')}:${xmlTag(block, 'artifactId')}`,
+      ecosystem: 'maven',
+      version,
+      // Maven versions are exact unless written as a range or LATEST/RELEASE; managed ones come from a parent BOM
+      pinned: !/^[[(]|^(LATEST|RELEASE)$|\$\{/.test(version),
+      scope: xmlTag(block, 'optional') === 'true' ? 'optional' : scope === 'test' ? 'dev' : scope === 'provided' ? 'build' : 'runtime',
+      manifest: path,
+    };
+  });
+
+  const license = xmlTag(xml.match(/<licenses>([\s\S]*?)<\/licenses>/)?.[1] || '', 'name');
+  return { dependencies, license };
+};
+
+const parseGemfile = (path: string, content: string): ParsedFile => {
+  const dependencies: Dependency[] = [];
+  const groups: string[][] = [];
+
+  content.split('\n').forEach(raw => {
+    const line = raw.replace(/(^|\s)#.*$/, '').trim();
+    const group = line.match(/^group\s+(.+?)\s+do$/);
+    if (group) {
+      groups.push(group[1].split(',').map(g => g.trim().replace(/^:/, '')));
+      return;
+    }
+    if (line === 'end') {
+      groups.pop();
+      return;
+    }
+    const gem = line.match(/^gem\s+['"]([^'"]+)['"](.*)$/);
+    if (!gem) return;
+
+    const rest = gem[2];
+    const requirements = [...rest.replace(/\w+:\s*(\[[^\]]*\]|['"][^'"]*['"]|\S+)/g, '').matchAll(/['"]([^'"]+)['"]/g)].map(m => m[1]);
+    const inlineGroups = rest.match(/group:\s*\[?([^\]]+)\]?/)?.[1] || '';
+    const allGroups = [...groups.flat(), ...inlineGroups.split(',').map(g => g.trim().replace(/^:/, ''))];
+    const version = requirements.join(', ') || '*';
+    dependencies.push({
+      name: gem[1],
+      ecosystem: 'rubygems',
+      version,
+      pinned: (requirements.length === 1 && /^=?\s*\d[\w.]*$/.test(requirements[0])) || /\b(path|tag|ref):/.test(rest),
+      scope: allGroups.some(g => g === 'development' || g === 'test') ? 'dev' : 'runtime',
+      manifest: path,
+    });
+  });
+
+  return { dependencies };
+};
+
+// --- Lockfiles ---
+
+const parsePackageLock = (path: string, content: string): ParsedFile => {
+  const json = JSON.parse(content);
+  if (json.packages) {
+    // v2/v3: flat map keyed by install path; "" is the project itself
+    const locked = Object.entries<any>(json.packages)
+      .filter(([key, pkg]) => key && !pkg.link && key.includes('node_modules/'))
+      .map(([key, pkg]) => ({ name: key.slice(key.lastIndexOf('node_modules/') + 'node_modules/'.length), version: pkg.version, license: pkg.license }));
+    return { locked };
+  }
+  // v1: nested dependency tree
+  const locked: LockedPackage[] = [];
+  const walk = (deps: Record<string, any> = {}) => Object.entries(deps).forEach(([name, pkg]) => {
+    locked.push({ name, version: pkg.version });
+    walk(pkg.dependencies);
+  });
+  walk(json.dependencies);
+  return { locked };
+};
+
+// Classic and Berry: `"name@range", "name@other":` followed by an indented version field
+const parseYarnLock = (path: string, content: string): ParsedFile => {
+  const locked: LockedPackage[] = [];
+  let current: string | null = null;
+
+  content.split('\n').forEach(line => {
+    if (!line.trim() || line.startsWith('#')) return;
+    if (!line.startsWith(' ')) {
+      // Berry quotes the whole key list: "a@npm:^1, a@npm:^1.2":
+      const spec = line.replace(/:$/, '').split(',')[0].trim().replace(/^["']|["']$/g, '');
+      const at = spec.indexOf('@', 1);
+      current = spec === '__metadata' || at < 0 ? null : spec.slice(0, at);
+      return;
+    }
+    const version = line.match(/^\s+version:?\s+"?([^"\s]+)"?/);
+    if (current && version && !version[1].includes('use.local')) {
+      locked.push({ name: current, version: version[1] });
+      current = null;
+    }
+  });
+
+  return { locked };
+};
+
+// Keys under `packages:` are "/name/1.0.0" (lockfile v5), "/name@1.0.0" (v6) or "name@1.0.0" (v9)
+const parsePnpmLock = (path: string, content: string): ParsedFile => {
+  const locked: LockedPackage[] = [];
+  let inPackages = false;
+
+  content.split('\n').forEach(line => {
+    if (/^\S/.test(line)) {
+      inPackages = line.startsWith('packages:');
+      return;
+    }
+    const key = inPackages && line.match(/^ {2}(\S.*):\s*$/);
+    if (!key) return;
+    const id = unquote(key[1]).replace(/^\//, '');
+    // v5 appends peer resolutions as "_react@17.0.2", later versions as "(react@17.0.2)"
+    const match = id.match(/^((?:@[^/]+\/)?[^/@]+)\/(\d[^_/(]*)/) || id.match(/^((?:@[^/]+\/)?[^/@]+)@([^(]+)/);
+    if (match) locked.push({ name: match[1], version: match[2] });
+  });
+
+  return { locked };
+};
+
+// Cargo.lock and poetry.lock share the [[package]] name/version layout
+const parsePackageTables = (path: string, content: string): ParsedFile => ({
+  locked: parseToml(content)
+    .filter(t => t.header === 'package' && t.values.has('name'))
+    .map(t => ({ name: unquote(t.values.get('name')!).toLowerCase(), version: unquote(t.values.get('version') || '') })),
+});
+
+// Top-level specs are indented four spaces; their own dependencies six
+const parseGemfileLock = (path: string, content: string): ParsedFile => ({
+  locked: content.split('\n')
+    .map(line => line.match(/^ {4}([^\s(]+) \(([^)]+)\)$/))
+    .filter((m): m is RegExpMatchArray => m !== null)
+    .map(m => ({ name: m[1], version: m[2] })),
+});
+
+const FORMATS: DependencyFormat[] = [
+  { pattern: /(^|\/)package\.json$/, ecosystem: 'npm', kind: 'manifest', parse: parsePackageJson },
+  { pattern: /(^|\/)(requirements[\w.-]*\.txt|requirements\/[^/]+\.txt)$/, ecosystem: 'pypi', kind: 'manifest', parse: parseRequirements },
+  { pattern: /(^|\/)pyproject\.toml$/, ecosystem: 'pypi', kind: 'manifest', parse: parsePyproject },
+  { pattern: /(^|\/)go\.mod$/, ecosystem: 'go', kind: 'manifest', parse: parseGoMod },
+  { pattern: /(^|\/)Cargo\.toml$/, ecosystem: 'cargo', kind: 'manifest', parse: parseCargoToml },
+  { pattern: /(^|\/)pom\.xml$/, ecosystem: 'maven', kind: 'manifest', parse: parsePom },
+  { pattern: /(^|\/)Gemfile$/, ecosystem: 'rubygems', kind: 'manifest', parse: parseGemfile },
+  { pattern: /(^|\/)(package-lock|npm-shrinkwrap)\.json$/, ecosystem: 'npm', kind: 'lockfile', parse: parsePackageLock },
+  { pattern: /(^|\/)yarn\.lock$/, ecosystem: 'npm', kind: 'lockfile', parse: parseYarnLock },
+  { pattern: /(^|\/)pnpm-lock\.yaml$/, ecosystem: 'npm', kind: 'lockfile', parse: parsePnpmLock },
+  { pattern: /(^|\/)poetry\.lock$/, ecosystem: 'pypi', kind: 'lockfile', parse: parsePackageTables },
+  { pattern: /(^|\/)Cargo\.lock$/, ecosystem: 'cargo', kind: 'lockfile', parse: parsePackageTables },
+  { pattern: /(^|\/)Gemfile\.lock$/, ecosystem: 'rubygems', kind: 'lockfile', parse: parseGemfileLock },
+];
+
+const formatOf = (path: string) => FORMATS.find(f => f.pattern.test(path));
+
+// Manifests and lockfiles worth reading, shallowest first; vendored copies and fixtures are skipped
+export const selectDependencyFiles = (files: FileNode[]): FileNode[] =>
+  files
+    .filter(f => f.type === 'blob' && formatOf(f.path))
+    .filter(f => {
+      const reason = exclusionReason(f.path);
+      return !reason || reason === 'generated';
+    })
+    .filter(f => f.size === undefined || f.size <= MAX_DEPENDENCY_FILE_BYTES)
+    .sort((a, b) => a.path.split('/').length - b.path.split('/').length || a.path.localeCompare(b.path))
+    .slice(0, MAX_DEPENDENCY_FILES);
+
+export const analyzeDependencies = (sources: { path: string; content: string }[]): DependencyReport => {
+  const manifests: DependencyManifest[] = [];
+  const direct: Dependency[] = [];
+  const locked: (LockedPackage & { ecosystem: DependencyEcosystem })[] = [];
+
+  sources.forEach(({ path, content }) => {
+    const format = formatOf(path);
+    if (!format) return;
+    let parsed: ParsedFile;
+    try {
+      parsed = format.parse(path, content);
+    } catch (e) {
+      console.warn(`Failed to parse ${path}`, e);
+      return;
+    }
+    direct.push(...(parsed.dependencies || []));
+    locked.push(...(parsed.locked || []).filter(p => p.name && p.version).map(p => ({ ...p, ecosystem: format.ecosystem })));
+    manifests.push({
+      path,
+      ecosystem: format.ecosystem,
+      kind: format.kind,
+      license: parsed.license,
+      packages: format.kind === 'manifest' ? parsed.dependencies?.length || 0 : parsed.locked?.length || 0,
+    });
+  });
+
+  const key = (ecosystem: DependencyEcosystem, name: string) => `${ecosystem}:${name}`;
+  const resolved = new Map<string, string>();
+  const versions = new Map<string, Set<string>>();
+  locked.forEach(p => {
+    const k = key(p.ecosystem, p.name);
+    if (!resolved.has(k)) resolved.set(k, p.version);
+    versions.set(k, (versions.get(k) || new Set()).add(p.version));
+  });
+  direct.forEach(d => {
+    const version = resolved.get(key(d.ecosystem, d.name));
+    if (version) d.resolved = version;
+  });
+
+  const directKeys = new Set(direct.map(d => key(d.ecosystem, d.name)));
+
+  const licenseCounts = new Map<string, number>();
+  const copyleft = new Map<string, string>();
+  locked.filter(p => p.license).forEach(p => {
+    licenseCounts.set(p.license!, (licenseCounts.get(p.license!) || 0) + 1);
+    if (COPYLEFT_LICENSE.test(p.license!)) copyleft.set(p.name, p.license!);
+  });
+
+  return {
+    manifests,
+    direct,
+    transitiveCount: locked.length ? [...versions.keys()].filter(k => !directKeys.has(k)).length : null,
+    // A Python backend next to a JS frontend is not duplication; compare within one ecosystem
+    duplicateFrameworks: [...new Set(direct.map(d => d.ecosystem))].flatMap(ecosystem => COMPETING_PACKAGES
+      .map(({ category, packages }) => ({ category, packages: packages.filter(p => directKeys.has(key(ecosystem, p))) }))
+      .filter(group => group.packages.length > 1)),
+    multipleVersions: [...versions.entries()]
+      .filter(([, set]) => set.size > 1)
+      .map(([k, set]) => ({ name: k.slice(k.indexOf(':') + 1), versions: [...set] }))
+      .sort((a, b) => b.versions.length - a.versions.length),
+    licenses: [...licenseCounts.entries()]
+      .map(([license, packages]) => ({ license, packages }))
+      .sort((a, b) => b.packages - a.packages),
+    copyleft: [...copyleft.entries()].map(([name, license]) => ({ name, license })),
+  };
+};
+
+// Reads the selected files through the provider and analyzes them; unreadable files are skipped
+export const buildDependencyReport = async (
+  files: FileNode[],
+  readText: (file: FileNode) => Promise<string | null>
+): Promise<DependencyReport> => {
+  const selected = selectDependencyFiles(files);
+  const contents = await Promise.all(selected.map(f => readText(f).catch(() => null)));
+  return analyzeDependencies(selected
+    .map((f, i) => ({ path: f.path, content: contents[i] }))
+    .filter((s): s is { path: string; content: string } => s.content !== null));
+};
@@ -0,0 +1,82 @@
+import { GenerateContentConfig, GoogleGenAI, Schema, Type } from "@google/genai";
+import { JsonSchema, LLMProvider } from "../types";
+import { llmFailure } from "./llmHttp";
+
+// Gemini's Schema is an OpenAPI subset with upper-case type names
+const toGeminiSchema = (schema: JsonSchema): Schema => ({
+  type: schema.type.toUpperCase() as Type,
+  ...(schema.properties && {
+    properties: Object.fromEntries(Object.entries(schema.properties).map(([name, property]) => [name, toGeminiSchema(property)])),
+  }),
+  ...(schema.items && { items: toGeminiSchema(schema.items) }),
+  ...(schema.required && { required: schema.required }),
+  ...(schema.minimum !== undefined && { minimum: schema.minimum }),
+  ...(schema.maximum !== undefined && { maximum: schema.maximum }),
+  ...(schema.enum && { format: 'enum', enum: schema.enum }),
+});
+
+// The SDK reports quota and key problems in the message; map them onto HTTP statuses for rotation
+const toFailure = (error: any) => {
+  const message: string = error.message || 'Gemini request failed.';
+  const isRateLimit = error.status === 429 || message.includes('RESOURCE_EXHAUSTED');
+  const isInvalidKey = error.status === 401 || error.status === 403 || message.includes('API_KEY_INVALID') || message.includes('API key not valid');
+  // Gemini reports the wait in RetryInfo.retryDelay, e.g. "retryDelay": "37s"
+  const retryDelay = message.match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/);
+  return llmFailure(
+    message,
+    isRateLimit ? 429 : isInvalidKey ? 401 : error.status,
+    retryDelay ? Date.now() + Number(retryDelay[1]) * 1000 : undefined
+  );
+};
+
+export const geminiProvider: LLMProvider = {
+  kind: 'gemini',
+  label: 'Gemini',
+  defaultBaseUrl: 'https://generativelanguage.googleapis.com',
+  defaultModel: 'gemini-2.5-flash',
+  requiresKey: true,
+
+  stream: async function* (key, { model, prompt, schema, signal }) {
+    const ai = new GoogleGenAI({ apiKey: key.token, ...(key.baseUrl && { httpOptions: { baseUrl: key.baseUrl } }) });
+    const config: GenerateContentConfig = {
+      ...(schema && { responseMimeType: 'application/json', responseSchema: toGeminiSchema(schema) }),
+      // Flash models can skip thinking, which keeps long reviews fast; Pro models reject a zero budget
+      ...(model.includes('flash') && { thinkingConfig: { thinkingBudget: 0 } }),
+      abortSignal: signal,
+    };
+
+    try {
+      const responseStream = await ai.models.generateContentStream({
+        model,
+        contents: [{ role: 'user', parts: [{ text: prompt }] }],
+        config,
+      });
+
+      for await (const chunk of responseStream) {
+        if (chunk.text) yield { type: 'text', content: chunk.text };
+        if (chunk.usageMetadata) {
+          yield {
+            type: 'usage',
+            data: {
+              input: chunk.usageMetadata.promptTokenCount ?? 0,
+              output: chunk.usageMetadata.candidatesTokenCount ?? 0,
+              total: chunk.usageMetadata.totalTokenCount ?? 0,
+            },
+          };
+        }
+      }
+    } catch (error) {
+      throw toFailure(error);
+    }
+  },
+
+  countTokens: async (key, model, text, signal) => {
+    const ai = new GoogleGenAI({ apiKey: key.token, ...(key.baseUrl && { httpOptions: { baseUrl: key.baseUrl } }) });
+    try {
+      const response = await ai.models.countTokens({ model, contents: [{ role: 'user', parts: [{ text }] }], config: { abortSignal: signal } });
+      return response.totalTokens ?? 0;
+    } catch (error) {
+      throw toFailure(error);
+    }
+  },
+};
@@ -0,0 +1,282 @@
+import { inflateZlib } from './inflate';
+
+// In-memory git object database built from loose objects and packfiles, plus parsers for the
+// commit / tree / tag formats. Everything the offline ingestion needs, nothing more.
+
+export type GitObjectType = 'commit' | 'tree' | 'blob' | 'tag';
+
+export interface GitObject {
+  type: GitObjectType;
+  data: Uint8Array;
+}
+
+export interface GitSignature {
+  name: string;
+  email: string;
+  date: string; // ISO
+}
+
+export interface GitCommit {
+  sha: string;
+  tree: string;
+  parents: string[];
+  author: GitSignature;
+  committer: GitSignature;
+  message: string;
+}
+
+export interface GitTreeEntry {
+  mode: string;
+  name: string;
+  sha: string;
+}
+
+const PACK_TYPES: Record<number, GitObjectType> = { 1: 'commit', 2: 'tree', 3: 'blob', 4: 'tag' };
+const OFS_DELTA = 6;
+const REF_DELTA = 7;
+
+const decoder = new TextDecoder();
+const encoder = new TextEncoder();
+
+export const toHex = (bytes: Uint8Array) =>
+  Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+
+export const hashObject = async (type: GitObjectType, data: Uint8Array): Promise<string> => {
+  const header = encoder.encode(`${type} ${data.length}\0`);
+  const buffer = new Uint8Array(header.length + data.length);
+  buffer.set(header);
+  buffer.set(data, header.length);
+  return toHex(new Uint8Array(await crypto.subtle.digest('SHA-1', buffer)));
+};
+
+// Rebuilds an object from its base and a git delta (copy/insert instructions)
+const applyDelta = (base: Uint8Array, delta: Uint8Array): Uint8Array => {
+  let pos = 0;
+  const readSize = () => {
+    let size = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      byte = delta[pos++];
+      size += (byte & 0x7f) * 2 ** shift;
+      shift += 7;
+    } while (byte & 0x80);
+    return size;
+  };
+
+  if (readSize() !== base.length) throw new Error('Delta base size mismatch');
+  const out = new Uint8Array(readSize());
+  let outPos = 0;
+
+  while (pos < delta.length) {
+    const cmd = delta[pos++];
+    if (cmd & 0x80) {
+      let copyOffset = 0;
+      let copySize = 0;
+      for (let i = 0; i < 4; i++) if (cmd & (1 << i)) copyOffset += delta[pos++] * 2 ** (8 * i);
+      for (let i = 0; i < 3; i++) if (cmd & (1 << (4 + i))) copySize |= delta[pos++] << (8 * i);
+      if (copySize === 0) copySize = 0x10000;
+      out.set(base.subarray(copyOffset, copyOffset + copySize), outPos);
+      outPos += copySize;
+    } else if (cmd > 0) {
+      out.set(delta.subarray(pos, pos + cmd), outPos);
+      outPos += cmd;
+      pos += cmd;
+    } else {
+      throw new Error('Invalid delta instruction');
+    }
+  }
+
+  return out;
+};
+
+interface PackEntry {
+  offset: number;
+  type: number;
+  data: Uint8Array;
+  baseOffset?: number;
+  baseSha?: string;
+}
+
+export class GitObjectStore {
+  private objects = new Map<string, GitObject>();
+  private loose = new Map<string, () => Uint8Array>();
+
+  public has(sha: string): boolean {
+    return this.objects.has(sha) || this.loose.has(sha);
+  }
+
+  public get(sha: string): GitObject | undefined {
+    const cached = this.objects.get(sha);
+    if (cached) return cached;
+
+    const read = this.loose.get(sha);
+    if (!read) return undefined;
+    const raw = inflateZlib(read()).data;
+    const nul = raw.indexOf(0);
+    const [type] = decoder.decode(raw.subarray(0, nul)).split(' ');
+    const object = { type: type as GitObjectType, data: raw.subarray(nul + 1) };
+    this.objects.set(sha, object);
+    this.loose.delete(sha);
+    return object;
+  }
+
+  // Expands an abbreviated SHA; null when it is unknown or ambiguous
+  public expand(prefix: string): string | null {
+    const needle = prefix.toLowerCase();
+    const matches = [...this.objects.keys(), ...this.loose.keys()].filter(sha => sha.startsWith(needle));
+    return new Set(matches).size === 1 ? matches[0] : null;
+  }
+
+  // Loose objects are inflated lazily; most blobs in history are never looked at
+  public addLoose(sha: string, read: () => Uint8Array) {
+    this.loose.set(sha, read);
+  }
+
+  // Walks a packfile front to back, then resolves deltas against their bases. REF_DELTA bases may
+  // live outside the pack (thin bundles); those objects are dropped if the base is missing.
+  // Hashing yields between objects, so an aborted signal stops a large pack there
+  public async addPack(pack: Uint8Array, offset = 0, signal?: AbortSignal) {
+    const view = new DataView(pack.buffer, pack.byteOffset, pack.byteLength);
+    if (decoder.decode(pack.subarray(offset, offset + 4)) !== 'PACK') throw new Error('Not a git packfile');
+    const count = view.getUint32(offset + 8);
+
+    const entries: PackEntry[] = [];
+    let pos = offset + 12;
+    for (let i = 0; i < count; i++) {
+      const start = pos;
+      let byte = pack[pos++];
+      const type = (byte >> 4) & 0x7;
+      let size = byte & 0x0f;
+      let shift = 4;
+      while (byte & 0x80) {
+        byte = pack[pos++];
+        size += (byte & 0x7f) * 2 ** shift;
+        shift += 7;
+      }
+
+      const entry: PackEntry = { offset: start, type, data: new Uint8Array(0) };
+      if (type === OFS_DELTA) {
+        byte = pack[pos++];
+        let distance = byte & 0x7f;
+        while (byte & 0x80) {
+          byte = pack[pos++];
+          distance = (distance + 1) * 128 + (byte & 0x7f);
+        }
+        entry.baseOffset = start - distance;
+      } else if (type === REF_DELTA) {
+        entry.baseSha = toHex(pack.subarray(pos, pos + 20));
+        pos += 20;
+      }
+
+      const { data, end } = inflateZlib(pack, pos, size);
+      entry.data = data;
+      pos = end;
+      entries.push(entry);
+    }
+
+    const byOffset = new Map(entries.map(e => [e.offset, e]));
+    const resolved = new Map<number, GitObject>();
+
+    const resolve = (entry: PackEntry): GitObject | undefined => {
+      const done = resolved.get(entry.offset);
+      if (done) return done;
+
+      let object: GitObject | undefined;
+      if (entry.type === OFS_DELTA || entry.type === REF_DELTA) {
+        const baseEntry = entry.baseOffset !== undefined ? byOffset.get(entry.baseOffset) : undefined;
+        const base = baseEntry ? resolve(baseEntry) : entry.baseSha ? this.get(entry.baseSha) : undefined;
+        if (base) object = { type: base.type, data: applyDelta(base.data, entry.data) };
+      } else if (PACK_TYPES[entry.type]) {
+        object = { type: PACK_TYPES[entry.type], data: entry.data };
+      }
+
+      if (object) resolved.set(entry.offset, object);
+      return object;
+    };
+
+    // REF_DELTA bases can appear later in the pack, so keep going while each pass makes progress
+    let pending = entries;
+    while (pending.length) {
+      const unresolved: PackEntry[] = [];
+      for (const entry of pending) {
+        signal?.throwIfAborted();
+        const object = resolve(entry);
+        if (object) {
+          this.objects.set(await hashObject(object.type, object.data), object);
+        } else {
+          unresolved.push(entry);
+        }
+      }
+      if (unresolved.length === pending.length) break;
+      pending = unresolved;
+    }
+  }
+
+  public readCommit(sha: string): GitCommit | null {
+    const object = this.get(sha);
+    if (!object || object.type !== 'commit') return null;
+    return parseCommit(sha, decoder.decode(object.data));
+  }
+
+  public readTree(sha: string): GitTreeEntry[] {
+    const object = this.get(sha);
+    if (!object || object.type !== 'tree') return [];
+    return parseTree(object.data);
+  }
+
+  // Follows annotated tags down to the object they point at
+  public peel(sha: string): string {
+    let current = sha;
+    for (let depth = 0; depth < 10; depth++) {
+      const object = this.get(current);
+      if (!object || object.type !== 'tag') return current;
+      const match = decoder.decode(object.data).match(/^object ([0-9a-f]{40})/);
+      if (!match) return current;
+      current = match[1];
+    }
+    return current;
+  }
+}
+
+const parseSignature = (value: string): GitSignature => {
+  const match = value.match(/^(.*?)\s*<([^>]*)>\s*(\d+)\s*([+-]\d{4})?$/);
+  if (!match) return { name: value, email: '', date: new Date(0).toISOString() };
+  return { name: match[1], email: match[2], date: new Date(Number(match[3]) * 1000).toISOString() };
+};
+
+export const parseCommit = (sha: string, text: string): GitCommit => {
+  const split = text.indexOf('\n\n');
+  const headerText = split === -1 ? text : text.slice(0, split);
+  const message = split === -1 ? '' : text.slice(split + 2).replace(/\n$/, '');
+
+  const commit: GitCommit = { sha, tree: '', parents: [], author: parseSignature(''), committer: parseSignature(''), message };
+  // Continuation lines (gpgsig, mergetag) start with a space and are skipped
+  headerText.split('\n').filter(line => !line.startsWith(' ')).forEach(line => {
+    const space = line.indexOf(' ');
+    const key = line.slice(0, space);
+    const value = line.slice(space + 1);
+    if (key === 'tree') commit.tree = value;
+    else if (key === 'parent') commit.parents.push(value);
+    else if (key === 'author') commit.author = parseSignature(value);
+    else if (key === 'committer') commit.committer = parseSignature(value);
+  });
+
+  return commit;
+};
+
+export const parseTree = (data: Uint8Array): GitTreeEntry[] => {
+  const entries: GitTreeEntry[] = [];
+  let pos = 0;
+  while (pos < data.length) {
+    const space = data.indexOf(0x20, pos);
+    const nul = data.indexOf(0, space);
+    entries.push({
+      mode: decoder.decode(data.subarray(pos, space)),
+      name: decoder.decode(data.subarray(space + 1, nul)),
+      sha: toHex(data.subarray(nul + 1, nul + 21)),
+    });
+    pos = nul + 21;
+  }
+  return entries;
+};
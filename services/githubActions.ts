@@ -0,0 +1,106 @@
+import { CiReport, CiRun, FileNode, PullRequest } from '../types';
+import { GithubEndpoints, fetchWithRetry, fetchBlobText } from './githubClient';
+import { CiDefinition, buildCiReport, isGithubWorkflow, parseCiDefinition } from './ciAnalysis';
+import { Fetcher } from './loadScope';
+
+// GitHub Actions evidence: workflow files from the tree, the latest runs, check runs on recent PR
+// heads and the default branch's required checks. Every request is best-effort; a repository
+// with Actions disabled or a token without access still gets a report from its workflow files.
+
+const RUNS_PER_PAGE = 100;
+const CHECKED_PULL_REQUESTS = 10;
+
+const toConclusion = (status: string, conclusion: string | null): CiRun['conclusion'] => {
+  if (status !== 'completed') return null;
+  if (conclusion === 'success') return 'success';
+  if (conclusion === 'failure' || conclusion === 'timed_out' || conclusion === 'startup_failure') return 'failure';
+  if (conclusion === 'cancelled') return 'cancelled';
+  return 'other';
+};
+
+const fetchDefinitions = async (files: FileNode[], request: Fetcher): Promise<CiDefinition[]> => {
+  const definitions = await Promise.all(files.filter(f => f.type === 'blob' && isGithubWorkflow(f.path)).map(async (file) => {
+    if (file.content) return parseCiDefinition(file.path, file.content);
+    try {
+      const text = await fetchBlobText(file.url, request);
+      return text === null ? null : parseCiDefinition(file.path, text);
+    } catch (e) {
+      console.warn(`Failed to read workflow ${file.path}`, e);
+      return null;
+    }
+  }));
+  return definitions.filter((d): d is CiDefinition => d !== null);
+};
+
+const fetchRuns = async (base: string, request: Fetcher): Promise<CiRun[] | null> => {
+  const res = await request(`${base}/actions/runs?per_page=${RUNS_PER_PAGE}`);
+  if (!res.ok) return null;
+  const data = await res.json();
+  return (data.workflow_runs as any[]).map(run => ({
+    // Reusable and dynamic workflows report "path@ref"
+    workflow: String(run.path || '').split('@')[0],
+    name: run.name,
+    event: run.event,
+    conclusion: toConclusion(run.status, run.conclusion),
+    durationMinutes: run.status === 'completed' && run.run_started_at
+      ? (Date.parse(run.updated_at) - Date.parse(run.run_started_at)) / 60000
+      : null,
+    created_at: run.created_at,
+  }));
+};
+
+// Check runs only; legacy commit statuses from external CI services aren't counted
+const fetchPullRequestChecks = async (base: string, pullRequests: PullRequest[], request: Fetcher): Promise<CiReport['pullRequestChecks']> => {
+  const sampled = pullRequests.filter(pr => pr.head_sha).slice(0, CHECKED_PULL_REQUESTS);
+  const checks = await Promise.all(sampled.map(async (pr) => {
+    try {
+      const res = await request(`${base}/commits/${pr.head_sha}/check-runs?per_page=100`);
+      if (!res.ok) return null;
+      const data = await res.json();
+      const runs: any[] = data.check_runs || [];
+      return {
+        number: pr.number,
+        checks: data.total_count ?? runs.length,
+        failing: runs.filter(r => toConclusion(r.status, r.conclusion) === 'failure').length,
+        merged: !!pr.merged_at,
+      };
+    } catch (e) {
+      return null;
+    }
+  }));
+  return checks.filter((c): c is CiReport['pullRequestChecks'][number] => c !== null);
+};
+
+// The branch endpoint exposes protection settings to anyone who can read the repository
+const fetchRequiredChecks = async (base: string, branch: string, request: Fetcher): Promise<string[] | null> => {
+  try {
+    const res = await request(`${base}/branches/${encodeURIComponent(branch)}`);
+    if (!res.ok) return null;
+    const data = await res.json();
+    if (!data.protected) return [];
+    const required = data.protection?.required_status_checks;
+    if (!required) return null;
+    return required.checks?.map((c: any) => c.context) || required.contexts || [];
+  } catch (e) {
+    return null;
+  }
+};
+
+export const fetchGithubCiReport = async (
+  api: GithubEndpoints,
+  owner: string,
+  repo: string,
+  files: FileNode[],
+  pullRequests: PullRequest[],
+  defaultBranch: string,
+  request: Fetcher = fetchWithRetry
+): Promise<CiReport> => {
+  const base = `${api.apiBase}/repos/${owner}/${repo}`;
+  const [definitions, runs, pullRequestChecks, requiredChecks] = await Promise.all([
+    fetchDefinitions(files, request),
+    fetchRuns(base, request).catch(() => null),
+    fetchPullRequestChecks(base, pullRequests, request),
+    fetchRequiredChecks(base, defaultBranch, request),
+  ]);
+  return buildCiReport(definitions, runs, pullRequestChecks, requiredChecks);
+};
@@ -0,0 +1,171 @@
+import { KeyManager } from './keyManager';
+import { HttpCache } from './httpCache';
+import { ProviderHosts, defaultApiBase } from './providerHosts';
+import { Fetcher } from './loadScope';
+
+export const GITHUB_API_BASE = 'https://api.github.com';
+const DEFAULT_ACCEPT = 'application/vnd.github.v3+json';
+
+// Where to reach a GitHub instance: github.com or a GitHub Enterprise Server
+export interface GithubEndpoints {
+  apiBase: string;
+  graphqlUrl: string;
+  webBase: string;
+}
+
+export const GITHUB_DOT_COM: GithubEndpoints = {
+  apiBase: GITHUB_API_BASE,
+  graphqlUrl: `${GITHUB_API_BASE}/graphql`,
+  webBase: 'https://github.com',
+};
+
+export const getGithubEndpoints = (host: string): GithubEndpoints => {
+  if (host === 'github.com') return GITHUB_DOT_COM;
+  const apiBase = ProviderHosts.find(host)?.apiBase || defaultApiBase(host, 'github-enterprise');
+  return {
+    apiBase,
+    // GHES serves GraphQL at /api/graphql next to the /api/v3 REST base
+    graphqlUrl: apiBase.replace(/\/v3$/, '/graphql'),
+    webBase: `https://${host}`,
+  };
+};
+
+// Enterprise tokens are stored against their host; api.github.com uses the unscoped github.com keys
+export const getTokenHost = (url: string): string | undefined => {
+  const host = new URL(url).hostname;
+  return host === 'api.github.com' ? undefined : host;
+};
+
+// Blobs and commits addressed by a full SHA never change, so a cached copy never needs revalidating
+const isImmutableUrl = (url: string) => /\/(git\/blobs|commits)\/[0-9a-f]{40}$/.test(url);
+
+export type GithubFailure = 'rate_limit' | 'secondary_rate_limit' | 'bad_credentials' | 'sso_required' | 'forbidden';
+
+// Tells apart the different reasons GitHub answers 401/403/429. Returns null for anything else.
+export const classifyGithubFailure = async (response: Response): Promise<GithubFailure | null> => {
+  if (response.status === 401) return 'bad_credentials';
+  if (response.status !== 403 && response.status !== 429) return null;
+
+  if (response.headers.get('X-RateLimit-Remaining') === '0') return 'rate_limit';
+  if (response.headers.get('Retry-After')) return 'secondary_rate_limit';
+  if (response.headers.get('X-GitHub-SSO')) return 'sso_required';
+
+  const body = await response.clone().json().catch(() => null);
+  const message: string = body?.message?.toLowerCase() || '';
+  if (message.includes('secondary rate limit') || message.includes('abuse')) return 'secondary_rate_limit';
+  if (message.includes('rate limit')) return 'rate_limit';
+  return response.status === 429 ? 'secondary_rate_limit' : 'forbidden';
+};
+
+export const describeGithubFailure = (failure: GithubFailure): string => {
+  switch (failure) {
+    case 'rate_limit': return 'GitHub API rate limit exceeded. Please add more tokens in Settings.';
+    case 'secondary_rate_limit': return 'GitHub secondary rate limit hit. Wait a minute before retrying.';
+    case 'bad_credentials': return 'GitHub rejected the token (bad credentials). Check your keys in Settings.';
+    case 'sso_required': return 'This organization requires SSO authorization for your token.';
+    case 'forbidden': return 'Access to this repository is forbidden for the current token.';
+  }
+};
+
+// When a benched key becomes usable again, from X-RateLimit-Reset or Retry-After
+const getRetryAt = (response: Response, failure: GithubFailure): number | undefined => {
+  const reset = response.headers.get('X-RateLimit-Reset');
+  const retryAfter = response.headers.get('Retry-After');
+  if (failure === 'rate_limit' && reset) return Number(reset) * 1000;
+  if (retryAfter) return Date.now() + Number(retryAfter) * 1000;
+  return undefined;
+};
+
+// Wrapper for fetch that handles Key Rotation and conditional requests against the HTTP cache
+export const fetchWithRetry = async (url: string, options: RequestInit = {}, attempt = 0): Promise<Response> => {
+  const token = KeyManager.getValidKey('github', getTokenHost(url));
+  
+  const headers: Record<string, string> = {
+    'Accept': DEFAULT_ACCEPT,
+    ...(options.headers as Record<string, string>),
+  };
+
+  if (token) {
+    headers['Authorization'] = `token ${token}`;
+  }
+
+  // The same URL returns different bodies per media type, so non-default Accepts get their own entry
+  const cacheKey = headers['Accept'] === DEFAULT_ACCEPT ? url : `${url}|${headers['Accept']}`;
+  const isCacheable = !options.method || options.method.toUpperCase() === 'GET';
+  const cached = isCacheable ? await HttpCache.get(cacheKey) : null;
+
+  if (cached && isImmutableUrl(url)) {
+    return HttpCache.toResponse(cached);
+  }
+
+  if (cached?.etag) {
+    headers['If-None-Match'] = cached.etag;
+  } else if (cached?.lastModified) {
+    headers['If-Modified-Since'] = cached.lastModified;
+  }
+
+  try {
+    const response = await fetch(url, { ...options, headers });
+
+    const limit = response.headers.get('X-RateLimit-Limit');
+    const remaining = response.headers.get('X-RateLimit-Remaining');
+    const reset = response.headers.get('X-RateLimit-Reset');
+    if (limit !== null && remaining !== null && reset !== null) {
+      if (token) KeyManager.updateRateLimit(token, Number(limit), Number(remaining), Number(reset) * 1000);
+      else KeyManager.updateAnonymousRateLimit('github', getTokenHost(url), Number(limit), Number(remaining), Number(reset) * 1000);
+    }
+
+    // 304s don't count against the rate limit; serve the stored body
+    if (response.status === 304 && cached) {
+      return HttpCache.toResponse(cached);
+    }
+
+    // Bench rate-limited keys until their reset time and drop rejected ones, then rotate.
+    // SSO and plain permission 403s are returned as-is: another key wouldn't fix those.
+    const failure = await classifyGithubFailure(response);
+    if (token && (failure === 'rate_limit' || failure === 'secondary_rate_limit' || failure === 'bad_credentials')) {
+      if (failure === 'bad_credentials') {
+        KeyManager.markInvalid(token, 'Bad credentials');
+      } else {
+        KeyManager.markRateLimited(token, getRetryAt(response, failure));
+      }
+      // Retry with new key if available
+      if (attempt < 5) { // Max 5 retries
+        console.log(`GitHub ${failure.replace(/_/g, ' ')}. Rotating key and retrying (Attempt ${attempt + 1})...`);
+        return fetchWithRetry(url, options, attempt + 1);
+      }
+    }
+
+    if (isCacheable && response.ok) {
+      const etag = response.headers.get('ETag') || undefined;
+      const lastModified = response.headers.get('Last-Modified') || undefined;
+      if (etag || lastModified || isImmutableUrl(url)) {
+        // Written in the background; a cancelled load or a failed body read just skips the cache
+        response.clone().text().then(body => HttpCache.put({
+          url: cacheKey,
+          body,
+          etag,
+          lastModified,
+          link: response.headers.get('Link') || undefined,
+          contentType: response.headers.get('Content-Type') || undefined,
+        })).catch(() => {});
+      }
+    }
+
+    return response;
+  } catch (error) {
+    throw error;
+  }
+};
+
+// Decodes a base64 payload from the contents/blobs API as UTF-8
+export const decodeBase64Content = (content: string): string =>
+  decodeURIComponent(escape(atob(content.replace(/\s/g, ''))));
+
+// Text of a git/blobs API URL (FileNode.url), or null when it can't be read
+export const fetchBlobText = async (url: string, request: Fetcher = fetchWithRetry): Promise<string | null> => {
+  const res = await request(url);
+  if (!res.ok) return null;
+  const data = await res.json();
+  return data.encoding === 'base64' ? decodeBase64Content(data.content) : null;
+};
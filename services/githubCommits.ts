@@ -0,0 +1,28 @@
+import { Commit, FileHistoryReport } from '../types';
+import { LoadScope, enrichFileHistory } from './loadScope';
+
+// Commit details are one REST request each
+const COMMIT_DETAIL_CONCURRENCY = 8;
+
+// Adds stats and per-file changes to the newest `limit` commits, fewer when the quota is low.
+// Ownership, hotspots and churn ranking are computed over these.
+export const enrichCommitsWithStats = async (
+  commits: Commit[],
+  scope: LoadScope,
+  limit: number,
+  remainingQuota: number | null
+): Promise<{ commits: Commit[]; fileHistory: FileHistoryReport }> =>
+  enrichFileHistory(commits, scope, limit, remainingQuota, COMMIT_DETAIL_CONCURRENCY, async c => {
+    const res = await scope.request(c.url);
+    if (!res.ok) return null;
+    const data = await res.json();
+    return {
+      ...c,
+      stats: data.stats ?? c.stats,
+      filesModified: data.files?.map((f: any) => ({
+        filename: f.filename,
+        status: f.status,
+        patch: f.patch
+      }))
+    };
+  });
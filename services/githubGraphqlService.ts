@@ -0,0 +1,519 @@
+import { RepoInfo, Commit, Branch, Tag, Contributor, PullRequest, Issue, RepoDetails, FetchRepoOptions, AnalysisRef, ResolvedRef } from '../types';
+import { DEFAULT_FILE_HISTORY_COMMITS, DEFAULT_INGESTION_DEPTH } from '../constants';
+import { KeyManager } from './keyManager';
+import { GithubEndpoints, getTokenHost, fetchWithRetry, fetchBlobText, classifyGithubFailure, describeGithubFailure } from './githubClient';
+import { attachSourceContents } from './sourceSelection';
+import { fetchGithubTree } from './githubTree';
+import { parseLinkedIssues } from './pullRequestInsights';
+import { fetchGithubCiReport } from './githubActions';
+import { buildDependencyReport } from './dependencyAnalysis';
+import { EAGER_TREE_REQUESTS } from './treeWalker';
+import { Fetcher, LoadScope, createLoadScope } from './loadScope';
+import { enrichCommitsWithStats } from './githubCommits';
+
+// GitHub GraphQL (v4) ingestion backend.
+// Pulls the same data as the REST path in a handful of batched queries. Two gaps are filled over
+// REST: v4 has no recursive tree listing (the REST tree walker is used for it) and no per-file
+// commit diffs. Line stats come with the history query; the files each commit touched are only
+// fetched from the REST commit endpoint when the load opts in with restFileHistory.
+
+const PAGE_SIZE = 100;
+const BLOB_BATCH_SIZE = 50;
+
+interface PageInfo {
+  hasNextPage: boolean;
+  endCursor: string | null;
+}
+
+interface Connection<T> {
+  pageInfo: PageInfo;
+  nodes: T[];
+}
+
+const graphql = async <T>(api: GithubEndpoints, request: Fetcher, query: string, variables: Record<string, unknown>): Promise<T> => {
+  const res = await request(api.graphqlUrl, {
+    method: 'POST',
+    body: JSON.stringify({ query, variables }),
+  });
+
+  const failure = await classifyGithubFailure(res);
+  if (failure) throw new Error(describeGithubFailure(failure));
+  if (!res.ok) throw new Error(`GitHub GraphQL request failed (${res.status})`);
+
+  const json = await res.json();
+  if (json.errors?.length) throw new Error(json.errors[0].message);
+  return json.data;
+};
+
+// Walks a connection with cursor pagination; mirrors fetchAllPages on the REST side
+const fetchConnection = async <T>(
+  fetchPage: (after: string | null) => Promise<Connection<T> | null>,
+  options: { maxItems?: number; shouldStop?: (page: T[]) => boolean; onPage?: (fetched: number) => void } = {}
+): Promise<T[]> => {
+  const { maxItems, shouldStop, onPage } = options;
+  const items: T[] = [];
+  let after: string | null = null;
+
+  while (true) {
+    const page = await fetchPage(after);
+    if (!page) break;
+
+    items.push(...page.nodes);
+    onPage?.(Math.min(items.length, maxItems ?? Infinity));
+
+    if (maxItems !== undefined && items.length >= maxItems) break;
+    if (shouldStop?.(page.nodes)) break;
+    if (!page.pageInfo.hasNextPage) break;
+    after = page.pageInfo.endCursor;
+  }
+
+  return maxItems !== undefined ? items.slice(0, maxItems) : items;
+};
+
+const REPO_QUERY = `
+  query Repo($owner: String!, $name: String!) {
+    repository(owner: $owner, name: $name) {
+      name
+      nameWithOwner
+      description
+      url
+      stargazerCount
+      forkCount
+      issues(states: OPEN) { totalCount }
+      owner { login avatarUrl }
+      defaultBranchRef { name }
+      languages(first: 100, orderBy: { field: SIZE, direction: DESC }) {
+        edges { size node { name } }
+      }
+    }
+  }
+`;
+
+const HISTORY_QUERY = `
+  query History($owner: String!, $name: String!, $oid: GitObjectID!, $first: Int!, $after: String, $since: GitTimestamp, $until: GitTimestamp) {
+    repository(owner: $owner, name: $name) {
+      object(oid: $oid) {
+        ... on Commit {
+          history(first: $first, after: $after, since: $since, until: $until) {
+            pageInfo { hasNextPage endCursor }
+            nodes {
+              oid
+              url
+              message
+              additions
+              deletions
+              author {
+                name
+                email
+                date
+                user { login databaseId avatarUrl url }
+              }
+              committer { name date }
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+const PULLS_QUERY = `
+  query Pulls($owner: String!, $name: String!, $first: Int!, $after: String) {
+    repository(owner: $owner, name: $name) {
+      pullRequests(first: $first, after: $after, orderBy: { field: CREATED_AT, direction: DESC }) {
+        pageInfo { hasNextPage endCursor }
+        nodes {
+          databaseId
+          number
+          title
+          body
+          state
+          url
+          createdAt
+          mergedAt
+          closedAt
+          headRefOid
+          additions
+          deletions
+          changedFiles
+          author { login avatarUrl }
+          reviews(first: 50) {
+            nodes { state submittedAt author { login } }
+          }
+          reviewRequests(first: 10) {
+            nodes { requestedReviewer { ... on User { login } ... on Team { slug } } }
+          }
+          comments(first: 5) {
+            totalCount
+            nodes { body createdAt author { login } }
+          }
+          reviewThreads(first: 5) {
+            totalCount
+            nodes { path comments(first: 1) { nodes { body createdAt author { login } } } }
+          }
+          closingIssuesReferences(first: 10) { nodes { number } }
+        }
+      }
+    }
+  }
+`;
+
+const ISSUES_QUERY = `
+  query Issues($owner: String!, $name: String!, $first: Int!, $after: String) {
+    repository(owner: $owner, name: $name) {
+      issues(first: $first, after: $after, orderBy: { field: CREATED_AT, direction: DESC }) {
+        pageInfo { hasNextPage endCursor }
+        nodes {
+          databaseId
+          number
+          title
+          state
+          url
+          createdAt
+          updatedAt
+          closedAt
+          author { login avatarUrl }
+          labels(first: 20) { nodes { name } }
+          assignees(first: 10) { nodes { login } }
+          comments(first: 10) {
+            totalCount
+            nodes { createdAt author { __typename login } }
+          }
+        }
+      }
+    }
+  }
+`;
+
+const REFS_QUERY = `
+  query Refs($owner: String!, $name: String!, $prefix: String!, $first: Int!, $after: String) {
+    repository(owner: $owner, name: $name) {
+      refs(refPrefix: $prefix, first: $first, after: $after) {
+        pageInfo { hasNextPage endCursor }
+        nodes { name target { oid ... on Tag { target { oid } } } }
+      }
+    }
+  }
+`;
+
+const RESOLVE_REF_QUERY = `
+  query ResolveRef($owner: String!, $name: String!, $expression: String!) {
+    repository(owner: $owner, name: $name) {
+      object(expression: $expression) { ... on Commit { oid } }
+    }
+  }
+`;
+
+const RESOLVE_DATE_QUERY = `
+  query ResolveDate($owner: String!, $name: String!, $until: GitTimestamp!) {
+    repository(owner: $owner, name: $name) {
+      defaultBranchRef {
+        target { ... on Commit { history(first: 1, until: $until) { nodes { oid } } } }
+      }
+    }
+  }
+`;
+
+interface HistoryNode {
+  oid: string;
+  url: string;
+  message: string;
+  additions: number;
+  deletions: number;
+  author: {
+    name: string;
+    email: string | null;
+    date: string;
+    user: { login: string; databaseId: number; avatarUrl: string; url: string } | null;
+  };
+  committer: { name: string; date: string } | null;
+}
+
+interface PullNode {
+  databaseId: number;
+  number: number;
+  title: string;
+  body: string | null;
+  state: 'OPEN' | 'CLOSED' | 'MERGED';
+  url: string;
+  createdAt: string;
+  mergedAt: string | null;
+  closedAt: string | null;
+  headRefOid: string;
+  additions: number;
+  deletions: number;
+  changedFiles: number;
+  author: { login: string; avatarUrl: string } | null;
+  reviews: { nodes: { state: string; submittedAt: string | null; author: { login: string } | null }[] };
+  reviewRequests: { nodes: { requestedReviewer: { login?: string; slug?: string } | null }[] };
+  comments: { totalCount: number; nodes: CommentNode[] };
+  reviewThreads: { totalCount: number; nodes: { path: string; comments: { nodes: CommentNode[] } }[] };
+  closingIssuesReferences: { nodes: { number: number }[] };
+}
+
+interface CommentNode {
+  body: string;
+  createdAt: string;
+  author: { login: string } | null;
+}
+
+interface IssueNode {
+  databaseId: number;
+  number: number;
+  title: string;
+  state: 'OPEN' | 'CLOSED';
+  url: string;
+  createdAt: string;
+  updatedAt: string;
+  closedAt: string | null;
+  author: { login: string; avatarUrl: string } | null;
+  labels: { nodes: { name: string }[] };
+  assignees: { nodes: { login: string }[] };
+  comments: { totalCount: number; nodes: { createdAt: string; author: { __typename: string; login: string } | null }[] };
+}
+
+interface RefNode {
+  name: string;
+  // Annotated tags point at a Tag object which in turn targets the commit
+  target: { oid: string; target?: { oid: string } };
+}
+
+// Resolves the requested snapshot to a commit SHA, failing loudly if the ref doesn't exist
+const resolveRef = async (api: GithubEndpoints, request: Fetcher, owner: string, repo: string, defaultBranch: string, ref?: AnalysisRef): Promise<ResolvedRef> => {
+  if (ref?.type === 'date') {
+    const data = await graphql<{ repository: any }>(api, request, RESOLVE_DATE_QUERY, { owner, name: repo, until: ref.value });
+    const oid: string | undefined = data.repository.defaultBranchRef?.target?.history?.nodes?.[0]?.oid;
+    if (!oid) throw new Error(`No commits on ${defaultBranch} before ${new Date(ref.value).toLocaleString()}`);
+    return { label: `${defaultBranch} @ ${ref.value.slice(0, 10)}`, sha: oid };
+  }
+
+  const name = ref?.value || defaultBranch;
+  const data = await graphql<{ repository: any }>(api, request, RESOLVE_REF_QUERY, { owner, name: repo, expression: name });
+  const oid: string | undefined = data.repository.object?.oid;
+  if (!oid) throw new Error(`Ref "${name}" not found in ${owner}/${repo}`);
+  return { label: ref?.type === 'sha' ? oid.substring(0, 7) : name, sha: oid };
+};
+
+const fetchRefs = (api: GithubEndpoints, request: Fetcher, owner: string, repo: string, prefix: string, onPage?: (fetched: number) => void) =>
+  fetchConnection<RefNode>(async (after) => {
+    const data = await graphql<{ repository: any }>(api, request, REFS_QUERY, { owner, name: repo, prefix, first: PAGE_SIZE, after });
+    return data.repository.refs;
+  }, { onPage });
+
+// Fetches many blob contents in one query using aliased object lookups
+const fetchBlobTexts = async (api: GithubEndpoints, scope: LoadScope, owner: string, repo: string, ref: string, paths: string[]): Promise<Record<string, string>> => {
+  const texts: Record<string, string> = {};
+  scope.phase('contents', Math.ceil(paths.length / BLOB_BATCH_SIZE));
+
+  for (let i = 0; i < paths.length; i += BLOB_BATCH_SIZE) {
+    const batch = paths.slice(i, i + BLOB_BATCH_SIZE);
+    const variableDefs = batch.map((_, idx) => `$e${idx}: String!`).join(', ');
+    const fields = batch.map((_, idx) => `f${idx}: object(expression: $e${idx}) { ... on Blob { text isBinary } }`).join('\n');
+    const query = `query Blobs($owner: String!, $name: String!, ${variableDefs}) { repository(owner: $owner, name: $name) { ${fields} } }`;
+
+    const variables: Record<string, unknown> = { owner, name: repo };
+    batch.forEach((path, idx) => { variables[`e${idx}`] = `${ref}:${path}`; });
+
+    try {
+      const data = await graphql<{ repository: Record<string, { text: string | null; isBinary: boolean } | null> }>(api, scope.request, query, variables);
+      batch.forEach((path, idx) => {
+        const blob = data.repository[`f${idx}`];
+        if (blob && !blob.isBinary && blob.text !== null) {
+          texts[path] = blob.text;
+        }
+      });
+    } catch (e) {
+      console.warn('Failed to fetch blob batch', e);
+    } finally {
+      scope.step();
+    }
+  }
+
+  return texts;
+};
+
+export const fetchRepoDetailsGraphql = async (api: GithubEndpoints, owner: string, repo: string, options: FetchRepoOptions = {}): Promise<RepoDetails> => {
+  const { depth = DEFAULT_INGESTION_DEPTH, fileHistory: fileHistoryCommits = DEFAULT_FILE_HISTORY_COMMITS, restFileHistory = false, onProgress, signal } = options;
+  const scope = createLoadScope(fetchWithRetry, signal, onProgress);
+  const { request } = scope;
+
+  // 1. Repo info + languages
+  scope.phase('metadata');
+  const { repository } = await graphql<{ repository: any }>(api, request, REPO_QUERY, { owner, name: repo });
+  if (!repository) throw new Error('Repository not found or private');
+
+  const defaultBranch: string = repository.defaultBranchRef?.name || 'HEAD';
+  const info: RepoInfo = {
+    name: repository.name,
+    full_name: repository.nameWithOwner,
+    description: repository.description,
+    html_url: repository.url,
+    stargazers_count: repository.stargazerCount,
+    forks_count: repository.forkCount,
+    open_issues_count: repository.issues.totalCount,
+    default_branch: defaultBranch,
+    owner: { login: repository.owner.login, avatar_url: repository.owner.avatarUrl },
+  };
+  const languages: Record<string, number> = {};
+  repository.languages.edges.forEach((e: { size: number; node: { name: string } }) => {
+    languages[e.node.name] = e.size;
+  });
+
+  const ref = await resolveRef(api, request, owner, repo, defaultBranch, options.ref);
+
+  const maxItems = depth.mode === 'recent' ? depth.count : undefined;
+  const since = depth.mode === 'range' ? depth.since : null;
+  const until = depth.mode === 'range' ? depth.until : null;
+
+  // 2. History, PRs, issues, branches and the tree in parallel
+  scope.phase('listing');
+  const [historyNodes, pullNodes, issueNodes, refNodes, tagNodes, treeFiles] = await Promise.all([
+    fetchConnection<HistoryNode>(async (after) => {
+      const data = await graphql<{ repository: any }>(api, request, HISTORY_QUERY, { owner, name: repo, oid: ref.sha, first: PAGE_SIZE, after, since, until });
+      return data.repository.object?.history ?? null;
+    }, { maxItems, onPage: scope.count('commits') }),
+    fetchConnection<PullNode>(async (after) => {
+      const data = await graphql<{ repository: any }>(api, request, PULLS_QUERY, { owner, name: repo, first: PAGE_SIZE, after });
+      return data.repository.pullRequests;
+    }, {
+      maxItems,
+      shouldStop: (page) => since !== null && page.some(pr => Date.parse(pr.createdAt) < Date.parse(since)),
+      onPage: scope.count('pullRequests')
+    }),
+    fetchConnection<IssueNode>(async (after) => {
+      const data = await graphql<{ repository: any }>(api, request, ISSUES_QUERY, { owner, name: repo, first: PAGE_SIZE, after });
+      return data.repository.issues;
+    }, {
+      maxItems,
+      shouldStop: (page) => since !== null && page.some(issue => Date.parse(issue.createdAt) < Date.parse(since)),
+      onPage: scope.count('issues')
+    }),
+    fetchRefs(api, request, owner, repo, 'refs/heads/', scope.count('branches')),
+    fetchRefs(api, request, owner, repo, 'refs/tags/'),
+    // v4 has no recursive tree query; the REST walker handles truncated trees
+    fetchGithubTree(api, owner, repo, ref.sha, EAGER_TREE_REQUESTS, undefined, request)
+  ]);
+
+  const listedCommits: Commit[] = historyNodes.map(n => ({
+    sha: n.oid,
+    commit: {
+      message: n.message,
+      author: { name: n.author.name, email: n.author.email || undefined, date: n.author.date },
+      committer: n.committer ? { name: n.committer.name, date: n.committer.date } : undefined,
+    },
+    author: n.author.user ? { login: n.author.user.login, avatar_url: n.author.user.avatarUrl } : null,
+    html_url: n.url,
+    url: `${api.apiBase}/repos/${owner}/${repo}/commits/${n.oid}`,
+    stats: { additions: n.additions, deletions: n.deletions, total: n.additions + n.deletions },
+  }));
+
+  const pullRequests: PullRequest[] = pullNodes
+    .filter(n => since === null || until === null || (Date.parse(n.createdAt) >= Date.parse(since) && Date.parse(n.createdAt) <= Date.parse(until)))
+    .map(n => ({
+      id: n.databaseId,
+      number: n.number,
+      title: n.title,
+      user: { login: n.author?.login || 'ghost', avatar_url: n.author?.avatarUrl || '' },
+      html_url: n.url,
+      state: n.state === 'OPEN' ? 'open' : 'closed',
+      created_at: n.createdAt,
+      body: n.body,
+      reviews: n.reviews.nodes.map(r => ({
+        author: r.author?.login || 'ghost',
+        state: r.state,
+        submitted_at: r.submittedAt || undefined,
+      })),
+      merged_at: n.mergedAt,
+      closed_at: n.closedAt,
+      requested_reviewers: n.reviewRequests.nodes
+        .map(r => r.requestedReviewer?.login || (r.requestedReviewer?.slug ? `@${r.requestedReviewer.slug}` : ''))
+        .filter(Boolean),
+      comments: [
+        ...n.comments.nodes.map(c => ({ author: c.author?.login || 'ghost', body: c.body, created_at: c.createdAt })),
+        ...n.reviewThreads.nodes.flatMap(t => t.comments.nodes.map(c => ({ author: c.author?.login || 'ghost', body: c.body, created_at: c.createdAt, path: t.path }))),
+      ].sort((a, b) => Date.parse(a.created_at) - Date.parse(b.created_at)),
+      comment_count: n.comments.totalCount + n.reviewThreads.totalCount,
+      additions: n.additions,
+      deletions: n.deletions,
+      changed_files: n.changedFiles,
+      // Closing references cover the sidebar "Development" links as well as keywords in the body
+      linked_issues: [...new Set([...n.closingIssuesReferences.nodes.map(i => i.number), ...parseLinkedIssues(n.body)])],
+      head_sha: n.headRefOid,
+    }));
+
+  // The first comments come with each issue, so every issue gets a first-response time
+  const issues: Issue[] = issueNodes
+    .filter(n => since === null || until === null || (Date.parse(n.createdAt) >= Date.parse(since) && Date.parse(n.createdAt) <= Date.parse(until)))
+    .map(n => {
+      const author = n.author?.login || 'ghost';
+      const response = n.comments.nodes.find(c => c.author && c.author.login !== author && c.author.__typename !== 'Bot');
+      return {
+        id: n.databaseId,
+        number: n.number,
+        title: n.title,
+        state: n.state === 'OPEN' ? 'open' : 'closed',
+        user: { login: author, avatar_url: n.author?.avatarUrl || '' },
+        labels: n.labels.nodes.map(l => l.name),
+        assignees: n.assignees.nodes.map(a => a.login),
+        html_url: n.url,
+        created_at: n.createdAt,
+        updated_at: n.updatedAt,
+        closed_at: n.closedAt,
+        comments: n.comments.totalCount,
+        first_response_at: response?.createdAt ?? null,
+      };
+    });
+
+  const branches: Branch[] = refNodes.map(r => ({
+    name: r.name,
+    commit: { sha: r.target.oid, url: `${api.apiBase}/repos/${owner}/${repo}/commits/${r.target.oid}` },
+    html_url: `${api.webBase}/${owner}/${repo}/tree/${r.name}`,
+  }));
+
+  const tags: Tag[] = tagNodes.map(r => {
+    const sha = r.target.target?.oid || r.target.oid;
+    return { name: r.name, commit: { sha, url: `${api.apiBase}/repos/${owner}/${repo}/commits/${sha}` } };
+  });
+
+  // v4 has no contributors connection; derive it from the ingested history's linked accounts
+  const contributorMap = new Map<string, Contributor>();
+  historyNodes.forEach(n => {
+    const user = n.author.user;
+    if (!user) return;
+    const existing = contributorMap.get(user.login);
+    if (existing) {
+      existing.contributions++;
+    } else {
+      contributorMap.set(user.login, {
+        login: user.login,
+        id: user.databaseId,
+        avatar_url: user.avatarUrl,
+        html_url: user.url,
+        contributions: 1,
+      });
+    }
+  });
+  const contributors = [...contributorMap.values()].sort((a, b) => b.contributions - a.contributions);
+  scope.count('contributors')(contributors.length);
+
+  // Ownership, hotspots and churn ranking need the files each commit touched
+  const { commits, fileHistory } = restFileHistory
+    ? await enrichCommitsWithStats(listedCommits, scope, fileHistoryCommits, KeyManager.getRemainingQuota('github', getTokenHost(api.apiBase)))
+    : { commits: listedCommits, fileHistory: { requested: 0, attempted: 0, fetched: 0 } };
+
+  // 3. README + manifests, then the selected source files, in batched blob queries
+  const readmeFile = treeFiles.find(f => /^readme(\.[a-z]+)?$/i.test(f.path));
+  const { files, texts } = await attachSourceContents(treeFiles, commits, async batch =>
+    new Map(Object.entries(await fetchBlobTexts(api, scope, owner, repo, ref.sha, batch.map(f => f.path)))),
+  readmeFile ? [readmeFile] : []);
+  const readme = readmeFile ? texts.get(readmeFile.path) ?? null : null;
+
+  // Actions has no v4 API, and lockfiles can outgrow what Blob.text returns; both go through REST
+  scope.phase('analysis');
+  const [ci, dependencies] = await Promise.all([
+    fetchGithubCiReport(api, owner, repo, files, pullRequests, defaultBranch, request),
+    buildDependencyReport(files, f => fetchBlobText(f.url, request)),
+  ]);
+
+  return { info, commits, pullRequests, issues, files, branches, tags, contributors, readme, languages, ref, ci, dependencies, fileHistory };
+};
@@ -1,189 +1,336 @@
 
-import { RepoInfo, Commit, FileNode, Branch, Contributor, PullRequest } from '../types';
+import { RepoInfo, Commit, FileNode, Branch, Tag, Contributor, PullRequest, Issue, RepoDetails, FetchRepoOptions, AnalysisRef, ResolvedRef, RepositoryProvider, PullRequestFile, PullRequestLocation, PullRequestReviewData } from '../types';
 import { KeyManager } from './keyManager';
+import { DEFAULT_FILE_HISTORY_COMMITS, DEFAULT_INGESTION_DEPTH } from '../constants';
+import { GithubEndpoints, getGithubEndpoints, getTokenHost, fetchWithRetry, fetchBlobText, decodeBase64Content, classifyGithubFailure, describeGithubFailure } from './githubClient';
+import { attachSourceContents, MAX_FILE_CONTENT_CHARS } from './sourceSelection';
+import { fetchAllPages } from './pagination';
+import { fetchRepoDetailsGraphql } from './githubGraphqlService';
+import { fetchGithubTree } from './githubTree';
+import { parseLinkedIssues } from './pullRequestInsights';
+import { fetchGithubCiReport } from './githubActions';
+import { buildDependencyReport } from './dependencyAnalysis';
+import { EAGER_TREE_REQUESTS, LAZY_TREE_REQUESTS } from './treeWalker';
+import { Fetcher, LoadScope, createLoadScope } from './loadScope';
+import { enrichCommitsWithStats } from './githubCommits';
 
-const GITHUB_API_BASE = 'https://api.github.com';
+const PER_PAGE = 100;
+// The files endpoint stops at 3000; context is only fetched for the first few changed files
+const MAX_PULL_REQUEST_FILES = 300;
+const MAX_CONTEXT_FILES = 20;
 
-// Wrapper for fetch that handles Key Rotation
-const fetchWithRetry = async (url: string, options: RequestInit = {}, attempt = 0): Promise<Response> => {
-  const token = KeyManager.getValidKey('github');
-  
-  const headers: Record<string, string> = {
-    'Accept': 'application/vnd.github.v3+json',
-    ...(options.headers as Record<string, string>),
-  };
-
-  if (token) {
-    headers['Authorization'] = `token ${token}`;
-  }
+// Reads one batch of blobs; attachSourceContents calls it for the manifests, then the candidates
+const readBlobs = (scope: LoadScope) => async (batch: FileNode[]): Promise<Map<string, string>> => {
+  scope.phase('contents', batch.length);
+  const texts = new Map<string, string>();
 
-  try {
-    const response = await fetch(url, { ...options, headers });
-
-    // Handle Rate Limits (403 or 429)
-    if (response.status === 403 || response.status === 429) {
-      if (token) {
-        KeyManager.markRateLimited(token);
-        // Retry with new key if available
-        if (attempt < 5) { // Max 5 retries
-          console.log(`Rate limit hit. Rotating key and retrying (Attempt ${attempt + 1})...`);
-          return fetchWithRetry(url, options, attempt + 1);
+  await Promise.all(batch.map(async (file) => {
+    try {
+      const res = await scope.request(file.url);
+      if (res.ok) {
+        const data = await res.json();
+        if (data.content && data.encoding === 'base64') {
+          texts.set(file.path, decodeBase64Content(data.content));
         }
       }
+    } catch (e) {
+      console.warn(`Failed to fetch content for ${file.path}`, e);
+    } finally {
+      scope.step();
     }
+  }));
 
-    return response;
-  } catch (error) {
-    throw error;
-  }
-};
-
-export const parseGithubUrl = (url: string): { owner: string; repo: string } | null => {
-  try {
-    const urlObj = new URL(url);
-    if (urlObj.hostname !== 'github.com') return null;
-    const parts = urlObj.pathname.split('/').filter(Boolean);
-    if (parts.length < 2) return null;
-    return { owner: parts[0], repo: parts[1] };
-  } catch (e) {
-    return null;
-  }
+  return texts;
 };
 
-// Helper to fetch file content
-const fetchFileContents = async (files: FileNode[]): Promise<FileNode[]> => {
-  const interestingExtensions = ['.ts', '.tsx', '.js', '.jsx', '.py', '.go', '.rs', '.java', '.c', '.cpp', '.h', '.css', '.html', '.json', '.md'];
-  
-  const sortedFiles = [...files].sort((a, b) => {
-      const aScore = (a.path.startsWith('src/') ? 2 : 0) + (a.path.split('/').length === 1 ? 1 : 0);
-      const bScore = (b.path.startsWith('src/') ? 2 : 0) + (b.path.split('/').length === 1 ? 1 : 0);
-      return bScore - aScore;
-  });
-
-  const candidates = sortedFiles
-    .filter(f => interestingExtensions.some(ext => f.path.endsWith(ext)))
-    .filter(f => !f.path.includes('package-lock') && !f.path.includes('yarn.lock') && !f.path.includes('node_modules'))
-    .slice(0, 15);
+// REST pull payload -> PullRequest (the list endpoint already carries merge state and requested reviewers)
+const toPullRequest = (raw: any): PullRequest => ({
+  id: raw.id,
+  number: raw.number,
+  title: raw.title,
+  user: { login: raw.user?.login || 'ghost', avatar_url: raw.user?.avatar_url || '' },
+  html_url: raw.html_url,
+  state: raw.state,
+  created_at: raw.created_at,
+  body: raw.body,
+  merged_at: raw.merged_at,
+  closed_at: raw.closed_at,
+  requested_reviewers: [
+    ...(raw.requested_reviewers || []).map((r: any) => r.login),
+    ...(raw.requested_teams || []).map((t: any) => `@${t.slug}`),
+  ],
+  linked_issues: parseLinkedIssues(raw.body),
+  head_sha: raw.head?.sha,
+});
 
-  const updatedFiles = [...files];
+// Reviews, comment threads and size for the most recent PRs
+const enrichPullRequests = async (api: GithubEndpoints, owner: string, repo: string, pullRequests: PullRequest[], scope: LoadScope): Promise<PullRequest[]> => {
+  const topPullRequests = pullRequests.slice(0, 15);
+  const remaining = pullRequests.slice(15);
+  const base = `${api.apiBase}/repos/${owner}/${repo}`;
+  scope.phase('pull-requests', topPullRequests.length);
+  const getJson = async (url: string) => {
+    const res = await scope.request(url);
+    return res.ok ? res.json() : null;
+  };
 
-  await Promise.all(candidates.map(async (file) => {
+  const enriched = await Promise.all(topPullRequests.map(async (pr) => {
     try {
-      const res = await fetchWithRetry(file.url);
-      if (res.ok) {
-        const data = await res.json();
-        if (data.content && data.encoding === 'base64') {
-           const content =  decodeURIComponent(escape(atob(data.content.replace(/\s/g, ''))));
-           const index = updatedFiles.findIndex(f => f.sha === file.sha);
-           if (index !== -1) {
-             updatedFiles[index] = { ...updatedFiles[index], content: content.substring(0, 8000) }; 
-           }
-        }
-      }
+      const [detail, reviews, reviewComments, issueComments] = await Promise.all([
+        getJson(`${base}/pulls/${pr.number}`),
+        getJson(`${base}/pulls/${pr.number}/reviews?per_page=${PER_PAGE}`),
+        getJson(`${base}/pulls/${pr.number}/comments?per_page=30`),
+        getJson(`${base}/issues/${pr.number}/comments?per_page=30`),
+      ]);
+      const comments = [
+        ...(issueComments || []).map((c: any) => ({ author: c.user?.login || 'ghost', body: c.body, created_at: c.created_at })),
+        ...(reviewComments || []).map((c: any) => ({ author: c.user?.login || 'ghost', body: c.body, created_at: c.created_at, path: c.path })),
+      ].sort((a, b) => Date.parse(a.created_at) - Date.parse(b.created_at));
+
+      return {
+        ...pr,
+        reviews: reviews?.map((r: any) => ({ author: r.user?.login || 'ghost', state: r.state, submitted_at: r.submitted_at })),
+        comments: comments.slice(0, 10),
+        comment_count: detail ? detail.comments + detail.review_comments : comments.length,
+        additions: detail?.additions,
+        deletions: detail?.deletions,
+        changed_files: detail?.changed_files,
+      };
     } catch (e) {
-      console.warn(`Failed to fetch content for ${file.path}`, e);
+      return pr;
+    } finally {
+      scope.step();
     }
   }));
 
-  return updatedFiles;
+  return [...enriched, ...remaining];
 };
 
-// Helper to fetch detailed stats for top commits
-const enrichCommitsWithStats = async (commits: Commit[]): Promise<Commit[]> => {
-  const topCommits = commits.slice(0, 15);
-  const remaining = commits.slice(15);
+// REST issue payload -> Issue. The endpoint also lists pull requests (they carry a pull_request key)
+const toIssue = (raw: any): Issue => ({
+  id: raw.id,
+  number: raw.number,
+  title: raw.title,
+  state: raw.state === 'open' ? 'open' : 'closed',
+  user: { login: raw.user?.login || 'ghost', avatar_url: raw.user?.avatar_url || '' },
+  labels: (raw.labels || []).map((l: any) => (typeof l === 'string' ? l : l.name)),
+  assignees: (raw.assignees || []).map((a: any) => a.login),
+  html_url: raw.html_url,
+  created_at: raw.created_at,
+  updated_at: raw.updated_at,
+  closed_at: raw.closed_at,
+  comments: raw.comments,
+});
+
+// Looks up the first non-author, non-bot comment on the most recent issues
+const enrichIssuesWithFirstResponse = async (api: GithubEndpoints, owner: string, repo: string, issues: Issue[], scope: LoadScope): Promise<Issue[]> => {
+  const topIssues = issues.slice(0, 30);
+  const remaining = issues.slice(30);
+  scope.phase('issues', topIssues.length);
 
-  const enriched = await Promise.all(topCommits.map(async (c) => {
+  const enriched = await Promise.all(topIssues.map(async (issue) => {
+    if (!issue.comments) {
+      scope.step();
+      return { ...issue, first_response_at: null };
+    }
     try {
-      const res = await fetchWithRetry(c.url);
-      if (res.ok) {
-        const data = await res.json();
-        return {
-          ...c,
-          stats: data.stats,
-          filesModified: data.files?.map((f: any) => ({
-            filename: f.filename,
-            status: f.status,
-            patch: f.patch
-          }))
-        };
-      }
-      return c;
+      const res = await scope.request(`${api.apiBase}/repos/${owner}/${repo}/issues/${issue.number}/comments?per_page=30`);
+      if (!res.ok) return issue;
+      const comments: any[] = await res.json();
+      const response = comments.find(c => c.user?.login !== issue.user.login && c.user?.type !== 'Bot');
+      return { ...issue, first_response_at: response?.created_at ?? null };
     } catch (e) {
-      return c;
+      return issue;
+    } finally {
+      scope.step();
     }
   }));
 
   return [...enriched, ...remaining];
 };
 
-export const fetchRepoDetails = async (owner: string, repo: string): Promise<{
-  info: RepoInfo;
-  commits: Commit[];
-  pullRequests: PullRequest[];
-  files: FileNode[];
-  branches: Branch[];
-  contributors: Contributor[];
-  readme: string | null;
-  languages: Record<string, number>;
-}> => {
+// Resolves the requested snapshot to a commit SHA, failing loudly if the ref doesn't exist
+const resolveRef = async (api: GithubEndpoints, owner: string, repo: string, info: RepoInfo, request: Fetcher, ref?: AnalysisRef): Promise<ResolvedRef> => {
+  if (ref?.type === 'date') {
+    const params = new URLSearchParams({ sha: info.default_branch, until: ref.value, per_page: '1' });
+    const res = await request(`${api.apiBase}/repos/${owner}/${repo}/commits?${params}`);
+    const [commit]: Commit[] = res.ok ? await res.json() : [];
+    if (!commit) throw new Error(`No commits on ${info.default_branch} before ${new Date(ref.value).toLocaleString()}`);
+    return { label: `${info.default_branch} @ ${ref.value.slice(0, 10)}`, sha: commit.sha };
+  }
+
+  const name = ref?.value || info.default_branch;
+  const res = await request(`${api.apiBase}/repos/${owner}/${repo}/commits/${encodeURIComponent(name)}`, {
+    headers: { 'Accept': 'application/vnd.github.sha' }
+  });
+  if (!res.ok) throw new Error(`Ref "${name}" not found in ${owner}/${repo}`);
+  const sha = (await res.text()).trim();
+  return { label: ref?.type === 'sha' ? sha.substring(0, 7) : name, sha };
+};
+
+const fetchRepoDetailsRest = async (api: GithubEndpoints, owner: string, repo: string, options: FetchRepoOptions = {}): Promise<RepoDetails> => {
+  const { depth = DEFAULT_INGESTION_DEPTH, fileHistory: fileHistoryCommits = DEFAULT_FILE_HISTORY_COMMITS, onProgress, signal } = options;
+  const scope = createLoadScope(fetchWithRetry, signal, onProgress);
+  const { request } = scope;
 
   // 1. Fetch Repo Info
-  const infoRes = await fetchWithRetry(`${GITHUB_API_BASE}/repos/${owner}/${repo}`);
+  scope.phase('metadata');
+  const infoRes = await request(`${api.apiBase}/repos/${owner}/${repo}`);
   
-  if (infoRes.status === 403 || infoRes.status === 429) {
-    throw new Error('GitHub API rate limit exceeded. Please add more tokens in Settings.');
-  }
+  const failure = await classifyGithubFailure(infoRes);
+  if (failure) throw new Error(describeGithubFailure(failure));
   
   if (!infoRes.ok) throw new Error('Repository not found or private');
   const info: RepoInfo = await infoRes.json();
 
+  const ref = await resolveRef(api, owner, repo, info, request, options.ref);
+
+  // Commits honour the ingestion depth directly; PRs and issues follow the same window (count or date range)
+  const commitParams = new URLSearchParams({ sha: ref.sha, per_page: String(PER_PAGE) });
+  if (depth.mode === 'range') {
+    commitParams.set('since', depth.since);
+    commitParams.set('until', depth.until);
+  }
+  const maxItems = depth.mode === 'recent' ? depth.count : undefined;
+
   // Helper for parallel fetching
-  const [commitsRes, pullsRes, branchesRes, contributorsRes, treeRes, readmeRes, langsRes] = await Promise.all([
-    fetchWithRetry(`${GITHUB_API_BASE}/repos/${owner}/${repo}/commits?per_page=30`), 
-    fetchWithRetry(`${GITHUB_API_BASE}/repos/${owner}/${repo}/pulls?state=all&per_page=10`),
-    fetchWithRetry(`${GITHUB_API_BASE}/repos/${owner}/${repo}/branches?per_page=50`),
-    fetchWithRetry(`${GITHUB_API_BASE}/repos/${owner}/${repo}/contributors?per_page=50`),
-    fetchWithRetry(`${GITHUB_API_BASE}/repos/${owner}/${repo}/git/trees/${info.default_branch}?recursive=1`),
-    fetchWithRetry(`${GITHUB_API_BASE}/repos/${owner}/${repo}/readme`),
-    fetchWithRetry(`${GITHUB_API_BASE}/repos/${owner}/${repo}/languages`)
+  scope.phase('listing');
+  const [rawCommits, rawPullRequests, rawIssues, branchesData, tags, contributors, treeFiles, readmeRes, langsRes] = await Promise.all([
+    fetchAllPages<Commit>(request, `${api.apiBase}/repos/${owner}/${repo}/commits?${commitParams}`, { maxItems, onPage: scope.count('commits') }),
+    fetchAllPages<any>(request, `${api.apiBase}/repos/${owner}/${repo}/pulls?state=all&sort=created&direction=desc&per_page=${PER_PAGE}`, {
+      maxItems,
+      shouldStop: (page) => depth.mode === 'range' && page.some(pr => Date.parse(pr.created_at) < Date.parse(depth.since)),
+      onPage: scope.count('pullRequests')
+    }),
+    fetchAllPages<any>(request, `${api.apiBase}/repos/${owner}/${repo}/issues?state=all&sort=created&direction=desc&per_page=${PER_PAGE}`, {
+      maxItems,
+      shouldStop: (page) => depth.mode === 'range' && page.some(issue => Date.parse(issue.created_at) < Date.parse(depth.since)),
+      onPage: scope.count('issues')
+    }),
+    fetchAllPages<Branch>(request, `${api.apiBase}/repos/${owner}/${repo}/branches?per_page=${PER_PAGE}`, { onPage: scope.count('branches') }),
+    fetchAllPages<Tag>(request, `${api.apiBase}/repos/${owner}/${repo}/tags?per_page=${PER_PAGE}`),
+    fetchAllPages<Contributor>(request, `${api.apiBase}/repos/${owner}/${repo}/contributors?per_page=${PER_PAGE}`, { onPage: scope.count('contributors') }),
+    fetchGithubTree(api, owner, repo, ref.sha, EAGER_TREE_REQUESTS, undefined, request),
+    request(`${api.apiBase}/repos/${owner}/${repo}/readme?ref=${ref.sha}`),
+    request(`${api.apiBase}/repos/${owner}/${repo}/languages`)
   ]);
 
-  const rawCommits: Commit[] = commitsRes.ok ? await commitsRes.json() : [];
-  const pullRequests: PullRequest[] = pullsRes.ok ? await pullsRes.json() : [];
-  const branchesData = branchesRes.ok ? await branchesRes.json() : [];
-  const contributors: Contributor[] = contributorsRes.ok ? await contributorsRes.json() : [];
-  const treeData = treeRes.ok ? await treeRes.json() : {};
+  const pullRequests = await enrichPullRequests(api, owner, repo, (depth.mode === 'range'
+    ? rawPullRequests.filter(pr => {
+        const created = Date.parse(pr.created_at);
+        return created >= Date.parse(depth.since) && created <= Date.parse(depth.until);
+      })
+    : rawPullRequests).map(toPullRequest), scope);
+  const issues = await enrichIssuesWithFirstResponse(api, owner, repo, rawIssues
+    .filter(issue => !issue.pull_request)
+    .filter(issue => depth.mode !== 'range' || (Date.parse(issue.created_at) >= Date.parse(depth.since) && Date.parse(issue.created_at) <= Date.parse(depth.until)))
+    .map(toIssue), scope);
   const languages = langsRes.ok ? await langsRes.json() : {};
   
-  const commits = await enrichCommitsWithStats(rawCommits);
+  const { commits, fileHistory } = await enrichCommitsWithStats(rawCommits, scope, fileHistoryCommits, KeyManager.getRemainingQuota('github', getTokenHost(api.apiBase)));
 
-  const branches: Branch[] = Array.isArray(branchesData) ? branchesData.map((b: any) => ({
+  const branches: Branch[] = branchesData.map((b) => ({
     ...b,
-    html_url: `https://github.com/${owner}/${repo}/tree/${b.name}`
-  })) : [];
-
-  let files: FileNode[] = (treeData.tree || [])
-    .filter((node: FileNode) => node.type === 'blob')
-    .slice(0, 300)
-    .map((node: FileNode) => ({
-      ...node,
-      html_url: `https://github.com/${owner}/${repo}/blob/${info.default_branch}/${node.path}`
-    }));
-  
-  files = await fetchFileContents(files);
+    html_url: `${api.webBase}/${owner}/${repo}/tree/${b.name}`
+  }));
+
+  const { files } = await attachSourceContents(treeFiles, commits, readBlobs(scope));
+  scope.phase('analysis');
+  const [ci, dependencies] = await Promise.all([
+    fetchGithubCiReport(api, owner, repo, files, pullRequests, info.default_branch, request),
+    buildDependencyReport(files, f => fetchBlobText(f.url, request)),
+  ]);
 
   let readme = null;
   if (readmeRes.ok) {
     const readmeData = await readmeRes.json();
     if (readmeData.content && readmeData.encoding === 'base64') {
       try {
-        readme = decodeURIComponent(escape(atob(readmeData.content.replace(/\s/g, ''))));
+        readme = decodeBase64Content(readmeData.content);
       } catch (e) {
         console.error("Failed to decode readme", e);
       }
     }
   }
 
-  return { info, commits, pullRequests, files, branches, contributors, readme, languages };
-};
\ No newline at end of file
+  return { info, commits, pullRequests, issues, files, branches, tags, contributors, readme, languages, ref, ci, dependencies, fileHistory };
+};
+
+// One pull request for the focused review: its diff plus the head version of the changed files
+const fetchPullRequestRest = async (api: GithubEndpoints, location: PullRequestLocation, signal?: AbortSignal): Promise<PullRequestReviewData> => {
+  const { owner, repo } = location.repository;
+  const base = `${api.apiBase}/repos/${owner}/${repo}`;
+  const { request } = createLoadScope(fetchWithRetry, signal);
+
+  const res = await request(`${base}/pulls/${location.number}`);
+  if (!res.ok) {
+    const failure = await classifyGithubFailure(res);
+    if (failure) throw new Error(describeGithubFailure(failure));
+    throw new Error(res.status === 404 ? `Pull request #${location.number} not found in ${owner}/${repo}` : `GitHub API Error: ${res.statusText}`);
+  }
+  const raw = await res.json();
+
+  const rawFiles = await fetchAllPages<any>(request, `${base}/pulls/${location.number}/files?per_page=${PER_PAGE}`, { maxItems: MAX_PULL_REQUEST_FILES });
+  const headSha: string = raw.head.sha;
+
+  const files: PullRequestFile[] = await Promise.all(rawFiles.map(async (f, index): Promise<PullRequestFile> => {
+    const file: PullRequestFile = {
+      filename: f.filename,
+      previous_filename: f.previous_filename,
+      status: f.status,
+      additions: f.additions,
+      deletions: f.deletions,
+      patch: f.patch,
+    };
+    if (f.status === 'removed' || index >= MAX_CONTEXT_FILES) return file;
+    try {
+      const contentRes = await request(`${base}/contents/${f.filename.split('/').map(encodeURIComponent).join('/')}?ref=${headSha}`);
+      if (!contentRes.ok) return file;
+      const data = await contentRes.json();
+      return data.encoding === 'base64'
+        ? { ...file, content: decodeBase64Content(data.content).substring(0, MAX_FILE_CONTENT_CHARS) }
+        : file;
+    } catch (e) {
+      console.warn(`Failed to fetch content for ${f.filename}`, e);
+      return file;
+    }
+  }));
+  signal?.throwIfAborted();
+
+  return {
+    location,
+    pullRequest: {
+      ...toPullRequest(raw),
+      additions: raw.additions,
+      deletions: raw.deletions,
+      changed_files: raw.changed_files,
+      comment_count: raw.comments + raw.review_comments,
+    },
+    baseRef: raw.base.ref,
+    headRef: raw.head.label || raw.head.ref,
+    files,
+    filesTotal: raw.changed_files ?? files.length,
+  };
+};
+
+// Serves github.com and GitHub Enterprise Server; the location's host picks the endpoints and tokens
+export const githubProvider: RepositoryProvider = {
+  kinds: ['github', 'github-enterprise'],
+  fetchRepoDetails: async ({ host, owner, repo }, options) => {
+    const api = getGithubEndpoints(host);
+
+    // GraphQL needs an authenticated token; anonymous loads stay on REST
+    if (options.backend === 'graphql' && KeyManager.getValidKey('github', getTokenHost(api.apiBase))) {
+      return fetchRepoDetailsGraphql(api, owner, repo, options);
+    }
+    if (options.backend === 'graphql') {
+      console.warn('GraphQL ingestion requires a GitHub token. Falling back to REST.');
+    }
+    return fetchRepoDetailsRest(api, owner, repo, options);
+  },
+  fetchDirectory: ({ host, owner, repo }, ref, directory) =>
+    fetchGithubTree(getGithubEndpoints(host), owner, repo, ref.sha, LAZY_TREE_REQUESTS, directory),
+  // Tree entries on both backends carry the blob API URL
+  fetchFileContent: async (_location, _ref, file) => fetchBlobText(file.url),
+  fetchPullRequest: (location, signal) => fetchPullRequestRest(getGithubEndpoints(location.repository.host), location, signal),
+};
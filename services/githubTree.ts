@@ -0,0 +1,52 @@
+import { FileNode } from '../types';
+import { GithubEndpoints, fetchWithRetry } from './githubClient';
+import { Fetcher } from './loadScope';
+import { TreeSource, walkTree, rootDirectory } from './treeWalker';
+
+// Git trees API listing. The recursive endpoint caps out (truncated: true) on large monorepos,
+// so the walker falls back to per-directory listings.
+
+interface GithubTreeEntry {
+  path: string;
+  mode: string;
+  type: 'blob' | 'tree' | 'commit';
+  sha: string;
+  size?: number;
+  url: string;
+}
+
+const githubTreeSource = (api: GithubEndpoints, owner: string, repo: string, refSha: string, request: Fetcher): TreeSource => {
+  const toNode = (entry: GithubTreeEntry, prefix: string): FileNode => {
+    const path = `${prefix}${entry.path}`;
+    return {
+      path,
+      mode: entry.mode,
+      type: entry.type === 'tree' ? 'tree' : 'blob',
+      sha: entry.sha,
+      size: entry.size,
+      url: entry.url,
+      html_url: `${api.webBase}/${owner}/${repo}/${entry.type === 'tree' ? 'tree' : 'blob'}/${refSha}/${path}`,
+    };
+  };
+
+  const list = async (directory: FileNode, recursive: boolean) => {
+    const res = await request(`${api.apiBase}/repos/${owner}/${repo}/git/trees/${directory.sha}${recursive ? '?recursive=1' : ''}`);
+    if (!res.ok) throw new Error(`Tree request failed with ${res.status}`);
+    const data = await res.json();
+    const prefix = directory.path ? `${directory.path}/` : '';
+    // Submodules ('commit' entries) point into other repositories
+    const entries = (data.tree as GithubTreeEntry[]).filter(e => e.type !== 'commit');
+    return { entries: entries.map(e => toNode(e, prefix)), truncated: !!data.truncated };
+  };
+
+  return {
+    listRecursive: async (directory) => {
+      const { entries, truncated } = await list(directory, true);
+      return { nodes: entries.filter(e => e.type === 'blob'), complete: !truncated };
+    },
+    listLevel: async (directory) => (await list(directory, false)).entries,
+  };
+};
+
+export const fetchGithubTree = (api: GithubEndpoints, owner: string, repo: string, refSha: string, budget: number, directory = rootDirectory(refSha), request: Fetcher = fetchWithRetry) =>
+  walkTree(githubTreeSource(api, owner, repo, refSha, request), directory, budget);
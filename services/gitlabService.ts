@@ -0,0 +1,445 @@
+import { RepoInfo, Commit, FileNode, Branch, Tag, Contributor, PullRequest, Issue, RepoDetails, FetchRepoOptions, AnalysisRef, ResolvedRef, RepositoryProvider, CiReport, CiRun } from '../types';
+import { KeyManager } from './keyManager';
+import { DEFAULT_FILE_HISTORY_COMMITS, DEFAULT_INGESTION_DEPTH } from '../constants';
+import { ProviderHosts, defaultApiBase } from './providerHosts';
+import { attachSourceContents } from './sourceSelection';
+import { fetchAllPages } from './pagination';
+import { parseLinkedIssues } from './pullRequestInsights';
+import { buildDependencyReport } from './dependencyAnalysis';
+import { buildCiReport, isGitlabPipeline, parseCiDefinition } from './ciAnalysis';
+import { TreeSource, walkTree, rootDirectory, EAGER_TREE_REQUESTS, LAZY_TREE_REQUESTS } from './treeWalker';
+import { Fetcher, LoadScope, createLoadScope, enrichFileHistory } from './loadScope';
+
+// GitLab (gitlab.com and self-managed) ingestion over the v4 REST API.
+// Merge requests map onto PullRequest with iid as the number; contributors come from
+// /repository/contributors, which is keyed by commit author name rather than account.
+
+const PER_PAGE = 100;
+// Commit diffs are one request each
+const COMMIT_DIFF_CONCURRENCY = 8;
+// Entries one recursive listing may page through before the walker falls back to per-directory listings
+const MAX_RECURSIVE_TREE_ENTRIES = 2000;
+
+interface GitlabEndpoints {
+  apiBase: string;
+  tokenHost?: string;
+}
+
+const getGitlabEndpoints = (host: string): GitlabEndpoints => {
+  if (host === 'gitlab.com') return { apiBase: 'https://gitlab.com/api/v4' };
+  return { apiBase: ProviderHosts.find(host)?.apiBase || defaultApiBase(host, 'gitlab'), tokenHost: host };
+};
+
+// Same contract as fetchWithRetry on the GitHub side: rotate keys on 401/429 and record quota headers
+const fetchGitlab = async (api: GitlabEndpoints, url: string, options: RequestInit = {}, attempt = 0): Promise<Response> => {
+  const token = KeyManager.getValidKey('gitlab', api.tokenHost);
+  const headers: Record<string, string> = {};
+  if (token) {
+    headers['PRIVATE-TOKEN'] = token;
+  }
+
+  const response = await fetch(url, { ...options, headers });
+
+  const limit = response.headers.get('RateLimit-Limit');
+  const remaining = response.headers.get('RateLimit-Remaining');
+  const reset = response.headers.get('RateLimit-Reset');
+  if (limit !== null && remaining !== null && reset !== null) {
+    if (token) KeyManager.updateRateLimit(token, Number(limit), Number(remaining), Number(reset) * 1000);
+    else KeyManager.updateAnonymousRateLimit('gitlab', api.tokenHost, Number(limit), Number(remaining), Number(reset) * 1000);
+  }
+
+  if (token && (response.status === 401 || response.status === 429)) {
+    if (response.status === 401) {
+      KeyManager.markInvalid(token, 'Unauthorized');
+    } else {
+      const retryAfter = response.headers.get('Retry-After');
+      KeyManager.markRateLimited(token, reset ? Number(reset) * 1000 : retryAfter ? Date.now() + Number(retryAfter) * 1000 : undefined);
+    }
+    if (attempt < 5) {
+      console.log(`GitLab ${response.status}. Rotating key and retrying (Attempt ${attempt + 1})...`);
+      return fetchGitlab(api, url, options, attempt + 1);
+    }
+  }
+
+  return response;
+};
+
+const describeGitlabFailure = (status: number): string => {
+  if (status === 401) return 'GitLab rejected the token. Check your keys in Settings.';
+  if (status === 429) return 'GitLab API rate limit exceeded. Please add more tokens in Settings.';
+  if (status === 403) return 'Access to this project is forbidden for the current token.';
+  return 'Project not found or private';
+};
+
+const resolveRef = async (request: Fetcher, projectUrl: string, info: RepoInfo, ref?: AnalysisRef): Promise<ResolvedRef> => {
+  if (ref?.type === 'date') {
+    const params = new URLSearchParams({ ref_name: info.default_branch, until: ref.value, per_page: '1' });
+    const res = await request(`${projectUrl}/repository/commits?${params}`);
+    const [commit] = res.ok ? await res.json() : [];
+    if (!commit) throw new Error(`No commits on ${info.default_branch} before ${new Date(ref.value).toLocaleString()}`);
+    return { label: `${info.default_branch} @ ${ref.value.slice(0, 10)}`, sha: commit.id };
+  }
+
+  const name = ref?.value || info.default_branch;
+  const res = await request(`${projectUrl}/repository/commits/${encodeURIComponent(name)}`);
+  if (!res.ok) throw new Error(`Ref "${name}" not found in ${info.full_name}`);
+  const commit = await res.json();
+  return { label: ref?.type === 'sha' ? commit.id.substring(0, 7) : name, sha: commit.id };
+};
+
+const mapCommit = (c: any, projectUrl: string): Commit => ({
+  sha: c.id,
+  commit: {
+    message: c.message,
+    author: { name: c.author_name, email: c.author_email, date: c.authored_date },
+    committer: { name: c.committer_name, date: c.committed_date },
+  },
+  html_url: c.web_url,
+  url: `${projectUrl}/repository/commits/${c.id}`,
+  stats: c.stats,
+});
+
+// Adds per-file diffs to the newest `limit` commits, like enrichCommitsWithStats on GitHub
+const enrichCommitsWithDiffs = (scope: LoadScope, commits: Commit[], limit: number, remainingQuota: number | null) =>
+  enrichFileHistory(commits, scope, limit, remainingQuota, COMMIT_DIFF_CONCURRENCY, async c => {
+    const res = await scope.request(`${c.url}/diff`);
+    if (!res.ok) return null;
+    const diffs = await res.json();
+    return {
+      ...c,
+      filesModified: diffs.map((d: any) => ({
+        filename: d.new_path,
+        status: d.new_file ? 'added' : d.deleted_file ? 'removed' : d.renamed_file ? 'renamed' : 'modified',
+        patch: d.diff,
+      })),
+    };
+  });
+
+// Approvals, discussion, size and closed issues for the most recent merge requests.
+// GitLab has no review verdicts beyond approval, so other commenters count as COMMENTED reviews.
+const enrichMergeRequests = async (scope: LoadScope, projectUrl: string, pullRequests: PullRequest[]): Promise<PullRequest[]> => {
+  const topPullRequests = pullRequests.slice(0, 15);
+  const remaining = pullRequests.slice(15);
+  scope.phase('pull-requests', topPullRequests.length);
+  const getJson = async (url: string) => {
+    const res = await scope.request(url);
+    return res.ok ? res.json() : null;
+  };
+
+  const enriched = await Promise.all(topPullRequests.map(async (pr) => {
+    const mrUrl = `${projectUrl}/merge_requests/${pr.number}`;
+    try {
+      const [approvals, rawNotes, diffs, closedIssues] = await Promise.all([
+        getJson(`${mrUrl}/approvals`),
+        getJson(`${mrUrl}/notes?sort=asc&order_by=created_at&per_page=30`),
+        getJson(`${mrUrl}/diffs?per_page=${PER_PAGE}`),
+        getJson(`${mrUrl}/closes_issues`),
+      ]);
+      const notes: any[] = (rawNotes || []).filter((n: any) => !n.system);
+      const approvers: string[] = (approvals?.approved_by || []).map((a: any) => a.user.username);
+      const commenters = [...new Set(notes.map(n => n.author?.username as string))]
+        .filter(login => login && login !== pr.user.login && !approvers.includes(login));
+
+      let additions = 0;
+      let deletions = 0;
+      (diffs || []).forEach((d: any) => (d.diff as string).split('\n').forEach(line => {
+        if (line.startsWith('+')) additions++;
+        else if (line.startsWith('-')) deletions++;
+      }));
+
+      return {
+        ...pr,
+        reviews: [
+          ...approvers.map(author => ({ author, state: 'APPROVED' })),
+          ...commenters.map(author => ({ author, state: 'COMMENTED' })),
+        ],
+        comments: notes.slice(0, 10).map(n => ({
+          author: n.author?.username || 'ghost',
+          body: n.body,
+          created_at: n.created_at,
+          path: n.position?.new_path,
+        })),
+        additions: diffs ? additions : undefined,
+        deletions: diffs ? deletions : undefined,
+        changed_files: diffs?.length,
+        linked_issues: [...new Set([...(closedIssues || []).map((i: any) => i.iid as number), ...(pr.linked_issues || [])])],
+      };
+    } catch (e) {
+      return pr;
+    } finally {
+      scope.step();
+    }
+  }));
+
+  return [...enriched, ...remaining];
+};
+
+// First human note on the most recent issues; system notes (label changes, mentions) don't count
+const enrichIssuesWithFirstResponse = async (scope: LoadScope, projectUrl: string, issues: Issue[]): Promise<Issue[]> => {
+  const topIssues = issues.slice(0, 30);
+  const remaining = issues.slice(30);
+  scope.phase('issues', topIssues.length);
+
+  const enriched = await Promise.all(topIssues.map(async (issue) => {
+    if (!issue.comments) {
+      scope.step();
+      return { ...issue, first_response_at: null };
+    }
+    try {
+      const res = await scope.request(`${projectUrl}/issues/${issue.number}/notes?sort=asc&order_by=created_at&per_page=30`);
+      if (!res.ok) return issue;
+      const notes: any[] = await res.json();
+      const response = notes.find(n => !n.system && n.author?.username !== issue.user.login && !n.author?.bot);
+      return { ...issue, first_response_at: response?.created_at ?? null };
+    } catch (e) {
+      return issue;
+    } finally {
+      scope.step();
+    }
+  }));
+
+  return [...enriched, ...remaining];
+};
+
+const gitlabTreeSource = (request: Fetcher, projectUrl: string, webUrl: string, refSha: string): TreeSource => {
+  const toNode = (e: any): FileNode => ({
+    path: e.path,
+    mode: e.mode,
+    type: e.type === 'tree' ? 'tree' : 'blob',
+    sha: e.id,
+    url: `${projectUrl}/repository/blobs/${e.id}/raw`,
+    html_url: `${webUrl}/-/${e.type === 'tree' ? 'tree' : 'blob'}/${refSha}/${e.path}`,
+  });
+  const listUrl = (directory: FileNode, recursive: boolean) => {
+    const params = new URLSearchParams({ ref: refSha, per_page: String(PER_PAGE), recursive: String(recursive) });
+    if (directory.path) params.set('path', directory.path);
+    return `${projectUrl}/repository/tree?${params}`;
+  };
+
+  return {
+    listRecursive: async (directory) => {
+      const entries = await fetchAllPages<any>(request, listUrl(directory, true), { maxItems: MAX_RECURSIVE_TREE_ENTRIES + 1 });
+      return {
+        nodes: entries.filter(e => e.type === 'blob').map(toNode),
+        complete: entries.length <= MAX_RECURSIVE_TREE_ENTRIES,
+      };
+    },
+    // Submodules come back as 'commit' entries and are skipped
+    listLevel: async (directory) =>
+      (await fetchAllPages<any>(request, listUrl(directory, false))).filter(e => e.type !== 'commit').map(toNode),
+  };
+};
+
+const fetchRawFile = async (request: Fetcher, url: string): Promise<string | null> => {
+  try {
+    const res = await request(url);
+    return res.ok ? await res.text() : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+const toPipelineConclusion = (status: string): CiRun['conclusion'] => {
+  if (status === 'success') return 'success';
+  if (status === 'failed') return 'failure';
+  if (status === 'canceled') return 'cancelled';
+  if (status === 'skipped' || status === 'manual' || status === 'scheduled') return 'other';
+  return null;
+};
+
+// Pipelines stand in for workflow runs. The list has no duration, so created -> last update is
+// used, which includes time spent queued.
+const fetchGitlabCiReport = async (request: Fetcher, projectUrl: string, project: any, files: FileNode[], pullRequests: PullRequest[]): Promise<CiReport> => {
+  const definitionFile = files.find(f => f.type === 'blob' && isGitlabPipeline(f.path));
+  const sampled = pullRequests.filter(pr => pr.head_sha).slice(0, 10);
+
+  const [definition, pipelinesRes, pullRequestChecks] = await Promise.all([
+    definitionFile ? fetchRawFile(request, definitionFile.url) : Promise.resolve(null),
+    request(`${projectUrl}/pipelines?per_page=${PER_PAGE}`).catch(() => null),
+    Promise.all(sampled.map(async (pr) => {
+      try {
+        const res = await request(`${projectUrl}/merge_requests/${pr.number}/pipelines`);
+        if (!res.ok) return null;
+        const onHead = (await res.json() as any[]).filter(p => p.sha === pr.head_sha);
+        return { number: pr.number, checks: onHead.length, failing: onHead.filter(p => p.status === 'failed').length, merged: !!pr.merged_at };
+      } catch (e) {
+        return null;
+      }
+    })),
+  ]);
+
+  const runs: CiRun[] | null = pipelinesRes?.ok
+    ? (await pipelinesRes.json() as any[]).map(p => {
+        const conclusion = toPipelineConclusion(p.status);
+        return {
+          workflow: definitionFile?.path || '.gitlab-ci.yml',
+          name: 'GitLab CI pipeline',
+          event: p.source,
+          conclusion,
+          durationMinutes: conclusion && conclusion !== 'other' ? (Date.parse(p.updated_at) - Date.parse(p.created_at)) / 60000 : null,
+          created_at: p.created_at,
+        };
+      })
+    : null;
+
+  return buildCiReport(
+    definitionFile && definition !== null ? [parseCiDefinition(definitionFile.path, definition)] : [],
+    runs,
+    pullRequestChecks.filter((c): c is CiReport['pullRequestChecks'][number] => c !== null),
+    // The closest GitLab has to required checks is the project-wide "pipelines must succeed" setting
+    project.only_allow_merge_if_pipeline_succeeds === undefined ? null : project.only_allow_merge_if_pipeline_succeeds ? ['pipeline'] : []
+  );
+};
+
+export const gitlabProvider: RepositoryProvider = {
+  kinds: ['gitlab'],
+  fetchRepoDetails: async ({ host, owner, repo }, options: FetchRepoOptions): Promise<RepoDetails> => {
+    const api = getGitlabEndpoints(host);
+    const projectUrl = `${api.apiBase}/projects/${encodeURIComponent(`${owner}/${repo}`)}`;
+    const { depth = DEFAULT_INGESTION_DEPTH, fileHistory: fileHistoryCommits = DEFAULT_FILE_HISTORY_COMMITS, onProgress, signal } = options;
+    const scope = createLoadScope((url, init) => fetchGitlab(api, url, init), signal, onProgress);
+    const { request } = scope;
+
+    // 1. Fetch Project Info
+    scope.phase('metadata');
+    const projectRes = await request(projectUrl);
+    if (!projectRes.ok) throw new Error(describeGitlabFailure(projectRes.status));
+    const project = await projectRes.json();
+
+    const info: RepoInfo = {
+      name: project.name,
+      full_name: project.path_with_namespace,
+      description: project.description || '',
+      html_url: project.web_url,
+      stargazers_count: project.star_count,
+      forks_count: project.forks_count,
+      open_issues_count: project.open_issues_count || 0,
+      default_branch: project.default_branch,
+      owner: {
+        login: project.namespace.full_path,
+        avatar_url: project.avatar_url || project.namespace.avatar_url || '',
+      },
+    };
+
+    const ref = await resolveRef(request, projectUrl, info, options.ref);
+
+    const commitParams = new URLSearchParams({ ref_name: ref.sha, with_stats: 'true', per_page: String(PER_PAGE) });
+    if (depth.mode === 'range') {
+      commitParams.set('since', depth.since);
+      commitParams.set('until', depth.until);
+    }
+    const maxItems = depth.mode === 'recent' ? depth.count : undefined;
+
+    // 2. Parallel fetching
+    scope.phase('listing');
+    const [rawCommits, rawMergeRequests, rawIssues, rawBranches, rawTags, rawContributors, treeFiles, langsRes] = await Promise.all([
+      fetchAllPages<any>(request, `${projectUrl}/repository/commits?${commitParams}`, { maxItems, onPage: scope.count('commits') }),
+      fetchAllPages<any>(request, `${projectUrl}/merge_requests?state=all&order_by=created_at&sort=desc&per_page=${PER_PAGE}`, {
+        maxItems,
+        shouldStop: (page) => depth.mode === 'range' && page.some(mr => Date.parse(mr.created_at) < Date.parse(depth.since)),
+        onPage: scope.count('pullRequests')
+      }),
+      fetchAllPages<any>(request, `${projectUrl}/issues?scope=all&state=all&order_by=created_at&sort=desc&per_page=${PER_PAGE}`, {
+        maxItems,
+        shouldStop: (page) => depth.mode === 'range' && page.some(issue => Date.parse(issue.created_at) < Date.parse(depth.since)),
+        onPage: scope.count('issues')
+      }),
+      fetchAllPages<any>(request, `${projectUrl}/repository/branches?per_page=${PER_PAGE}`, { onPage: scope.count('branches') }),
+      fetchAllPages<any>(request, `${projectUrl}/repository/tags?per_page=${PER_PAGE}`),
+      fetchAllPages<any>(request, `${projectUrl}/repository/contributors?order_by=commits&sort=desc&per_page=${PER_PAGE}`, { onPage: scope.count('contributors') }),
+      walkTree(gitlabTreeSource(request, projectUrl, info.html_url, ref.sha), rootDirectory(ref.sha), EAGER_TREE_REQUESTS),
+      request(`${projectUrl}/languages`)
+    ]);
+
+    const { commits, fileHistory } = await enrichCommitsWithDiffs(scope, rawCommits.map(c => mapCommit(c, projectUrl)), fileHistoryCommits, KeyManager.getRemainingQuota('gitlab', api.tokenHost));
+
+    const pullRequests = await enrichMergeRequests(scope, projectUrl, rawMergeRequests
+      .filter(mr => depth.mode !== 'range' || (Date.parse(mr.created_at) >= Date.parse(depth.since) && Date.parse(mr.created_at) <= Date.parse(depth.until)))
+      .map((mr): PullRequest => ({
+        id: mr.id,
+        number: mr.iid,
+        title: mr.title,
+        user: { login: mr.author?.username || 'ghost', avatar_url: mr.author?.avatar_url || '' },
+        html_url: mr.web_url,
+        state: mr.state === 'opened' ? 'open' : 'closed',
+        created_at: mr.created_at,
+        body: mr.description,
+        merged_at: mr.merged_at,
+        closed_at: mr.closed_at,
+        requested_reviewers: (mr.reviewers || []).map((r: any) => r.username),
+        comment_count: mr.user_notes_count,
+        linked_issues: parseLinkedIssues(mr.description),
+        head_sha: mr.sha,
+      })));
+
+    const issues = await enrichIssuesWithFirstResponse(scope, projectUrl, rawIssues
+      .filter(issue => depth.mode !== 'range' || (Date.parse(issue.created_at) >= Date.parse(depth.since) && Date.parse(issue.created_at) <= Date.parse(depth.until)))
+      .map((issue): Issue => ({
+        id: issue.id,
+        number: issue.iid,
+        title: issue.title,
+        state: issue.state === 'opened' ? 'open' : 'closed',
+        user: { login: issue.author?.username || 'ghost', avatar_url: issue.author?.avatar_url || '' },
+        labels: issue.labels || [],
+        assignees: (issue.assignees || []).map((a: any) => a.username),
+        html_url: issue.web_url,
+        created_at: issue.created_at,
+        updated_at: issue.updated_at,
+        closed_at: issue.closed_at,
+        comments: issue.user_notes_count || 0,
+      })));
+
+    const branches: Branch[] = rawBranches.map(b => ({
+      name: b.name,
+      commit: { sha: b.commit.id, url: `${projectUrl}/repository/commits/${b.commit.id}` },
+      html_url: b.web_url || `${info.html_url}/-/tree/${b.name}`,
+    }));
+
+    const tags: Tag[] = rawTags.map(t => ({
+      name: t.name,
+      commit: { sha: t.commit.id, url: `${projectUrl}/repository/commits/${t.commit.id}` },
+    }));
+
+    const contributors: Contributor[] = rawContributors.map((c, index) => ({
+      login: c.name,
+      id: index,
+      avatar_url: '',
+      html_url: `${info.html_url}/-/commits/${info.default_branch}?author=${encodeURIComponent(c.name)}`,
+      contributions: c.commits,
+    }));
+
+    // GitLab reports languages as percentages; the Dashboard only needs relative weights
+    const languages: Record<string, number> = langsRes.ok ? await langsRes.json() : {};
+
+    // 3. File contents + README, read with the manifests
+    const readmeFile = treeFiles.find(f => /^readme(\.[a-z]+)?$/i.test(f.path));
+    const { files, texts } = await attachSourceContents(treeFiles, commits, async batch => {
+      scope.phase('contents', batch.length);
+      const contents = await Promise.all(batch.map(async f => {
+        const content = await fetchRawFile(request, f.url);
+        scope.step();
+        return content;
+      }));
+      return new Map(batch.flatMap((f, i) => (contents[i] !== null ? [[f.path, contents[i]!] as const] : [])));
+    }, readmeFile ? [readmeFile] : []);
+    const readme = readmeFile ? texts.get(readmeFile.path) ?? null : null;
+
+    scope.phase('analysis');
+    const [ci, dependencies] = await Promise.all([
+      fetchGitlabCiReport(request, projectUrl, project, files, pullRequests),
+      buildDependencyReport(files, f => fetchRawFile(request, f.url)),
+    ]);
+
+    return { info, commits, pullRequests, issues, files, branches, tags, contributors, readme, languages, ref, ci, dependencies, fileHistory };
+  },
+  fetchDirectory: async ({ host, owner, repo }, ref, directory) => {
+    const api = getGitlabEndpoints(host);
+    const projectUrl = `${api.apiBase}/projects/${encodeURIComponent(`${owner}/${repo}`)}`;
+    const webUrl = `https://${host}/${owner}/${repo}`;
+    return walkTree(gitlabTreeSource(url => fetchGitlab(api, url), projectUrl, webUrl, ref.sha), directory, LAZY_TREE_REQUESTS);
+  },
+  fetchFileContent: async ({ host }, _ref, file) => {
+    const api = getGitlabEndpoints(host);
+    return fetchRawFile(url => fetchGitlab(api, url), file.url);
+  },
+};
@@ -0,0 +1,116 @@
+const DB_NAME = "http_cache_v1";
+const STORE_NAME = "responses";
+
+export interface CachedResponse {
+  url: string;
+  body: string;
+  etag?: string;
+  lastModified?: string;
+  link?: string;
+  contentType?: string;
+  storedAt: number;
+  size: number;
+}
+
+export interface CacheStats {
+  entries: number;
+  bytes: number;
+}
+
+// Wraps an IDBRequest in a promise
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+class HttpCacheService {
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+
+  // Opens the database lazily. Resolves to null where IndexedDB is unavailable (private mode, old browsers)
+  private open(): Promise<IDBDatabase | null> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve) => {
+        if (typeof indexedDB === "undefined") {
+          resolve(null);
+          return;
+        }
+        const request = indexedDB.open(DB_NAME, 1);
+        request.onupgradeneeded = () => {
+          request.result.createObjectStore(STORE_NAME, { keyPath: "url" });
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          console.warn("HTTP cache unavailable", request.error);
+          resolve(null);
+        };
+      });
+    }
+    return this.dbPromise;
+  }
+
+  public async get(url: string): Promise<CachedResponse | null> {
+    const db = await this.open();
+    if (!db) return null;
+    try {
+      const entry = await promisify(db.transaction(STORE_NAME, "readonly").objectStore(STORE_NAME).get(url));
+      return (entry as CachedResponse) || null;
+    } catch (e) {
+      return null;
+    }
+  }
+
+  public async put(entry: Omit<CachedResponse, "storedAt" | "size">) {
+    const db = await this.open();
+    if (!db) return;
+    try {
+      await promisify(
+        db.transaction(STORE_NAME, "readwrite").objectStore(STORE_NAME).put({
+          ...entry,
+          storedAt: Date.now(),
+          size: entry.body.length,
+        })
+      );
+    } catch (e) {
+      console.warn("Failed to write HTTP cache entry", e);
+    }
+  }
+
+  public async clear() {
+    const db = await this.open();
+    if (!db) return;
+    await promisify(db.transaction(STORE_NAME, "readwrite").objectStore(STORE_NAME).clear());
+  }
+
+  public async getStats(): Promise<CacheStats> {
+    const db = await this.open();
+    if (!db) return { entries: 0, bytes: 0 };
+
+    return new Promise((resolve) => {
+      const stats: CacheStats = { entries: 0, bytes: 0 };
+      const request = db.transaction(STORE_NAME, "readonly").objectStore(STORE_NAME).openCursor();
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (cursor) {
+          stats.entries++;
+          stats.bytes += (cursor.value as CachedResponse).size || 0;
+          cursor.continue();
+        } else {
+          resolve(stats);
+        }
+      };
+      request.onerror = () => resolve(stats);
+    });
+  }
+
+  // Rebuilds a Response from a cached entry so callers can't tell it apart from a network hit
+  public toResponse(entry: CachedResponse): Response {
+    const headers: Record<string, string> = { "Content-Type": entry.contentType || "application/json" };
+    if (entry.etag) headers["ETag"] = entry.etag;
+    if (entry.lastModified) headers["Last-Modified"] = entry.lastModified;
+    if (entry.link) headers["Link"] = entry.link;
+    return new Response(entry.body, { status: 200, headers });
+  }
+}
+
+export const HttpCache = new HttpCacheService();
@@ -0,0 +1,190 @@
+// Minimal DEFLATE (RFC 1951) decoder. Unlike DecompressionStream it is synchronous and reports how
+// many input bytes a stream consumed, which packfiles need because their objects sit back to back.
+
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+const DIST_BASE = [1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769, 1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577];
+const DIST_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+export interface InflateResult {
+  data: Uint8Array;
+  end: number; // Offset just past the last input byte the stream used
+}
+
+interface Huffman {
+  counts: Uint16Array;
+  symbols: Uint16Array;
+}
+
+const buildHuffman = (lengths: ArrayLike<number>): Huffman => {
+  const counts = new Uint16Array(16);
+  for (let i = 0; i < lengths.length; i++) counts[lengths[i]]++;
+  counts[0] = 0;
+
+  const offsets = new Uint16Array(16);
+  for (let len = 1; len < 16; len++) offsets[len] = offsets[len - 1] + counts[len - 1];
+
+  const symbols = new Uint16Array(lengths.length);
+  for (let i = 0; i < lengths.length; i++) {
+    if (lengths[i]) symbols[offsets[lengths[i]]++] = i;
+  }
+  return { counts, symbols };
+};
+
+const FIXED_LITERALS = buildHuffman(Array.from({ length: 288 }, (_, i) => (i < 144 ? 8 : i < 256 ? 9 : i < 280 ? 7 : 8)));
+const FIXED_DISTANCES = buildHuffman(new Array(30).fill(5));
+
+class Inflater {
+  private pos: number;
+  private bitBuf = 0;
+  private bitCount = 0;
+  private out: Uint8Array;
+  private outLen = 0;
+
+  constructor(private input: Uint8Array, offset: number, sizeHint: number) {
+    this.pos = offset;
+    this.out = new Uint8Array(Math.max(sizeHint, 1024));
+  }
+
+  private bits(n: number): number {
+    while (this.bitCount < n) {
+      if (this.pos >= this.input.length) throw new Error('Unexpected end of compressed data');
+      this.bitBuf |= this.input[this.pos++] << this.bitCount;
+      this.bitCount += 8;
+    }
+    const value = this.bitBuf & ((1 << n) - 1);
+    this.bitBuf >>>= n;
+    this.bitCount -= n;
+    return value;
+  }
+
+  private ensure(extra: number) {
+    if (this.outLen + extra <= this.out.length) return;
+    const grown = new Uint8Array(Math.max(this.out.length * 2, this.outLen + extra));
+    grown.set(this.out.subarray(0, this.outLen));
+    this.out = grown;
+  }
+
+  // Canonical Huffman decode, one bit at a time
+  private decode(h: Huffman): number {
+    let code = 0;
+    let first = 0;
+    let index = 0;
+    for (let len = 1; len < 16; len++) {
+      code |= this.bits(1);
+      const count = h.counts[len];
+      if (code - first < count) return h.symbols[index + code - first];
+      index += count;
+      first = (first + count) << 1;
+      code <<= 1;
+    }
+    throw new Error('Invalid Huffman code');
+  }
+
+  // Drops the partial byte; whole bytes still sitting in the bit buffer are handed back
+  private alignToByte() {
+    this.pos -= this.bitCount >> 3;
+    this.bitBuf = 0;
+    this.bitCount = 0;
+  }
+
+  private stored() {
+    this.alignToByte();
+    if (this.pos + 4 > this.input.length) throw new Error('Unexpected end of compressed data');
+    const len = this.input[this.pos] | (this.input[this.pos + 1] << 8);
+    this.pos += 4;
+    if (this.pos + len > this.input.length) throw new Error('Unexpected end of compressed data');
+    this.ensure(len);
+    this.out.set(this.input.subarray(this.pos, this.pos + len), this.outLen);
+    this.outLen += len;
+    this.pos += len;
+  }
+
+  private codes(literals: Huffman, distances: Huffman) {
+    for (;;) {
+      const symbol = this.decode(literals);
+      if (symbol < 256) {
+        this.ensure(1);
+        this.out[this.outLen++] = symbol;
+      } else if (symbol === 256) {
+        return;
+      } else {
+        const lengthIndex = symbol - 257;
+        if (lengthIndex >= 29) throw new Error('Invalid length code');
+        const length = LENGTH_BASE[lengthIndex] + this.bits(LENGTH_EXTRA[lengthIndex]);
+        const distIndex = this.decode(distances);
+        if (distIndex >= 30) throw new Error('Invalid distance code');
+        const distance = DIST_BASE[distIndex] + this.bits(DIST_EXTRA[distIndex]);
+        if (distance > this.outLen) throw new Error('Distance too far back');
+        this.ensure(length);
+        for (let i = 0; i < length; i++) {
+          this.out[this.outLen] = this.out[this.outLen - distance];
+          this.outLen++;
+        }
+      }
+    }
+  }
+
+  private dynamic() {
+    const literalCount = this.bits(5) + 257;
+    const distanceCount = this.bits(5) + 1;
+    const codeLengthCount = this.bits(4) + 4;
+
+    const codeLengths = new Uint8Array(19);
+    for (let i = 0; i < codeLengthCount; i++) codeLengths[CODE_LENGTH_ORDER[i]] = this.bits(3);
+    const codeLengthHuffman = buildHuffman(codeLengths);
+
+    const lengths = new Uint8Array(literalCount + distanceCount);
+    let i = 0;
+    while (i < lengths.length) {
+      const symbol = this.decode(codeLengthHuffman);
+      if (symbol < 16) {
+        lengths[i++] = symbol;
+        continue;
+      }
+      let repeat: number;
+      let value = 0;
+      if (symbol === 16) {
+        if (i === 0) throw new Error('Repeat with no previous length');
+        value = lengths[i - 1];
+        repeat = 3 + this.bits(2);
+      } else if (symbol === 17) {
+        repeat = 3 + this.bits(3);
+      } else {
+        repeat = 11 + this.bits(7);
+      }
+      if (i + repeat > lengths.length) throw new Error('Too many code lengths');
+      lengths.fill(value, i, i + repeat);
+      i += repeat;
+    }
+
+    this.codes(buildHuffman(lengths.subarray(0, literalCount)), buildHuffman(lengths.subarray(literalCount)));
+  }
+
+  run(): InflateResult {
+    let last = 0;
+    while (!last) {
+      last = this.bits(1);
+      const type = this.bits(2);
+      if (type === 0) this.stored();
+      else if (type === 1) this.codes(FIXED_LITERALS, FIXED_DISTANCES);
+      else if (type === 2) this.dynamic();
+      else throw new Error('Invalid block type');
+    }
+    this.alignToByte();
+    return { data: this.out.subarray(0, this.outLen), end: this.pos };
+  }
+}
+
+export const inflateRaw = (input: Uint8Array, offset = 0, sizeHint = 0): InflateResult =>
+  new Inflater(input, offset, sizeHint).run();
+
+// zlib framing (RFC 1950): 2-byte header, raw deflate, 4-byte Adler-32 trailer
+export const inflateZlib = (input: Uint8Array, offset = 0, sizeHint = 0): InflateResult => {
+  if ((input[offset] & 0x0f) !== 8 || ((input[offset] << 8) | input[offset + 1]) % 31 !== 0) {
+    throw new Error('Not a zlib stream');
+  }
+  const { data, end } = inflateRaw(input, offset + 2, sizeHint);
+  return { data, end: end + 4 };
+};
@@ -0,0 +1,52 @@
+import { Issue, IssueHealthReport } from '../types';
+
+// Open issues untouched for this long count as stale
+export const STALE_ISSUE_DAYS = 30;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const median = (values: number[]): number | null => {
+  if (!values.length) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+};
+
+const hoursBetween = (from: string, to: string) => (Date.parse(to) - Date.parse(from)) / HOUR_MS;
+
+export const analyzeIssueHealth = (issues: Issue[], now = Date.now()): IssueHealthReport => {
+  const open = issues.filter(i => i.state === 'open');
+  const closed = issues.filter(i => i.state === 'closed');
+
+  // Only issues whose comments were looked up say anything about responsiveness
+  const responded = issues.filter(i => i.first_response_at);
+  const staleBefore = now - STALE_ISSUE_DAYS * 24 * HOUR_MS;
+
+  const labelCounts = new Map<string, number>();
+  issues.forEach(i => i.labels.forEach(l => labelCounts.set(l, (labelCounts.get(l) || 0) + 1)));
+
+  return {
+    total: issues.length,
+    open: open.length,
+    closed: closed.length,
+    medianFirstResponseHours: median(responded.map(i => hoursBetween(i.created_at, i.first_response_at!))),
+    unansweredOpen: open.filter(i => i.first_response_at === null).length,
+    medianTimeToCloseHours: median(closed.filter(i => i.closed_at).map(i => hoursBetween(i.created_at, i.closed_at!))),
+    stale: open
+      .filter(i => Date.parse(i.updated_at) < staleBefore)
+      .sort((a, b) => Date.parse(a.updated_at) - Date.parse(b.updated_at)),
+    unassignedOpen: open.filter(i => !i.assignees.length).length,
+    unlabeled: issues.filter(i => !i.labels.length).length,
+    labels: [...labelCounts.entries()]
+      .map(([name, count]) => ({ name, count }))
+      .sort((a, b) => b.count - a.count),
+  };
+};
+
+// "3h", "2.5d" style durations for the UI and prompt
+export const formatHours = (hours: number | null) => {
+  if (hours === null) return 'n/a';
+  if (hours < 1) return `${Math.round(hours * 60)}m`;
+  if (hours < 48) return `${Math.round(hours)}h`;
+  return `${(hours / 24).toFixed(1)}d`;
+};
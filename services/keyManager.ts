@@ -1,4 +1,4 @@
-import { ManagedKey } from "../types";
+import { ManagedKey, KeyType, LLMTarget } from "../types";
 
 const STORAGE_KEY = "secure_key_vault_v1";
 
@@ -23,6 +23,8 @@ const deobfuscate = (text: string) => {
 class KeyManagerService {
   private keys: ManagedKey[] = [];
   private envLoaded = false;
+  // Quota for requests sent without a token, per provider and host
+  private anonymousRateLimits = new Map<string, NonNullable<ManagedKey['rateLimit']>>();
 
   constructor() {
     this.loadKeys();
@@ -34,7 +36,8 @@ class KeyManagerService {
     if (stored) {
       try {
         const parsed = JSON.parse(stored);
-        this.keys = parsed.map((k: any) => ({
+        // Older versions persisted invalid/benched state; it only ever applies to the session that saw it
+        this.keys = parsed.map(({ invalidReason, isRateLimitedUntil, rateLimit, ...k }: any) => ({
           ...k,
           token: deobfuscate(k.token),
         }));
@@ -45,8 +48,9 @@ class KeyManagerService {
     }
   }
 
+  // Quota, bench and invalid state stay in memory, so a transient 401/403 can't disable a key for good
   private saveKeys() {
-    const toStore = this.keys.map((k) => ({
+    const toStore = this.keys.map(({ invalidReason, isRateLimitedUntil, rateLimit, ...k }) => ({
       ...k,
       token: obfuscate(k.token),
     }));
@@ -91,12 +95,16 @@ class KeyManagerService {
     return this.keys;
   }
 
-  public addKey(name: string, type: "github" | "gemini", token: string) {
+  // host is for self-hosted GitHub/GitLab tokens; baseUrl and model for LLM keys
+  public addKey(name: string, type: KeyType, token: string, endpoint: { host?: string; baseUrl?: string; model?: string } = {}) {
     this.keys.push({
       id: Date.now().toString(),
       name,
       type,
       token,
+      host: endpoint.host || undefined,
+      baseUrl: endpoint.baseUrl?.replace(/\/+$/, '') || undefined,
+      model: endpoint.model || undefined,
     });
     this.saveKeys();
   }
@@ -106,30 +114,92 @@ class KeyManagerService {
     this.saveKeys();
   }
 
-  public markRateLimited(token: string) {
-    const keyIndex = this.keys.findIndex((k) => k.token === token);
-    if (keyIndex !== -1) {
-      // Mark as limited for 1 minute
-      this.keys[keyIndex].isRateLimitedUntil = Date.now() + 60000;
-      console.warn(`Key ${this.keys[keyIndex].name} marked as rate limited.`);
+  // Puts a key marked invalid or rate limited back into rotation; the next response re-checks it
+  public retryKey(id: string) {
+    this.keys = this.keys.map((k) => (k.id === id ? { ...k, invalidReason: undefined, isRateLimitedUntil: undefined } : k));
+  }
+
+  // HTTP clients only know the token; LLM rotation passes the id because local endpoints may share an empty token
+  private findKey(tokenOrId: string): ManagedKey | undefined {
+    return this.keys.find((k) => k.id === tokenOrId) || this.keys.find((k) => k.token === tokenOrId);
+  }
+
+  // Records the quota the API reported alongside a response
+  public updateRateLimit(token: string, limit: number, remaining: number, resetAt: number) {
+    const key = this.findKey(token);
+    if (key) {
+      key.rateLimit = { limit, remaining, resetAt };
+    }
+  }
+
+  public updateAnonymousRateLimit(type: KeyType, host: string | undefined, limit: number, remaining: number, resetAt: number) {
+    this.anonymousRateLimits.set(`${type}:${host || ''}`, { limit, remaining, resetAt });
+  }
+
+  // Requests left for whatever the next call would use (the best key, or no token); null until the API has reported it
+  public getRemainingQuota(type: KeyType, host?: string): number | null {
+    const token = this.getValidKey(type, host);
+    const quota = token ? this.findKey(token)?.rateLimit : this.anonymousRateLimits.get(`${type}:${host || ''}`);
+    return quota && quota.resetAt > Date.now() ? quota.remaining : null;
+  }
+
+  // Benches a key until the API says it is usable again. Falls back to 1 minute when no reset time is known.
+  public markRateLimited(token: string, until?: number) {
+    const key = this.findKey(token);
+    if (key) {
+      key.isRateLimitedUntil = until && until > Date.now() ? until : Date.now() + 60000;
+      console.warn(`Key ${key.name} marked as rate limited until ${new Date(key.isRateLimitedUntil).toLocaleTimeString()}.`);
     }
   }
 
-  public getValidKey(type: "github" | "gemini"): string | null {
+  // Takes a key out of rotation because the API rejected the credential itself
+  public markInvalid(token: string, reason: string) {
+    const key = this.findKey(token);
+    if (key) {
+      key.invalidReason = reason;
+      console.warn(`Key ${key.name} marked as invalid: ${reason}`);
+    }
+  }
+
+  // host selects tokens for a self-hosted instance; omit it for github.com / gitlab.com. LLM keys go through getValidLLMKey.
+  public getValidKey(type: KeyType, host?: string): string | null {
     this.loadEnvKeys();
 
-    // Sort: User added keys first, then Env keys
-    // Filter out rate limited keys
+    // Filter out invalid, benched and exhausted keys
     const now = Date.now();
     const validKeys = this.keys
       .filter((k) => k.type === type)
-      .filter((k) => !k.isRateLimitedUntil || k.isRateLimitedUntil < now);
+      .filter((k) => (k.host || undefined) === (host || undefined))
+      .filter((k) => !k.invalidReason)
+      .filter((k) => !k.isRateLimitedUntil || k.isRateLimitedUntil < now)
+      .filter((k) => !k.rateLimit || k.rateLimit.remaining > 0 || k.rateLimit.resetAt < now);
 
     if (validKeys.length === 0) return null;
 
-    // Simple rotation: Pick first available.
-    // In a more complex app, we might track usage count.
-    return validKeys[0].token;
+    // Prefer the key with the most remaining quota; keys without quota info yet keep their order
+    const remaining = (k: ManagedKey) =>
+      !k.rateLimit || k.rateLimit.resetAt < now ? Infinity : k.rateLimit.remaining;
+    const [best] = [...validKeys].sort((a, b) => (remaining(a) === remaining(b) ? 0 : remaining(a) > remaining(b) ? -1 : 1));
+    return best.token;
+  }
+
+  // Usable keys for the target's provider and endpoint; the target's model is chosen per review, not per key
+  public getValidLLMKeys(target: LLMTarget): ManagedKey[] {
+    this.loadEnvKeys();
+    const now = Date.now();
+    return this.keys.filter(
+      (k) =>
+        k.type === target.provider &&
+        (k.baseUrl || undefined) === (target.baseUrl || undefined) &&
+        !k.invalidReason &&
+        (!k.isRateLimitedUntil || k.isRateLimitedUntil < now)
+    );
+  }
+
+  // lane spreads parallel passes over the usable keys instead of piling onto the first
+  public getValidLLMKey(target: LLMTarget, lane = 0): ManagedKey | null {
+    const keys = this.getValidLLMKeys(target);
+    return keys.length ? keys[lane % keys.length] : null;
   }
 }
 
@@ -0,0 +1,67 @@
+// Shared plumbing for model backends spoken to over plain fetch
+
+// A failed model call carrying what key rotation needs: the HTTP status and, when the API said, when to retry
+export type LLMFailure = Error & { status?: number; retryAt?: number };
+
+export const llmFailure = (message: string, status?: number, retryAt?: number): LLMFailure =>
+  Object.assign(new Error(message), { status, retryAt });
+
+// Prefers the API's own error message ({ error: { message } } on both OpenAI and Anthropic) over the status text
+export const responseFailure = async (response: Response, label: string): Promise<LLMFailure> => {
+  const body = await response.text().catch(() => '');
+  let message = body;
+  try {
+    const parsed = JSON.parse(body);
+    message = parsed.error?.message || parsed.message || body;
+  } catch (e) {
+    // Not JSON; keep the raw body
+  }
+  const retryAfter = Number(response.headers.get('retry-after'));
+  return llmFailure(
+    `${label} returned ${response.status}: ${message || response.statusText}`,
+    response.status,
+    retryAfter > 0 ? Date.now() + retryAfter * 1000 : undefined
+  );
+};
+
+export interface ServerSentEvent {
+  event?: string;
+  data: string;
+}
+
+// Splits a text/event-stream body into events. Stops at the OpenAI-style "[DONE]" marker.
+export const readServerSentEvents = async function* (response: Response): AsyncGenerator<ServerSentEvent> {
+  if (!response.body) return;
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  const parse = (block: string): ServerSentEvent | null => {
+    let event: string | undefined;
+    const data: string[] = [];
+    for (const line of block.split(/\r?\n/)) {
+      if (line.startsWith('event:')) event = line.slice(6).trim();
+      else if (line.startsWith('data:')) data.push(line.slice(5).replace(/^ /, ''));
+    }
+    return data.length ? { event, data: data.join('\n') } : null;
+  };
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += value;
+      const blocks = buffer.split(/\r?\n\r?\n/);
+      buffer = blocks.pop() ?? '';
+      for (const block of blocks) {
+        const event = parse(block);
+        if (!event) continue;
+        if (event.data === '[DONE]') return;
+        yield event;
+      }
+    }
+    const last = parse(buffer);
+    if (last && last.data !== '[DONE]') yield last;
+  } finally {
+    reader.releaseLock();
+  }
+};
@@ -0,0 +1,128 @@
+import { JsonSchema, LLMProvider, LLMProviderKind, LLMTarget, ManagedKey, ReviewProgress, ReviewStreamChunk } from "../types";
+import { KeyManager } from "./keyManager";
+import { geminiProvider } from "./geminiProvider";
+import { openaiCompatibleProvider } from "./openaiCompatibleProvider";
+import { anthropicProvider } from "./anthropicProvider";
+import { LLMFailure } from "./llmHttp";
+import { CHARS_PER_TOKEN } from "./sourceSelection";
+
+export const LLM_PROVIDERS: LLMProvider[] = [geminiProvider, openaiCompatibleProvider, anthropicProvider];
+
+export const getLLMProvider = (kind: LLMProviderKind): LLMProvider => {
+  const provider = LLM_PROVIDERS.find(p => p.kind === kind);
+  if (!provider) throw new Error(`No model provider registered for ${kind}`);
+  return provider;
+};
+
+export const isLLMKey = (key: ManagedKey) => LLM_PROVIDERS.some(p => p.kind === key.type);
+
+// Used until an LLM key is configured; the environment Gemini key lands here
+export const DEFAULT_LLM_TARGET: LLMTarget = { provider: 'gemini', model: geminiProvider.defaultModel! };
+
+export const llmTargetId = (target: LLMTarget) => `${target.provider}|${target.baseUrl || ''}|${target.model}`;
+
+export const describeLLMTarget = (target: LLMTarget) => {
+  const endpoint = target.baseUrl ? ` @ ${target.baseUrl.replace(/^https?:\/\//, '')}` : '';
+  return `${getLLMProvider(target.provider).label} · ${target.model}${endpoint}`;
+};
+
+// Every distinct provider, endpoint and model the configured keys can run, in key order.
+// Keys without a model fall back to the provider's default; providers without one need it set.
+export const listLLMTargets = (keys: ManagedKey[]): LLMTarget[] => {
+  const targets = new Map<string, LLMTarget>();
+  for (const key of keys) {
+    if (!isLLMKey(key)) continue;
+    const provider = getLLMProvider(key.type as LLMProviderKind);
+    const model = key.model || provider.defaultModel;
+    if (!model) continue;
+    const target: LLMTarget = { provider: provider.kind, baseUrl: key.baseUrl, model };
+    if (!targets.has(llmTargetId(target))) targets.set(llmTargetId(target), target);
+  }
+  return [...targets.values()];
+};
+
+// A failure the key rotation gave up on
+export type GenerationChunk = ReviewStreamChunk | { type: 'error'; message: string };
+
+// Streams one prompt from the target, rotating to the next key for its endpoint when one is rate limited or rejected.
+// Aborting the signal ends the stream quietly without counting against the key.
+// Failures come back as a final 'error' chunk so each caller decides how to surface them.
+export const streamGeneration = async function* (
+  target: LLMTarget,
+  prompt: string,
+  signal?: AbortSignal,
+  options: { schema?: JsonSchema; stage?: ReviewProgress['stage']; lane?: number } = {}
+): AsyncGenerator<GenerationChunk> {
+  const provider = getLLMProvider(target.provider);
+  // Retry logic for Key Rotation
+  let attempt = 0;
+  const maxAttempts = 3;
+  const promptTokens = Math.ceil(prompt.length / CHARS_PER_TOKEN);
+  const { schema, stage, lane } = options;
+
+  while (attempt < maxAttempts) {
+    if (signal?.aborted) return;
+    const key = KeyManager.getValidLLMKey(target, lane);
+
+    if (!key) {
+      yield { type: 'error', message: `No valid ${provider.label} key found for ${describeLLMTarget(target)}. Please add one in Settings.` };
+      return;
+    }
+
+    yield { type: 'progress', data: { phase: 'waiting', stage, attempt: attempt + 1, promptTokens, outputTokens: 0 } };
+    let outputChars = 0;
+
+    try {
+      for await (const event of provider.stream(key, { model: target.model, prompt, schema, signal })) {
+        if (signal?.aborted) return;
+        if (event.type === 'text') {
+          outputChars += event.content.length;
+          yield event;
+          yield { type: 'progress', data: { phase: 'streaming', stage, attempt: attempt + 1, promptTokens, outputTokens: Math.ceil(outputChars / CHARS_PER_TOKEN) } };
+        } else {
+          yield event;
+        }
+      }
+      // If successful, exit loop
+      return;
+
+    } catch (error) {
+      if (signal?.aborted) return;
+      console.error(`${provider.label} API Error (Attempt ${attempt + 1}):`, error);
+
+      // Tell quota exhaustion apart from a rejected key; only the former should bench the key temporarily
+      const { status, retryAt, message } = error as LLMFailure;
+      const isRateLimit = status === 429;
+      const isInvalidKey = status === 401 || status === 403;
+
+      if (isRateLimit || isInvalidKey) {
+        if (isRateLimit) {
+          KeyManager.markRateLimited(key.id, retryAt);
+        } else {
+          KeyManager.markInvalid(key.id, 'API key rejected');
+        }
+        attempt++;
+        if (attempt === maxAttempts) {
+          yield { type: 'error', message: `All available ${provider.label} keys are rate limited or were rejected. Please add more keys or try again later.` };
+        }
+      } else {
+        yield { type: 'error', message: message || 'Failed to generate review.' };
+        return;
+      }
+    }
+  }
+};
+
+// Exact size of a prompt section from the target's tokenizer, or null when the backend can't count
+// (OpenAI-compatible servers have no standard endpoint) or the call failed; callers then estimate
+export const countTokens = async (target: LLMTarget, text: string, signal?: AbortSignal): Promise<number | null> => {
+  const provider = getLLMProvider(target.provider);
+  const key = KeyManager.getValidLLMKey(target);
+  if (!provider.countTokens || !key) return null;
+  try {
+    return await provider.countTokens(key, target.model, text, signal);
+  } catch (error) {
+    if (!signal?.aborted) console.warn(`${provider.label} token count failed`, error);
+    return null;
+  }
+};
@@ -0,0 +1,105 @@
+import { Commit, FileHistoryReport, IngestionPhase, IngestionProgress } from '../types';
+
+// Per-load plumbing shared by every provider: the caller's AbortSignal, a fetcher bound to it that
+// counts response bytes, and the phase/item/byte progress events the loading screen renders.
+
+export type Fetcher = (url: string, options?: RequestInit) => Promise<Response>;
+
+type ListedCount = 'commits' | 'pullRequests' | 'issues' | 'branches' | 'contributors';
+
+export interface LoadScope {
+  signal?: AbortSignal;
+  request: Fetcher;
+  // Starts a phase; throws if the load was cancelled, so every phase boundary is a checkpoint
+  phase: (phase: IngestionPhase, total?: number | null) => void;
+  step: () => void;
+  count: (key: ListedCount) => (fetched: number) => void;
+}
+
+// Rebuilt responses can't carry a body for these statuses
+const NULL_BODY_STATUSES = [101, 103, 204, 205, 304];
+
+export const createLoadScope = (fetcher: Fetcher, signal?: AbortSignal, onProgress?: (progress: IngestionProgress) => void): LoadScope => {
+  const progress: IngestionProgress = { phase: 'metadata', done: 0, total: null, bytes: 0, commits: 0, pullRequests: 0, issues: 0, branches: 0, contributors: 0 };
+  const emit = () => onProgress?.({ ...progress });
+
+  return {
+    signal,
+    request: async (url, options = {}) => {
+      signal?.throwIfAborted();
+      const res = await fetcher(url, { ...options, signal });
+      if (!onProgress) return res;
+      // Reading the body here is the only way to count it; callers get an equivalent response back
+      const body = await res.text();
+      progress.bytes += body.length;
+      emit();
+      return new Response(NULL_BODY_STATUSES.includes(res.status) ? null : body, { status: res.status, statusText: res.statusText, headers: res.headers });
+    },
+    phase: (phase, total = null) => {
+      signal?.throwIfAborted();
+      progress.phase = phase;
+      progress.done = 0;
+      progress.total = total;
+      emit();
+    },
+    step: () => {
+      progress.done++;
+      emit();
+    },
+    count: (key) => (fetched) => {
+      progress[key] = fetched;
+      emit();
+    },
+  };
+};
+
+export const isAbortError = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+
+// Runs one task per item with at most `limit` in flight; results keep the items' order
+export const mapConcurrently = async <T, R>(items: T[], limit: number, task: (item: T) => Promise<R>): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+};
+
+// Per-commit detail requests take at most this share of the quota left, so the rest of the load still fits
+const FILE_HISTORY_QUOTA_SHARE = 0.5;
+
+// Fetches per-file changes for the newest commits: as many as requested, scaled down to the rate limit
+// left when the API has reported it. Failed requests keep the listed commit.
+export const enrichFileHistory = async (
+  commits: Commit[],
+  scope: LoadScope,
+  requested: number,
+  remainingQuota: number | null,
+  concurrency: number,
+  fetchDetail: (commit: Commit) => Promise<Commit | null>
+): Promise<{ commits: Commit[]; fileHistory: FileHistoryReport }> => {
+  const wanted = Math.min(requested, commits.length);
+  const attempted = remainingQuota === null ? wanted : Math.min(wanted, Math.floor(Math.max(0, remainingQuota) * FILE_HISTORY_QUOTA_SHARE));
+  scope.phase('commits', attempted);
+
+  let fetched = 0;
+  const enriched = await mapConcurrently(commits.slice(0, attempted), concurrency, async commit => {
+    try {
+      const detail = await fetchDetail(commit);
+      if (!detail) return commit;
+      fetched++;
+      return detail;
+    } catch (e) {
+      scope.signal?.throwIfAborted();
+      return commit;
+    } finally {
+      scope.step();
+    }
+  });
+
+  return { commits: [...enriched, ...commits.slice(attempted)], fileHistory: { requested: wanted, attempted, fetched } };
+};
@@ -0,0 +1,35 @@
+import { LLMProviderKind, LLMTarget, ModelPricing, TokenUsage } from '../types';
+
+// List prices per million tokens, matched against the model name in order (more specific names first).
+// Unknown models have no price, so a cost ceiling can't be enforced for them.
+const PRICES: { provider: LLMProviderKind; pattern: RegExp; pricing: ModelPricing }[] = [
+  { provider: 'gemini', pattern: /flash-lite/, pricing: { input: 0.1, output: 0.4 } },
+  { provider: 'gemini', pattern: /2\.5-flash/, pricing: { input: 0.3, output: 2.5 } },
+  { provider: 'gemini', pattern: /2\.0-flash/, pricing: { input: 0.1, output: 0.4 } },
+  { provider: 'gemini', pattern: /pro/, pricing: { input: 1.25, output: 10 } },
+  { provider: 'anthropic', pattern: /haiku/, pricing: { input: 0.8, output: 4 } },
+  { provider: 'anthropic', pattern: /sonnet/, pricing: { input: 3, output: 15 } },
+  { provider: 'anthropic', pattern: /opus/, pricing: { input: 15, output: 75 } },
+  { provider: 'openai-compatible', pattern: /gpt-4o-mini/, pricing: { input: 0.15, output: 0.6 } },
+  { provider: 'openai-compatible', pattern: /gpt-4o/, pricing: { input: 2.5, output: 10 } },
+  { provider: 'openai-compatible', pattern: /gpt-4\.1-mini/, pricing: { input: 0.4, output: 1.6 } },
+  { provider: 'openai-compatible', pattern: /gpt-4\.1/, pricing: { input: 2, output: 8 } },
+];
+
+const LOCAL_ENDPOINT = /^https?:\/\/(localhost|127\.\d+\.\d+\.\d+|0\.0\.0\.0|\[::1\])(:\d+)?(\/|$)/i;
+
+// Models served on this machine cost nothing per token
+export const isLocalEndpoint = (baseUrl?: string) => !!baseUrl && LOCAL_ENDPOINT.test(baseUrl);
+
+export const pricingFor = (target: LLMTarget): ModelPricing | null => {
+  if (target.provider === 'openai-compatible' && (!target.baseUrl || isLocalEndpoint(target.baseUrl))) {
+    return { input: 0, output: 0 };
+  }
+  const model = target.model.toLowerCase();
+  return PRICES.find(p => p.provider === target.provider && p.pattern.test(model))?.pricing ?? null;
+};
+
+export const usageCost = (usage: TokenUsage, pricing: ModelPricing) =>
+  (usage.input * pricing.input + usage.output * pricing.output) / 1_000_000;
+
+export const formatCost = (usd: number) => (usd < 0.01 && usd > 0 ? `<$0.01` : `$${usd.toFixed(2)}`);
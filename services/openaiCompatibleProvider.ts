@@ -0,0 +1,49 @@
+import { LLMProvider } from "../types";
+import { llmFailure, readServerSentEvents, responseFailure } from "./llmHttp";
+
+// Chat Completions as implemented by OpenAI and by local servers (Ollama, llama.cpp, vLLM),
+// so code can be reviewed without leaving the machine
+export const openaiCompatibleProvider: LLMProvider = {
+  kind: 'openai-compatible',
+  label: 'OpenAI-compatible',
+  defaultBaseUrl: 'http://localhost:11434/v1',
+  requiresKey: false,
+
+  stream: async function* (key, { model, prompt, schema, signal }) {
+    const baseUrl = (key.baseUrl || openaiCompatibleProvider.defaultBaseUrl).replace(/\/+$/, '');
+    const response = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(key.token && { Authorization: `Bearer ${key.token}` }),
+      },
+      body: JSON.stringify({
+        model,
+        messages: [{ role: 'user', content: prompt }],
+        stream: true,
+        // Without this the stream carries no token counts
+        stream_options: { include_usage: true },
+        ...(schema && { response_format: { type: 'json_schema', json_schema: { name: 'response', schema } } }),
+      }),
+      signal,
+    });
+    if (!response.ok) throw await responseFailure(response, baseUrl);
+
+    for await (const event of readServerSentEvents(response)) {
+      const chunk = JSON.parse(event.data);
+      if (chunk.error) throw llmFailure(chunk.error.message || String(chunk.error));
+      const content = chunk.choices?.[0]?.delta?.content;
+      if (content) yield { type: 'text', content };
+      if (chunk.usage) {
+        yield {
+          type: 'usage',
+          data: {
+            input: chunk.usage.prompt_tokens ?? 0,
+            output: chunk.usage.completion_tokens ?? 0,
+            total: chunk.usage.total_tokens ?? (chunk.usage.prompt_tokens ?? 0) + (chunk.usage.completion_tokens ?? 0),
+          },
+        };
+      }
+    }
+  },
+};
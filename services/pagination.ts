@@ -0,0 +1,42 @@
+// Extracts the rel="next" URL from a Link header
+const getNextPageUrl = (linkHeader: string | null): string | null => {
+  if (!linkHeader) return null;
+  const next = linkHeader.split(',').find(part => part.includes('rel="next"'));
+  const match = next?.match(/<([^>]+)>/);
+  return match ? match[1] : null;
+};
+
+export interface PaginationOptions<T> {
+  maxItems?: number;
+  // Stop early once a page satisfies this (e.g. items older than a date range)
+  shouldStop?: (page: T[]) => boolean;
+  onPage?: (fetched: number) => void;
+}
+
+// Follows Link-header pagination until the last page, or until maxItems / shouldStop cut it short.
+// GitHub and GitLab both paginate this way; each passes its own authenticated fetcher.
+export const fetchAllPages = async <T>(
+  fetcher: (url: string) => Promise<Response>,
+  url: string,
+  options: PaginationOptions<T> = {}
+): Promise<T[]> => {
+  const { maxItems, shouldStop, onPage } = options;
+  const items: T[] = [];
+  let nextUrl: string | null = url;
+
+  while (nextUrl) {
+    const res = await fetcher(nextUrl);
+    if (!res.ok) break;
+    const page = await res.json();
+    if (!Array.isArray(page)) break;
+
+    items.push(...page);
+    onPage?.(Math.min(items.length, maxItems ?? Infinity));
+
+    if (maxItems !== undefined && items.length >= maxItems) break;
+    if (shouldStop?.(page)) break;
+    nextUrl = getNextPageUrl(res.headers.get('Link'));
+  }
+
+  return maxItems !== undefined ? items.slice(0, maxItems) : items;
+};
@@ -0,0 +1,101 @@
+import { ProviderHost, ProviderKind, PullRequestLocation, RepositoryLocation } from "../types";
+
+const STORAGE_KEY = "provider_hosts_v1";
+
+// Public instances that never need registering
+const PUBLIC_HOSTS: Record<string, ProviderKind> = {
+  "github.com": "github",
+  "www.github.com": "github",
+  "gitlab.com": "gitlab",
+  "www.gitlab.com": "gitlab",
+};
+
+// Conventional API base for an instance when the user doesn't override it
+export const defaultApiBase = (host: string, kind: ProviderHost["kind"]) =>
+  kind === "gitlab" ? `https://${host}/api/v4` : `https://${host}/api/v3`;
+
+class ProviderHostsService {
+  private hosts: ProviderHost[] = [];
+
+  constructor() {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      try {
+        this.hosts = JSON.parse(stored);
+      } catch (e) {
+        console.error("Failed to load provider hosts", e);
+      }
+    }
+  }
+
+  private save() {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(this.hosts));
+  }
+
+  public getHosts(): ProviderHost[] {
+    return this.hosts;
+  }
+
+  public addHost(host: string, kind: ProviderHost["kind"], apiBase?: string) {
+    const normalized = host.trim().toLowerCase().replace(/^https?:\/\//, "").replace(/\/.*$/, "");
+    if (!normalized) return;
+    this.hosts = this.hosts.filter((h) => h.host !== normalized);
+    this.hosts.push({
+      host: normalized,
+      kind,
+      apiBase: (apiBase?.trim() || defaultApiBase(normalized, kind)).replace(/\/+$/, ""),
+    });
+    this.save();
+  }
+
+  public removeHost(host: string) {
+    this.hosts = this.hosts.filter((h) => h.host !== host);
+    this.save();
+  }
+
+  public find(host: string): ProviderHost | undefined {
+    return this.hosts.find((h) => h.host === host.toLowerCase());
+  }
+
+  // Works out which provider serves a repository URL. Returns null for unknown hosts or non-repo paths.
+  public parseRepositoryUrl(url: string): RepositoryLocation | null {
+    try {
+      const urlObj = new URL(url);
+      const host = urlObj.hostname.toLowerCase();
+      const provider = PUBLIC_HOSTS[host] || this.find(host)?.kind;
+      if (!provider) return null;
+
+      const parts = urlObj.pathname.replace(/\.git$/, "").split("/").filter(Boolean);
+
+      if (provider === "gitlab") {
+        // Namespaces can be nested (group/subgroup/project); "/-/" starts GitLab's own routes
+        const end = parts.indexOf("-");
+        const projectParts = end === -1 ? parts : parts.slice(0, end);
+        if (projectParts.length < 2) return null;
+        return {
+          provider,
+          host: host.replace(/^www\./, ""),
+          owner: projectParts.slice(0, -1).join("/"),
+          repo: projectParts[projectParts.length - 1],
+        };
+      }
+
+      if (parts.length < 2) return null;
+      return { provider, host: host.replace(/^www\./, ""), owner: parts[0], repo: parts[1] };
+    } catch (e) {
+      return null;
+    }
+  }
+
+  // Recognizes GitHub pull request URLs (owner/repo/pull/42, optionally followed by /files etc.)
+  public parsePullRequestUrl(url: string): PullRequestLocation | null {
+    const repository = this.parseRepositoryUrl(url);
+    if (!repository || repository.provider === "gitlab") return null;
+    const parts = new URL(url).pathname.split("/").filter(Boolean);
+    const number = Number(parts[3]);
+    if ((parts[2] !== "pull" && parts[2] !== "pulls") || !Number.isInteger(number) || number <= 0) return null;
+    return { repository, number };
+  }
+}
+
+export const ProviderHosts = new ProviderHostsService();
@@ -0,0 +1,51 @@
+import { PullRequest, PullRequestReport } from '../types';
+import { median } from './issueHealth';
+
+// PRs above this many changed lines are flagged as hard to review
+export const LARGE_PR_LINES = 500;
+
+// GitHub/GitLab closing keywords: "Fixes #12", "closes: #3", "Resolved #40"
+const CLOSING_REFERENCE = /\b(?:close[sd]?|fix(?:e[sd])?|resolve[sd]?)\s*:?\s+#(\d+)/gi;
+
+export const parseLinkedIssues = (body: string | null): number[] => {
+  if (!body) return [];
+  const numbers = [...body.matchAll(CLOSING_REFERENCE)].map(m => Number(m[1]));
+  return [...new Set(numbers)];
+};
+
+export const hoursToMerge = (pr: PullRequest): number | null =>
+  pr.merged_at ? (Date.parse(pr.merged_at) - Date.parse(pr.created_at)) / (60 * 60 * 1000) : null;
+
+export const linesChanged = (pr: PullRequest): number | null =>
+  pr.additions !== undefined && pr.deletions !== undefined ? pr.additions + pr.deletions : null;
+
+// Reviews by anyone but the author, latest verdict per reviewer
+export const reviewVerdicts = (pr: PullRequest): Record<string, string> => {
+  const verdicts: Record<string, string> = {};
+  (pr.reviews || [])
+    .filter(r => r.author !== pr.user.login)
+    .forEach(r => {
+      // A later plain comment doesn't withdraw an approval or change request
+      if (r.state === 'COMMENTED' && verdicts[r.author]) return;
+      verdicts[r.author] = r.state;
+    });
+  return verdicts;
+};
+
+export const analyzePullRequests = (pullRequests: PullRequest[]): PullRequestReport => {
+  const merged = pullRequests.filter(pr => pr.merged_at);
+  const sizes = pullRequests.map(linesChanged).filter((n): n is number => n !== null);
+
+  return {
+    total: pullRequests.length,
+    open: pullRequests.filter(pr => pr.state === 'open').length,
+    merged: merged.length,
+    closedUnmerged: pullRequests.filter(pr => pr.state !== 'open' && !pr.merged_at).length,
+    medianHoursToMerge: median(merged.map(pr => hoursToMerge(pr)!)),
+    reviewedMerged: merged.filter(pr => Object.keys(reviewVerdicts(pr)).length > 0).length,
+    approvedMerged: merged.filter(pr => Object.values(reviewVerdicts(pr)).includes('APPROVED')).length,
+    medianLinesChanged: median(sizes),
+    largePullRequests: sizes.filter(n => n > LARGE_PR_LINES).length,
+    linkedToIssues: pullRequests.filter(pr => pr.linked_issues?.length).length,
+  };
+};
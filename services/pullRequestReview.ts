@@ -0,0 +1,100 @@
+import { DiffLine, FindingCategory, FindingSeverity, PullRequestFile, PullRequestReviewResult, ReviewFinding } from '../types';
+import { parseJsonObject, StructuredValidation } from './reviewAnalysis';
+
+// Focused review of a single pull request: patch parsing for the diff viewer and the prompt,
+// and validation of the line-level findings the model returns
+
+export const SEVERITIES: FindingSeverity[] = ['critical', 'major', 'minor', 'info'];
+export const CATEGORIES: FindingCategory[] = ['bug', 'security', 'performance', 'maintainability', 'style', 'testing', 'documentation'];
+export const VERDICTS: PullRequestReviewResult['verdict'][] = ['approve', 'comment', 'request_changes'];
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@/;
+
+// Unified diff hunks -> numbered lines. "\ No newline at end of file" markers are dropped.
+export const parsePatch = (patch: string): DiffLine[] => {
+  const lines: DiffLine[] = [];
+  let oldLine = 0;
+  let newLine = 0;
+  for (const text of patch.split('\n')) {
+    const header = text.match(HUNK_HEADER);
+    if (header) {
+      oldLine = Number(header[1]);
+      newLine = Number(header[2]);
+      lines.push({ kind: 'hunk', oldLine: null, newLine: null, text });
+    } else if (text.startsWith('+')) {
+      lines.push({ kind: 'add', oldLine: null, newLine: newLine++, text: text.slice(1) });
+    } else if (text.startsWith('-')) {
+      lines.push({ kind: 'del', oldLine: oldLine++, newLine: null, text: text.slice(1) });
+    } else if (!text.startsWith('\\')) {
+      lines.push({ kind: 'context', oldLine: oldLine++, newLine: newLine++, text: text.slice(1) });
+    }
+  }
+  return lines;
+};
+
+// The patch with head line numbers in front, so findings can cite lines without counting hunks
+export const numberPatchForPrompt = (patch: string) =>
+  parsePatch(patch).map(line => {
+    if (line.kind === 'hunk') return line.text;
+    const number = line.newLine === null ? '' : String(line.newLine);
+    return `${number.padStart(5)} ${line.kind === 'add' ? '+' : line.kind === 'del' ? '-' : ' '}${line.text}`;
+  }).join('\n');
+
+// Head lines a finding can sit on: the whole file when its content is known, else the patch's lines.
+// Content may be cut short, so the patch's last line still counts towards the file's length.
+const lineBounds = (file: PullRequestFile): [number, number] | null => {
+  const numbered = file.patch ? parsePatch(file.patch).map(l => l.newLine).filter((n): n is number => n !== null) : [];
+  if (file.content !== undefined) return [1, Math.max(1, file.content.split('\n').length, ...numbered)];
+  return numbered.length ? [Math.min(...numbered), Math.max(...numbered)] : null;
+};
+
+// Drops findings on files outside the PR and pulls line ranges back inside the file
+export const validateFindings = (raw: unknown, files: PullRequestFile[]): ReviewFinding[] => {
+  if (!Array.isArray(raw)) return [];
+  const findings: ReviewFinding[] = [];
+  for (const item of raw) {
+    if (!item || typeof item !== 'object') continue;
+    const file = files.find(f => f.filename === item.file) || files.find(f => f.filename.endsWith(`/${item.file}`));
+    if (!file || file.status === 'removed') continue;
+    const bounds = lineBounds(file);
+    if (!bounds) continue;
+    const clamp = (n: unknown) => Math.min(bounds[1], Math.max(bounds[0], Math.round(Number(n)) || bounds[0]));
+    const first = clamp(item.startLine ?? item.line);
+    const last = clamp(item.endLine ?? item.startLine ?? item.line);
+    const [start, end] = first <= last ? [first, last] : [last, first];
+    findings.push({
+      file: file.filename,
+      startLine: start,
+      endLine: end,
+      severity: SEVERITIES.includes(item.severity) ? item.severity : 'info',
+      category: CATEGORIES.includes(item.category) ? item.category : 'maintainability',
+      title: String(item.title || item.suggestion || 'Finding'),
+      suggestion: String(item.suggestion || ''),
+    });
+  }
+  return findings.sort((a, b) => SEVERITIES.indexOf(a.severity) - SEVERITIES.indexOf(b.severity));
+};
+
+// The structured half of a PR review. Findings on files outside the PR are dropped as warnings;
+// a missing summary, an unknown verdict or a non-array findings field is sent back for a repair.
+export const validatePullRequestReview = (text: string, files: PullRequestFile[]): StructuredValidation<PullRequestReviewResult> => {
+  const parsed = parseJsonObject(text);
+  if ('problem' in parsed) return { result: null, problems: [parsed.problem], warnings: [] };
+  const { raw } = parsed;
+
+  const problems: string[] = [];
+  const warnings: string[] = [];
+  if (typeof raw.summary !== 'string') problems.push('summary must be a string.');
+  if (!VERDICTS.includes(raw.verdict)) problems.push(`verdict must be one of ${VERDICTS.join(', ')}.`);
+  if (!Array.isArray(raw.findings)) problems.push('findings must be an array.');
+
+  const findings = validateFindings(raw.findings, files);
+  const dropped = Array.isArray(raw.findings) ? raw.findings.length - findings.length : 0;
+  if (dropped) warnings.push(`${dropped} findings did not point at a file this PR changes and were dropped.`);
+
+  return {
+    result: problems.length ? null : { summary: raw.summary.trim(), verdict: raw.verdict, findings },
+    problems,
+    warnings,
+  };
+};
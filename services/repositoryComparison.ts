@@ -0,0 +1,177 @@
+import { AIAnalysisResult, ComparisonEntry, ComparisonResult, ComparisonRow, RepoDetails } from '../types';
+import { analyzeOwnership } from './codeOwnership';
+import { analyzePullRequests } from './pullRequestInsights';
+import { analyzeIssueHealth, formatHours } from './issueHealth';
+import { applyIdentities, loadIdentityOverrides, resolveIdentities } from './contributorIdentity';
+import { parseJsonObject, SCORE_KEYS, StructuredValidation, validateScores } from './reviewAnalysis';
+
+// Compare mode: the same metrics computed for every loaded repository and laid out row by row
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const SCORE_LABELS: Record<keyof AIAnalysisResult['scores'], string> = {
+  quality: 'Quality',
+  security: 'Security',
+  reliability: 'Reliability',
+  techStackSuitability: 'Tech stack fit',
+  teamBalance: 'Team balance',
+  commitQuality: 'Commit quality',
+  prQuality: 'PR quality',
+  issueHealth: 'Issue health',
+  structureQuality: 'Structure',
+};
+
+// Commits and contributors with the reviewer's identity overrides for that repository applied
+export const teamView = (details: RepoDetails) => {
+  const overrides = loadIdentityOverrides(details.info.full_name);
+  return applyIdentities(details.commits, details.contributors, resolveIdentities(details.contributors, details.commits, overrides));
+};
+
+export const languageShares = (languages: Record<string, number>) => {
+  const total = Object.values(languages).reduce((acc, n) => acc + n, 0) || 1;
+  return Object.entries(languages)
+    .map(([name, bytes]) => ({ name, share: bytes / total }))
+    .sort((a, b) => b.share - a.share);
+};
+
+type Metric = {
+  section: string;
+  label: string;
+  better: ComparisonRow['better'];
+  value: (entry: ComparisonEntry, team: ReturnType<typeof teamView>) => number | string | null;
+  format?: (value: number) => string;
+};
+
+const percentOf = (value: number) => `${Math.round(value * 100)}%`;
+
+const METRICS: Metric[] = [
+  { section: 'Metadata', label: 'Stars', better: null, value: e => e.details.info.stargazers_count },
+  { section: 'Metadata', label: 'Forks', better: null, value: e => e.details.info.forks_count },
+  { section: 'Metadata', label: 'Files', better: null, value: e => e.details.files.filter(f => f.type === 'blob').length },
+  { section: 'Metadata', label: 'Branches', better: null, value: e => e.details.branches.length },
+  { section: 'Languages', label: 'Primary language', better: null, value: e => languageShares(e.details.languages)[0]?.name ?? null },
+  { section: 'Languages', label: 'Languages', better: null, value: e => Object.keys(e.details.languages).length },
+  { section: 'Activity', label: 'Commits ingested', better: 'higher', value: (_, t) => t.commits.length },
+  {
+    section: 'Activity', label: 'Active days', better: 'higher',
+    value: (_, t) => new Set(t.commits.map(c => c.commit.author.date.slice(0, 10))).size,
+  },
+  {
+    section: 'Activity', label: 'History span', better: null,
+    value: (_, t) => {
+      const times = t.commits.map(c => Date.parse(c.commit.author.date)).filter(n => !Number.isNaN(n));
+      return times.length ? Math.round((Math.max(...times) - Math.min(...times)) / DAY_MS) : null;
+    },
+    format: days => `${days}d`,
+  },
+  {
+    section: 'Activity', label: 'Lines changed', better: null,
+    value: (_, t) => t.commits.reduce((acc, c) => acc + (c.stats?.total || 0), 0),
+    format: n => n.toLocaleString(),
+  },
+  { section: 'Contributors', label: 'Contributors', better: 'higher', value: (_, t) => t.contributors.length },
+  {
+    section: 'Contributors', label: 'Top contributor share', better: 'lower',
+    value: (_, t) => {
+      const total = t.contributors.reduce((acc, c) => acc + c.contributions, 0);
+      return total ? (t.contributors[0]?.contributions || 0) / total : null;
+    },
+    format: percentOf,
+  },
+  { section: 'Contributors', label: 'Bus factor', better: 'higher', value: (_, t) => analyzeOwnership(t.commits).directories.get('')?.busFactor ?? null },
+  { section: 'Collaboration', label: 'Pull requests', better: null, value: e => e.details.pullRequests.length },
+  { section: 'Collaboration', label: 'Median time to merge', better: 'lower', value: e => analyzePullRequests(e.details.pullRequests).medianHoursToMerge, format: formatHours },
+  {
+    section: 'Collaboration', label: 'Merged PRs reviewed', better: 'higher',
+    value: e => {
+      const report = analyzePullRequests(e.details.pullRequests);
+      return report.merged ? report.reviewedMerged / report.merged : null;
+    },
+    format: percentOf,
+  },
+  { section: 'Collaboration', label: 'Issues', better: null, value: e => e.details.issues.length },
+  { section: 'Collaboration', label: 'Median first response', better: 'lower', value: e => analyzeIssueHealth(e.details.issues).medianFirstResponseHours, format: formatHours },
+  { section: 'Collaboration', label: 'CI pass rate', better: 'higher', value: e => e.details.ci.passRate, format: percentOf },
+  { section: 'Collaboration', label: 'Direct dependencies', better: null, value: e => e.details.dependencies.direct.length },
+  ...(Object.keys(SCORE_LABELS) as (keyof AIAnalysisResult['scores'])[]).map((key): Metric => ({
+    section: 'AI scores',
+    label: SCORE_LABELS[key],
+    better: 'higher',
+    value: e => e.scores?.[key] ?? null,
+  })),
+];
+
+const highlightRow = (values: (number | string | null)[], better: ComparisonRow['better']): ComparisonRow['highlight'] => {
+  const numbers = values.filter((v): v is number => typeof v === 'number');
+  if (!better || numbers.length < 2) return values.map(() => null);
+  const [min, max] = [Math.min(...numbers), Math.max(...numbers)];
+  if (min === max) return values.map(() => null);
+  const best = better === 'higher' ? max : min;
+  const worst = better === 'higher' ? min : max;
+  return values.map(v => (v === best ? 'best' : v === worst ? 'worst' : null));
+};
+
+export const buildComparisonRows = (entries: ComparisonEntry[]): ComparisonRow[] => {
+  const teams = entries.map(e => teamView(e.details));
+  return METRICS.map(metric => {
+    const values = entries.map((e, i) => metric.value(e, teams[i]));
+    return {
+      section: metric.section,
+      label: metric.label,
+      better: metric.better,
+      values,
+      display: values.map(v => (v === null ? '—' : typeof v === 'number' ? (metric.format ? metric.format(v) : v.toLocaleString()) : v)),
+      highlight: highlightRow(values, metric.better),
+    };
+  });
+};
+
+// Per-repository scores arrive as [{ repository, ...scores }] per the schema; a name -> scores map is accepted too.
+// Every compared repository must be fully scored; a ranking with gaps is completed by mean score.
+export const validateComparison = (text: string, names: string[]): StructuredValidation<ComparisonResult> => {
+  const parsed = parseJsonObject(text);
+  if ('problem' in parsed) return { result: null, problems: [parsed.problem], warnings: [] };
+  const { raw } = parsed;
+
+  const problems: string[] = [];
+  const warnings: string[] = [];
+  const entries: [string, unknown][] = Array.isArray(raw.scores)
+    ? raw.scores.filter((item: unknown) => item && typeof item === 'object').map((item: any) => [String(item.repository ?? ''), item])
+    : raw.scores && typeof raw.scores === 'object' ? Object.entries(raw.scores) : [];
+  if (!entries.length) problems.push('scores must be an array with one entry per repository.');
+
+  const named = (value: string) => names.find(n => n.toLowerCase() === value.trim().toLowerCase());
+  const scores: ComparisonResult['scores'] = {};
+  const answered = new Set<string>();
+  for (const [key, value] of entries) {
+    const name = named(key);
+    if (!name) {
+      warnings.push(`scores names "${key}", which was not compared.`);
+      continue;
+    }
+    answered.add(name);
+    const checked = validateScores(value, `scores["${name}"]`);
+    problems.push(...checked.problems);
+    if (checked.scores) scores[name] = checked.scores;
+  }
+  const unscored = names.filter(n => !answered.has(n));
+  if (entries.length && unscored.length) problems.push(`No scores for ${unscored.join(', ')}.`);
+
+  if (!Array.isArray(raw.ranking)) problems.push('ranking must be an array of repository names.');
+  const ranking: string[] = [];
+  for (const value of Array.isArray(raw.ranking) ? raw.ranking : []) {
+    const name = named(String(value));
+    if (!name) warnings.push(`ranking names "${value}", which was not compared.`);
+    else if (!ranking.includes(name)) ranking.push(name);
+  }
+
+  const complete = names.every(n => scores[n]);
+  if (complete && ranking.length < names.length) {
+    const mean = (name: string) => SCORE_KEYS.reduce((acc, key) => acc + scores[name][key], 0) / SCORE_KEYS.length;
+    const unranked = names.filter(n => !ranking.includes(n)).sort((a, b) => mean(b) - mean(a));
+    if (Array.isArray(raw.ranking)) warnings.push(`ranking leaves out ${unranked.join(', ')}; placed by mean score.`);
+    ranking.push(...unranked);
+  }
+
+  return { result: complete ? { scores, ranking } : null, problems, warnings };
+};
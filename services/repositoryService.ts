@@ -0,0 +1,54 @@
+import { FetchRepoOptions, FileNode, ProviderKind, PullRequestLocation, PullRequestReviewData, ResolvedRef, RepoDetails, RepositoryLocation, RepositoryProvider } from '../types';
+import { githubProvider } from './githubService';
+import { gitlabProvider } from './gitlabService';
+import { archiveProvider } from './archiveService';
+import { ProviderHosts } from './providerHosts';
+import { withContent } from './sourceSelection';
+import { checkWindowCompliance } from './windowCompliance';
+
+const PROVIDERS: RepositoryProvider[] = [githubProvider, gitlabProvider, archiveProvider];
+
+const getProvider = (kind: ProviderKind): RepositoryProvider => {
+  const provider = PROVIDERS.find(p => p.kinds.includes(kind));
+  if (!provider) throw new Error(`No provider registered for ${kind}`);
+  return provider;
+};
+
+export const parseRepositoryUrl = (url: string): RepositoryLocation | null => ProviderHosts.parseRepositoryUrl(url);
+
+export const parsePullRequestUrl = (url: string): PullRequestLocation | null => ProviderHosts.parsePullRequestUrl(url);
+
+// Entry point for every repository load: picks the provider from the location, then applies
+// the provider-independent analyses on top of its result
+export const fetchRepoDetails = async (location: RepositoryLocation, options: FetchRepoOptions = {}): Promise<RepoDetails> => {
+  const details = await getProvider(location.provider).fetchRepoDetails(location, options);
+  // Providers swallow failed optional requests, so a cancel late in the load can still return a partial result
+  options.signal?.throwIfAborted();
+
+  if (options.window) {
+    details.windowCompliance = checkWindowCompliance(details.commits, options.window);
+  }
+
+  return details;
+};
+
+// Expands a directory the initial load left unwalked; returns its blobs and any still-unwalked subdirectories
+export const fetchDirectory = async (location: RepositoryLocation, ref: ResolvedRef, directory: FileNode): Promise<FileNode[]> => {
+  const provider = getProvider(location.provider);
+  return provider.fetchDirectory ? provider.fetchDirectory(location, ref, directory) : [];
+};
+
+// Downloads a file the load left without content, e.g. one pinned from outside the fetched candidates
+export const fetchFileContent = async (location: RepositoryLocation, ref: ResolvedRef, file: FileNode): Promise<FileNode> => {
+  const provider = getProvider(location.provider);
+  if (!provider.fetchFileContent) throw new Error(`Cannot download ${file.path} from this provider`);
+  const content = await provider.fetchFileContent(location, ref, file);
+  if (content === null) throw new Error(`${file.path} is binary or could not be downloaded`);
+  return withContent(file, content);
+};
+
+export const fetchPullRequest = async (location: PullRequestLocation, signal?: AbortSignal): Promise<PullRequestReviewData> => {
+  const provider = getProvider(location.repository.provider);
+  if (!provider.fetchPullRequest) throw new Error('Pull request review is not available for this provider');
+  return provider.fetchPullRequest(location, signal);
+};
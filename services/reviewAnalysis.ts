@@ -0,0 +1,147 @@
+import { AIAnalysisResult, ModuleFinding, ModuleFindingSeverity } from '../types';
+
+// Runtime checks for the structured half of a repository review. The model's JSON is never
+// trusted as-is: scores are clamped and summary keys must name commits and PRs that were in the
+// prompt. Only schema and type violations are reported back for a repair; stray or missing
+// summaries are warnings, since a full retry costs far more than the field is worth.
+
+export const SCORE_KEYS: (keyof AIAnalysisResult['scores'])[] = [
+  'quality', 'security', 'reliability', 'techStackSuitability', 'teamBalance',
+  'commitQuality', 'prQuality', 'issueHealth', 'structureQuality',
+];
+
+// What the prompt actually contained, so summaries for anything else can be rejected
+export interface AnalysisExpectations {
+  shas: string[];
+  prNumbers: number[];
+}
+
+// What every structured pass's validator returns; comparisons and PR reviews share the shape
+export interface StructuredValidation<T> {
+  result: T | null; // Null unless every required field is present
+  problems: string[]; // Worth a repair round-trip
+  warnings: string[]; // Patched over in the result
+}
+
+export type AnalysisValidation = StructuredValidation<AIAnalysisResult>;
+
+export const NOT_SUMMARIZED = 'Not summarized.';
+
+const MIN_SHA_PREFIX = 7;
+
+// Summaries arrive as [{ key, summary }] per the schema; a plain key -> summary map is accepted too
+const summaryEntries = (raw: unknown, key: string): [string, string][] => {
+  if (Array.isArray(raw)) {
+    return raw
+      .filter(item => item && typeof item === 'object')
+      .map(item => [String(item[key] ?? ''), String(item.summary ?? '')]);
+  }
+  if (raw && typeof raw === 'object') {
+    return Object.entries(raw).map(([k, v]) => [k, String(v ?? '')]);
+  }
+  return [];
+};
+
+const matchSha = (value: string, shas: string[]) => {
+  const sha = value.trim().toLowerCase();
+  if (sha.length < MIN_SHA_PREFIX) return null;
+  const matches = shas.filter(s => s.toLowerCase().startsWith(sha));
+  return matches.length === 1 ? matches[0] : null;
+};
+
+// The object behind a JSON-mode answer, or the problem to send back
+export const parseJsonObject = (text: string): { raw: any } | { problem: string } => {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    return { problem: 'The response is not valid JSON.' };
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return { problem: 'The response is not a JSON object.' };
+  return { raw };
+};
+
+// Every score clamped to 0-100; null unless all of them are present
+export const validateScores = (raw: any, field: string): { scores: AIAnalysisResult['scores'] | null; problems: string[] } => {
+  const scores = {} as AIAnalysisResult['scores'];
+  const problems: string[] = [];
+  for (const key of SCORE_KEYS) {
+    const value = raw?.[key];
+    const number = typeof value === 'string' && value.trim() ? Number(value) : value;
+    if (typeof number !== 'number' || !Number.isFinite(number)) {
+      problems.push(`${field}.${key} is missing or not a number.`);
+      continue;
+    }
+    scores[key] = Math.round(Math.min(100, Math.max(0, number)));
+  }
+  return { scores: problems.length ? null : scores, problems };
+};
+
+export const validateAnalysis = (text: string, expected: AnalysisExpectations): AnalysisValidation => {
+  const parsed = parseJsonObject(text);
+  if ('problem' in parsed) return { result: null, problems: [parsed.problem], warnings: [] };
+  const { raw } = parsed;
+
+  const problems: string[] = [];
+  const warnings: string[] = [];
+  for (const field of ['commitSummaries', 'prSummaries']) {
+    if (raw[field] !== undefined && raw[field] !== null && typeof raw[field] !== 'object') problems.push(`${field} must be an array.`);
+  }
+
+  const { scores, problems: scoreProblems } = validateScores(raw.scores, 'scores');
+  problems.push(...scoreProblems);
+
+  const commitSummaries: Record<string, string> = {};
+  for (const [key, summary] of summaryEntries(raw.commitSummaries, 'sha')) {
+    const sha = matchSha(key, expected.shas);
+    if (!sha) warnings.push(`commitSummaries names commit "${key}", which was not in the input.`);
+    else if (summary.trim()) commitSummaries[sha] = summary.trim();
+  }
+  const missingCommits = expected.shas.filter(sha => !commitSummaries[sha]);
+  if (missingCommits.length) warnings.push(`No summary for commits ${missingCommits.map(s => s.substring(0, MIN_SHA_PREFIX)).join(', ')}.`);
+  missingCommits.forEach(sha => (commitSummaries[sha] = NOT_SUMMARIZED));
+
+  const prSummaries: Record<string, string> = {};
+  for (const [key, summary] of summaryEntries(raw.prSummaries, 'number')) {
+    const number = Number(key.replace(/^#/, ''));
+    if (!expected.prNumbers.includes(number)) warnings.push(`prSummaries names PR "${key}", which was not in the input.`);
+    else if (summary.trim()) prSummaries[number] = summary.trim();
+  }
+  const missingPullRequests = expected.prNumbers.filter(n => !prSummaries[n]);
+  if (missingPullRequests.length) warnings.push(`No summary for PRs ${missingPullRequests.map(n => `#${n}`).join(', ')}.`);
+  missingPullRequests.forEach(n => (prSummaries[n] = NOT_SUMMARIZED));
+
+  return {
+    result: scores ? { scores, commitSummaries, prSummaries } : null,
+    problems,
+    warnings,
+  };
+};
+
+const SEVERITIES: ModuleFindingSeverity[] = ['high', 'medium', 'low'];
+
+// A per-directory pass only feeds the synthesis prompt, so it is accepted as long as it parses;
+// findings without a title are dropped and unknown severities count as low
+export const validateModuleReview = (text: string): { summary: string; findings: ModuleFinding[] } | null => {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    return null;
+  }
+  if (!raw || typeof raw !== 'object' || typeof raw.summary !== 'string') return null;
+
+  const findings = (Array.isArray(raw.findings) ? raw.findings : [])
+    .filter((f: any) => f && typeof f === 'object' && typeof f.title === 'string' && f.title.trim())
+    .map((f: any): ModuleFinding => {
+      const severity = String(f.severity || '').toLowerCase() as ModuleFindingSeverity;
+      return {
+        severity: SEVERITIES.includes(severity) ? severity : 'low',
+        title: f.title.trim(),
+        detail: typeof f.detail === 'string' ? f.detail.trim() : '',
+        path: typeof f.path === 'string' && f.path.trim() ? f.path.trim() : undefined,
+      };
+    });
+
+  return { summary: raw.summary.trim(), findings };
+};
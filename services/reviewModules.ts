@@ -0,0 +1,69 @@
+import { Commit, FileNode } from '../types';
+
+// Splits a repository into the directories a multi-pass review analyzes separately. Files are
+// grouped by top-level directory; a directory holding most of the code is split one level
+// deeper so "src/" doesn't become a single pass, and the smallest groups share one pass.
+
+export const MAX_REVIEW_MODULES = 8;
+export const MODULE_COMMITS = 15;
+
+// A top-level directory with more than this share of the source is split by its subdirectories
+const SPLIT_SHARE = 0.5;
+
+export const ROOT_MODULE = '(root)';
+export const OTHER_MODULE = '(other)';
+
+export interface ModulePlan {
+  name: string;
+  directories: string[]; // '' is the repository root
+  files: FileNode[];
+  commits: Commit[];
+}
+
+const directoryAt = (path: string, depth: number) => path.split('/').slice(0, -1).slice(0, depth).join('/');
+
+export const planModules = (files: FileNode[], commits: Commit[]): ModulePlan[] => {
+  const sources = files.filter(f => f.type === 'blob' && f.content);
+  if (!sources.length) return [];
+
+  const size = (group: FileNode[]) => group.reduce((acc, f) => acc + (f.content?.length || 0), 0);
+  const total = size(sources);
+
+  const topLevel = new Map<string, FileNode[]>();
+  sources.forEach(f => {
+    const dir = directoryAt(f.path, 1);
+    topLevel.set(dir, [...(topLevel.get(dir) || []), f]);
+  });
+  const split = new Set([...topLevel].filter(([dir, group]) => dir && size(group) > total * SPLIT_SHARE).map(([dir]) => dir));
+
+  const directoryOf = (path: string) => {
+    const top = directoryAt(path, 1);
+    return split.has(top) ? directoryAt(path, 2) : top;
+  };
+
+  const groups = new Map<string, FileNode[]>();
+  sources.forEach(f => {
+    const dir = directoryOf(f.path);
+    groups.set(dir, [...(groups.get(dir) || []), f]);
+  });
+
+  const ranked = [...groups].sort((a, b) => size(b[1]) - size(a[1]));
+  const kept = ranked.length > MAX_REVIEW_MODULES ? ranked.slice(0, MAX_REVIEW_MODULES - 1) : ranked;
+  const merged = ranked.slice(kept.length);
+
+  const plans: ModulePlan[] = kept.map(([dir, group]) => ({ name: dir || ROOT_MODULE, directories: [dir], files: group, commits: [] }));
+  if (merged.length) {
+    plans.push({ name: OTHER_MODULE, directories: merged.map(([dir]) => dir), files: merged.flatMap(([, group]) => group), commits: [] });
+  }
+
+  // A commit belongs to every module it touched
+  const moduleOf = new Map(plans.flatMap(plan => plan.directories.map(dir => [dir, plan] as const)));
+  commits.forEach(commit => {
+    const touched = new Set((commit.filesModified || []).map(f => moduleOf.get(directoryOf(f.filename))).filter((p): p is ModulePlan => !!p));
+    touched.forEach(plan => {
+      if (plan.commits.length < MODULE_COMMITS) plan.commits.push(commit);
+    });
+  });
+
+  return plans;
+};
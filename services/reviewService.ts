@@ -0,0 +1,934 @@
+
+import { AIAnalysisResult, CiReport, Commit, ComparisonEntry, ComparisonResult, DependencyReport, Issue, JsonSchema, LLMTarget, ModuleReview, PromptSection, PullRequest, PullRequestReviewData, PullRequestReviewResult, ReviewBudget, PromptSectionPlan, PromptTokenCounts, ReviewProgress, ReviewPromptPlan, ReviewRequestData, ReviewStreamChunk, TokenUsage } from "../types";
+import { DEFAULT_PROMPT_BUDGETS } from "../constants";
+import { describeTreeForPrompt } from "./treeSummary";
+import { analyzePullRequests, hoursToMerge, reviewVerdicts, LARGE_PR_LINES } from "./pullRequestInsights";
+import { formatMinutes } from "./ciAnalysis";
+import { analyzeOwnership, describeOwnershipForPrompt } from "./codeOwnership";
+import { analyzeHotspots, describeHotspotsForPrompt } from "./churnHotspots";
+import { analyzeIssueHealth, formatHours, STALE_ISSUE_DAYS } from "./issueHealth";
+import { languageShares, teamView, validateComparison } from "./repositoryComparison";
+import { CATEGORIES, numberPatchForPrompt, SEVERITIES, validatePullRequestReview, VERDICTS } from "./pullRequestReview";
+import { CHARS_PER_TOKEN } from "./sourceSelection";
+import { SCORE_KEYS, StructuredValidation, validateAnalysis, validateModuleReview } from "./reviewAnalysis";
+import { streamGeneration } from "./llmProviders";
+import { KeyManager } from "./keyManager";
+import { pricingFor, usageCost } from "./modelPricing";
+import { ModulePlan, planModules } from "./reviewModules";
+
+const percent = (rate: number | null) => (rate === null ? 'n/a' : `${Math.round(rate * 100)}%`);
+
+// Aggregate view over the full ingested history, not just the detailed commits
+const describeHistory = (commits: Commit[]) => {
+  const authorCounts = commits.reduce<Record<string, number>>((acc, c) => {
+    acc[c.commit.author.name] = (acc[c.commit.author.name] || 0) + 1;
+    return acc;
+  }, {});
+  const commitDates = commits.map(c => c.commit.author.date).sort();
+  return commits.length > 0
+    ? `Commits ingested: ${commits.length}\nSpan: ${commitDates[0]} to ${commitDates[commitDates.length - 1]}\nCommits per author: ${Object.entries(authorCounts).sort((a, b) => b[1] - a[1]).map(([name, count]) => `${name}: ${count}`).join(', ')}`
+    : 'No commits ingested.';
+};
+
+const describePullRequestOverview = (pullRequests: PullRequest[]) => {
+  const prReport = analyzePullRequests(pullRequests);
+  return pullRequests.length > 0
+    ? `PRs ingested: ${prReport.total} (${prReport.open} open, ${prReport.merged} merged, ${prReport.closedUnmerged} closed unmerged)
+Median time to merge: ${formatHours(prReport.medianHoursToMerge)}
+Merged PRs reviewed by someone other than the author: ${prReport.reviewedMerged} of ${prReport.merged} (approved: ${prReport.approvedMerged})
+Median lines changed: ${prReport.medianLinesChanged ?? 'n/a'}; PRs over ${LARGE_PR_LINES} lines: ${prReport.largePullRequests}
+PRs linked to issues: ${prReport.linkedToIssues}`
+    : 'No pull requests ingested.';
+};
+
+// Tracker health is summarized over every ingested issue; only the most recent are listed
+const describeIssues = (issues: Issue[]) => {
+  const issueHealth = analyzeIssueHealth(issues);
+  return issues.length > 0
+    ? `Issues ingested: ${issueHealth.total} (${issueHealth.open} open, ${issueHealth.closed} closed)
+Median time to first response: ${formatHours(issueHealth.medianFirstResponseHours)}; open issues with no response: ${issueHealth.unansweredOpen}
+Median time to close: ${formatHours(issueHealth.medianTimeToCloseHours)}
+Stale open issues (no activity for ${STALE_ISSUE_DAYS}+ days): ${issueHealth.stale.length}; unassigned open: ${issueHealth.unassignedOpen}; unlabeled: ${issueHealth.unlabeled}
+Labels: ${issueHealth.labels.slice(0, 10).map(l => `${l.name}: ${l.count}`).join(', ') || 'none'}
+Recent:
+${issues.slice(0, 10).map(i => `- #${i.number} [${i.state}] ${i.title} (${i.labels.join(', ') || 'no labels'})`).join('\n')}`
+    : 'No issues ingested (the tracker is empty, disabled or unavailable).';
+};
+
+// CI evidence for the reliability score
+const describeCi = (ci: CiReport | undefined) =>
+  !ci || !ci.workflows.length
+    ? 'No CI configuration or runs found.'
+    : `System: ${ci.system}
+Workflows:
+${ci.workflows.map(w => `- ${w.name} (${w.path}): triggers ${w.triggers.join(', ') || 'unknown'}; jobs ${w.jobs.join(', ') || 'unknown'}; ${w.runs} runs, pass rate ${percent(w.passRate)}, mean duration ${formatMinutes(w.meanDurationMinutes)}`).join('\n')}
+Overall: ${ci.runsAvailable ? `${ci.runsAnalyzed} recent runs, pass rate ${percent(ci.passRate)}, mean duration ${formatMinutes(ci.meanDurationMinutes)}` : 'run history unavailable'}
+Recent PRs with checks on their head commit: ${ci.pullRequestChecks.filter(c => c.checks > 0).length} of ${ci.pullRequestChecks.length}; merged with failing checks: ${ci.pullRequestChecks.filter(c => c.merged && c.failing > 0).length}
+Required checks on the default branch: ${ci.requiredChecks === null ? 'not visible' : ci.requiredChecks.join(', ') || 'none (merges are not gated)'}`;
+
+// Parsed manifests and lockfiles, so the stack review works from declared dependencies
+const describeDependencies = (deps: DependencyReport | undefined) =>
+  !deps || !deps.manifests.length
+    ? 'No dependency manifests found.'
+    : `Manifests: ${deps.manifests.map(m => `${m.path} (${m.ecosystem} ${m.kind}${m.license ? `, license ${m.license}` : ''}, ${m.packages} packages)`).join('; ')}
+Direct dependencies (declared -> resolved, scope, pinned or floating):
+${deps.direct.slice(0, 60).map(d => `- [${d.ecosystem}] ${d.name} ${d.version}${d.resolved ? ` -> ${d.resolved}` : ''} (${d.scope}, ${d.pinned ? 'pinned' : 'floating'})`).join('\n')}${deps.direct.length > 60 ? `\n- ...and ${deps.direct.length - 60} more` : ''}
+Pinned: ${deps.direct.filter(d => d.pinned).length} of ${deps.direct.length}; transitive packages: ${deps.transitiveCount ?? 'unknown (no lockfile)'}
+Competing libraries: ${deps.duplicateFrameworks.map(g => `${g.category}: ${g.packages.join(', ')}`).join('; ') || 'none'}
+Packages locked at several versions: ${deps.multipleVersions.length}${deps.multipleVersions.length ? ` (${deps.multipleVersions.slice(0, 10).map(p => `${p.name} ${p.versions.join('/')}`).join(', ')})` : ''}
+Dependency licenses: ${deps.licenses.slice(0, 8).map(l => `${l.license}: ${l.packages}`).join(', ') || 'not recorded'}; copyleft: ${deps.copyleft.map(c => `${c.name} (${c.license})`).join(', ') || 'none'}`;
+
+type PassResult = { text: string; error?: string };
+
+// Runs the passes of one review against a single target. Each call reports its own usage;
+// callers see the running total across passes. Structured passes are collected, not shown.
+const createPassRunner = (target: LLMTarget, signal: AbortSignal | undefined, spent: TokenUsage = { input: 0, output: 0, total: 0 }) => {
+  const run = async function* (prompt: string, stage: ReviewProgress['stage'], schema?: JsonSchema): AsyncGenerator<ReviewStreamChunk, PassResult> {
+    let text = '';
+    let usage: TokenUsage | null = null;
+    try {
+      for await (const chunk of streamGeneration(target, prompt, signal, { schema, stage })) {
+        if (chunk.type === 'error') return { text, error: chunk.message };
+        if (chunk.type === 'usage') {
+          usage = chunk.data;
+          yield { type: 'usage', data: addUsage(spent, chunk.data) };
+        } else if (chunk.type === 'text') {
+          text += chunk.content;
+          if (!schema) yield chunk;
+        } else {
+          yield chunk;
+        }
+      }
+      return { text };
+    } finally {
+      if (usage) spent = addUsage(spent, usage);
+    }
+  };
+  return { run, signal, spent: () => spent };
+};
+
+type PassRunner = ReturnType<typeof createPassRunner>;
+
+const addUsage = (a: TokenUsage, b: TokenUsage): TokenUsage => ({
+  input: a.input + b.input,
+  output: a.output + b.output,
+  total: a.total + b.total,
+});
+
+// Providers enforce this shape in JSON mode. Summaries are keyed arrays because the schema
+// can't describe maps keyed by SHA or PR number; validateAnalysis turns them back into records.
+const SCORE_PROPERTIES: Record<string, JsonSchema> = Object.fromEntries(SCORE_KEYS.map(key => [key, { type: 'integer', minimum: 0, maximum: 100 }]));
+
+const ANALYSIS_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    scores: {
+      type: 'object',
+      properties: SCORE_PROPERTIES,
+      required: SCORE_KEYS,
+    },
+    commitSummaries: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { sha: { type: 'string' }, summary: { type: 'string' } },
+        required: ['sha', 'summary'],
+      },
+    },
+    prSummaries: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { number: { type: 'integer' }, summary: { type: 'string' } },
+        required: ['number', 'summary'],
+      },
+    },
+  },
+  required: ['scores', 'commitSummaries', 'prSummaries'],
+};
+
+// Invalid structured output gets this many corrective retries before the result is given up on
+const MAX_STRUCTURED_REPAIRS = 2;
+
+// A JSON-mode pass, re-prompted with the validator's problems until it has none or the retries run out.
+// A later answer that lost its result doesn't replace an earlier complete one.
+const runStructuredPass = async function* <T>(
+  runner: PassRunner,
+  prompt: string,
+  schema: JsonSchema,
+  validate: (text: string) => StructuredValidation<T>,
+  label: string,
+  canAffordRetry: (repairPrompt: string, result: T | null) => boolean = () => true
+): AsyncGenerator<ReviewStreamChunk, { result: T | null; problems: string[] }> {
+  let result: T | null = null;
+  let problems: string[] = [];
+  let current = prompt;
+  for (let repair = 0; repair <= MAX_STRUCTURED_REPAIRS; repair++) {
+    const pass = yield* runner.run(current, repair ? 'repair' : 'scores', schema);
+    if (runner.signal?.aborted) break;
+    if (pass.error) {
+      problems = [pass.error];
+      break;
+    }
+    const validation = validate(pass.text);
+    if (validation.result) result = validation.result;
+    if (validation.warnings.length) console.warn(`${label} accepted with gaps`, validation.warnings);
+    problems = validation.problems;
+    if (!problems.length) break;
+    console.warn(`${label} rejected (attempt ${repair + 1})`, problems);
+    if (repair === MAX_STRUCTURED_REPAIRS) break;
+    const repairPrompt = `${prompt}
+    **YOUR PREVIOUS ANSWER WAS REJECTED:**
+${problems.map(p => `    - ${p}`).join('\n')}
+
+    Previous answer:
+    ${pass.text}
+
+    Return the complete corrected JSON object.
+    `;
+    if (!canAffordRetry(repairPrompt, result)) {
+      problems.push('Not retried: a retry would exceed the review budget.');
+      break;
+    }
+    current = repairPrompt;
+  }
+  return { result, problems };
+};
+
+// Expected answer lengths, only used to plan passes against a review budget
+const MODULE_OUTPUT_TOKENS = 1500;
+const SYNTHESIS_OUTPUT_TOKENS = 3000;
+// What one directory's findings add to the synthesis prompt
+const MODULE_FINDINGS_TOKENS = 500;
+
+// A per-directory prompt stops quoting files past this size and lists the rest by path
+const MODULE_PROMPT_TOKENS = 30000;
+// Parallel passes never exceed this, however many keys there are
+const MAX_PARALLEL_PASSES = 4;
+
+const estimatePass = (prompt: string, outputTokens: number): TokenUsage => {
+  const input = Math.ceil(prompt.length / CHARS_PER_TOKEN);
+  return { input, output: outputTokens, total: input + outputTokens };
+};
+
+// Set when generateReviewStream runs as the final pass of a multi-pass review
+interface ReviewSynthesis {
+  modules: ModuleReview[];
+  spent: TokenUsage; // What the per-directory passes already used
+  canAfford: (total: TokenUsage) => boolean; // Checked before each corrective retry
+}
+
+// Directories whose pass failed or was skipped are listed up front so they aren't read as clean
+const describeModuleFindings = (modules: ModuleReview[]) => {
+  const missing = modules.filter(m => m.status !== 'done');
+  const findings = modules
+    .map(m => m.status === 'done'
+      ? `### ${m.name} (${m.files.length} files read, ${m.commits} commits)\n${m.summary}\n${m.findings.map(f => `- [${f.severity}] ${f.title}${f.path ? ` (${f.path})` : ''}: ${f.detail}`).join('\n') || '- No findings.'}`
+      : `### ${m.name}: not reviewed (${m.error || m.status})`)
+    .join('\n\n');
+  return missing.length
+    ? `NOT REVIEWED (no findings exist for these; do not treat them as clean): ${missing.map(m => `${m.name} (${m.status})`).join(', ')}\n\n${findings}`
+    : findings;
+};
+
+const MODULE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string' },
+    findings: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          severity: { type: 'string' },
+          title: { type: 'string' },
+          detail: { type: 'string' },
+          path: { type: 'string' },
+        },
+        required: ['severity', 'title', 'detail'],
+      },
+    },
+  },
+  required: ['summary', 'findings'],
+};
+
+// Only these get summaries; validation rejects summaries for anything else
+const PROMPT_COMMITS = 15;
+const PROMPT_PULL_REQUESTS = 10;
+
+const TRUNCATION_MARK = '\n[...truncated to fit the prompt budget]';
+
+const trimToTokens = (text: string, tokens: number) => {
+  const limit = tokens * CHARS_PER_TOKEN;
+  return text.length <= limit
+    ? { text, truncated: false }
+    : { text: `${text.substring(0, Math.max(0, limit - TRUNCATION_MARK.length))}${TRUNCATION_MARK}`, truncated: true };
+};
+
+// The budgeted sections of the review context. Each gets its share of the prompt budgets; code is
+// already held to its budget by the source selection. Commits and PRs keep every header (the
+// summaries are validated against them) and split what is left between patches and bodies.
+const describePromptSections = (data: ReviewRequestData): Record<PromptSection, { text: string; truncated: boolean }> => {
+  const budgets = { ...DEFAULT_PROMPT_BUDGETS, ...data.promptBudgets };
+
+  const readme = data.readme ? trimToTokens(data.readme, budgets.readme) : null;
+  const tree = trimToTokens(describeTreeForPrompt(data.files), budgets.tree);
+  const languages = trimToTokens(JSON.stringify(data.languages), budgets.languages);
+
+  // Files arrive in relevance order with the reasons they were picked. Only the selection's files are
+  // quoted here; a multi-pass review hands every fetched file to its per-directory passes instead.
+  const rankedFiles = data.sourceSelection?.files || [];
+  const included = data.sourceSelection ? new Set(rankedFiles.filter(r => r.included).map(r => r.path)) : null;
+  const fileContent = data.files
+    .filter(f => f.content && (!included || included.has(f.path)))
+    .sort((a, b) => rankedFiles.findIndex(r => r.path === a.path) - rankedFiles.findIndex(r => r.path === b.path))
+    .map(f => {
+      const reasons = rankedFiles.find(r => r.path === f.path)?.reasons;
+      return `--- FILE CONTENT: ${f.path}${reasons?.length ? ` (${reasons.join('; ')})` : ''} ---\n${f.content}\n--- END FILE ---`;
+    })
+    .join('\n\n');
+
+  const promptCommits = data.commits.slice(0, PROMPT_COMMITS);
+  const promptPullRequests = data.pullRequests.slice(0, PROMPT_PULL_REQUESTS);
+
+  let commitsTruncated = false;
+  const commitShare = (budgets.commits * CHARS_PER_TOKEN) / Math.max(promptCommits.length, 1);
+  const commitContext = promptCommits
+    .map(c => {
+      const header = `SHA: ${c.sha}\nMsg: ${c.commit.message}\nAuthor: ${c.commit.author.name}\nDiff Summary: ${c.filesModified?.map(f => f.filename).join(', ') || 'unknown'}\nPatch Snippet: `;
+      const patch = c.filesModified?.[0]?.patch;
+      if (!patch) return `${header}N/A`;
+      const room = Math.max(0, commitShare - header.length);
+      if (patch.length > room) commitsTruncated = true;
+      return `${header}${patch.substring(0, room) || 'omitted (over budget)'}`;
+    })
+    .join('\n---\n');
+
+  let pullRequestsTruncated = false;
+  const pullRequestShare = (budgets.pullRequests * CHARS_PER_TOKEN) / Math.max(promptPullRequests.length, 1);
+  const prContext = promptPullRequests
+    .map(pr => {
+      const status = pr.merged_at ? `merged after ${formatHours(hoursToMerge(pr))}` : pr.state;
+      const verdicts = Object.entries(reviewVerdicts(pr)).map(([author, state]) => `${author}: ${state}`).join(', ');
+      const size = pr.additions !== undefined ? `+${pr.additions}/-${pr.deletions} in ${pr.changed_files} files` : 'unknown';
+      const comments = (pr.comments || [])
+        .slice(0, 3)
+        .map(c => `  > ${c.author}${c.path ? ` on ${c.path}` : ''}: ${c.body.replace(/\s+/g, ' ').substring(0, 160)}`)
+        .join('\n');
+      const header = `PR #${pr.number}: ${pr.title}\nUser: ${pr.user.login}\nStatus: ${status}\nSize: ${size}\nRequested reviewers: ${pr.requested_reviewers?.join(', ') || 'none'}\nReviews: ${verdicts || 'none'}\nComments: ${pr.comment_count ?? 'unknown'}${comments ? `\n${comments}` : ''}\nLinked issues: ${pr.linked_issues?.map(n => `#${n}`).join(', ') || 'none'}\nBody: `;
+      if (!pr.body) return `${header}none`;
+      const room = Math.max(0, pullRequestShare - header.length);
+      if (pr.body.length > room) pullRequestsTruncated = true;
+      return `${header}${pr.body.substring(0, room) || 'omitted (over budget)'}`;
+    })
+    .join('\n---\n');
+
+  // Most active first, as many as the budget holds
+  const contributorEntries = data.contributors.map(c => `${c.login}: ${c.contributions}`);
+  let contributorRoom = budgets.contributors * CHARS_PER_TOKEN;
+  const listedContributors = contributorEntries.filter(entry => (contributorRoom -= entry.length + 2) >= 0);
+  const omittedContributors = contributorEntries.length - listedContributors.length;
+
+  return {
+    readme: readme
+      ? { text: `--- README ---\n${readme.text}\n--- END README ---`, truncated: readme.truncated }
+      : { text: 'No README available.', truncated: false },
+    tree: { text: `--- FILE TREE ---\n${tree.text}\n--- END TREE ---`, truncated: tree.truncated },
+    languages: { text: `--- LANGUAGES ---\n${languages.text}\n--- END LANGUAGES ---`, truncated: languages.truncated },
+    commits: { text: commitContext, truncated: commitsTruncated },
+    pullRequests: { text: prContext, truncated: pullRequestsTruncated },
+    // Ranked files the budget left out; excluded ones were never candidates
+    code: { text: fileContent, truncated: rankedFiles.some(f => !f.included && !f.excluded) },
+    contributors: {
+      text: `${listedContributors.join(', ')}${omittedContributors ? `, ...and ${omittedContributors} more` : ''}`,
+      truncated: omittedContributors > 0,
+    },
+  };
+};
+
+// Everything the scoring and report passes know about the repository. A multi-pass review adds
+// what its per-directory passes found.
+const buildReviewContext = (data: ReviewRequestData, modules?: ModuleReview[]) => {
+  // Ingestion Context Setup
+  const sections = describePromptSections(data);
+  const readmeContext = sections.readme.text;
+  const treeContext = sections.tree.text;
+  const languageContext = sections.languages.text;
+  const fileContent = sections.code.text;
+  const commitContext = sections.commits.text;
+
+  const historyContext = describeHistory(data.commits);
+
+  // Review practice across every ingested PR, then the enriched recent ones in detail
+  const prOverview = describePullRequestOverview(data.pullRequests);
+
+  const prContext = sections.pullRequests.text;
+
+  const issueContext = describeIssues(data.issues);
+
+  const ciContext = describeCi(data.ci);
+
+  const dependencyContext = describeDependencies(data.dependencies);
+
+  const contributorContext = sections.contributors.text;
+
+  const hotspotContext = data.hotspots
+    ? describeHotspotsForPrompt(data.hotspots)
+    : 'Hotspots not computed.';
+
+  const ownershipContext = data.ownership
+    ? describeOwnershipForPrompt(data.ownership)
+    : 'Ownership not computed.';
+
+  const snapshotContext = data.ref
+    ? `Snapshot analyzed: ${data.ref.label} (commit ${data.ref.sha}). Judge the code as of this snapshot.`
+    : `Snapshot analyzed: tip of ${data.repo.default_branch}.`;
+
+  const windowReport = data.windowCompliance;
+  const windowContext = windowReport
+    ? `Submission window: ${windowReport.window.start} to ${windowReport.window.end}\nCommits inside window: ${windowReport.compliantCommits} of ${windowReport.checkedCommits}\nViolations:\n${windowReport.violations.slice(0, 25).map(v => `- ${v.sha.substring(0, 7)} [${v.kind}] ${v.author}: ${v.message}`).join('\n') || 'None'}`
+    : null;
+
+  const context = `
+    You are an expert Principal Software Architect performing a strict audit of a codebase.
+    ${snapshotContext}
+
+    **INGESTION SEQUENCE:**
+    1. **README**: Understand the stated purpose of the project.
+    2. **FILE TREE**: Analyze the architectural organization.
+    3. **LANGUAGES & DEPENDENCIES**: Evaluate the tech stack distribution and dependency choices against the project goal.
+    4. **CODE/COMMITS/PRS/ISSUES**: Analyze the implementation details, commit habits, and collaboration patterns.
+
+    **DATA INPUTS:**
+    ${readmeContext}
+    
+    ${treeContext}
+
+    ${languageContext}
+
+    --- DEPENDENCIES (Parsed from manifests and lockfiles) ---
+    ${dependencyContext}
+
+    --- HISTORY OVERVIEW (Covers every ingested commit) ---
+    ${historyContext}
+
+    --- COMMIT HISTORY (Analyze these for the commit section) ---
+    ${commitContext}
+
+    --- PULL REQUESTS (Analyze these for the PR section) ---
+    ${prOverview}
+
+    ${prContext}
+
+    --- ISSUES (Analyze these for the issue section) ---
+    ${issueContext}
+
+    --- CONTINUOUS INTEGRATION (Evidence for the reliability score) ---
+    ${ciContext}
+
+    --- CHURN HOTSPOTS (Frequently changed, large or deeply nested files) ---
+    ${hotspotContext}
+
+    --- SOURCE CODE SNIPPETS ---
+    ${fileContent}
+${modules ? `
+    --- PER-DIRECTORY FINDINGS (Separate passes read each directory's code; weigh these when scoring quality, security, reliability and structure) ---
+    ${describeModuleFindings(modules)}
+` : ''}
+    --- CONTRIBUTORS (Aliases of one person merged; bots and reviewer-excluded accounts omitted everywhere) ---
+    ${contributorContext}
+
+    --- CODE OWNERSHIP (Who changed which directories) ---
+    ${ownershipContext}
+${windowContext ? `
+    --- SUBMISSION WINDOW (Time-boxed review) ---
+    ${windowContext}
+    Work authored before the start may be pre-built; work after the deadline or with rewritten dates must not be credited.
+    Factor these violations into commitQuality, teamBalance and quality, and add a **Window Compliance** section to the Markdown report.
+` : ''}`;
+  return context;
+};
+
+// Output requirements of the two passes, appended to the shared context
+const ANALYSIS_INSTRUCTIONS = `
+    **OUTPUT REQUIREMENTS:**
+    Return a JSON object with scores (0-100) and detailed summaries for the provided Commits and PRs.
+    - **commitSummaries**: One entry per commit under COMMIT HISTORY, keyed by its full SHA: 3-4 detailed sentences describing exactly what is happening in this commit technically, explaining the 'why' and 'how'.
+    - **prSummaries**: One entry per pull request under PULL REQUESTS, keyed by its number: 3-4 detailed sentences describing the intent and changes of this PR.
+    Do not summarize commits or PRs that are not listed above.
+    
+    Score Criteria:
+    - **Reliability**: Base it on the CI evidence: do workflows build and test the code, run on pull requests, pass consistently, and gate merges? Without any CI, reliability should not exceed 50.
+    - **Tech Stack Suitability**: Do the languages and declared dependencies match the Readme's goal? Penalize competing libraries for the same job, floating versions without a lockfile, and licenses that conflict with the project's own.
+    - **Team Balance**: Is work distributed or dominated by one person? Use the code ownership evidence: a repository bus factor of 1 or core directories owned by a single author should lower the score.
+    - **Commit Quality**: Are messages clear? Are changes atomic? Frequency?
+    - **PR Quality**: Are descriptions detailed? Are PRs reviewed by someone other than the author before merging, kept reviewable in size, merged without long stalls, and linked to the issues they address?
+    - **Issue Health**: Are issues answered and closed promptly, triaged (labels, assignees), and kept from going stale? Score 50 if no issues were ingested.
+    - **Structure Quality**: Is the file tree logical/clean?
+  `;
+
+const reportInstructions = (analysis: AIAnalysisResult | null, synthesizing: boolean) => `
+    **OUTPUT REQUIREMENTS:**
+    Write a Markdown Report.
+${analysis ? `    These scores (0-100) were already assigned in an earlier pass; quote them in the sections below and keep your reasoning consistent with them:
+    ${JSON.stringify(analysis.scores)}
+` : ''}
+    - **Project Summary**: Short paragraph (what is this?).
+    - **Tech Stack Review**: Score + Bullet points on *why* this stack fits or doesn't, citing specific dependencies, lockfile coverage and license risks.
+    - **Commit Review**: Score + Bullet points on structure/frequency/quality.
+    - **Contributor Review**: Score + Bullet points on team balance, citing the bus factor and any single-owner directories.
+    - **PR Review**: Score + Bullet points on description quality and code-review practice (review coverage, verdicts, discussion, merge latency, size).
+    - **Issue Review**: Score + Bullet points on responsiveness, triage and backlog.
+    *Note: Do NOT include a File Structure Review section in the Markdown, but DO calculate the score in the JSON.*
+    *Do NOT review specific code snippets in the markdown. Keep it high-level patterns.*
+${synthesizing ? `    - **Directory Findings**: One bullet per reviewed directory with its most serious finding; name any directory that was not reviewed.
+` : ''}    Respond with the Markdown only.
+  `;
+
+export const generateReviewStream = async function* (
+  data: ReviewRequestData,
+  target: LLMTarget,
+  signal?: AbortSignal,
+  synthesis?: ReviewSynthesis
+): AsyncGenerator<ReviewStreamChunk> {
+  const context = buildReviewContext(data, synthesis?.modules);
+  const promptCommits = data.commits.slice(0, PROMPT_COMMITS);
+  const promptPullRequests = data.pullRequests.slice(0, PROMPT_PULL_REQUESTS);
+
+  const analysisPrompt = `${context}${ANALYSIS_INSTRUCTIONS}`;
+
+  const reportPrompt = (analysis: AIAnalysisResult | null) => `${context}${reportInstructions(analysis, !!synthesis)}`;
+
+  const runner = createPassRunner(target, signal, synthesis?.spent);
+
+  // Pass 1: scores and summaries in JSON mode, repaired until they validate
+  const expected = { shas: promptCommits.map(c => c.sha), prNumbers: promptPullRequests.map(pr => pr.number) };
+  const { result: analysis, problems } = yield* runStructuredPass(
+    runner,
+    analysisPrompt,
+    ANALYSIS_SCHEMA,
+    text => validateAnalysis(text, expected),
+    'Review JSON',
+    // Under a ceiling, a retry only runs if the report can still follow it
+    (repairPrompt, result) => !synthesis || synthesis.canAfford(addUsage(runner.spent(), addUsage(
+      estimatePass(repairPrompt, SYNTHESIS_OUTPUT_TOKENS), estimatePass(reportPrompt(result), SYNTHESIS_OUTPUT_TOKENS))))
+  );
+  if (signal?.aborted) return;
+  yield analysis
+    ? { type: 'analysis', data: analysis }
+    : { type: 'analysis-error', message: problems.join(' ') || 'The model returned no scores.' };
+
+  // Pass 2: the Markdown report, streamed on its own
+  const report = yield* runner.run(reportPrompt(analysis), 'report');
+  if (report.error) yield { type: 'text', content: `\n\n**Error:** ${report.error}` };
+};
+
+// One directory's prompt: its code (in selection rank order, up to MODULE_PROMPT_TOKENS) and the commits that touched it
+const buildModulePrompt = (data: ReviewRequestData, plan: ModulePlan) => {
+  const rankedFiles = data.sourceSelection?.files || [];
+  const rank = (path: string) => {
+    const index = rankedFiles.findIndex(r => r.path === path);
+    return index === -1 ? rankedFiles.length : index;
+  };
+  const ordered = [...plan.files].sort((a, b) => rank(a.path) - rank(b.path));
+
+  const quoted: string[] = [];
+  let budget = MODULE_PROMPT_TOKENS * CHARS_PER_TOKEN;
+  for (const file of ordered) {
+    if (file.content!.length > budget) break;
+    budget -= file.content!.length;
+    quoted.push(file.path);
+  }
+  const files = ordered.filter(f => quoted.includes(f.path));
+  const listedOnly = ordered.filter(f => !quoted.includes(f.path));
+
+  const commitContext = plan.commits
+    .map(c => `- ${c.sha.substring(0, 7)} ${c.commit.author.name}: ${c.commit.message.split('\n')[0]} (${c.filesModified?.map(f => f.filename).join(', ') || 'files unknown'})`)
+    .join('\n');
+
+  const prompt = `
+    You are an expert Principal Software Architect auditing one part of a larger codebase.
+    Other directories are reviewed separately; your findings will be merged with theirs into the final review.
+
+    Repository: ${data.repo.full_name}${data.repo.description ? ` - ${data.repo.description}` : ''}
+    ${data.ref ? `Snapshot: ${data.ref.label} (commit ${data.ref.sha})` : `Snapshot: tip of ${data.repo.default_branch}`}
+    Part under review: ${plan.name === plan.directories[0] ? `${plan.name}/` : `${plan.name} (${plan.directories.map(d => d || 'top-level files').join(', ')})`}
+
+    --- SOURCE CODE ---
+    ${files.map(f => `--- FILE CONTENT: ${f.path} ---\n${f.content}\n--- END FILE ---`).join('\n\n')}
+${listedOnly.length ? `
+    Also in this part, not shown: ${listedOnly.map(f => f.path).join(', ')}
+` : ''}
+    --- RECENT COMMITS TOUCHING THIS PART ---
+    ${commitContext || 'None among the detailed commits.'}
+
+    **OUTPUT REQUIREMENTS:**
+    Return a JSON object:
+    - **summary**: 2-3 sentences on what this part does and how well it is built.
+    - **findings**: Up to 8 concrete problems backed by the code above: bugs, security issues, reliability gaps, design or structure problems, missing tests.
+      Each has a severity ("high", "medium" or "low"), a one-line title, a detail of 1-3 sentences citing the evidence, and the file path.
+    Do not report praise or restate the code.
+  `;
+
+  return { prompt, files: files.map(f => f.path) };
+};
+
+// Runs tasks with at most `limit` in flight and yields whatever they emit as it arrives.
+// Tasks report their own failures; a rejection here is only logged.
+const runConcurrently = async function* <T>(tasks: ((emit: (item: T) => void) => Promise<void>)[], limit: number): AsyncGenerator<T> {
+  const queue: T[] = [];
+  let wake: (() => void) | null = null;
+  const notify = () => {
+    wake?.();
+    wake = null;
+  };
+  let next = 0;
+  let active = 0;
+  const start = () => {
+    while (active < limit && next < tasks.length) {
+      const task = tasks[next++];
+      active++;
+      task(item => {
+        queue.push(item);
+        notify();
+      }).catch(error => console.error('Review pass failed', error)).finally(() => {
+        active--;
+        start();
+        notify();
+      });
+    }
+  };
+
+  start();
+  while (active > 0 || queue.length) {
+    if (!queue.length) await new Promise<void>(resolve => (wake = resolve));
+    while (queue.length) yield queue.shift()!;
+  }
+};
+
+// Map-reduce review for codebases too large for one prompt: every directory gets its own pass
+// (in parallel, one key per pass), then generateReviewStream scores and writes the report from
+// the usual repository context plus what those passes found. Passes that would push the
+// review over the budget are skipped, keeping room for the synthesis.
+export const generateMultiPassReviewStream = async function* (
+  data: ReviewRequestData,
+  target: LLMTarget,
+  budget: ReviewBudget,
+  signal?: AbortSignal
+): AsyncGenerator<ReviewStreamChunk> {
+  const plans = planModules(data.files, data.commits);
+  const prompts = plans.map(plan => buildModulePrompt(data, plan));
+  const modules: ModuleReview[] = plans.map((plan, i) => ({
+    name: plan.name,
+    directories: plan.directories,
+    files: prompts[i].files,
+    commits: plan.commits.length,
+    status: 'pending',
+    findings: [],
+  }));
+  for (const module of modules) yield { type: 'module', data: module };
+
+  const pricing = pricingFor(target);
+  const fits = (total: TokenUsage) =>
+    (budget.maxTokens === null || total.total <= budget.maxTokens) &&
+    (budget.maxCostUsd === null || !pricing || usageCost(total, pricing) <= budget.maxCostUsd);
+
+  // Scores and report each resend the repository context plus every directory's findings
+  const synthesisInput = estimatePass(buildReviewContext(data, []), 0).input + modules.length * MODULE_FINDINGS_TOKENS;
+  const synthesisReserve: TokenUsage = { input: 2 * synthesisInput, output: 2 * SYNTHESIS_OUTPUT_TOKENS, total: 2 * (synthesisInput + SYNTHESIS_OUTPUT_TOKENS) };
+  if (!fits(synthesisReserve)) {
+    yield { type: 'analysis-error', message: `The review budget is below the ~${synthesisReserve.total.toLocaleString()} tokens the final scoring and report need on their own.` };
+    return;
+  }
+
+  // Finished passes count what they reported; running ones hold their estimate until they finish
+  const passUsage = new Map<number, TokenUsage>();
+  const reserved = new Map<number, TokenUsage>();
+  const sum = (usages: Iterable<TokenUsage>) => [...usages].reduce(addUsage, { input: 0, output: 0, total: 0 });
+  const committed = () => addUsage(sum(passUsage.values()), sum(reserved.values()));
+
+  const lanes = Math.max(1, Math.min(MAX_PARALLEL_PASSES, KeyManager.getValidLLMKeys(target).length));
+  const tasks = modules.map((module, i) => async (emit: (chunk: ReviewStreamChunk) => void) => {
+    const update = (changes: Partial<ModuleReview>) => {
+      modules[i] = { ...modules[i], ...changes };
+      emit({ type: 'module', data: modules[i] });
+    };
+    if (signal?.aborted) return;
+    const estimate = estimatePass(prompts[i].prompt, MODULE_OUTPUT_TOKENS);
+    if (!fits(addUsage(addUsage(committed(), estimate), synthesisReserve))) {
+      update({ status: 'skipped', error: 'Skipped to stay within the review budget' });
+      return;
+    }
+    reserved.set(i, estimate);
+    update({ status: 'running' });
+
+    let text = '';
+    let error: string | undefined;
+    try {
+      for await (const chunk of streamGeneration(target, prompts[i].prompt, signal, { schema: MODULE_SCHEMA, lane: i % lanes })) {
+        if (chunk.type === 'error') error = chunk.message;
+        else if (chunk.type === 'text') text += chunk.content;
+        else if (chunk.type === 'usage') {
+          passUsage.set(i, chunk.data);
+          emit({ type: 'usage', data: sum(passUsage.values()) });
+        }
+      }
+    } catch (e) {
+      error = e instanceof Error ? e.message : String(e);
+    } finally {
+      reserved.delete(i);
+    }
+    if (signal?.aborted) return;
+
+    const result = error ? null : validateModuleReview(text);
+    update(result
+      ? { status: 'done', ...result, usage: passUsage.get(i) }
+      : { status: 'failed', error: error || 'The model did not return valid JSON', usage: passUsage.get(i) });
+  });
+
+  yield* runConcurrently(tasks, lanes);
+  if (signal?.aborted) return;
+
+  yield* generateReviewStream(data, target, signal, {
+    modules,
+    spent: sum(passUsage.values()),
+    canAfford: fits,
+  });
+};
+
+const PROMPT_SECTIONS: PromptSection[] = ['readme', 'tree', 'languages', 'commits', 'pullRequests', 'code', 'contributors'];
+
+// What a review will send, section by section, so its size and cost can be weighed before it runs.
+// The sections and the unbudgeted rest of the context go out with both the scoring and the report pass.
+export const planReviewPrompt = (data: ReviewRequestData, multiPass: boolean): ReviewPromptPlan => {
+  const sections = describePromptSections(data);
+  let other = buildReviewContext(data, multiPass ? [] : undefined);
+  const plans: PromptSectionPlan[] = PROMPT_SECTIONS.map(section => {
+    other = other.replace(sections[section].text, '');
+    return { section, ...sections[section] };
+  });
+
+  const instructions = estimatePass(ANALYSIS_INSTRUCTIONS + reportInstructions(null, multiPass), 0).input;
+  const modulePrompts = multiPass ? planModules(data.files, data.commits).map(plan => buildModulePrompt(data, plan).prompt) : [];
+  const moduleInput = modulePrompts.reduce((acc, prompt) => acc + estimatePass(prompt, 0).input, 0);
+
+  return {
+    sections: [...plans, { section: 'other', text: other, truncated: false }],
+    passes: 2,
+    directoryPasses: modulePrompts.length,
+    extraInputTokens: instructions + moduleInput + 2 * modulePrompts.length * MODULE_FINDINGS_TOKENS,
+    outputTokens: 2 * SYNTHESIS_OUTPUT_TOKENS + modulePrompts.length * MODULE_OUTPUT_TOKENS,
+  };
+};
+
+// A section's size: the backend's count when it was taken for this exact text, otherwise the estimate
+export const sectionTokens = (section: PromptSectionPlan, counts: PromptTokenCounts) => {
+  const count = counts[section.section];
+  return count && count.text === section.text
+    ? { tokens: count.tokens, exact: true }
+    : { tokens: Math.ceil(section.text.length / CHARS_PER_TOKEN), exact: false };
+};
+
+export const estimatePlanUsage = (plan: ReviewPromptPlan, counts: PromptTokenCounts): TokenUsage => {
+  const perPass = plan.sections.reduce((acc, section) => acc + sectionTokens(section, counts).tokens, 0);
+  const input = perPass * plan.passes + plan.extraInputTokens;
+  return { input, output: plan.outputTokens, total: input + plan.outputTokens };
+};
+
+// One repository's section of the comparative prompt; trimmed harder than the single review so several fit
+const describeComparedRepository = (entry: ComparisonEntry) => {
+  const { details } = entry;
+  const team = teamView(details);
+  const languages = languageShares(details.languages).slice(0, 8).map(l => `${l.name} ${Math.round(l.share * 100)}%`).join(', ');
+  return `=== REPOSITORY: ${details.info.full_name} (snapshot ${details.ref.label}, commit ${details.ref.sha}) ===
+Description: ${details.info.description || 'none'}
+--- README ---
+${details.readme ? details.readme.substring(0, 2000) : 'No README available.'}
+--- FILE TREE ---
+${describeTreeForPrompt(details.files).substring(0, 4000)}
+--- LANGUAGES ---
+${languages || 'none detected'}
+--- DEPENDENCIES ---
+${describeDependencies(details.dependencies)}
+--- HISTORY ---
+${describeHistory(team.commits)}
+Recent commit messages:
+${team.commits.slice(0, 10).map(c => `- ${c.commit.message.split('\n')[0]}`).join('\n')}
+--- CONTRIBUTORS ---
+${team.contributors.slice(0, 10).map(c => `${c.login}: ${c.contributions}`).join(', ') || 'none'}
+--- CODE OWNERSHIP ---
+${describeOwnershipForPrompt(analyzeOwnership(team.commits))}
+--- CHURN HOTSPOTS ---
+${describeHotspotsForPrompt(analyzeHotspots(details.files, team.commits))}
+--- PULL REQUESTS ---
+${describePullRequestOverview(details.pullRequests)}
+--- ISSUES ---
+${describeIssues(details.issues)}
+--- CONTINUOUS INTEGRATION ---
+${describeCi(details.ci)}${entry.scores ? `
+--- EARLIER SINGLE-REPOSITORY SCORES ---
+${JSON.stringify(entry.scores)}` : ''}`;
+};
+
+// Scores are one array entry per repository, like the review's summaries; validateComparison keys them by name
+const COMPARISON_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    scores: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { repository: { type: 'string' }, ...SCORE_PROPERTIES },
+        required: ['repository', ...SCORE_KEYS],
+      },
+    },
+    ranking: { type: 'array', items: { type: 'string' } },
+  },
+  required: ['scores', 'ranking'],
+};
+
+export const generateComparisonStream = async function* (entries: ComparisonEntry[], target: LLMTarget, signal?: AbortSignal): AsyncGenerator<ReviewStreamChunk> {
+  const names = entries.map(e => e.details.info.full_name);
+
+  const context = `
+    You are an expert Principal Software Architect comparing ${entries.length} codebases side by side.
+    Judge every repository against the same criteria so the scores are comparable, and explain the differences.
+
+    **DATA INPUTS:**
+    ${entries.map(describeComparedRepository).join('\n\n')}
+`;
+
+  const scoresPrompt = `${context}
+    **OUTPUT REQUIREMENTS:**
+    Return a JSON object:
+    - **scores**: One entry per repository, its name under "repository" (exactly one of: ${names.join(', ')}), scored (0-100)
+      on quality, security, reliability, techStackSuitability, teamBalance, commitQuality, prQuality, issueHealth
+      and structureQuality, using the same criteria as a single review.
+    - **ranking**: Every repository name, from strongest to weakest overall.
+  `;
+
+  const reportPrompt = (result: ComparisonResult | null) => `${context}
+    **OUTPUT REQUIREMENTS:**
+    Write a Markdown Report.
+${result ? `    These scores and this ranking were already assigned in an earlier pass; keep your reasoning consistent with them:
+    ${JSON.stringify(result)}
+` : ''}
+    - **Overview**: One short paragraph per repository (what is it?).
+    - **Head to Head**: One bullet per criterion naming the strongest and weakest repository on it.
+    - **Key Differences**: Bullet points on where the repositories diverge most (stack, team balance, review practice, CI, structure), citing evidence.
+    - **Verdict**: Which repository is strongest overall and why, and what each of the others should fix first.
+    Respond with the Markdown only.
+  `;
+
+  const runner = createPassRunner(target, signal);
+
+  // Pass 1: per-repository scores and the ranking in JSON mode, repaired until they validate
+  const { result, problems } = yield* runStructuredPass(runner, scoresPrompt, COMPARISON_SCHEMA, text => validateComparison(text, names), 'Comparison JSON');
+  if (signal?.aborted) return;
+  yield result
+    ? { type: 'comparison', data: result }
+    : { type: 'analysis-error', message: problems.join(' ') || 'The model returned no scores.' };
+
+  // Pass 2: the Markdown report, streamed on its own
+  const report = yield* runner.run(reportPrompt(result), 'report');
+  if (report.error) yield { type: 'text', content: `\n\n**Error:** ${report.error}` };
+};
+
+const PULL_REQUEST_REVIEW_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string' },
+    verdict: { type: 'string', enum: VERDICTS },
+    findings: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          file: { type: 'string' },
+          startLine: { type: 'integer' },
+          endLine: { type: 'integer' },
+          severity: { type: 'string', enum: SEVERITIES },
+          category: { type: 'string', enum: CATEGORIES },
+          title: { type: 'string' },
+          suggestion: { type: 'string' },
+        },
+        required: ['file', 'startLine', 'endLine', 'severity', 'category', 'title', 'suggestion'],
+      },
+    },
+  },
+  required: ['summary', 'verdict', 'findings'],
+};
+
+// Focused review of one pull request: numbered diff hunks plus the head version of the changed files
+export const generatePullRequestReviewStream = async function* (data: PullRequestReviewData, target: LLMTarget, signal?: AbortSignal): AsyncGenerator<ReviewStreamChunk> {
+  const { pullRequest: pr, location } = data;
+
+  const diffContext = data.files
+    .map(f => {
+      const name = f.previous_filename ? `${f.previous_filename} -> ${f.filename}` : f.filename;
+      const patch = f.patch ? numberPatchForPrompt(f.patch) : '(no textual diff: binary or too large)';
+      return `--- DIFF: ${name} [${f.status}, +${f.additions}/-${f.deletions}] ---\n${patch}\n--- END DIFF ---`;
+    })
+    .join('\n\n');
+
+  const fileContext = data.files
+    .filter(f => f.content)
+    .map(f => `--- FILE CONTENT (head): ${f.filename} ---\n${f.content!.split('\n').map((line, i) => `${String(i + 1).padStart(5)} ${line}`).join('\n')}\n--- END FILE ---`)
+    .join('\n\n');
+
+  const context = `
+    You are an expert Principal Software Engineer reviewing a single pull request before it is merged.
+
+    **PULL REQUEST:**
+    Repository: ${location.repository.owner}/${location.repository.repo}
+    PR #${pr.number}: ${pr.title}
+    Author: ${pr.user.login}
+    Branches: ${data.headRef} into ${data.baseRef}
+    Size: +${pr.additions ?? '?'}/-${pr.deletions ?? '?'} in ${data.filesTotal} files${data.filesTotal > data.files.length ? ` (only the first ${data.files.length} are included)` : ''}
+    Description:
+    ${pr.body?.trim() || '(none)'}
+
+    **DIFF (head line numbers in the left column):**
+    ${diffContext}
+
+    **SURROUNDING CODE (head version, numbered):**
+    ${fileContext || 'No file contents available.'}
+`;
+
+  const findingsPrompt = `${context}
+    **OUTPUT REQUIREMENTS:**
+    Return a JSON object:
+    - **summary**: 2-3 sentences on what the PR does and its overall quality.
+    - **verdict**: "approve", "comment" or "request_changes".
+    - **findings**: Concrete problems introduced or exposed by this change: bugs, security issues, performance problems,
+      missing tests, maintainability and documentation gaps. Each names the file as shown in the diff, the head (new)
+      startLine and endLine, a severity, a category, a one-line title stating the problem, and a suggestion on how to
+      fix it, with a short code snippet where it helps.
+    Only cite lines in files this PR changes, and prefer lines the PR adds. Do not report praise or restate the diff.
+  `;
+
+  const reportPrompt = (result: PullRequestReviewResult | null) => `${context}
+    **OUTPUT REQUIREMENTS:**
+    Write a Markdown Report.
+${result ? `    This verdict and these findings were already reported in an earlier pass; build on them rather than repeating each one:
+    ${JSON.stringify({ verdict: result.verdict, findings: result.findings.map(f => `${f.severity} ${f.file}:${f.startLine} ${f.title}`) })}
+` : ''}
+    - **Overview**: What the change does and whether it achieves the description's goal.
+    - **Risks**: Bullet points on the most important findings and anything needing manual testing.
+    - **Before Merging**: A short numbered list of what must change.
+    Respond with the Markdown only.
+  `;
+
+  const runner = createPassRunner(target, signal);
+
+  // Pass 1: verdict and line-level findings in JSON mode, repaired until they validate
+  const { result, problems } = yield* runStructuredPass(runner, findingsPrompt, PULL_REQUEST_REVIEW_SCHEMA, text => validatePullRequestReview(text, data.files), 'Pull request review JSON');
+  if (signal?.aborted) return;
+  yield result
+    ? { type: 'pull-request-review', data: result }
+    : { type: 'analysis-error', message: problems.join(' ') || 'The model returned no findings.' };
+
+  // Pass 2: the Markdown write-up, streamed on its own
+  const report = yield* runner.run(reportPrompt(result), 'report');
+  if (report.error) yield { type: 'text', content: `\n\n**Error:** ${report.error}` };
+};
@@ -0,0 +1,321 @@
+import { Commit, FileNode, Hotspot, RankedSourceFile, SourceOverrides, SourceSelection } from '../types';
+
+// Chooses which source files the model gets to read. Providers call attachSourceContents, which reads
+// the entrypoint manifests and then the candidates selectSourceFiles scores from paths, declared
+// entrypoints and commit churn; once contents are in, rankSourceFiles re-scores the pool (adding
+// import fan-in and hotspots) and fills the token budget.
+
+export const MAX_SOURCE_CANDIDATES = 40;
+export const MAX_FILE_CONTENT_CHARS = 20000;
+export const CHARS_PER_TOKEN = 4;
+
+const MAX_CANDIDATE_BYTES = 200000;
+
+const SOURCE_EXTENSIONS = [
+  'ts', 'tsx', 'js', 'jsx', 'mjs', 'cjs', 'vue', 'svelte', 'py', 'go', 'rs', 'java', 'kt', 'scala', 'swift',
+  'rb', 'php', 'cs', 'c', 'h', 'cpp', 'cc', 'hpp', 'dart', 'lua', 'ex', 'exs', 'sh', 'sql', 'html', 'css', 'scss',
+];
+
+// Build / dependency / runtime configuration worth reading; any other .json/.yml is treated as data
+const CONFIG_FILES = /(^|\/)(package\.json|tsconfig(\.[\w-]+)?\.json|(vite|webpack|rollup|next|nuxt|svelte|astro|tailwind|jest|vitest|babel)\.config\.[cm]?[jt]s|pyproject\.toml|setup\.py|setup\.cfg|requirements(-[\w]+)?\.txt|Pipfile|Cargo\.toml|go\.mod|pom\.xml|build\.gradle(\.kts)?|Gemfile|Dockerfile|docker-compose\.ya?ml|Makefile)$/;
+
+const EXCLUSIONS: { pattern: RegExp; reason: string }[] = [
+  { pattern: /(^|\/)(node_modules|vendor|third_party|bower_components|\.yarn)\//, reason: 'vendored' },
+  { pattern: /(^|\/)(dist|build|out|target|coverage|\.next)\//, reason: 'build output' },
+  { pattern: /(^|\/)(__tests__|__mocks__|tests?|spec|e2e|fixtures)\/|\.(test|spec)\.[\w]+$|_test\.(go|py)$|(^|\/)test_[^/]+\.py$/, reason: 'test' },
+  { pattern: /\.min\.(js|css)$|\.d\.ts$|\.pb\.go$|_pb2\.py$|\.generated\.|(^|\/)(package-lock\.json|yarn\.lock|pnpm-lock\.yaml|Cargo\.lock|poetry\.lock|go\.sum)$/, reason: 'generated' },
+];
+
+const GENERATED_MARKER = /@generated|Code generated .* DO NOT EDIT|auto-generated|autogenerated/i;
+
+// Conventional entrypoints across ecosystems
+const CONVENTIONAL_ENTRYPOINTS = /(^|\/)(index|main|app|App|server|cli)\.(ts|tsx|js|jsx|mjs|py|go|rs)$|(^|\/)(__main__|manage|wsgi|asgi)\.py$|(^|\/)src\/(main|lib)\.rs$|(^|\/)cmd\/[^/]+\/main\.go$/;
+
+const CORE_DIRECTORIES = /^(src|lib|app|core|pkg|internal|server|api|services)\//;
+
+const extensionOf = (path: string) => path.split('.').pop()?.toLowerCase() || '';
+
+export const isConfigFile = (path: string) => CONFIG_FILES.test(path);
+
+export const exclusionReason = (path: string): string | null =>
+  EXCLUSIONS.find(e => e.pattern.test(path))?.reason ?? null;
+
+// Attaches downloaded content, cut to MAX_FILE_CONTENT_CHARS; truncated remembers the file was longer
+export const withContent = (file: FileNode, content: string): FileNode => ({
+  ...file,
+  content: content.substring(0, MAX_FILE_CONTENT_CHARS),
+  truncated: content.length > MAX_FILE_CONTENT_CHARS,
+});
+
+export const estimateTokens = (content: string) =>
+  Math.ceil(Math.min(content.length, MAX_FILE_CONTENT_CHARS) / CHARS_PER_TOKEN);
+
+// Path-only signals shared by both passes
+const staticSignals = (path: string): { score: number; reasons: string[] } => {
+  const reasons: string[] = [];
+  let score = 0;
+
+  if (isConfigFile(path)) {
+    score += 20;
+    reasons.push('build/config manifest');
+  } else {
+    score += 10;
+  }
+  if (CONVENTIONAL_ENTRYPOINTS.test(path)) {
+    score += 25;
+    reasons.push('conventional entrypoint');
+  }
+  if (CORE_DIRECTORIES.test(path)) {
+    score += 5;
+    reasons.push('core source directory');
+  }
+  const depth = path.split('/').length - 1;
+  if (depth > 3) score -= 2 * (depth - 3);
+
+  return { score, reasons };
+};
+
+const dirname = (path: string) => path.split('/').slice(0, -1).join('/');
+
+const normalize = (path: string) => {
+  const parts: string[] = [];
+  path.split('/').forEach(part => {
+    if (part === '..') parts.pop();
+    else if (part && part !== '.') parts.push(part);
+  });
+  return parts.join('/');
+};
+
+const joinPath = (dir: string, rel: string) => normalize(dir ? `${dir}/${rel}` : rel);
+
+// Paths declared as entrypoints by manifests among the fetched files
+const declaredEntrypoints = (files: FileNode[]): Map<string, string> => {
+  const entrypoints = new Map<string, string>();
+  const add = (dir: string, target: string, source: string) => {
+    if (typeof target === 'string' && target) entrypoints.set(joinPath(dir, target.replace(/^\//, '')), source);
+  };
+
+  files.forEach(f => {
+    if (!f.content) return;
+    const dir = dirname(f.path);
+    const name = f.path.split('/').pop();
+
+    if (name === 'package.json') {
+      try {
+        const pkg = JSON.parse(f.content);
+        ['main', 'module', 'browser', 'source'].forEach(key => add(dir, pkg[key], `package.json ${key}`));
+        const bins = typeof pkg.bin === 'string' ? [pkg.bin] : Object.values(pkg.bin || {});
+        bins.forEach(bin => add(dir, bin as string, 'package.json bin'));
+        const exportTargets = (value: unknown): string[] =>
+          typeof value === 'string' ? [value] : value && typeof value === 'object' ? Object.values(value).flatMap(exportTargets) : [];
+        exportTargets(pkg.exports).forEach(target => add(dir, target, 'package.json exports'));
+        Object.values(pkg.scripts || {}).forEach(script => {
+          const match = String(script).match(/\b(?:node|tsx|ts-node|bun)\s+([\w./-]+\.[cm]?[jt]sx?)/);
+          if (match) add(dir, match[1], 'package.json scripts');
+        });
+      } catch (e) {
+        // Truncated or invalid manifest; nothing to learn from it
+      }
+    } else if (name === 'index.html') {
+      [...f.content.matchAll(/<script[^>]+src=["']([^"']+)["']/g)].forEach(m => add(dir, m[1], 'index.html script'));
+    } else if (name === 'pyproject.toml') {
+      [...f.content.matchAll(/^\s*[\w-]+\s*=\s*["']([\w.]+):[\w.]+["']/gm)].forEach(m =>
+        add(dir, `${m[1].replace(/\./g, '/')}.py`, 'pyproject.toml scripts'));
+    } else if (name === 'Cargo.toml') {
+      [...f.content.matchAll(/^\s*path\s*=\s*["']([^"']+\.rs)["']/gm)].forEach(m => add(dir, m[1], 'Cargo.toml target'));
+    }
+  });
+
+  return entrypoints;
+};
+
+const JS_IMPORTS = /(?:import|export)\s[^'"]*?from\s*['"]([^'"]+)['"]|import\s*\(\s*['"]([^'"]+)['"]\s*\)|require\(\s*['"]([^'"]+)['"]\s*\)|import\s+['"]([^'"]+)['"]/g;
+const PY_IMPORTS = /^\s*(?:from\s+(\.*[\w.]*)\s+import|import\s+([\w.]+))/gm;
+const RUST_MODS = /^\s*(?:pub\s+)?mod\s+(\w+)\s*;/gm;
+const C_INCLUDES = /^\s*#include\s+"([^"]+)"/gm;
+
+const JS_EXTENSIONS = ['', '.ts', '.tsx', '.js', '.jsx', '.mjs', '.vue', '.svelte', '/index.ts', '/index.tsx', '/index.js', '/index.jsx'];
+
+// Resolves the import specifiers in one file to paths of other files in the pool
+const resolveImports = (file: FileNode, paths: Set<string>): string[] => {
+  const content = file.content || '';
+  const dir = dirname(file.path);
+  const ext = extensionOf(file.path);
+  const firstExisting = (candidates: string[]) => candidates.find(c => paths.has(c));
+  const found: (string | undefined)[] = [];
+
+  if (['ts', 'tsx', 'js', 'jsx', 'mjs', 'cjs', 'vue', 'svelte'].includes(ext)) {
+    for (const m of content.matchAll(JS_IMPORTS)) {
+      const spec = m[1] || m[2] || m[3] || m[4];
+      // Relative imports, plus the common "@/" and "~/" root aliases
+      const base = spec.startsWith('.') ? joinPath(dir, spec) : /^[@~]\//.test(spec) ? normalize(spec.slice(2)) : null;
+      if (base === null) continue;
+      const stripped = base.replace(/\.js$/, '');
+      found.push(firstExisting([...JS_EXTENSIONS.map(e => base + e), ...JS_EXTENSIONS.map(e => stripped + e), ...JS_EXTENSIONS.map(e => `src/${base}${e}`)]));
+    }
+  } else if (ext === 'py') {
+    for (const m of content.matchAll(PY_IMPORTS)) {
+      const spec = m[1] || m[2];
+      const dots = spec.match(/^\.*/)![0].length;
+      const modulePath = spec.slice(dots).replace(/\./g, '/');
+      const roots = dots > 0
+        ? [dir.split('/').slice(0, Math.max(0, dir.split('/').length - (dots - 1))).join('/')]
+        : ['', 'src', dir];
+      roots.forEach(root => {
+        const base = joinPath(root, modulePath);
+        found.push(firstExisting([`${base}.py`, `${base}/__init__.py`]));
+      });
+    }
+  } else if (ext === 'rs') {
+    for (const m of content.matchAll(RUST_MODS)) {
+      found.push(firstExisting([joinPath(dir, `${m[1]}.rs`), joinPath(dir, `${m[1]}/mod.rs`)]));
+    }
+  } else if (['c', 'h', 'cpp', 'cc', 'hpp'].includes(ext)) {
+    for (const m of content.matchAll(C_INCLUDES)) {
+      found.push(firstExisting([joinPath(dir, m[1]), joinPath('include', m[1])]));
+    }
+  }
+
+  return [...new Set(found.filter((p): p is string => !!p && p !== file.path))];
+};
+
+// Manifests whose declared entrypoints steer the download; they are read before anything else
+const ENTRYPOINT_MANIFESTS = /(^|\/)(package\.json|pyproject\.toml|Cargo\.toml|index\.html)$/;
+const MAX_MANIFESTS = 10;
+
+// Shared by both passes so a file scores the same before and after download
+const ENTRYPOINT_SCORE = 40;
+const churnScore = (changes: number) => Math.min(changes * 5, 25);
+
+const countChurn = (commits: Commit[]) => {
+  const churn = new Map<string, number>();
+  commits.forEach(c => c.filesModified?.forEach(m => churn.set(m.filename, (churn.get(m.filename) || 0) + 1)));
+  return churn;
+};
+
+// Entrypoint manifests to read first, shallowest first
+export const selectManifests = (files: FileNode[]): FileNode[] =>
+  files
+    .filter(f => f.type === 'blob' && ENTRYPOINT_MANIFESTS.test(f.path) && !exclusionReason(f.path))
+    .sort((a, b) => a.path.split('/').length - b.path.split('/').length || a.path.localeCompare(b.path))
+    .slice(0, MAX_MANIFESTS);
+
+// Picks the files whose contents are worth downloading: path signals, plus the entrypoints declared
+// by manifests already read (see selectManifests) and how often the ingested commits changed each file.
+// Ties go to the path order so the pick doesn't depend on how the tree was listed.
+export const selectSourceFiles = (files: FileNode[], commits: Commit[] = []): FileNode[] => {
+  const entrypoints = declaredEntrypoints(files);
+  const churn = countChurn(commits);
+  return files
+    .filter(f => f.type === 'blob' && f.content === undefined)
+    .filter(f => entrypoints.has(f.path) || isConfigFile(f.path) || SOURCE_EXTENSIONS.includes(extensionOf(f.path)))
+    .filter(f => !exclusionReason(f.path) && (f.size === undefined || f.size <= MAX_CANDIDATE_BYTES))
+    .map(f => ({
+      file: f,
+      score: staticSignals(f.path).score + (entrypoints.has(f.path) ? ENTRYPOINT_SCORE : 0) + churnScore(churn.get(f.path) || 0),
+    }))
+    .sort((a, b) => b.score - a.score || a.file.path.localeCompare(b.file.path))
+    .slice(0, MAX_SOURCE_CANDIDATES)
+    .map(({ file }) => file);
+};
+
+// Downloads contents in two rounds: manifests (plus `alsoRead`, e.g. the README) first, then the
+// candidates selectSourceFiles picks with what they declare. read resolves path -> text for the files
+// it could get; missing and binary ones are left out.
+export const attachSourceContents = async (
+  files: FileNode[],
+  commits: Commit[],
+  read: (batch: FileNode[]) => Promise<Map<string, string>>,
+  alsoRead: FileNode[] = []
+): Promise<{ files: FileNode[]; texts: Map<string, string> }> => {
+  // Only manifests and candidates join the pool; alsoRead texts are just handed back
+  const attach = (current: FileNode[], batch: FileNode[], texts: Map<string, string>) => {
+    const paths = new Set(batch.map(f => f.path));
+    return current.map(f => (f.type === 'blob' && paths.has(f.path) && texts.has(f.path) ? withContent(f, texts.get(f.path)!) : f));
+  };
+
+  const manifests = selectManifests(files);
+  const first = await read([...manifests, ...alsoRead.filter(f => !manifests.includes(f))]);
+  const withManifests = attach(files, manifests, first);
+  const candidates = selectSourceFiles(withManifests, commits);
+  const second = await read(candidates);
+  return { files: attach(withManifests, candidates, second), texts: new Map([...first, ...second]) };
+};
+
+// Scores every fetched file, then fills the budget in rank order. Pinned files always go in (and
+// count against the budget); excluded files never do. Hotspots passed in get a boost on top of
+// plain churn, since that's where defects concentrate.
+export const rankSourceFiles = (
+  files: FileNode[],
+  commits: Commit[],
+  budget: number,
+  overrides: SourceOverrides,
+  hotspots: Hotspot[] = []
+): SourceSelection => {
+  const pool = files.filter(f => f.content);
+  const paths = new Set(pool.map(f => f.path));
+  const entrypoints = declaredEntrypoints(pool);
+
+  const importers = new Map<string, number>();
+  pool.forEach(f => resolveImports(f, paths).forEach(target => importers.set(target, (importers.get(target) || 0) + 1)));
+
+  const churn = countChurn(commits);
+
+  const hotspotRanks = new Map(hotspots.map(h => [h.path, h]));
+
+  const pinned = new Set(overrides.pinned);
+  const excluded = new Set(overrides.excluded);
+
+  const ranked = pool.map(f => {
+    const content = f.content || '';
+    let { score, reasons } = staticSignals(f.path);
+    reasons = [...reasons];
+
+    const declaredBy = entrypoints.get(f.path);
+    if (declaredBy) {
+      score += ENTRYPOINT_SCORE;
+      reasons.unshift(`entrypoint (${declaredBy})`);
+    }
+    const fanIn = importers.get(f.path) || 0;
+    if (fanIn > 0) {
+      score += Math.min(fanIn * 6, 36);
+      reasons.push(`imported by ${fanIn} file${fanIn === 1 ? '' : 's'}`);
+    }
+    const changes = churn.get(f.path) || 0;
+    if (changes > 0) {
+      score += churnScore(changes);
+      reasons.push(`changed in ${changes} recent commit${changes === 1 ? '' : 's'}`);
+    }
+    const hotspot = hotspotRanks.get(f.path);
+    if (hotspot) {
+      score += Math.round(10 + hotspot.score / 5);
+      reasons.push(`churn hotspot #${hotspot.rank}`);
+    }
+    if (content.length < 300) {
+      score -= 10;
+      reasons.push('very small');
+    } else if (f.truncated) {
+      score -= 5;
+      reasons.push('truncated');
+    }
+    if (GENERATED_MARKER.test(content.slice(0, 500))) {
+      score -= 100;
+      reasons.push('generated');
+    }
+
+    return { path: f.path, score, reasons, tokens: estimateTokens(content), included: false, pinned: pinned.has(f.path), excluded: excluded.has(f.path) };
+  });
+
+  ranked.sort((a, b) => Number(b.pinned) - Number(a.pinned) || b.score - a.score);
+
+  let usedTokens = 0;
+  ranked.forEach((f: RankedSourceFile) => {
+    if (f.excluded) return;
+    if (f.pinned || (f.score > 0 && usedTokens + f.tokens <= budget)) {
+      f.included = true;
+      usedTokens += f.tokens;
+    }
+  });
+
+  return { budget, usedTokens, files: ranked };
+};
@@ -0,0 +1,82 @@
+import { DirectorySummary, FileNode } from '../types';
+
+// Directory-level aggregates for repositories too large to list file by file. Directories the
+// provider hasn't walked yet are 'tree' FileNodes in the list; everything else is a blob.
+
+// Above this many files the prompt gets directory summaries instead of every path
+export const MAX_LISTED_TREE_FILES = 300;
+
+const LANGUAGE_BY_EXTENSION: Record<string, string> = {
+  ts: 'TypeScript', tsx: 'TypeScript', js: 'JavaScript', jsx: 'JavaScript', mjs: 'JavaScript', cjs: 'JavaScript',
+  py: 'Python', go: 'Go', rs: 'Rust', java: 'Java', kt: 'Kotlin', swift: 'Swift', rb: 'Ruby', php: 'PHP',
+  c: 'C', h: 'C', cpp: 'C++', cc: 'C++', hpp: 'C++', cs: 'C#', scala: 'Scala', dart: 'Dart', lua: 'Lua',
+  html: 'HTML', css: 'CSS', scss: 'SCSS', vue: 'Vue', svelte: 'Svelte', sh: 'Shell', sql: 'SQL', ipynb: 'Jupyter Notebook',
+};
+
+export const languageForPath = (path: string): string | undefined =>
+  LANGUAGE_BY_EXTENSION[path.split('.').pop()?.toLowerCase() || ''];
+
+export const pendingDirectories = (files: FileNode[]) => files.filter(f => f.type === 'tree');
+
+// Cumulative counts for every directory (each file counts toward all of its ancestors). '' is the root.
+export const summarizeDirectories = (files: FileNode[]): Map<string, DirectorySummary> => {
+  const summaries = new Map<string, DirectorySummary>();
+  const summaryFor = (path: string) => {
+    let summary = summaries.get(path);
+    if (!summary) {
+      summary = { path, fileCount: 0, bytes: 0, languages: {}, pending: false };
+      summaries.set(path, summary);
+    }
+    return summary;
+  };
+
+  files.forEach(f => {
+    const parts = f.path.split('/');
+    const ancestors = parts.slice(0, f.type === 'tree' ? parts.length : -1).map((_, i) => parts.slice(0, i + 1).join('/'));
+    [''].concat(ancestors).forEach(dir => {
+      const summary = summaryFor(dir);
+      if (f.type === 'tree') {
+        summary.pending = true;
+        return;
+      }
+      summary.fileCount++;
+      summary.bytes += f.size || 0;
+      const language = languageForPath(f.path);
+      if (language) summary.languages[language] = (summary.languages[language] || 0) + (f.size ?? 1);
+    });
+  });
+
+  return summaries;
+};
+
+export const formatBytes = (bytes: number) =>
+  bytes >= 1048576 ? `${(bytes / 1048576).toFixed(1)} MB` : bytes >= 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${bytes} B`;
+
+const describeSummary = (s: DirectorySummary) => {
+  const languages = Object.entries(s.languages).sort((a, b) => b[1] - a[1]).slice(0, 3);
+  const total = languages.reduce((acc, [, bytes]) => acc + bytes, 0) || 1;
+  const mix = languages.map(([name, bytes]) => `${name} ${Math.round((bytes / total) * 100)}%`).join(', ');
+  return `${s.path}/ - ${s.fileCount} files${s.bytes ? `, ${formatBytes(s.bytes)}` : ''}${mix ? `, ${mix}` : ''}${s.pending ? ' (partially listed)' : ''}`;
+};
+
+// The FILE TREE section of the prompt: every path for small repositories, directory summaries
+// (two levels deep) plus root files for large or partially listed ones
+export const describeTreeForPrompt = (files: FileNode[]): string => {
+  const pending = pendingDirectories(files);
+  const blobs = files.filter(f => f.type === 'blob');
+  if (blobs.length <= MAX_LISTED_TREE_FILES && pending.length === 0) {
+    return blobs.map(f => f.path).join('\n');
+  }
+
+  const summaries = [...summarizeDirectories(files).values()]
+    .filter(s => s.path && s.path.split('/').length <= 2)
+    .sort((a, b) => a.path.localeCompare(b.path));
+  const rootFiles = blobs.filter(f => !f.path.includes('/')).map(f => f.path);
+
+  return [
+    `Large repository: ${blobs.length} files listed, shown as directory summaries.`,
+    ...summaries.map(describeSummary),
+    rootFiles.length ? `Root files: ${rootFiles.join(', ')}` : '',
+    pending.length ? `Not walked (too large to list): ${pending.map(d => `${d.path}/`).join(', ')}` : '',
+  ].filter(Boolean).join('\n');
+};
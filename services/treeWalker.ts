@@ -0,0 +1,58 @@
+import { FileNode } from '../types';
+
+// Breadth-first listing for trees too large for one recursive call. Each directory is first tried
+// recursively; if the provider truncates that, only its direct children are taken and its
+// subdirectories are queued. Once the request budget is spent the queue is returned as 'tree'
+// nodes for the UI to expand on demand.
+
+// Directory listings spent on the initial load, and per on-demand expansion
+export const EAGER_TREE_REQUESTS = 20;
+export const LAZY_TREE_REQUESTS = 5;
+
+export interface TreeListing {
+  nodes: FileNode[]; // Blobs only
+  complete: boolean;
+}
+
+export interface TreeSource {
+  listRecursive: (directory: FileNode) => Promise<TreeListing>;
+  listLevel: (directory: FileNode) => Promise<FileNode[]>; // Blobs and 'tree' nodes
+}
+
+export const rootDirectory = (sha: string): FileNode => ({ path: '', mode: '040000', type: 'tree', sha, url: '' });
+
+export const walkTree = async (source: TreeSource, root: FileNode, budget: number): Promise<FileNode[]> => {
+  const files: FileNode[] = [];
+  let queue = [root];
+  let requests = 0;
+
+  while (queue.length) {
+    if (requests >= budget) {
+      files.push(...queue);
+      break;
+    }
+    const wave = queue.slice(0, budget - requests);
+    queue = queue.slice(wave.length);
+    requests += wave.length;
+
+    const next: FileNode[] = [];
+    await Promise.all(wave.map(async directory => {
+      try {
+        const listing = await source.listRecursive(directory);
+        if (listing.complete) {
+          files.push(...listing.nodes);
+          return;
+        }
+        const children = await source.listLevel(directory);
+        children.forEach(child => (child.type === 'tree' ? next.push(child) : files.push(child)));
+      } catch (e) {
+        console.warn(`Failed to list ${directory.path || 'repository root'}`, e);
+        // Leave it expandable so the reviewer can retry from the tree
+        if (directory.path) files.push(directory);
+      }
+    }));
+    queue = [...queue, ...next];
+  }
+
+  return files.sort((a, b) => a.path.localeCompare(b.path));
+};
@@ -0,0 +1,72 @@
+import { Commit, ReviewWindow, WindowComplianceReport, WindowViolation } from "../types";
+
+const STORAGE_KEY = "review_windows_v1";
+
+// Author and committer dates further apart than this suggest rebased / amended / force-pushed history
+export const MAX_DATE_SKEW_HOURS = 24;
+
+export const checkWindowCompliance = (commits: Commit[], window: ReviewWindow): WindowComplianceReport => {
+  const start = Date.parse(window.start);
+  const end = Date.parse(window.end);
+  const violations: WindowViolation[] = [];
+
+  commits.forEach((c) => {
+    const authorDate = Date.parse(c.commit.author.date);
+    const committerDate = c.commit.committer ? Date.parse(c.commit.committer.date) : NaN;
+    const base = {
+      sha: c.sha,
+      author: c.commit.author.name,
+      authorDate: c.commit.author.date,
+      committerDate: c.commit.committer?.date,
+      html_url: c.html_url,
+    };
+
+    if (authorDate < start) {
+      violations.push({ ...base, kind: "before_start", message: "Authored before the window opened (possible pre-built work)." });
+    } else if (authorDate > end) {
+      violations.push({ ...base, kind: "after_end", message: "Authored after the deadline." });
+    } else if (committerDate > end) {
+      violations.push({ ...base, kind: "after_end", message: "Authored in time but committed after the deadline." });
+    }
+
+    const skewHours = Math.abs(committerDate - authorDate) / 3600000;
+    if (skewHours > MAX_DATE_SKEW_HOURS) {
+      violations.push({
+        ...base,
+        kind: "date_anomaly",
+        message: `Author and committer dates differ by ${Math.round(skewHours)}h (rewritten or force-pushed history).`,
+      });
+    }
+  });
+
+  const offending = new Set(violations.map((v) => v.sha));
+
+  return {
+    window,
+    checkedCommits: commits.length,
+    compliantCommits: commits.length - offending.size,
+    violations,
+  };
+};
+
+// Review windows are remembered per repository (keyed by full_name)
+const loadAll = (): Record<string, ReviewWindow> => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}");
+  } catch (e) {
+    return {};
+  }
+};
+
+export const loadReviewWindow = (fullName: string): ReviewWindow | null =>
+  loadAll()[fullName.toLowerCase()] || null;
+
+export const saveReviewWindow = (fullName: string, window: ReviewWindow | null) => {
+  const all = loadAll();
+  if (window) {
+    all[fullName.toLowerCase()] = window;
+  } else {
+    delete all[fullName.toLowerCase()];
+  }
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+};
@@ -19,12 +19,18 @@ export interface Commit {
   commit: {
     message: string;
     author: {
+      name: string;
+      email?: string;
+      date: string;
+    };
+    committer?: {
       name: string;
       date: string;
     };
   };
   html_url: string;
   url: string; // API URL for fetching details
+  author?: { login: string; avatar_url?: string; type?: string } | null; // Linked hosting account, when known
   stats?: {
     additions: number;
     deletions: number;
@@ -49,8 +55,198 @@ export interface PullRequest {
   state: string;
   created_at: string;
   body: string | null;
+  reviews?: PullRequestReview[];
+  // Filled in for the most recent PRs by the provider's enrichment pass
+  merged_at?: string | null;
+  closed_at?: string | null;
+  requested_reviewers?: string[];
+  comments?: PullRequestComment[]; // First few conversation and inline review comments
+  comment_count?: number;
+  additions?: number;
+  deletions?: number;
+  changed_files?: number;
+  linked_issues?: number[];
+  head_sha?: string; // Commit CI ran against
+}
+
+export interface PullRequestReview {
+  author: string;
+  state: string; // APPROVED, CHANGES_REQUESTED, COMMENTED, DISMISSED
+  submitted_at?: string;
+}
+
+export interface PullRequestComment {
+  author: string;
+  body: string;
+  created_at: string;
+  path?: string; // Set for inline review comments
+}
+
+// A single pull request addressed by URL, for the focused PR review
+export interface PullRequestLocation {
+  repository: RepositoryLocation;
+  number: number;
+}
+
+export interface PullRequestFile {
+  filename: string;
+  previous_filename?: string;
+  status: string; // added, modified, removed, renamed, ...
+  additions: number;
+  deletions: number;
+  patch?: string; // Unified diff hunks; omitted by the API for binary or very large changes
+  content?: string; // Head version of the file, for context around the hunks
+}
+
+export interface PullRequestReviewData {
+  location: PullRequestLocation;
+  pullRequest: PullRequest;
+  baseRef: string;
+  headRef: string;
+  files: PullRequestFile[];
+  filesTotal: number; // Changed files reported by the API; files beyond the fetch cap are left out
+}
+
+// One rendered line of a parsed patch; line numbers are null on the side the line doesn't exist
+export interface DiffLine {
+  kind: 'hunk' | 'context' | 'add' | 'del';
+  oldLine: number | null;
+  newLine: number | null;
+  text: string;
+}
+
+export type FindingSeverity = 'critical' | 'major' | 'minor' | 'info';
+export type FindingCategory = 'bug' | 'security' | 'performance' | 'maintainability' | 'style' | 'testing' | 'documentation';
+
+// A line-level finding; line numbers refer to the head (new) version of the file
+export interface ReviewFinding {
+  file: string;
+  startLine: number;
+  endLine: number;
+  severity: FindingSeverity;
+  category: FindingCategory;
+  title: string;
+  suggestion: string;
+}
+
+export interface PullRequestReviewResult {
+  summary: string;
+  verdict: 'approve' | 'comment' | 'request_changes';
+  findings: ReviewFinding[];
+}
+
+// Aggregate review practice over the ingested PRs (durations in hours)
+export interface PullRequestReport {
+  total: number;
+  open: number;
+  merged: number;
+  closedUnmerged: number;
+  medianHoursToMerge: number | null;
+  reviewedMerged: number; // Merged PRs with at least one review by someone other than the author
+  approvedMerged: number;
+  medianLinesChanged: number | null;
+  largePullRequests: number; // Over LARGE_PR_LINES additions + deletions
+  linkedToIssues: number;
+}
+
+export interface Issue {
+  id: number;
+  number: number;
+  title: string;
+  state: 'open' | 'closed';
+  user: {
+    login: string;
+    avatar_url: string;
+  };
+  labels: string[];
+  assignees: string[];
+  html_url: string;
+  created_at: string;
+  updated_at: string;
+  closed_at: string | null;
+  comments: number;
+  // First comment by someone other than the author (null: none yet, undefined: not looked up)
+  first_response_at?: string | null;
+}
+
+// Aggregate tracker health derived from the ingested issues (durations in hours)
+export interface IssueHealthReport {
+  total: number;
+  open: number;
+  closed: number;
+  medianFirstResponseHours: number | null;
+  unansweredOpen: number; // Looked-up open issues with no response yet
+  medianTimeToCloseHours: number | null;
+  stale: Issue[]; // Open with no activity for STALE_ISSUE_DAYS
+  unassignedOpen: number;
+  unlabeled: number;
+  labels: { name: string; count: number }[];
+}
+
+// One CI execution (a GitHub Actions workflow run or a GitLab pipeline)
+export interface CiRun {
+  workflow: string; // Path of the definition that produced it
+  name: string;
+  event: string; // push, pull_request, schedule, ...
+  conclusion: 'success' | 'failure' | 'cancelled' | 'other' | null; // null while still running
+  durationMinutes: number | null;
+  created_at: string;
+}
+
+export interface CiWorkflow {
+  path: string;
+  name: string;
+  triggers: string[];
+  jobs: string[];
+  runs: number;
+  passRate: number | null; // 0-1 over runs that passed or failed
+  meanDurationMinutes: number | null;
+  lastConclusion: CiRun['conclusion'] | undefined;
+}
+
+export interface CiReport {
+  system: 'github-actions' | 'gitlab-ci' | null; // null when no CI definitions were found
+  workflows: CiWorkflow[];
+  runsAvailable: boolean; // False when run history couldn't be read (archives, disabled Actions, no access)
+  runsAnalyzed: number;
+  passRate: number | null;
+  meanDurationMinutes: number | null;
+  pullRequestChecks: { number: number; checks: number; failing: number; merged: boolean }[];
+  requiredChecks: string[] | null; // Required status checks on the default branch; null when not visible
+}
+
+export type DependencyEcosystem = 'npm' | 'pypi' | 'go' | 'cargo' | 'maven' | 'rubygems';
+
+// A dependency declared directly in a manifest
+export interface Dependency {
+  name: string;
+  ecosystem: DependencyEcosystem;
+  version: string; // As declared: exact version, range, or '*' when unconstrained
+  resolved?: string; // Version the lockfile settled on
+  pinned: boolean;
+  scope: 'runtime' | 'dev' | 'optional' | 'peer' | 'build';
+  manifest: string;
+}
+
+export interface DependencyManifest {
+  path: string;
+  ecosystem: DependencyEcosystem;
+  kind: 'manifest' | 'lockfile';
+  license?: string; // Project license declared in the manifest
+  packages: number; // Direct dependencies for manifests, every locked package for lockfiles
 }
 
+export interface DependencyReport {
+  manifests: DependencyManifest[];
+  direct: Dependency[];
+  transitiveCount: number | null; // null when no lockfile was found
+  duplicateFrameworks: { category: string; packages: string[] }[]; // Competing libraries for the same job
+  multipleVersions: { name: string; versions: string[] }[]; // Packages locked at several versions
+  licenses: { license: string; packages: number }[]; // Dependency licenses recorded in lockfiles
+  copyleft: { name: string; license: string }[];
+}
+
+// A 'tree' node is a directory the provider hasn't listed yet (large repositories are walked lazily)
 export interface FileNode {
   path: string;
   mode: string;
@@ -60,6 +256,7 @@ export interface FileNode {
   url: string;
   html_url?: string;
   content?: string; // Content of the file for analysis
+  truncated?: boolean; // content was cut to MAX_FILE_CONTENT_CHARS
 }
 
 export interface Branch {
@@ -71,22 +268,410 @@ export interface Branch {
   html_url?: string;
 }
 
+export interface Tag {
+  name: string;
+  commit: {
+    sha: string;
+    url: string;
+  };
+}
+
+// Which snapshot of the repository to analyze. Omitted means the tip of the default branch.
+export type AnalysisRef =
+  | { type: 'branch' | 'tag' | 'sha'; value: string }
+  | { type: 'date'; value: string }; // ISO timestamp; latest default-branch commit at or before it
+
+// The ref a load actually ran against
+export interface ResolvedRef {
+  label: string;
+  sha: string;
+}
+
 export interface Contributor {
   login: string;
   id: number;
   avatar_url: string;
   html_url: string;
   contributions: number;
+  type?: string; // 'Bot' for app accounts on GitHub
+}
+
+// One person (or bot) behind several contributor logins, commit names and emails
+export interface ContributorIdentity {
+  id: string; // Stable alias key of the form "login:x", "email:x" or "name:x"
+  name: string;
+  logins: string[];
+  names: string[];
+  emails: string[];
+  avatar_url: string;
+  html_url: string;
+  commits: number; // Ingested commits
+  contributions: number; // Provider contributor count, summed across merged logins
+  isBot: boolean;
+  excluded: boolean;
+  manuallyMerged: boolean;
+}
+
+// Reviewer corrections on top of the heuristics, remembered per repository (alias keys throughout)
+export interface IdentityOverrides {
+  merges: [string, string][];
+  excluded: string[];
+  included: string[]; // Detected bots the reviewer chose to keep
 }
 
 export interface ReviewRequestData {
   repo: RepoInfo;
   commits: Commit[];
   pullRequests: PullRequest[];
+  issues: Issue[];
   files: FileNode[];
   contributors: Contributor[];
   languages: Record<string, number>;
   readme: string | null;
+  ref?: ResolvedRef;
+  windowCompliance?: WindowComplianceReport;
+  sourceSelection?: SourceSelection;
+  ci?: CiReport;
+  dependencies?: DependencyReport;
+  ownership?: OwnershipReport;
+  hotspots?: HotspotReport;
+  promptBudgets?: PromptBudgets; // Defaults to DEFAULT_PROMPT_BUDGETS
+}
+
+// Parts of the review prompt the planner budgets separately
+export type PromptSection = 'readme' | 'tree' | 'languages' | 'commits' | 'pullRequests' | 'code' | 'contributors';
+
+// Tokens each section may take; code is the source selection's budget
+export type PromptBudgets = Record<PromptSection, number>;
+
+export interface PromptSectionPlan {
+  section: PromptSection | 'other'; // 'other' is everything unbudgeted: instructions, history, issues, CI...
+  text: string;
+  truncated: boolean; // The section was cut to fit its budget
+}
+
+// Backend token counts per section, with the text they were taken for so stale counts are ignored
+export type PromptTokenCounts = Partial<Record<PromptSectionPlan['section'], { text: string; tokens: number }>>;
+
+// What a review will send before it runs
+export interface ReviewPromptPlan {
+  sections: PromptSectionPlan[];
+  passes: number; // The repository context goes out once per pass
+  directoryPasses: number; // Per-directory passes of a multi-pass review, 0 otherwise
+  extraInputTokens: number; // Estimated prompts of a multi-pass review's directory passes
+  outputTokens: number; // Expected, not known up front
+}
+
+// Token counts the model backend reports once a generation finishes
+export interface TokenUsage {
+  input: number;
+  output: number;
+  total: number;
+}
+
+// Where a streamed generation stands; 'waiting' covers the request until the first token arrives
+export interface ReviewProgress {
+  phase: 'waiting' | 'streaming';
+  stage?: 'scores' | 'repair' | 'report'; // Which pass of a multi-pass review is running
+  attempt: number; // 1-based; later attempts mean an earlier key was rate limited or rejected
+  promptTokens: number; // Estimated from the prompt length
+  outputTokens: number; // Estimated from the streamed text
+}
+
+export type ReviewStreamChunk =
+  | { type: 'text'; content: string }
+  | { type: 'usage'; data: TokenUsage }
+  | { type: 'progress'; data: ReviewProgress }
+  // The validated structured result of a repository review, comparison or PR review, or why it couldn't be produced
+  | { type: 'analysis'; data: AIAnalysisResult }
+  | { type: 'comparison'; data: ComparisonResult }
+  | { type: 'pull-request-review'; data: PullRequestReviewResult }
+  | { type: 'analysis-error'; message: string }
+  // A per-directory pass of a multi-pass review changed state
+  | { type: 'module'; data: ModuleReview };
+
+export type ModuleFindingSeverity = 'high' | 'medium' | 'low';
+
+export interface ModuleFinding {
+  severity: ModuleFindingSeverity;
+  title: string;
+  detail: string;
+  path?: string;
+}
+
+// One directory's pass in a multi-pass review; the synthesis pass reads every finished one
+export interface ModuleReview {
+  name: string; // Directory path, "(root)" for top-level files, or "(other)" for small directories merged together
+  directories: string[];
+  files: string[]; // Files whose contents the pass reads
+  commits: number; // Detailed commits touching the module
+  status: 'pending' | 'running' | 'done' | 'failed' | 'skipped';
+  summary?: string;
+  findings: ModuleFinding[];
+  usage?: TokenUsage;
+  error?: string; // Why the pass failed or was skipped
+}
+
+// USD per million tokens
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+// User-set ceiling for a multi-pass review; null means no limit
+export interface ReviewBudget {
+  maxTokens: number | null;
+  maxCostUsd: number | null;
+}
+
+// The model a review runs on. Keys of the same provider and base URL rotate under it.
+export interface LLMTarget {
+  provider: LLMProviderKind;
+  baseUrl?: string; // Unset means the provider's public endpoint
+  model: string;
+}
+
+// Provider-neutral subset of JSON Schema used to request structured output
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'integer' | 'number' | 'boolean';
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+  minimum?: number;
+  maximum?: number;
+  enum?: string[]; // Allowed values of a string
+}
+
+export interface LLMRequest {
+  model: string;
+  prompt: string;
+  schema?: JsonSchema; // Asks for a JSON answer of this shape instead of free text
+  signal?: AbortSignal;
+}
+
+export type LLMStreamEvent =
+  | { type: 'text'; content: string }
+  | { type: 'usage'; data: TokenUsage }; // Totals for the call so far; the last one wins
+
+// Streams one prompt from a model backend. Failures are thrown; key rotation happens in the caller.
+export interface LLMProvider {
+  kind: LLMProviderKind;
+  label: string;
+  defaultBaseUrl: string;
+  defaultModel?: string;
+  requiresKey: boolean; // Local OpenAI-compatible servers usually run without one
+  stream: (key: ManagedKey, request: LLMRequest) => AsyncGenerator<LLMStreamEvent>;
+  // Exact prompt size from the backend's tokenizer; callers estimate from characters without it
+  countTokens?: (key: ManagedKey, model: string, text: string, signal?: AbortSignal) => Promise<number>;
+}
+
+export interface OwnerShare {
+  author: string;
+  changes: number;
+  share: number; // 0..1 of the directory's changes
+}
+
+// Who changed what under one directory ('' is the repository root); a change is one file in one commit
+export interface DirectoryOwnership {
+  path: string;
+  changes: number;
+  owners: OwnerShare[];
+  busFactor: number;
+}
+
+export interface OwnershipReport {
+  commitsAnalyzed: number; // commits that carried per-file changes
+  commitsTotal: number;
+  directories: Map<string, DirectoryOwnership>;
+  files: Map<string, OwnerShare[]>;
+}
+
+// A file that changes often and is large or deeply nested; score is 0..100 relative to the repository
+export interface Hotspot {
+  path: string;
+  rank: number;
+  changes: number; // commits touching the file
+  linesChanged: number; // added + removed lines seen in patches
+  authors: number;
+  lines: number;
+  linesEstimated: boolean; // content wasn't fetched, lines derived from blob size
+  nestingDepth: number | null;
+  score: number;
+}
+
+// How much of the ingested history got per-file changes on the last load
+export interface FileHistoryReport {
+  requested: number; // The File history setting, capped at the ingested commits
+  attempted: number; // Detail requests sent after scaling to the rate limit left
+  fetched: number; // Requests that came back with the commit's files
+}
+
+export interface HotspotReport {
+  commitsAnalyzed: number;
+  commitsTotal: number;
+  hotspots: Hotspot[];
+}
+
+// Reviewer overrides on top of the automatic ranking (file paths)
+export interface SourceOverrides {
+  pinned: string[];
+  excluded: string[];
+}
+
+export interface RankedSourceFile {
+  path: string;
+  score: number;
+  reasons: string[]; // Human-readable signals behind the score
+  tokens: number; // Estimated cost of sending the file's content
+  included: boolean;
+  pinned: boolean;
+  excluded: boolean;
+}
+
+// Which fetched files go to the model, ranked, and how much of the token budget they use
+export interface SourceSelection {
+  budget: number;
+  usedTokens: number;
+  files: RankedSourceFile[];
+}
+
+// How much commit history to ingest from the repository
+export type IngestionDepth =
+  | { mode: 'recent'; count: number }
+  | { mode: 'range'; since: string; until: string }
+  | { mode: 'all' };
+
+// Stages of a repository load, in the order providers run them
+export type IngestionPhase = 'metadata' | 'listing' | 'pull-requests' | 'issues' | 'commits' | 'contents' | 'analysis' | 'parsing';
+
+// Current phase with its item and byte progress, plus running counts of paginated history
+export interface IngestionProgress {
+  phase: IngestionPhase;
+  done: number; // Items finished in the current phase
+  total: number | null; // Items the phase will handle, when known up front
+  bytes: number; // Response bytes received so far
+  commits: number;
+  pullRequests: number;
+  issues: number;
+  branches: number;
+  contributors: number;
+}
+
+// Fixed start/end of a time-boxed submission (ISO timestamps)
+export interface ReviewWindow {
+  start: string;
+  end: string;
+}
+
+export type ActivityGranularity = 'day' | 'week';
+
+// One day or week of commit activity; start/end are epoch ms in the viewer's timezone, end exclusive
+export interface ActivityBucket {
+  start: number;
+  end: number;
+  label: string;
+  commits: number;
+  // Lines from the bucket's commits that carry stats; null when none of them do (unknown, not zero)
+  additions: number | null;
+  deletions: number | null;
+  byAuthor: Record<string, number>;
+}
+
+// Time range picked on the activity charts to filter the commit list
+export interface ActivityRange {
+  start: number;
+  end: number;
+}
+
+export type WindowViolationKind = 'before_start' | 'after_end' | 'date_anomaly';
+
+export interface WindowViolation {
+  sha: string;
+  kind: WindowViolationKind;
+  message: string;
+  author: string;
+  authorDate: string;
+  committerDate?: string;
+  html_url: string;
+}
+
+export interface WindowComplianceReport {
+  window: ReviewWindow;
+  checkedCommits: number;
+  compliantCommits: number;
+  violations: WindowViolation[];
+}
+
+export type ProviderKind = 'github' | 'github-enterprise' | 'gitlab' | 'archive';
+
+// Where a repository lives. For GitLab, owner is the full namespace path (groups/subgroups).
+// Uploaded archives use host "local" and the upload's name as repo.
+export interface RepositoryLocation {
+  provider: ProviderKind;
+  host: string;
+  owner: string;
+  repo: string;
+}
+
+// A self-hosted GitHub Enterprise Server or GitLab instance registered in Settings
+export interface ProviderHost {
+  host: string;
+  kind: Exclude<ProviderKind, 'github' | 'archive'>;
+  apiBase: string;
+}
+
+// Maps a hosting service's data into the shared RepoInfo/Commit/PullRequest/FileNode shapes
+export interface RepositoryProvider {
+  kinds: ProviderKind[];
+  fetchRepoDetails: (location: RepositoryLocation, options: FetchRepoOptions) => Promise<RepoDetails>;
+  // Lists a directory left unwalked by fetchRepoDetails; only providers that list trees partially need it
+  fetchDirectory?: (location: RepositoryLocation, ref: ResolvedRef, directory: FileNode) => Promise<FileNode[]>;
+  // Reads one file the load didn't download, e.g. when it gets pinned; null for binary or missing files
+  fetchFileContent?: (location: RepositoryLocation, ref: ResolvedRef, file: FileNode) => Promise<string | null>;
+  // Loads one pull request with its diff for the focused PR review
+  fetchPullRequest?: (location: PullRequestLocation, signal?: AbortSignal) => Promise<PullRequestReviewData>;
+}
+
+// Cumulative totals for one directory; '' is the repository root
+export interface DirectorySummary {
+  path: string;
+  fileCount: number;
+  bytes: number; // Sum of known blob sizes
+  languages: Record<string, number>; // Bytes per language (file counts where sizes are unknown)
+  pending: boolean; // Some subdirectory hasn't been listed yet
+}
+
+export type IngestionBackend = 'rest' | 'graphql';
+
+export interface FetchRepoOptions {
+  depth?: IngestionDepth;
+  fileHistory?: number; // Defaults to DEFAULT_FILE_HISTORY_COMMITS
+  // GraphQL backend only: per-file history costs a REST request per commit there, so it is off unless set
+  restFileHistory?: boolean;
+  backend?: IngestionBackend;
+  ref?: AnalysisRef;
+  window?: ReviewWindow;
+  onProgress?: (progress: IngestionProgress) => void;
+  signal?: AbortSignal;
+}
+
+// Everything fetchRepoDetails hands to the Dashboard, whichever backend produced it
+export interface RepoDetails {
+  info: RepoInfo;
+  commits: Commit[];
+  pullRequests: PullRequest[];
+  issues: Issue[];
+  files: FileNode[];
+  branches: Branch[];
+  tags: Tag[];
+  contributors: Contributor[];
+  readme: string | null;
+  languages: Record<string, number>;
+  ref: ResolvedRef;
+  windowCompliance?: WindowComplianceReport;
+  ci: CiReport;
+  dependencies: DependencyReport;
+  fileHistory?: FileHistoryReport; // Hosted providers only; archives diff every commit locally
 }
 
 export interface AIAnalysisResult {
@@ -106,18 +691,60 @@ export interface AIAnalysisResult {
     teamBalance: number;
     commitQuality: number;
     prQuality: number;
+    issueHealth: number;
     structureQuality: number;
   };
   commitSummaries: Record<string, string>; // Map SHA -> Description
   prSummaries: Record<string, string>; // Map PR Number -> Description
 }
 
+// Model backends a review can run on; an LLM key's type names its backend
+export type LLMProviderKind = 'gemini' | 'openai-compatible' | 'anthropic';
+
+export type KeyType = 'github' | 'gitlab' | LLMProviderKind;
+
 export interface ManagedKey {
   id: string;
   name: string;
-  type: 'github' | 'gemini';
+  type: KeyType;
   token: string;
+  // Self-hosted instance this token belongs to (e.g. "git.example.com"); unset means github.com / gitlab.com
+  host?: string;
+  // LLM keys only: endpoint override (e.g. "http://localhost:11434/v1" for Ollama) and the model to run
+  baseUrl?: string;
+  model?: string;
   isRateLimitedUntil?: number;
+  // Last quota reported by the API for this key
+  rateLimit?: {
+    limit: number;
+    remaining: number;
+    resetAt: number; // epoch ms
+  };
+  // Set when the API rejected the key itself (bad credentials, revoked, invalid API key)
+  invalidReason?: string;
+}
+
+// A repository loaded side by side with others in compare mode
+export interface ComparisonEntry {
+  location: RepositoryLocation;
+  details: RepoDetails;
+  scores?: AIAnalysisResult['scores'];
+}
+
+// One aligned row of the comparison table; highlight marks the best/worst value when they differ
+export interface ComparisonRow {
+  section: string;
+  label: string;
+  better: 'higher' | 'lower' | null;
+  values: (number | string | null)[];
+  display: string[];
+  highlight: ('best' | 'worst' | null)[];
+}
+
+// Per-repository scores and ranking from the comparative review
+export interface ComparisonResult {
+  scores: Record<string, AIAnalysisResult['scores']>;
+  ranking: string[];
 }
 
 export enum ViewState {